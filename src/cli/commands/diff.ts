@@ -1,30 +1,47 @@
 /**
  * bozly diff - Compare two sessions
  *
+ * Shows line diffs of prompt.txt, context.md and results.md.
+ *
  * Usage:
- *   bozly diff <session-id-1> <session-id-2>  # Compare prompt.txt files
- *   bozly diff --last 2                         # Compare last 2 sessions
+ *   bozly diff <session-id-1> <session-id-2>  # Compare two sessions
  *   bozly diff --command daily                  # Compare latest two "daily" executions
+ *   bozly diff --command daily --last 5         # Compare each of the last 5 runs with the next
+ *   bozly diff <id1> <id2> --side-by-side       # Show changes side by side
+ *   bozly diff <id1> <id2> --files prompt       # Only compare prompt.txt
+ *   bozly diff <id1> <id2> --json               # Output the diff as JSON
  */
 
 import { Command } from "commander";
 import { logger } from "../../core/logger.js";
-import { errorBox, warningBox, infoBox, theme } from "../../cli/ui/index.js";
-import { getCurrentNode } from "../../core/node.js";
 import {
-  diffSessions,
-  querySessions,
-  loadSessionFiles,
-  getSessionPath,
-} from "../../core/sessions.js";
-import path from "path";
+  errorBox,
+  warningBox,
+  infoBox,
+  theme,
+  formatUnifiedDiff,
+  formatSideBySideDiff,
+} from "../../cli/ui/index.js";
+import { getCurrentNode } from "../../core/node.js";
+import { diffSessionFiles, querySessions, loadSession } from "../../core/sessions.js";
+import { Session, SessionDiff, SessionFileDiff } from "../../core/types.js";
+
+const DIFF_FILES: Record<string, SessionFileDiff["file"]> = {
+  prompt: "prompt.txt",
+  context: "context.md",
+  results: "results.md",
+};
 
 export const diffCommand = new Command("diff")
-  .description("Compare two session prompts")
+  .description("Compare the prompts, context and results of two sessions")
   .argument("[session-id-1]", "First session ID (UUID)")
   .argument("[session-id-2]", "Second session ID (UUID)")
-  .option("-l, --last <number>", "Compare last N sessions of a command")
-  .option("-c, --command <name>", "Compare prompts from command")
+  .option("-l, --last <number>", "Compare the last N runs of a command (default: 2)")
+  .option("-c, --command <name>", "Compare runs of a command")
+  .option("-s, --side-by-side", "Show changes side by side")
+  .option("-f, --files <list>", "Files to compare: prompt,context,results (default: all)")
+  .option("-U, --unified <lines>", "Lines of context around each change", "3")
+  .option("--json", "Output the diff as JSON")
   .action(async (sessionId1, sessionId2, options) => {
     try {
       await logger.debug("bozly diff command started", {
@@ -48,7 +65,29 @@ export const diffCommand = new Command("diff")
 
       const vaultPath = node.path;
 
-      // Handle --last and --command modes
+      const context = parseInt(options.unified, 10);
+      if (isNaN(context) || context < 0) {
+        console.error(errorBox("Invalid --unified value", { received: options.unified }));
+        process.exit(1);
+      }
+
+      const files = (options.files ?? "prompt,context,results")
+        .split(",")
+        .map((name: string) => name.trim());
+      const unknown = files.filter((name: string) => !DIFF_FILES[name]);
+      if (unknown.length > 0) {
+        console.error(
+          errorBox(`Unknown file: ${unknown.join(", ")}`, {
+            expected: Object.keys(DIFF_FILES).join(", "),
+          })
+        );
+        process.exit(1);
+      }
+      const selected = new Set(files.map((name: string) => DIFF_FILES[name]));
+
+      // Work out which sessions to compare (oldest first in each pair)
+      const pairs: Array<[Session, Session]> = [];
+
       if (options.last || options.command) {
         // Query latest sessions for a command
         const command = options.command;
@@ -58,116 +97,63 @@ export const diffCommand = new Command("diff")
         }
 
         const limit = options.last ? parseInt(options.last, 10) : 2;
-        const sessions = await querySessions(vaultPath, { command, limit });
+        const sessions = (await querySessions(vaultPath, { command, limit })).reverse();
 
         if (sessions.length < 2) {
           console.log(warningBox(`Not enough sessions to compare. Found: ${sessions.length}`));
           process.exit(1);
         }
 
-        // Compare the most recent two
-        const sess1 = sessions[0];
-        const sess2 = sessions[1];
+        for (let i = 1; i < sessions.length; i++) {
+          pairs.push([sessions[i - 1], sessions[i]]);
+        }
 
-        console.log(infoBox(`Comparing last 2 executions of "${command}"`));
-        console.log(`Session 1: ${sess1.timestamp}`);
-        console.log(`Session 2: ${sess2.timestamp}\n`);
+        if (!options.json) {
+          console.log(infoBox(`Comparing last ${sessions.length} executions of "${command}"`));
+        }
+      } else {
+        // Handle explicit session ID mode
+        if (!sessionId1 || !sessionId2) {
+          console.error(
+            errorBox("Either provide two session IDs or use --command --last", {
+              usage1: "bozly diff <id1> <id2>",
+              usage2: "bozly diff --command daily --last 2",
+            })
+          );
+          process.exit(1);
+        }
 
-        // Load session files to get prompt.txt
-        const bozlyPath = path.join(vaultPath, ".bozly");
-        const path1 = getSessionPath(bozlyPath, sess1.nodeId, sess1.timestamp, sess1.id);
-        const path2 = getSessionPath(bozlyPath, sess2.nodeId, sess2.timestamp, sess2.id);
+        await logger.info("Comparing sessions", {
+          vaultPath,
+          sessionId1,
+          sessionId2,
+        });
 
-        const files1 = await loadSessionFiles(path1);
-        const files2 = await loadSessionFiles(path2);
+        const sess1 = await loadSession(vaultPath, sessionId1);
+        const sess2 = await loadSession(vaultPath, sessionId2);
 
-        if (!files1 || !files2) {
-          console.error(errorBox("Failed to load session files"));
+        if (!sess1 || !sess2) {
+          console.error(errorBox("One or both session IDs not found"));
           process.exit(1);
         }
 
-        // Show diff
-        displayPromptDiff(files1.promptTxt, files2.promptTxt, sess1.timestamp, sess2.timestamp);
-
-        // Show statistics
-        const diff = diffSessions(sess1, sess2);
-        console.log(
-          infoBox("Statistics", {
-            "Context size change": `${diff.differences.prompt.contextSize > 0 ? "+" : ""}${diff.differences.prompt.contextSize}B`,
-            "Total prompt change": `${diff.differences.prompt.total > 0 ? "+" : ""}${diff.differences.prompt.total}B`,
-            "Duration change": `${diff.differences.response.duration > 0 ? "+" : ""}${diff.differences.response.duration}ms`,
-            "Status changed": diff.differences.response.status ? "Yes" : "No",
-          })
-        );
-
-        return;
+        pairs.push([sess1, sess2]);
       }
 
-      // Handle explicit session ID mode
-      if (!sessionId1 || !sessionId2) {
-        console.error(
-          errorBox("Either provide two session IDs or use --command --last", {
-            usage1: "bozly diff <id1> <id2>",
-            usage2: "bozly diff --command daily --last 2",
-          })
-        );
-        process.exit(1);
+      const diffs: SessionDiff[] = [];
+      for (const [left, right] of pairs) {
+        const diff = await diffSessionFiles(left, right, { context });
+        diffs.push({ ...diff, files: diff.files?.filter((f) => selected.has(f.file)) });
       }
 
-      await logger.info("Comparing sessions", {
-        vaultPath,
-        sessionId1,
-        sessionId2,
-      });
-
-      // Query for both sessions
-      const sessions = await querySessions(vaultPath, {});
-      const sess1 = sessions.find((s) => s.id === sessionId1);
-      const sess2 = sessions.find((s) => s.id === sessionId2);
-
-      if (!sess1 || !sess2) {
-        console.error(errorBox("One or both session IDs not found"));
-        process.exit(1);
+      if (options.json) {
+        console.log(JSON.stringify(diffs.length === 1 ? diffs[0] : diffs, null, 2));
+        return;
       }
 
-      // Load session files
-      const bozlyPath = path.join(vaultPath, ".bozly");
-      const path1 = getSessionPath(bozlyPath, sess1.nodeId, sess1.timestamp, sess1.id);
-      const path2 = getSessionPath(bozlyPath, sess2.nodeId, sess2.timestamp, sess2.id);
-
-      const files1 = await loadSessionFiles(path1);
-      const files2 = await loadSessionFiles(path2);
-
-      if (!files1 || !files2) {
-        console.error(errorBox("Failed to load session files"));
-        process.exit(1);
+      for (const diff of diffs) {
+        displaySessionDiff(diff, options.sideBySide);
       }
-
-      console.log(infoBox("Comparing sessions", {}));
-      console.log(`Session 1 (${sessionId1}):`);
-      console.log(`  Command: ${sess1.command}`);
-      console.log(`  Timestamp: ${sess1.timestamp}`);
-      console.log(`  Provider: ${sess1.provider}`);
-      console.log();
-      console.log(`Session 2 (${sessionId2}):`);
-      console.log(`  Command: ${sess2.command}`);
-      console.log(`  Timestamp: ${sess2.timestamp}`);
-      console.log(`  Provider: ${sess2.provider}`);
-      console.log();
-
-      // Show diff
-      displayPromptDiff(files1.promptTxt, files2.promptTxt, sess1.timestamp, sess2.timestamp);
-
-      // Show statistics
-      const diff = diffSessions(sess1, sess2);
-      console.log(
-        infoBox("Statistics", {
-          "Context size change": `${diff.differences.prompt.contextSize > 0 ? "+" : ""}${diff.differences.prompt.contextSize}B`,
-          "Total prompt change": `${diff.differences.prompt.total > 0 ? "+" : ""}${diff.differences.prompt.total}B`,
-          "Duration change": `${diff.differences.response.duration > 0 ? "+" : ""}${diff.differences.response.duration}ms`,
-          "Status changed": diff.differences.response.status ? "Yes" : "No",
-        })
-      );
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       await logger.error("Failed to compare sessions", {
@@ -184,37 +170,38 @@ export const diffCommand = new Command("diff")
   });
 
 /**
- * Display a simple text diff of two prompts
+ * Helper: Display the file diffs and statistics of one session pair
  */
-function displayPromptDiff(prompt1: string, prompt2: string, time1: string, time2: string): void {
-  console.log(`\n--- Prompt from ${time1}`);
-  console.log(`+++ Prompt from ${time2}\n`);
-
-  const lines1 = prompt1.split("\n");
-  const lines2 = prompt2.split("\n");
-
-  const maxLen = Math.max(lines1.length, lines2.length);
-
-  // Simple diff: show lines that differ
-  let diffCount = 0;
-  for (let i = 0; i < maxLen; i++) {
-    const line1 = lines1[i] || "";
-    const line2 = lines2[i] || "";
+function displaySessionDiff(diff: SessionDiff, sideBySide: boolean | undefined): void {
+  console.log();
+  for (const [label, session] of [
+    ["---", diff.left],
+    ["+++", diff.right],
+  ] as const) {
+    console.log(
+      `${theme.bold(label)} ${session.id} ${theme.muted(`${session.command} • ${session.timestamp} • ${session.provider}`)}`
+    );
+  }
 
-    if (line1 !== line2) {
-      if (line1) {
-        console.log(theme.error(`- ${line1.substring(0, 80)}`));
-      }
-      if (line2) {
-        console.log(theme.success(`+ ${line2.substring(0, 80)}`));
-      }
-      diffCount++;
+  for (const file of diff.files ?? []) {
+    console.log();
+    console.log(
+      `${theme.highlight(file.file)} ${theme.success(`+${file.added}`)} ${theme.error(`-${file.removed}`)}`
+    );
+    if (file.hunks.length === 0) {
+      console.log(theme.muted("  (no differences)"));
+    } else {
+      console.log(sideBySide ? formatSideBySideDiff(file) : formatUnifiedDiff(file));
     }
   }
 
-  if (diffCount === 0) {
-    console.log(theme.muted("(No differences found in prompts)"));
-  } else {
-    console.log(theme.muted(`\n(${diffCount} lines changed)`));
-  }
+  console.log();
+  console.log(
+    infoBox("Statistics", {
+      "Context size change": `${diff.differences.prompt.contextSize > 0 ? "+" : ""}${diff.differences.prompt.contextSize}B`,
+      "Total prompt change": `${diff.differences.prompt.total > 0 ? "+" : ""}${diff.differences.prompt.total}B`,
+      "Duration change": `${diff.differences.response.duration > 0 ? "+" : ""}${diff.differences.response.duration}ms`,
+      "Status changed": diff.differences.response.status ? "Yes" : "No",
+    })
+  );
 }
@@ -9,23 +9,42 @@
  *   bozly logs --provider claude         # Filter by AI provider
  *   bozly logs --status completed        # Filter by status (completed, failed, dry_run)
  *   bozly logs --vault music-vault       # Filter by vault ID
- *   bozly logs --verbose                 # Show detailed information
+ *   bozly logs --verbose                 # Show detailed information and file changes
  *   bozly logs --since 2025-12-20        # Sessions since date (ISO format)
  *   bozly logs --until 2025-12-21        # Sessions until date (ISO format)
  *   bozly logs --global --stats          # Show global statistics
+ *
+ * --stats also totals tokens and cost per vault, command, provider and month,
+ * and shows where spending stands if a monthly budget is configured.
  */
 
 import { Command } from "commander";
 import { logger } from "../../core/logger.js";
 import { getCurrentNode } from "../../core/node.js";
-import { querySessions, querySessionsGlobal, getSessionStatsGlobal } from "../../core/sessions.js";
-import { SessionQueryOptions } from "../../core/types.js";
+import {
+  querySessions,
+  querySessionsGlobal,
+  getSessionStatsGlobal,
+  loadSessionChanges,
+} from "../../core/sessions.js";
+import { getGlobalConfig } from "../../core/config.js";
+import {
+  formatBudgetStatus,
+  formatCost,
+  getBudgetStatus,
+  getMonthlySpend,
+  getVaultSessionsRoots,
+  DEFAULT_CURRENCY,
+} from "../../core/costs.js";
+import { SessionQueryOptions, FileChanges, PricingConfig, UsageTotals } from "../../core/types.js";
 import {
   formatSessionTable,
   formatStatsTable,
   infoBox,
   errorBox,
   warningBox,
+  theme,
+  createTable,
 } from "../../cli/ui/index.js";
 import path from "path";
 import os from "os";
@@ -166,6 +185,11 @@ export const logsCommand = new Command("logs")
             console.log(formatStatsTable(providerStats));
           }
 
+          if (Object.keys(stats.sessionsByModel).length > 0) {
+            console.log("\nModels Used:");
+            console.log(formatStatsTable(stats.sessionsByModel));
+          }
+
           if (stats.commandsExecuted.length > 0) {
             console.log("\nTop Commands:");
             const topCommands = Object.fromEntries(
@@ -174,6 +198,7 @@ export const logsCommand = new Command("logs")
             console.log(formatStatsTable(topCommands));
           }
 
+          await displayUsageStats(stats, true);
           return;
         }
 
@@ -200,6 +225,7 @@ export const logsCommand = new Command("logs")
             if (session.error) {
               console.log(`  Error: ${session.error.message}`);
             }
+            displayFileChanges(await loadSessionChanges(session));
             console.log();
           }
         }
@@ -267,12 +293,18 @@ export const logsCommand = new Command("logs")
             console.log(formatStatsTable(providerStats));
           }
 
+          if (Object.keys(stats.sessionsByModel).length > 0) {
+            console.log("\nModels Used:");
+            console.log(formatStatsTable(stats.sessionsByModel));
+          }
+
           if (stats.commandsExecuted.length > 0) {
             console.log("\nCommands Executed:");
             const commandStats = Object.fromEntries(stats.commandsExecuted.map((cmd) => [cmd, ""]));
             console.log(formatStatsTable(commandStats));
           }
 
+          await displayUsageStats(stats, false);
           return;
         }
 
@@ -304,6 +336,7 @@ export const logsCommand = new Command("logs")
             if (session.error) {
               console.log(`  Error: ${session.error.message}`);
             }
+            displayFileChanges(await loadSessionChanges(session));
             console.log();
           }
         }
@@ -337,3 +370,88 @@ export const logsCommand = new Command("logs")
       process.exit(1);
     }
   });
+
+/**
+ * Helper: Display the vault files a session changed, with diff previews
+ */
+function displayFileChanges(changes: FileChanges | null): void {
+  if (!changes || changes.filesModified.length === 0) {
+    return;
+  }
+
+  const { totalFilesCreated, totalFilesModified, totalFilesDeleted } = changes.summary;
+  console.log(
+    `  Files: ${totalFilesCreated} created, ${totalFilesModified} modified, ${totalFilesDeleted} deleted`
+  );
+
+  const markers = { created: "+", modified: "~", deleted: "-" };
+  for (const change of changes.filesModified) {
+    const size =
+      change.action === "modified"
+        ? `${change.beforeSize ?? 0} → ${change.afterSize ?? 0} bytes`
+        : `${change.afterSize ?? change.beforeSize ?? 0} bytes`;
+    console.log(`    ${markers[change.action]} ${change.path} ${theme.muted(`(${size})`)}`);
+    if (change.diffPreview) {
+      for (const line of change.diffPreview.split("\n")) {
+        console.log(theme.muted(`        ${line}`));
+      }
+    }
+  }
+}
+
+/**
+ * Helper: Display token and cost totals, and the monthly budget status
+ */
+async function displayUsageStats(
+  stats: Awaited<ReturnType<typeof getSessionStatsGlobal>>,
+  byNode: boolean
+): Promise<void> {
+  let pricing: PricingConfig | undefined;
+  try {
+    pricing = (await getGlobalConfig()).pricing;
+  } catch {
+    // Show totals without budget
+  }
+  const currency = pricing?.currency ?? DEFAULT_CURRENCY;
+
+  if (stats.totalTokens > 0) {
+    console.log("\nToken Usage:");
+    console.log(
+      formatStatsTable({
+        "Total Tokens": stats.totalTokens.toLocaleString("en-US"),
+        ...(stats.totalCost > 0 && { "Total Cost": formatCost(stats.totalCost, currency) }),
+      })
+    );
+
+    const groups: Record<string, Record<string, UsageTotals>> = {
+      ...(byNode && { Vault: stats.usageByNode }),
+      Command: stats.usageByCommand,
+      Provider: stats.usageByProvider,
+      Month: stats.usageByMonth,
+    };
+    for (const [label, totals] of Object.entries(groups)) {
+      const table = createTable({ headers: [label, "Sessions", "Tokens", "Cost"] });
+      for (const [key, total] of Object.entries(totals)) {
+        table.push([
+          key,
+          String(total.sessions),
+          total.tokens.toLocaleString("en-US"),
+          total.cost > 0 ? formatCost(total.cost, currency) : "-",
+        ]);
+      }
+      console.log(table.toString());
+    }
+  }
+
+  // Budget spending counts every registered vault, whatever the filters
+  const budget = pricing?.monthlyBudget
+    ? getBudgetStatus(await getMonthlySpend(await getVaultSessionsRoots()), pricing)
+    : null;
+  if (budget) {
+    console.log(
+      budget.level === "ok"
+        ? infoBox(formatBudgetStatus(budget))
+        : warningBox(formatBudgetStatus(budget))
+    );
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * bozly memory - Manage session memories
+ *
+ * Usage:
+ *   bozly memory reextract --dry-run            # List the sessions that would be re-extracted
+ *   bozly memory reextract                      # Re-extract with the vault's memory.extraction
+ *   bozly memory reextract --ai ollama --model llama3.2 --since 2025-12-01
+ *   bozly memory reextract --heuristic --session 3f2a9c1e
+ */
+
+import { Command } from "commander";
+import { logger } from "../../core/logger.js";
+import { getCurrentNode } from "../../core/node.js";
+import { getNodeConfig } from "../../core/config.js";
+import { reextractSessionMemories } from "../../core/sessions.js";
+import { errorBox, successBox, warningBox, infoBox, theme, symbols } from "../../cli/ui/index.js";
+import { MemoryExtractionConfig } from "../../core/types.js";
+
+export const memoryCommand = new Command("memory").description("Manage session memories");
+
+/**
+ * memory reextract - Re-extract the memories of recorded sessions
+ */
+memoryCommand
+  .command("reextract")
+  .description("Re-extract the memories of recorded sessions (e.g. with AI extraction)")
+  .option("--ai [provider]", "Use AI extraction (default provider: memory.extraction.provider)")
+  .option("--model <model>", "Model for AI extraction")
+  .option("--heuristic", "Use the offline heuristic extractor")
+  .option("-c, --command <name>", "Only sessions of this command")
+  .option("--since <date>", "Only sessions since this date (ISO 8601)")
+  .option("--until <date>", "Only sessions until this date (ISO 8601)")
+  .option("-s, --session <id...>", "Only these sessions (ID or ID prefix)")
+  .option("-n, --limit <count>", "Re-extract at most this many sessions (newest first)")
+  .option("--dry-run", "List the sessions without extracting anything")
+  .action(async (options) => {
+    try {
+      await logger.debug("bozly memory reextract command started", { options });
+
+      const node = await getCurrentNode();
+      if (!node) {
+        console.log(
+          warningBox("Not in a vault directory", {
+            hint: "Run from within a vault to re-extract its session memories",
+          })
+        );
+        process.exit(1);
+      }
+
+      if (options.ai && options.heuristic) {
+        console.error(errorBox("Use either --ai or --heuristic, not both"));
+        process.exit(1);
+      }
+
+      const limit = options.limit ? parseInt(options.limit as string, 10) : undefined;
+      if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+        console.error(
+          errorBox("Invalid --limit", { received: options.limit, expected: "a positive number" })
+        );
+        process.exit(1);
+      }
+
+      const extraction = await resolveExtraction(options);
+      const results = await reextractSessionMemories(node.path, {
+        sessionIds: options.session,
+        command: options.command,
+        startDate: parseDateOption("--since", options.since),
+        endDate: parseDateOption("--until", options.until),
+        limit,
+        extraction,
+        dryRun: options.dryRun,
+      });
+
+      if (results.length === 0) {
+        console.log(infoBox("No sessions match", { Vault: node.name }));
+        return;
+      }
+
+      for (const result of results) {
+        const label = `${result.id.slice(0, 8)} ${result.command} ${theme.muted(result.timestamp)}`;
+        if (options.dryRun) {
+          console.log(`  ${symbols.bullet} ${label}`);
+        } else if (!result.method) {
+          console.log(`  ${symbols.error} ${label} ${theme.muted(`— ${result.error}`)}`);
+        } else if (result.error) {
+          console.log(
+            `  ${symbols.warning} ${label} ${theme.muted(`— heuristic fallback: ${result.error}`)}`
+          );
+        } else {
+          console.log(`  ${symbols.success} ${label} ${theme.muted(result.method)}`);
+        }
+      }
+      console.log();
+
+      const failed = options.dryRun ? 0 : results.filter((result) => !result.method).length;
+      const fellBack = results.filter((result) => result.method && result.error).length;
+      const details = {
+        Vault: node.name,
+        Sessions: results.length,
+        Extraction:
+          extraction?.mode === "ai"
+            ? `ai (${extraction.provider ?? "session provider"})`
+            : (extraction?.mode ?? "heuristic"),
+        ...(!options.dryRun && {
+          AI: results.filter((result) => result.method === "ai").length,
+          Heuristic: results.filter((result) => result.method === "heuristic").length,
+        }),
+        ...(fellBack > 0 && { "Fell back": fellBack }),
+        ...(failed > 0 && { Failed: failed }),
+      };
+
+      if (options.dryRun) {
+        console.log(infoBox("Dry run — nothing was written", details));
+      } else if (failed > 0 || fellBack > 0) {
+        console.log(warningBox("Memories re-extracted with problems", details));
+      } else {
+        console.log(successBox("Memories re-extracted", details));
+      }
+    } catch (error) {
+      await logger.error("Failed to re-extract memories", {
+        error: (error as Error).message,
+      });
+      console.error(
+        errorBox("Failed to re-extract memories", {
+          error: (error as Error).message,
+        })
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Helper: Combine the vault's memory.extraction with --ai/--model/--heuristic
+ */
+async function resolveExtraction(options: {
+  ai?: string | boolean;
+  model?: string;
+  heuristic?: boolean;
+}): Promise<MemoryExtractionConfig | undefined> {
+  const configured = (await getNodeConfig().catch(() => null))?.memory?.extraction;
+
+  if (options.heuristic) {
+    return { ...configured, mode: "heuristic" };
+  }
+  if (options.ai) {
+    return {
+      ...configured,
+      mode: "ai",
+      ...(typeof options.ai === "string" && { provider: options.ai }),
+      ...(options.model && { model: options.model }),
+    };
+  }
+  return configured;
+}
+
+/**
+ * Helper: Parse a date option to an ISO string (exits on invalid dates)
+ */
+function parseDateOption(flag: string, value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    console.error(
+      errorBox(`Invalid ${flag} date format`, {
+        received: value,
+        expected: "ISO 8601 (e.g., 2025-12-20)",
+      })
+    );
+    process.exit(1);
+  }
+  return date.toISOString();
+}
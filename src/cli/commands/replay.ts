@@ -0,0 +1,159 @@
+/**
+ * bozly replay - Re-run a past session's prompt
+ *
+ * Sends the prompt of a recorded session again, records the answer as a new
+ * session linked to the original, and shows how the output changed.
+ *
+ * Usage:
+ *   bozly replay <session-id>                    # Replay with the original provider
+ *   bozly replay <session-id> --ai gpt           # Replay against another provider
+ *   bozly replay <session-id> --current-context  # Use today's vault context
+ *   bozly replay <session-id> --dry              # Show the prompt without executing
+ */
+
+import { Command } from "commander";
+import { logger } from "../../core/logger.js";
+import { getCurrentNode } from "../../core/node.js";
+import { getNodeConfig, getGlobalConfig } from "../../core/config.js";
+import { validateProvider } from "../../core/providers.js";
+import { replaySession } from "../../core/replay.js";
+import { checkBudgetCrossing, formatBudgetStatus, formatSessionUsage } from "../../core/costs.js";
+import {
+  errorBox,
+  warningBox,
+  successBox,
+  infoBox,
+  theme,
+  formatUnifiedDiff,
+  formatSideBySideDiff,
+} from "../../cli/ui/index.js";
+
+export const replayCommand = new Command("replay")
+  .description("Re-run a past session's prompt, optionally against another provider")
+  .argument("<session-id>", "Session ID (UUID) to replay")
+  .option("--ai <provider>", "AI provider (default: the session's provider)")
+  .option("--model <model>", "AI model (default: the session's model for the same provider)")
+  .option("--current-context", "Use the vault's current context instead of the stored one")
+  .option("--dry", "Show the prompt that would be sent without executing")
+  .option("-s, --side-by-side", "Show the output diff side by side")
+  .action(async (sessionId, options) => {
+    try {
+      await logger.debug("bozly replay command started", {
+        sessionId,
+        provider: options.ai,
+        currentContext: options.currentContext,
+        dryRun: options.dry,
+      });
+
+      const node = await getCurrentNode();
+
+      if (!node) {
+        await logger.warn("Not in a node directory");
+        console.error(
+          warningBox("Not in a node directory", {
+            hint: "Run 'bozly replay' from within the node the session belongs to",
+          })
+        );
+        process.exit(1);
+      }
+
+      if (options.ai && !options.dry) {
+        try {
+          await validateProvider(options.ai);
+        } catch (error) {
+          console.error(
+            errorBox("Provider validation failed", {
+              error: error instanceof Error ? error.message : String(error),
+            })
+          );
+          process.exit(1);
+        }
+      }
+
+      // Get timezone from node config, fall back to global config
+      let timezone: string | undefined;
+      try {
+        timezone = (await getNodeConfig()).timezone;
+      } catch {
+        // If node config fails, try global config
+      }
+      const globalConfig = await getGlobalConfig();
+      timezone = timezone ?? globalConfig.timezone;
+
+      const result = await replaySession(node, sessionId, {
+        provider: options.ai,
+        model: options.model,
+        currentContext: options.currentContext,
+        dryRun: options.dry,
+        timezone,
+        pricing: globalConfig.pricing,
+      });
+      const { original, run } = result;
+
+      if (options.dry) {
+        console.log(
+          infoBox("Replay Details", {
+            Session: original.id,
+            Command: original.command,
+            Provider: `${original.provider} → ${run.provider}`,
+            ...(run.model && { Model: run.model }),
+            Context: options.currentContext ? "current" : "stored",
+          })
+        );
+        console.log("\nFull Prompt (will be sent to AI):");
+        console.log("─".repeat(35));
+        console.log(run.prompt);
+        console.log("─".repeat(35));
+        return;
+      }
+
+      // Output was streamed during execution
+      console.log();
+      const diff = result.outputDiff;
+      if (diff) {
+        console.log(
+          `${theme.bold("---")} ${original.id} ${theme.muted(`${original.provider} • ${original.timestamp}`)}`
+        );
+        console.log(
+          `${theme.bold("+++")} ${result.session?.id} ${theme.muted(`${run.provider} • ${result.session?.timestamp}`)}`
+        );
+        if (diff.hunks.length === 0) {
+          console.log(theme.muted("  (output unchanged)"));
+        } else {
+          console.log(options.sideBySide ? formatSideBySideDiff(diff) : formatUnifiedDiff(diff));
+        }
+        console.log();
+      }
+
+      console.log(
+        successBox("Session replayed", {
+          "Original session": original.id,
+          "New session": result.session?.id ?? "not recorded",
+          Provider: run.provider,
+          "Output change": diff ? `+${diff.added} -${diff.removed} lines` : "n/a",
+          ...(result.session?.usage && { Usage: formatSessionUsage(result.session.usage) }),
+        })
+      );
+
+      const budget = await checkBudgetCrossing(
+        globalConfig.pricing,
+        result.session?.usage?.cost
+      ).catch(() => null);
+      if (budget) {
+        console.log(warningBox(formatBudgetStatus(budget)));
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      await logger.error("Failed to replay session", {
+        sessionId,
+        error: errorMsg,
+      });
+
+      console.error(
+        errorBox("Failed to replay session", {
+          error: errorMsg,
+        })
+      );
+      process.exit(1);
+    }
+  });
@@ -8,9 +8,14 @@
  *   bozly run <command> --ai claude        # Use specific provider
  *   bozly run <command> --dry              # Preview prompt without execution
  *   bozly run <command> --list-providers   # Show available AI providers
+ *   bozly run <workflow> --max-parallel 2  # Limit concurrent workflow steps
+ *   bozly run <command> --explain-routing  # Show how the provider was chosen
+ *   bozly run <command> --yes              # Write AI output files without asking
+ *   bozly run <command> --compare claude,gpt  # Run against several providers side by side
  */
 
 import { Command } from "commander";
+import { confirm } from "@inquirer/prompts";
 import path from "path";
 import { logger } from "../../core/logger.js";
 import { getCurrentNode } from "../../core/node.js";
@@ -18,11 +23,46 @@ import { runNodeCommand, getCommand } from "../../core/commands.js";
 import { recordSession, loadPastMemories } from "../../core/sessions.js";
 import { executeHooks, HookContext } from "../../core/hooks.js";
 import { getDefaultProvider, formatProvidersList, validateProvider } from "../../core/providers.js";
-import { loadWorkflow, executeWorkflow } from "../../core/workflows.js";
+import { loadWorkflow, executeWorkflow, getWorkflowRunsPath } from "../../core/workflows.js";
 import { getNodeConfig, getGlobalConfig } from "../../core/config.js";
-import { resolveProvider } from "../../core/routing.js";
-import { errorBox, warningBox, successBox, infoBox, theme } from "../../cli/ui/index.js";
-import { NodeInfo } from "../../core/types.js";
+import {
+  resolveProvider,
+  resolveProviderForRun,
+  ProviderResolutionContext,
+} from "../../core/routing.js";
+import {
+  errorBox,
+  warningBox,
+  successBox,
+  infoBox,
+  theme,
+  symbols,
+  createTable,
+} from "../../cli/ui/index.js";
+import { snapshotVault, diffSnapshots, VaultSnapshot } from "../../core/file-tracking.js";
+import { compareProviders } from "../../core/comparison.js";
+import {
+  checkBudgetCrossing,
+  formatBudgetStatus,
+  formatCost,
+  formatSessionUsage,
+} from "../../core/costs.js";
+import {
+  parseOutputFileBlocks,
+  planOutputFileWrites,
+  applyOutputFileWrites,
+} from "../../core/output-files.js";
+import {
+  NodeInfo,
+  ChangeTrackingConfig,
+  FileChange,
+  OutputFileMode,
+  PricingConfig,
+  ContextSectionSize,
+  ContextIncludeSource,
+  Session,
+  WorkflowStepResult,
+} from "../../core/types.js";
 
 export const runCommand = new Command("run")
   .description("Execute a vault command with optional AI provider integration")
@@ -33,6 +73,10 @@ export const runCommand = new Command("run")
   .option("--no-context", "Run without vault context")
   .option("--list-providers", "Show available AI providers and installation status")
   .option("--verbose", "Include full prompt/response in session logs")
+  .option("--max-parallel <n>", "Max workflow steps to run at once")
+  .option("--explain-routing", "Show how the AI provider was chosen")
+  .option("-y, --yes", "Write files from the AI response without asking (output: files)")
+  .option("--compare <providers>", "Run against several providers in parallel (e.g. claude,gpt)")
   .action(async (commandArg, params, options) => {
     let node: NodeInfo | null = null; // Will be set after validation
     let cancelRequested = false;
@@ -120,6 +164,14 @@ export const runCommand = new Command("run")
       const isWorkflow = possibleWorkflow !== null;
 
       if (isWorkflow && possibleWorkflow) {
+        const maxParallel = options.maxParallel ? parseInt(options.maxParallel, 10) : undefined;
+        if (maxParallel !== undefined && (!Number.isInteger(maxParallel) || maxParallel <= 0)) {
+          console.error(
+            errorBox("--max-parallel must be a positive integer", { received: options.maxParallel })
+          );
+          process.exit(1);
+        }
+
         // Handle workflow execution
         try {
           await logger.info("Executing workflow", {
@@ -131,23 +183,44 @@ export const runCommand = new Command("run")
           const result = await executeWorkflow(possibleWorkflow, {
             dryRun: options.dry,
             verbose: options.verbose,
+            maxParallel,
+            runsPath: options.dry ? undefined : getWorkflowRunsPath(node.path),
+            onStepOutput: displayStepOutput,
           });
 
           // Display results
           console.log("");
+          const criticalPath =
+            result.criticalPath && result.criticalPath.length > 0
+              ? `${result.criticalPath.join(" → ")} (${result.criticalPathDuration ?? 0}ms)`
+              : "none";
           const workflowBox =
             result.stepsFailed > 0
               ? warningBox(`Workflow '${possibleWorkflow.id}' completed`, {
                   Steps: `${result.stepsCompleted}/${possibleWorkflow.steps.length}`,
                   Duration: `${result.duration}ms`,
+                  "Critical path": criticalPath,
                   Failed: String(result.stepsFailed),
                 })
               : successBox(`Workflow '${possibleWorkflow.id}' completed`, {
                   Steps: `${result.stepsCompleted}/${possibleWorkflow.steps.length}`,
                   Duration: `${result.duration}ms`,
+                  "Critical path": criticalPath,
                 });
           console.log(workflowBox);
 
+          const retried = result.steps.filter((s) => (s.attempts?.length ?? 0) > 1);
+          if (retried.length > 0) {
+            console.log("\nRetried steps:");
+            retried.forEach((s) => {
+              const providers = Array.from(new Set(s.attempts?.map((a) => a.provider)));
+              console.log(
+                `  ↻ ${s.stepId}: ${s.attempts?.length} attempts (${providers.join(" → ")})` +
+                  (s.status === "completed" ? `, succeeded with ${s.provider}` : "")
+              );
+            });
+          }
+
           if (result.stepsFailed > 0) {
             console.log("\nFailed steps:");
             result.steps
@@ -155,6 +228,9 @@ export const runCommand = new Command("run")
               .forEach((s) => {
                 console.log(`  ✗ ${s.stepId}: ${s.error}`);
               });
+            if (result.runId) {
+              console.log(theme.muted(`\nResume with: bozly workflows resume ${result.runId}`));
+            }
           }
 
           process.exit(result.stepsFailed > 0 ? 1 : 0);
@@ -176,11 +252,21 @@ export const runCommand = new Command("run")
         // Use smart routing to determine provider
         let provider = options.ai;
         let resolvedFrom = "cli";
+        let resolution: ProviderResolutionContext | undefined;
+        const paramsText = params && params.length > 0 ? params.join(" ") : undefined;
+        // Load command for frontmatter provider override and output handling
+        const command = await getCommand(node.path, commandArg);
+
+        if (options.compare) {
+          if (options.dry) {
+            console.error(errorBox("--compare can't be combined with --dry"));
+            process.exit(1);
+          }
+          await runComparison(node, commandArg, options.compare, paramsText, options.context);
+          return;
+        }
 
         if (!provider) {
-          // Load command to check for frontmatter provider override
-          const command = await getCommand(node.path, commandArg);
-
           if (command?.provider) {
             // Command has frontmatter provider override
             provider = command.provider;
@@ -190,32 +276,49 @@ export const runCommand = new Command("run")
               command: commandArg,
             });
           } else {
-            // Use smart routing hierarchy: command config > vault config > global config > default
-            const resolution = await resolveProvider(commandArg, undefined);
+            // Use smart routing: complexity-based strategy if configured, otherwise
+            // the hierarchy command config > vault config > global config > default
+            resolution = command
+              ? await resolveProviderForRun(node, command, paramsText)
+              : await resolveProvider(commandArg, undefined);
             provider = resolution.selectedProvider;
             resolvedFrom = resolution.resolvedFrom;
             await logger.info("Smart routing resolved provider", {
               provider,
               resolvedFrom,
               command: commandArg,
+              complexityScore: resolution.complexity?.score,
             });
           }
         } else {
           await logger.info("Using CLI-provided provider", { provider });
         }
 
-        // Validate provider if not doing dry run
+        if (options.explainRouting) {
+          displayRoutingExplanation(provider, resolvedFrom, resolution);
+        }
+
+        // Validate provider if not doing dry run; a missing provider is only
+        // fatal if no provider on the fallback chain can take over
         if (!options.dry) {
           try {
             await validateProvider(provider);
           } catch (error) {
             const errorMsg = error instanceof Error ? error.message : String(error);
-            console.error(
-              errorBox("Provider validation failed", {
-                error: errorMsg,
+            const fallback = await findAvailableFallback(provider);
+            if (!fallback) {
+              console.error(
+                errorBox("Provider validation failed", {
+                  error: errorMsg,
+                })
+              );
+              process.exit(1);
+            }
+            console.log(
+              warningBox(`Provider '${provider}' is not available`, {
+                "Falling back to": fallback,
               })
             );
-            process.exit(1);
           }
         }
 
@@ -243,11 +346,12 @@ export const runCommand = new Command("run")
 
         await executeHooks(node.path, "session-start", startContext);
 
-        // Load past memories for context injection
+        // Load the past memories most relevant to this command and its parameters
         let pastMemories: string[] = [];
         try {
           const bozlyPath = path.join(node.path, ".bozly");
-          pastMemories = await loadPastMemories(bozlyPath, node.id, 3);
+          const memoryQuery = [commandArg, command?.content, paramsText].filter(Boolean).join("\n");
+          pastMemories = await loadPastMemories(bozlyPath, node.id, 3, memoryQuery);
           if (pastMemories.length > 0) {
             await logger.debug("Loaded past memories for context", {
               count: pastMemories.length,
@@ -261,12 +365,27 @@ export const runCommand = new Command("run")
           // Continue without memories if loading fails
         }
 
+        // Snapshot vault files so changes made during the run can be recorded
+        let tracking: ChangeTrackingConfig | undefined;
+        let snapshot: VaultSnapshot | undefined;
+        if (!options.dry) {
+          try {
+            tracking = (await getNodeConfig()).changeTracking;
+          } catch {
+            // Track with defaults if the vault config can't be read
+          }
+          if (tracking?.enabled !== false) {
+            snapshot = await snapshotVault(node.path, tracking?.ignore);
+          }
+        }
+
         const result = await runNodeCommand(node, commandArg, {
           provider,
+          model: resolution?.selectedModel,
           dryRun: options.dry,
           includeContext: options.context,
           pastMemories,
-          params: params && params.length > 0 ? params.join(" ") : undefined,
+          params: paramsText,
         });
 
         await logger.info("Command execution completed", {
@@ -282,9 +401,16 @@ export const runCommand = new Command("run")
             infoBox("Dry Run Details", {
               Command: commandArg,
               Provider: result.provider,
+              ...(result.model && { Model: result.model }),
               "Context size": `${result.contextSize} characters`,
+              ...(result.tokenBudget !== undefined && {
+                "Prompt tokens": `~${sumSectionTokens(result.contextSections)} of ${result.tokenBudget} budget`,
+              }),
+              ...(command?.output === "files" && { Output: "files (written after confirmation)" }),
             })
           );
+          displayContextSections(result.contextSections ?? [], result.tokenBudget);
+          displayIncludes(result.includes ?? []);
           console.log("\nFull Prompt (will be sent to AI):");
           console.log("─".repeat(35));
           console.log(result.prompt);
@@ -293,22 +419,31 @@ export const runCommand = new Command("run")
           console.log(theme.muted(`To execute: bozly run ${commandArg} --ai ${result.provider}`));
         } else {
           // Output was streamed during execution
+          const filesWritten =
+            command?.output === "files"
+              ? await writeOutputFiles(
+                  node.path,
+                  result.output ?? "",
+                  command.outputMode,
+                  options.yes
+                )
+              : [];
+
+          const filesChanged = snapshot
+            ? diffSnapshots(snapshot, await snapshotVault(node.path, tracking?.ignore))
+            : [];
+          // Keep AI-written files even if change tracking skipped them
+          filesChanged.push(
+            ...filesWritten.filter((w) => !filesChanged.some((c) => c.path === w.path))
+          );
+
           // Record session for audit trail
+          let session: Session | undefined;
+          const pricing = await resolvePricing();
           try {
-            // Get timezone from node config, fall back to global config
-            let timezone: string | undefined;
-            try {
-              const nodeConfig = await getNodeConfig();
-              timezone = nodeConfig.timezone;
-            } catch {
-              // If node config fails, try global config
-            }
-            if (!timezone) {
-              const globalConfig = await getGlobalConfig();
-              timezone = globalConfig.timezone;
-            }
+            const timezone = await resolveTimezone();
 
-            await recordSession(
+            session = await recordSession(
               node.path,
               node.id,
               node.name,
@@ -318,14 +453,21 @@ export const runCommand = new Command("run")
                 contextText: result.contextText ?? "",
                 commandText: result.commandText ?? "",
                 modelsUsed: result.modelsUsed,
+                tokenBudget: result.tokenBudget,
+                sections: result.contextSections,
+                includes: result.includes,
               },
               {
                 text: result.output ?? "",
                 duration: result.duration ?? 0,
+                model: result.model,
+                usage: result.usage,
               },
-              [],
-              [],
-              timezone
+              result.executionLog ?? [],
+              filesChanged,
+              timezone,
+              undefined,
+              pricing
             );
 
             await logger.debug("Session recorded", {
@@ -361,7 +503,24 @@ export const runCommand = new Command("run")
           }
 
           console.log();
+          const attempted = result.attemptedProviders ?? [];
+          if (attempted.length > 1) {
+            console.log(
+              theme.muted(
+                `Answered by ${result.provider} after ${attempted.slice(0, -1).join(", ")} failed`
+              )
+            );
+          }
+          if (session?.usage) {
+            console.log(theme.muted(formatSessionUsage(session.usage)));
+          } else if (result.usage) {
+            console.log(theme.muted(`Tokens used: ${result.usage.totalTokens}`));
+          }
+          if (filesChanged.length > 0) {
+            console.log(theme.muted(`Files changed: ${filesChanged.length}`));
+          }
           console.log(successBox("Command completed successfully"));
+          await warnIfBudgetCrossed(pricing, session?.usage?.cost);
         }
       } // End else for normal command execution
     } catch (error) {
@@ -405,3 +564,364 @@ export const runCommand = new Command("run")
       process.exit(1);
     }
   });
+
+/**
+ * Helper: Get the timezone from node config, falling back to global config
+ */
+async function resolveTimezone(): Promise<string | undefined> {
+  try {
+    const nodeConfig = await getNodeConfig();
+    if (nodeConfig.timezone) {
+      return nodeConfig.timezone;
+    }
+  } catch {
+    // If node config fails, try global config
+  }
+  const globalConfig = await getGlobalConfig();
+  return globalConfig.timezone;
+}
+
+/**
+ * Helper: First installed provider on the global fallback chain (besides the primary)
+ */
+async function findAvailableFallback(primary: string): Promise<string | undefined> {
+  let fallbackChain: string[] = [];
+  try {
+    fallbackChain = (await getGlobalConfig()).routing?.fallbackChain ?? [];
+  } catch {
+    return undefined;
+  }
+
+  for (const candidate of fallbackChain.filter((p) => p !== primary)) {
+    try {
+      await validateProvider(candidate);
+      return candidate;
+    } catch {
+      // Try the next one
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Helper: Get the price table and monthly budget from global config
+ */
+async function resolvePricing(): Promise<PricingConfig | undefined> {
+  try {
+    return (await getGlobalConfig()).pricing;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Helper: Warn when a run pushed this month's spending over a budget threshold
+ */
+async function warnIfBudgetCrossed(
+  pricing: PricingConfig | undefined,
+  cost: number | undefined
+): Promise<void> {
+  try {
+    const budget = await checkBudgetCrossing(pricing, cost);
+    if (budget) {
+      console.log(warningBox(formatBudgetStatus(budget)));
+    }
+  } catch (error) {
+    await logger.warn("Failed to check monthly budget", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Helper: Run a command against several providers and show the results side by side
+ */
+async function runComparison(
+  node: NodeInfo,
+  commandArg: string,
+  providersArg: string,
+  paramsText: string | undefined,
+  includeContext: boolean | undefined
+): Promise<void> {
+  const providers = providersArg
+    .split(",")
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+
+  // Missing providers are recorded as failed entries of the comparison
+  for (const provider of providers) {
+    try {
+      await validateProvider(provider);
+    } catch (error) {
+      console.log(
+        warningBox("Provider validation failed", {
+          provider,
+          error: (error instanceof Error ? error.message : String(error)).split("\n")[0],
+        })
+      );
+    }
+  }
+
+  let pastMemories: string[] = [];
+  try {
+    const command = await getCommand(node.path, commandArg);
+    const memoryQuery = [commandArg, command?.content, paramsText].filter(Boolean).join("\n");
+    pastMemories = await loadPastMemories(path.join(node.path, ".bozly"), node.id, 3, memoryQuery);
+  } catch {
+    // Continue without memories if loading fails
+  }
+
+  console.log(infoBox(`Comparing ${providers.join(", ")} on "${commandArg}"`));
+
+  const pricing = await resolvePricing();
+  const result = await compareProviders(node, commandArg, providers, {
+    includeContext,
+    pastMemories,
+    params: paramsText,
+    timezone: await resolveTimezone(),
+    pricing,
+  });
+
+  // Output wasn't streamed, so show each provider's answer in turn
+  for (const entry of result.entries) {
+    console.log();
+    console.log(theme.highlight(`── ${entry.provider} ${"─".repeat(30)}`));
+    console.log(
+      entry.status === "completed" ? entry.output : theme.error(`${symbols.error} ${entry.error}`)
+    );
+  }
+
+  const fastest = result.entries
+    .filter((e) => e.status === "completed")
+    .sort((a, b) => a.duration - b.duration)[0];
+
+  const table = createTable({
+    headers: ["Provider", "Status", "Duration", "Output", "Tokens", "Session"],
+  });
+  for (const entry of result.entries) {
+    table.push([
+      entry.model ? `${entry.provider} (${entry.model})` : entry.provider,
+      entry.status === "completed"
+        ? theme.success(`${symbols.success} completed`)
+        : theme.error(`${symbols.error} failed`),
+      `${entry.duration}ms${entry === fastest ? " ★" : ""}`,
+      entry.status === "completed" ? `${entry.output.length} chars` : "-",
+      formatEntryUsage(entry.session),
+      entry.session?.id.slice(0, 8) ?? "not recorded",
+    ]);
+  }
+
+  console.log();
+  console.log(table.toString());
+  console.log(theme.muted(`Comparison ID: ${result.comparisonId}`));
+
+  const failed = result.entries.filter((e) => e.status === "failed").length;
+  if (failed === result.entries.length) {
+    console.log(errorBox("All providers failed"));
+    process.exit(1);
+  }
+  console.log(
+    failed > 0
+      ? warningBox(`Comparison completed with ${failed} failure(s)`)
+      : successBox("Comparison completed")
+  );
+
+  const cost = result.entries.reduce((sum, e) => sum + (e.session?.usage?.cost ?? 0), 0);
+  await warnIfBudgetCrossed(pricing, cost);
+}
+
+/**
+ * Helper: Show the output of a workflow step that ran quietly
+ */
+function displayStepOutput(result: WorkflowStepResult): void {
+  console.log();
+  console.log(theme.highlight(`── ${result.stepId} ${"─".repeat(30)}`));
+  console.log(
+    result.status === "completed" ? result.output : theme.error(`${symbols.error} ${result.error}`)
+  );
+}
+
+/**
+ * Helper: Tokens (and cost) of a comparison entry's session
+ */
+function formatEntryUsage(session: Session | undefined): string {
+  const usage = session?.usage;
+  if (!usage) {
+    return "-";
+  }
+  const tokens = `${usage.totalTokens}${usage.source === "estimate" ? "~" : ""}`;
+  return usage.cost !== undefined
+    ? `${tokens} (${formatCost(usage.cost, usage.currency)})`
+    : tokens;
+}
+
+/**
+ * Helper: Display how the provider for a run was chosen
+ */
+function displayRoutingExplanation(
+  provider: string,
+  resolvedFrom: string,
+  resolution: ProviderResolutionContext | undefined
+): void {
+  const complexity = resolution?.complexity;
+
+  console.log(
+    infoBox("Routing", {
+      Provider: provider,
+      ...(resolution?.selectedModel && { Model: resolution.selectedModel }),
+      "Resolved from": resolvedFrom,
+      Strategy: complexity ? "complexity-based" : "manual",
+      ...(complexity && { Score: `${complexity.score}/100` }),
+    })
+  );
+
+  if (complexity) {
+    for (const factor of complexity.factors) {
+      console.log(
+        theme.muted(
+          `  ${factor.name.padEnd(12)} ${String(factor.score).padStart(3)}/${factor.max}`
+        ) + `  ${factor.detail}`
+      );
+    }
+    console.log(
+      theme.muted(
+        resolution?.band
+          ? `  Band: score <= ${resolution.band.maxScore ?? "any"} → ${resolution.band.provider}`
+          : "  No complexity band matched; used the provider hierarchy"
+      )
+    );
+  }
+  console.log();
+}
+
+/**
+ * Helper: Total tokens of the prompt sections
+ */
+function sumSectionTokens(sections: ContextSectionSize[] | undefined): number {
+  return (sections ?? []).reduce((sum, section) => sum + section.tokens, 0);
+}
+
+/**
+ * Helper: Display the prompt sections and what fitting them to the token budget did
+ */
+function displayContextSections(sections: ContextSectionSize[], budget: number | undefined): void {
+  if (sections.length === 0) {
+    return;
+  }
+
+  console.log("\nPrompt sections (estimated tokens, by priority):");
+  for (const section of [...sections].sort((a, b) => b.priority - a.priority)) {
+    const size =
+      section.action === "kept"
+        ? String(section.tokens)
+        : `${section.originalTokens} ${symbols.arrowRight} ${section.tokens}`;
+    const line = `  ${section.name.padEnd(10)} ${size.padStart(16)}  ${section.action}`;
+    console.log(
+      section.action === "dropped"
+        ? theme.warning(line)
+        : section.action === "kept"
+          ? theme.muted(line)
+          : line
+    );
+  }
+
+  const dropped = sections.filter((section) => section.action === "dropped");
+  if (dropped.length > 0) {
+    console.log(
+      theme.warning(
+        `  ${symbols.warning} Dropped to fit the ${budget} token budget: ${dropped.map((s) => s.name).join(", ")}`
+      )
+    );
+  }
+  if (budget !== undefined && sumSectionTokens(sections) > budget) {
+    console.log(
+      theme.warning(
+        `  ${symbols.warning} The command and its parameters alone exceed the ${budget} token budget`
+      )
+    );
+  }
+}
+
+/**
+ * Helper: List the files pulled in by include directives (dry run)
+ */
+function displayIncludes(includes: ContextIncludeSource[]): void {
+  if (includes.length === 0) {
+    return;
+  }
+
+  console.log("\nIncluded files:");
+  for (const include of includes) {
+    if (include.error) {
+      console.log(
+        theme.warning(
+          `  ${symbols.warning} ${include.path} (from ${include.from}): ${include.error}`
+        )
+      );
+    } else {
+      const size = `${include.chars} chars${include.truncated ? ", truncated" : ""}`;
+      console.log(
+        `  ${symbols.bullet} ${include.path} ${theme.muted(`(from ${include.from}, ${size})`)}`
+      );
+    }
+  }
+}
+
+/**
+ * Helper: Preview file blocks from the AI response and write them after confirmation
+ *
+ * @returns Changes for the files written (empty if none or declined)
+ */
+async function writeOutputFiles(
+  vaultPath: string,
+  output: string,
+  defaultMode: OutputFileMode | undefined,
+  skipConfirm: boolean | undefined
+): Promise<FileChange[]> {
+  const blocks = parseOutputFileBlocks(output);
+  if (blocks.length === 0) {
+    console.log(theme.muted("\nNo file blocks found in the AI response"));
+    return [];
+  }
+
+  const writes = await planOutputFileWrites(vaultPath, blocks, defaultMode);
+  const valid = writes.filter((w) => !w.error);
+
+  console.log();
+  console.log(infoBox(`AI response contains ${blocks.length} file block(s)`));
+  for (const write of writes) {
+    const lines = write.content ? write.content.split("\n").length - 1 : 0;
+    if (write.error) {
+      console.log(`  ${symbols.error} ${write.path} ${theme.muted(`— skipped: ${write.error}`)}`);
+    } else {
+      const action = !write.exists ? "create" : write.mode === "append" ? "append" : "overwrite";
+      console.log(
+        `  ${symbols.bullet} ${write.path} ${theme.muted(`(${action}, ${lines} lines)`)}`
+      );
+    }
+  }
+  console.log();
+
+  if (valid.length === 0) {
+    return [];
+  }
+
+  if (!skipConfirm) {
+    if (!process.stdin.isTTY) {
+      console.log(warningBox("Files not written", { hint: "Re-run with --yes to write them" }));
+      return [];
+    }
+    const approved = await confirm({
+      message: `Write ${valid.length} file(s) to the vault?`,
+      default: true,
+    });
+    if (!approved) {
+      console.log(theme.muted("Files not written"));
+      return [];
+    }
+  }
+
+  const changes = await applyOutputFileWrites(writes);
+  console.log(successBox(`Wrote ${changes.length} file(s) to the vault`));
+  return changes;
+}
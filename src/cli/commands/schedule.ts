@@ -0,0 +1,264 @@
+/**
+ * bozly schedule - Manage scheduled workflows and commands
+ *
+ * Schedules come from a `schedule` field on workflows or in command
+ * frontmatter, in any registered vault.
+ *
+ * Usage:
+ *   bozly schedule list                     # List schedules with last/next run
+ *   bozly schedule enable <id>              # Enable a schedule
+ *   bozly schedule disable <id>             # Disable a schedule
+ *   bozly schedule run-now <id>             # Run a scheduled job immediately
+ *   bozly schedule start                    # Run the scheduler in the foreground
+ *   bozly schedule start --interval 60      # Check for due jobs every 60 seconds
+ *
+ * <id> is the full schedule ID ({vaultId}:{kind}:{name}), "{kind}:{name}",
+ * or just the workflow/command name when it's unique.
+ */
+
+import { Command } from "commander";
+import { logger } from "../../core/logger.js";
+import {
+  discoverScheduledJobs,
+  findScheduledJob,
+  loadSchedulerState,
+  isScheduledJobEnabled,
+  setScheduledJobEnabled,
+  getNextScheduledRun,
+  runScheduledJob,
+  recordScheduledRun,
+  startScheduler,
+  DEFAULT_SCHEDULER_INTERVAL_MS,
+} from "../../core/scheduler.js";
+import { formatInTimezone } from "../../utils/timezone.js";
+import { ScheduledJob, ScheduledJobState } from "../../core/types.js";
+import { infoBox, errorBox, successBox, warningBox, theme, symbols } from "../../cli/ui/index.js";
+
+export const scheduleCommand = new Command("schedule").description(
+  "Manage scheduled workflows and commands"
+);
+
+/**
+ * schedule list - Show all schedules
+ */
+scheduleCommand
+  .command("list")
+  .description("List scheduled workflows and commands across all vaults")
+  .action(async () => {
+    try {
+      await logger.debug("bozly schedule list command started");
+
+      const jobs = await discoverScheduledJobs();
+      if (jobs.length === 0) {
+        console.log(
+          warningBox("No schedules found", {
+            hint: 'Add "schedule": { "cron": "0 9 * * 1" } to a workflow or command frontmatter',
+          })
+        );
+        return;
+      }
+
+      const state = await loadSchedulerState();
+      console.log(infoBox("Schedules"));
+      jobs.forEach((job) => displayScheduledJob(job, state.jobs[job.id]));
+      console.log(theme.muted(`Total: ${jobs.length} schedule(s)`));
+    } catch (error) {
+      await logger.error("Failed to list schedules", {
+        error: (error as Error).message,
+      });
+      console.error(
+        errorBox("Failed to list schedules", {
+          error: (error as Error).message,
+        })
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * schedule enable / disable - Toggle a schedule
+ */
+for (const enabled of [true, false]) {
+  const action = enabled ? "enable" : "disable";
+
+  scheduleCommand
+    .command(`${action} <id>`)
+    .description(`${enabled ? "Enable" : "Disable"} a schedule`)
+    .action(async (id) => {
+      try {
+        await logger.debug(`bozly schedule ${action} command started`, { id });
+
+        const job = findScheduledJob(await discoverScheduledJobs(), id);
+        if (!job) {
+          console.error(
+            errorBox(`Schedule not found: ${id}`, {
+              hint: "Run 'bozly schedule list' to see schedules",
+            })
+          );
+          process.exit(1);
+        }
+
+        await setScheduledJobEnabled(job.id, enabled);
+        console.log(successBox(`Schedule ${enabled ? "enabled" : "disabled"}: ${job.id}`));
+      } catch (error) {
+        await logger.error(`Failed to ${action} schedule`, {
+          id,
+          error: (error as Error).message,
+        });
+        console.error(
+          errorBox(`Failed to ${action} schedule`, {
+            error: (error as Error).message,
+          })
+        );
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * schedule run-now - Run a scheduled job immediately
+ */
+scheduleCommand
+  .command("run-now <id>")
+  .description("Run a scheduled workflow or command immediately")
+  .action(async (id) => {
+    try {
+      await logger.debug("bozly schedule run-now command started", { id });
+
+      const job = findScheduledJob(await discoverScheduledJobs(), id);
+      if (!job) {
+        console.error(
+          errorBox(`Schedule not found: ${id}`, {
+            hint: "Run 'bozly schedule list' to see schedules",
+          })
+        );
+        process.exit(1);
+      }
+
+      console.log(infoBox(`Running ${job.kind} '${job.target}' in ${job.nodeName}`));
+      const result = await runScheduledJob(job);
+      // Keep the regular schedule; only record this run
+      await recordScheduledRun(result, undefined);
+
+      console.log("");
+      const details = {
+        Status: result.status,
+        Duration: `${result.duration}ms`,
+        ...(result.sessionId && { Session: result.sessionId }),
+        ...(result.workflowRunId && { Run: result.workflowRunId }),
+        ...(result.error && { Error: result.error }),
+      };
+      console.log(
+        result.status === "completed"
+          ? successBox(`Scheduled ${job.kind} completed`, details)
+          : warningBox(`Scheduled ${job.kind} did not complete`, details)
+      );
+      process.exit(result.status === "completed" ? 0 : 1);
+    } catch (error) {
+      await logger.error("Failed to run scheduled job", {
+        id,
+        error: (error as Error).message,
+      });
+      console.error(
+        errorBox("Failed to run scheduled job", {
+          error: (error as Error).message,
+        })
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * schedule start - Run the scheduler loop in the foreground
+ */
+scheduleCommand
+  .command("start")
+  .description("Run the scheduler in the foreground (Ctrl+C to stop)")
+  .option(
+    "--interval <seconds>",
+    "Seconds between checks for due jobs",
+    String(DEFAULT_SCHEDULER_INTERVAL_MS / 1000)
+  )
+  .action(async (options) => {
+    try {
+      const interval = parseInt(options.interval, 10);
+      if (!Number.isInteger(interval) || interval <= 0) {
+        console.error(errorBox("Interval must be a positive number of seconds"));
+        process.exit(1);
+      }
+
+      const scheduler = await startScheduler({
+        intervalMs: interval * 1000,
+        onRun: (job, result) => {
+          const symbol = result.status === "completed" ? symbols.success : symbols.error;
+          console.log(
+            `${symbol} ${new Date(result.startTime).toLocaleString()} ${job.id} — ${result.status} (${result.duration}ms)` +
+              (result.catchUp ? theme.muted(" [catch-up]") : "") +
+              (result.error ? theme.muted(` ${result.error}`) : "")
+          );
+        },
+      });
+
+      console.log(
+        successBox("Scheduler running", {
+          Interval: `${interval}s`,
+          Stop: "Ctrl+C",
+        })
+      );
+
+      for (const signal of ["SIGINT", "SIGTERM"]) {
+        process.on(signal, () => {
+          void scheduler.stop().then(() => {
+            console.log(theme.muted("\nScheduler stopped"));
+            process.exit(0);
+          });
+        });
+      }
+    } catch (error) {
+      await logger.error("Failed to start scheduler", {
+        error: (error as Error).message,
+      });
+      console.error(
+        errorBox("Failed to start scheduler", {
+          error: (error as Error).message,
+        })
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Helper: Display one schedule with its state
+ */
+function displayScheduledJob(job: ScheduledJob, state: ScheduledJobState | undefined): void {
+  const enabled = isScheduledJobEnabled(job, state);
+  const status = job.error ? "invalid" : enabled ? "enabled" : "disabled";
+
+  console.log(theme.info(`  ${job.id}`));
+  console.log(
+    theme.muted(
+      `    ${job.kind} '${job.target}' in ${job.nodeName} ${symbols.bullet} ${job.cron} (${job.timezone}) ${symbols.bullet} ${status}`
+    )
+  );
+
+  if (job.error) {
+    console.log(theme.muted(`    Error: ${job.error}`));
+  }
+
+  if (state?.lastRun) {
+    console.log(
+      theme.muted(
+        `    Last run: ${formatInTimezone(state.lastRun, job.timezone)} — ${state.lastStatus ?? "unknown"}` +
+          (state.lastError ? ` (${state.lastError})` : "")
+      )
+    );
+  }
+
+  if (enabled && !job.error) {
+    const nextRun = state?.nextRun ? new Date(state.nextRun) : getNextScheduledRun(job, new Date());
+    console.log(
+      theme.muted(`    Next run: ${nextRun ? formatInTimezone(nextRun, job.timezone) : "never"}`)
+    );
+  }
+  console.log("");
+}
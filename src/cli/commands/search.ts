@@ -3,6 +3,7 @@
  *
  * Usage:
  *   bozly search "query"                              # Search everywhere
+ *   bozly search '"exact phrase" tag:music'           # Phrases and tag:/command:/vault: prefixes
  *   bozly search "query" --command music              # Filter by command
  *   bozly search "query" --provider claude            # Filter by provider
  *   bozly search "query" --older-than 7               # Sessions from last 7 days
@@ -12,6 +13,7 @@
  *   bozly search "query" --json                       # JSON output
  *   bozly search "query" --export results.json        # Export to JSON
  *   bozly search "query" --export results.csv         # Export to CSV
+ *   bozly search "query" --reindex                    # Rebuild the search indexes first
  */
 
 import { Command } from "commander";
@@ -24,7 +26,7 @@ import { formatSearchResultsTable, successBox, errorBox, theme } from "../../cli
 
 export const searchCommand = new Command("search")
   .description("Search across all vaults for sessions, memories, and commands")
-  .argument("<query>", "Search query text")
+  .argument("<query>", 'Search query ("phrases", tag:, command: and vault: prefixes)')
   .option("-c, --command <name>", "Filter by command name")
   .option("-p, --provider <provider>", "Filter by provider (claude, gpt, gemini, ollama)")
   .option("-n, --vaults <vaults>", "Comma-separated vault IDs to search")
@@ -35,6 +37,7 @@ export const searchCommand = new Command("search")
   .option("-l, --limit <number>", "Max results (default: 50)")
   .option("--json", "Output as JSON")
   .option("-e, --export <file>", "Export results to file (JSON or CSV based on extension)")
+  .option("--reindex", "Rebuild the search indexes before searching")
   .action(async (query: string, options) => {
     try {
       await logger.debug("bozly search command started", {
@@ -54,6 +57,10 @@ export const searchCommand = new Command("search")
 
       // Create searcher
       const searcher = new CrossNodeSearcher(bozlyPath);
+      if (options.reindex) {
+        const documents = await searcher.rebuildSearchIndexes();
+        await logger.info("Search indexes rebuilt", { documents });
+      }
 
       // Build search query
       const searchQuery: SearchQuery = {
@@ -216,6 +223,29 @@ function displaySearchResults(results: AggregatedSearchResults): void {
     console.log(formatSearchResultsTable(tableData));
   }
 
+  // Best-matching passages of the top results
+  const snippets = [
+    ...resultsByType.sessions.slice(0, 3).map((r) => ({
+      label: `${r.session.command} (${r.nodeInfo.nodeName})`,
+      snippet: r.snippet,
+    })),
+    ...resultsByType.memories.slice(0, 3).map((r) => ({
+      label: `memory: ${r.memory.command} (${r.memory.nodeName})`,
+      snippet: r.snippet,
+    })),
+    ...resultsByType.commands.slice(0, 3).map((r) => ({
+      label: `command: ${r.command.name}`,
+      snippet: r.snippet,
+    })),
+  ].filter((item) => item.snippet);
+  for (const { label, snippet } of snippets) {
+    console.log(`${theme.primary(label)}`);
+    console.log(`  ${formatSnippet(snippet ?? "")}`);
+  }
+  if (snippets.length > 0) {
+    console.log();
+  }
+
   // Show truncation notices
   if (counts.sessions > 10) {
     console.log(theme.muted(`... and ${counts.sessions - 10} more sessions`));
@@ -236,6 +266,13 @@ function displaySearchResults(results: AggregatedSearchResults): void {
   );
 }
 
+/**
+ * Highlight the **marked** matches of a snippet
+ */
+function formatSnippet(snippet: string): string {
+  return snippet.replace(/\*\*(.+?)\*\*/g, (_, match: string) => theme.highlight(match));
+}
+
 /**
  * Convert search results to CSV format
  */
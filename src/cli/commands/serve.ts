@@ -4,6 +4,7 @@ import { startServer } from "../../server/index.js";
 import { killServerOnPort, findServerPID } from "../../core/server-manager.js";
 import { getDefaultPort, getDefaultHost, isValidPort } from "../../core/port-config.js";
 import { ConfigManager } from "../../core/config-manager.js";
+import { startScheduler, SchedulerHandle } from "../../core/scheduler.js";
 import { errorBox, successBox, infoBox, warningBox } from "../ui/index.js";
 
 export const serveCommand = new Command()
@@ -13,6 +14,7 @@ export const serveCommand = new Command()
   .option("-h, --host <host>", "Server host (default: 127.0.0.1, or BOZLY_HOST env)")
   .option("-o, --open", "Open browser automatically")
   .option("--no-open", "Do not open browser automatically")
+  .option("--scheduler", "Also run scheduled workflows and commands (see 'bozly schedule')")
   .action(async (options) => {
     try {
       // Use provided port or fall back to config
@@ -84,16 +86,37 @@ export const serveCommand = new Command()
       console.log(`  API Health:    http://${host}:${port}/api/health\n`);
       console.error("[SERVE] Server is ready and waiting for requests");
 
+      // Optionally host the scheduler loop in this process
+      let scheduler: SchedulerHandle | null = null;
+      if (options.scheduler) {
+        try {
+          scheduler = await startScheduler({
+            onRun: (job, result) => {
+              console.error(`[SERVE] Scheduled ${job.id}: ${result.status}`);
+            },
+          });
+          console.log(`  Scheduler:     running\n`);
+        } catch (error) {
+          console.log(
+            warningBox(
+              `Scheduler not started: ${error instanceof Error ? error.message : String(error)}`
+            )
+          );
+        }
+      }
+
       // Graceful shutdown
       console.error("[SERVE] Setting up signal handlers");
       const signals = ["SIGINT", "SIGTERM"];
       signals.forEach((signal) => {
         process.on(signal, () => {
           console.error(`[SERVE] Got ${signal} signal`);
-          void fastify.close().then(() => {
-            successBox("Shutting down BOZLY Server...");
-            process.exit(0);
-          });
+          void Promise.resolve(scheduler?.stop())
+            .then(() => fastify.close())
+            .then(() => {
+              successBox("Shutting down BOZLY Server...");
+              process.exit(0);
+            });
         });
       });
       console.error("[SERVE] Signal handlers setup complete");
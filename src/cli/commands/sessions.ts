@@ -0,0 +1,321 @@
+/**
+ * bozly sessions - Manage recorded sessions
+ *
+ * Usage:
+ *   bozly sessions reindex            # Rebuild the current vault's session index
+ *   bozly sessions reindex --global   # Rebuild the global index (~/.bozly/sessions)
+ *   bozly sessions migrate --dry-run  # Show sessions that need a schema upgrade
+ *   bozly sessions export backup.tar.gz --command daily --since 2025-12-01
+ *   bozly sessions export --all       # Export every registered node's sessions
+ *   bozly sessions import backup.tar.gz --dry-run
+ */
+
+import { Command } from "commander";
+import path from "path";
+import os from "os";
+import { logger } from "../../core/logger.js";
+import { getCurrentNode } from "../../core/node.js";
+import { getNode, listNodes } from "../../core/registry.js";
+import { rebuildSessionIndex, getSessionIndexPath } from "../../core/session-index.js";
+import { exportSessionBundle, importSessionBundle } from "../../core/session-bundle.js";
+import {
+  migrateSessionsOnDisk,
+  CURRENT_SESSION_SCHEMA_VERSION,
+} from "../../core/session-migrations.js";
+import { errorBox, successBox, warningBox, infoBox, theme, symbols } from "../../cli/ui/index.js";
+import { NodeInfo } from "../../core/types.js";
+
+export const sessionsCommand = new Command("sessions").description("Manage recorded sessions");
+
+/**
+ * sessions reindex - Rebuild the session index from the session folders
+ */
+sessionsCommand
+  .command("reindex")
+  .description("Rebuild the session index by scanning recorded sessions")
+  .option("-g, --global", "Rebuild the global index (~/.bozly/sessions)")
+  .action(async (options) => {
+    try {
+      await logger.debug("bozly sessions reindex command started", { options });
+
+      let sessionsRoot: string;
+      if (options.global) {
+        sessionsRoot = path.join(os.homedir(), ".bozly", "sessions");
+      } else {
+        const node = await getCurrentNode();
+        if (!node) {
+          console.log(
+            warningBox("Not in a vault directory", {
+              hint: "Run from within a vault, or use 'bozly sessions reindex --global'",
+            })
+          );
+          process.exit(1);
+        }
+        sessionsRoot = path.join(node.path, ".bozly", "sessions");
+      }
+
+      const entries = await rebuildSessionIndex(sessionsRoot);
+
+      await logger.info("Session index rebuilt", { sessionsRoot, count: entries.length });
+      console.log(
+        successBox("Session index rebuilt", {
+          Sessions: entries.length,
+          Index: getSessionIndexPath(sessionsRoot),
+        })
+      );
+    } catch (error) {
+      await logger.error("Failed to rebuild session index", {
+        error: (error as Error).message,
+      });
+      console.error(
+        errorBox("Failed to rebuild session index", {
+          error: (error as Error).message,
+        })
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * sessions migrate - Upgrade stored sessions to the current schema version
+ */
+sessionsCommand
+  .command("migrate")
+  .description(`Upgrade stored sessions to schema ${CURRENT_SESSION_SCHEMA_VERSION}`)
+  .option("-g, --global", "Migrate the global sessions (~/.bozly/sessions)")
+  .option("--dry-run", "Show what would be migrated without writing anything")
+  .action(async (options) => {
+    try {
+      await logger.debug("bozly sessions migrate command started", { options });
+
+      let sessionsRoot: string;
+      if (options.global) {
+        sessionsRoot = path.join(os.homedir(), ".bozly", "sessions");
+      } else {
+        const node = await getCurrentNode();
+        if (!node) {
+          console.log(
+            warningBox("Not in a vault directory", {
+              hint: "Run from within a vault, or use 'bozly sessions migrate --global'",
+            })
+          );
+          process.exit(1);
+        }
+        sessionsRoot = path.join(node.path, ".bozly", "sessions");
+      }
+
+      const report = await migrateSessionsOnDisk(sessionsRoot, { dryRun: options.dryRun });
+
+      for (const item of report.migrated) {
+        console.log(`  ${symbols.bullet} ${item.path} ${theme.muted(`${item.from} → ${item.to}`)}`);
+      }
+      for (const item of report.newer) {
+        console.log(
+          theme.muted(`  ${symbols.warning} ${item.path} — schema ${item.version} is newer`)
+        );
+      }
+      for (const item of report.failed) {
+        console.log(theme.muted(`  ${symbols.error} ${item.path} — ${item.error}`));
+      }
+      if (report.migrated.length + report.newer.length + report.failed.length > 0) {
+        console.log();
+      }
+
+      const details = {
+        Scanned: report.scanned,
+        [options.dryRun ? "To migrate" : "Migrated"]: report.migrated.length,
+        "Up to date": report.upToDate,
+        ...(report.newer.length > 0 && { "Newer schema": report.newer.length }),
+        ...(report.failed.length > 0 && { Unreadable: report.failed.length }),
+      };
+      if (options.dryRun) {
+        console.log(infoBox("Dry run — nothing was written", details));
+      } else if (report.failed.length > 0 || report.newer.length > 0) {
+        console.log(warningBox("Sessions migrated with problems", details));
+      } else {
+        console.log(successBox("Sessions migrated", details));
+      }
+    } catch (error) {
+      await logger.error("Failed to migrate sessions", {
+        error: (error as Error).message,
+      });
+      console.error(
+        errorBox("Failed to migrate sessions", {
+          error: (error as Error).message,
+        })
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * sessions export - Write sessions and their memories to a portable archive
+ */
+sessionsCommand
+  .command("export")
+  .description("Export sessions (with memories) to a .tar.gz archive")
+  .argument("[file]", "Archive to write (default: bozly-sessions-<date>.tar.gz)")
+  .option("-n, --node <nodes>", "Nodes to export, by ID or name (comma-separated)")
+  .option("-a, --all", "Export every registered node")
+  .option("-c, --command <name>", "Only sessions of this command")
+  .option("--since <date>", "Sessions since date (ISO 8601 format)")
+  .option("--until <date>", "Sessions until date (ISO 8601 format)")
+  .action(async (file, options) => {
+    try {
+      await logger.debug("bozly sessions export command started", { file, options });
+
+      let nodes: NodeInfo[];
+      if (options.all) {
+        nodes = await listNodes();
+      } else if (options.node) {
+        nodes = [];
+        for (const idOrName of (options.node as string).split(",").map((n) => n.trim())) {
+          const node = await getNode(idOrName);
+          if (!node) {
+            console.error(errorBox(`Node not found: ${idOrName}`));
+            process.exit(1);
+          }
+          nodes.push(node);
+        }
+      } else {
+        const node = await getCurrentNode();
+        if (!node) {
+          console.log(
+            warningBox("Not in a vault directory", {
+              hint: "Run from within a vault, or use --node <id> or --all",
+            })
+          );
+          process.exit(1);
+        }
+        nodes = [node];
+      }
+
+      const outputPath = path.resolve(
+        file ?? `bozly-sessions-${new Date().toISOString().slice(0, 10)}.tar.gz`
+      );
+      const result = await exportSessionBundle(nodes, outputPath, {
+        command: options.command,
+        startDate: parseDateOption("--since", options.since),
+        endDate: parseDateOption("--until", options.until),
+      });
+
+      if (result.sessions === 0) {
+        console.log(
+          warningBox("No sessions matched; wrote an empty archive", { File: result.path })
+        );
+        return;
+      }
+
+      console.log(
+        successBox("Sessions exported", {
+          Sessions: result.sessions,
+          Memories: result.memories,
+          Nodes: nodes.map((n) => n.name).join(", "),
+          Size: `${(result.bytes / 1024).toFixed(1)} KB`,
+          File: result.path,
+        })
+      );
+    } catch (error) {
+      await logger.error("Failed to export sessions", {
+        error: (error as Error).message,
+      });
+      console.error(
+        errorBox("Failed to export sessions", {
+          error: (error as Error).message,
+        })
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * sessions import - Add the sessions of an exported archive to local nodes
+ */
+sessionsCommand
+  .command("import")
+  .description("Import sessions from an archive created by 'bozly sessions export'")
+  .argument("<file>", "Archive to import")
+  .option(
+    "-n, --node <node>",
+    "Node for sessions whose node isn't registered here (default: current)"
+  )
+  .option("--dry-run", "Show what would be imported without writing anything")
+  .action(async (file, options) => {
+    try {
+      await logger.debug("bozly sessions import command started", { file, options });
+
+      let defaultNode: NodeInfo | undefined;
+      if (options.node) {
+        defaultNode = await getNode(options.node);
+        if (!defaultNode) {
+          console.error(errorBox(`Node not found: ${options.node}`));
+          process.exit(1);
+        }
+      } else {
+        defaultNode = (await getCurrentNode()) ?? undefined;
+      }
+
+      const nodes = await listNodes();
+      const result = await importSessionBundle(path.resolve(file), {
+        nodes,
+        defaultNode,
+        dryRun: options.dryRun,
+      });
+
+      const byNode = new Map<string, number>();
+      for (const item of result.imported) {
+        byNode.set(item.nodeId, (byNode.get(item.nodeId) ?? 0) + 1);
+      }
+      for (const [nodeId, count] of byNode) {
+        const name = nodes.find((n) => n.id === nodeId)?.name ?? defaultNode?.name ?? nodeId;
+        console.log(`  ${symbols.bullet} ${name}: ${count} session(s)`);
+      }
+      for (const skipped of result.skipped) {
+        console.log(theme.muted(`  ${symbols.error} ${skipped.id} — ${skipped.reason}`));
+      }
+      if (byNode.size > 0 || result.skipped.length > 0) {
+        console.log();
+      }
+
+      const details = {
+        Imported: result.imported.length,
+        Skipped: result.skipped.length,
+        "Memories indexed": result.memoriesIndexed,
+      };
+      console.log(
+        options.dryRun
+          ? infoBox("Dry run — nothing was written", details)
+          : successBox("Sessions imported", details)
+      );
+    } catch (error) {
+      await logger.error("Failed to import sessions", {
+        error: (error as Error).message,
+      });
+      console.error(
+        errorBox("Failed to import sessions", {
+          error: (error as Error).message,
+        })
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Helper: Parse a date option to an ISO string (exits on invalid dates)
+ */
+function parseDateOption(flag: string, value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    console.error(
+      errorBox(`Invalid ${flag} date format`, {
+        received: value,
+        expected: "ISO 8601 (e.g., 2025-12-20)",
+      })
+    );
+    process.exit(1);
+  }
+  return date.toISOString();
+}
@@ -6,14 +6,24 @@
  *   bozly workflows list --all              # List all (vault + global)
  *   bozly workflows show <id>               # Show workflow details
  *   bozly workflows validate <id>           # Validate workflow structure
+ *   bozly workflows runs <id>               # Show run history for a workflow
+ *   bozly workflows resume <runId>          # Resume a failed run, skipping completed steps
  */
 
 import { Command } from "commander";
 import { logger } from "../../core/logger.js";
-import { discoverWorkflows, loadWorkflow, validateWorkflow } from "../../core/workflows.js";
+import {
+  discoverWorkflows,
+  loadWorkflow,
+  validateWorkflow,
+  executeWorkflow,
+  getWorkflowRunsPath,
+  listWorkflowRuns,
+  loadWorkflowRun,
+} from "../../core/workflows.js";
 import { getCurrentNode } from "../../core/node.js";
 import { getRegistry } from "../../core/registry.js";
-import { Workflow } from "../../core/types.js";
+import { Workflow, WorkflowRun, WorkflowStepResult } from "../../core/types.js";
 import { infoBox, errorBox, successBox, warningBox, theme, symbols } from "../../cli/ui/index.js";
 
 export const workflowsCommand = new Command("workflows").description(
@@ -184,6 +194,201 @@ workflowsCommand
     }
   });
 
+/**
+ * workflows runs - Show run history for a workflow
+ */
+workflowsCommand
+  .command("runs <id>")
+  .description("Show run history for a workflow")
+  .option("-l, --limit <n>", "Max runs to show", "10")
+  .action(async (id, options) => {
+    try {
+      await logger.debug("bozly workflows runs command started", { id });
+
+      const node = await getCurrentNode();
+      if (!node) {
+        console.error(
+          errorBox("No vault found", {
+            hint: "Run 'bozly init' first",
+          })
+        );
+        process.exit(1);
+      }
+
+      const runs = await listWorkflowRuns(getWorkflowRunsPath(node.path), id);
+      if (runs.length === 0) {
+        console.log(warningBox(`No runs recorded for workflow '${id}'`));
+        return;
+      }
+
+      console.log(infoBox(`Runs of '${id}'`));
+      runs.slice(0, parseInt(options.limit, 10)).forEach((run) => displayWorkflowRun(run));
+      console.log(theme.muted(`Total: ${runs.length} run(s)`));
+    } catch (error) {
+      await logger.error("Failed to list workflow runs", {
+        id,
+        error: (error as Error).message,
+      });
+      console.error(
+        errorBox("Failed to list workflow runs", {
+          error: (error as Error).message,
+        })
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * workflows resume - Resume a persisted run, skipping completed steps
+ */
+workflowsCommand
+  .command("resume <runId>")
+  .description("Resume a workflow run, skipping steps that already completed")
+  .option("--max-parallel <n>", "Max steps to run at once")
+  .action(async (runId, options) => {
+    try {
+      await logger.debug("bozly workflows resume command started", { runId });
+
+      const maxParallel = options.maxParallel ? parseInt(options.maxParallel, 10) : undefined;
+      if (maxParallel !== undefined && (!Number.isInteger(maxParallel) || maxParallel <= 0)) {
+        console.error(
+          errorBox("--max-parallel must be a positive integer", { received: options.maxParallel })
+        );
+        process.exit(1);
+      }
+
+      const node = await getCurrentNode();
+      if (!node) {
+        console.error(
+          errorBox("No vault found", {
+            hint: "Run 'bozly init' first",
+          })
+        );
+        process.exit(1);
+      }
+
+      const runsPath = getWorkflowRunsPath(node.path);
+      const run = await loadWorkflowRun(runsPath, runId);
+      if (!run) {
+        console.error(errorBox(`Workflow run not found: ${runId}`));
+        process.exit(1);
+      }
+
+      const workflow = await loadWorkflow(node.path, run.workflowId);
+      if (!workflow) {
+        console.error(errorBox(`Workflow not found: ${run.workflowId}`));
+        process.exit(1);
+      }
+
+      // The workflow may have been edited since the run failed
+      const errors = validateWorkflow(workflow, await getRegistry());
+      if (errors.length > 0) {
+        console.error(errorBox(`Workflow '${workflow.id}' has ${errors.length} error(s)`));
+        console.log("");
+        errors.forEach((error) => {
+          console.log(theme.error(`  [${error.step}] ${error.field}: ${error.message}`));
+        });
+        process.exit(1);
+      }
+
+      if (workflow.version !== run.workflowVersion) {
+        console.log(
+          warningBox("Workflow changed since this run", {
+            "Run version": run.workflowVersion,
+            "Current version": workflow.version,
+          })
+        );
+      }
+
+      const completed = run.steps.filter((s) => s.status === "completed").map((s) => s.stepId);
+      console.log(
+        infoBox(`Resuming '${workflow.id}'`, {
+          Run: run.runId,
+          "Already completed": completed.length > 0 ? completed.join(", ") : "none",
+        })
+      );
+
+      const result = await executeWorkflow(workflow, {
+        runsPath,
+        resumeRun: run,
+        maxParallel,
+        onStepOutput: displayStepOutput,
+      });
+
+      console.log("");
+      const summary = {
+        Steps: `${result.stepsCompleted}/${workflow.steps.length}`,
+        Duration: `${result.duration}ms`,
+      };
+      console.log(
+        result.stepsFailed > 0
+          ? warningBox(`Workflow '${workflow.id}' completed`, {
+              ...summary,
+              Failed: String(result.stepsFailed),
+            })
+          : successBox(`Workflow '${workflow.id}' completed`, summary)
+      );
+
+      result.steps
+        .filter((s) => s.status === "failed")
+        .forEach((s) => console.log(theme.error(`  ✗ ${s.stepId}: ${s.error}`)));
+
+      process.exit(result.stepsFailed > 0 ? 1 : 0);
+    } catch (error) {
+      await logger.error("Failed to resume workflow run", {
+        runId,
+        error: (error as Error).message,
+      });
+      console.error(
+        errorBox("Failed to resume workflow run", {
+          error: (error as Error).message,
+        })
+      );
+      process.exit(1);
+    }
+  });
+
+/**
+ * Helper: Show the output of a workflow step that ran quietly
+ */
+function displayStepOutput(result: WorkflowStepResult): void {
+  console.log();
+  console.log(theme.highlight(`── ${result.stepId} ${"─".repeat(30)}`));
+  console.log(
+    result.status === "completed" ? result.output : theme.error(`${symbols.error} ${result.error}`)
+  );
+}
+
+/**
+ * Helper: Display a persisted workflow run
+ */
+function displayWorkflowRun(run: WorkflowRun): void {
+  const completed = run.steps.filter((s) => s.status === "completed").length;
+  console.log(theme.info(`  ${run.runId}`));
+  console.log(
+    theme.muted(
+      `    ${run.status} ${symbols.bullet} ${completed} step(s) completed ${symbols.bullet} ${run.duration ?? 0}ms`
+    )
+  );
+  console.log(theme.muted(`    Started: ${new Date(run.startTime).toLocaleString()}`));
+  if (run.resumedAt && run.resumedAt.length > 0) {
+    console.log(theme.muted(`    Resumed: ${run.resumedAt.length} time(s)`));
+  }
+  run.steps
+    .filter((s) => s.status !== "completed")
+    .forEach((s) => {
+      console.log(theme.muted(`    ${s.status}: ${s.stepId}${s.error ? ` — ${s.error}` : ""}`));
+    });
+  run.steps
+    .filter((s) => s.status === "completed" && (s.attempts?.length ?? 0) > 1)
+    .forEach((s) => {
+      console.log(
+        theme.muted(`    retried: ${s.stepId} — ${s.attempts?.length} attempts, via ${s.provider}`)
+      );
+    });
+  console.log("");
+}
+
 /**
  * Helper: Display workflow details
  */
@@ -198,6 +403,18 @@ function displayWorkflowDetails(workflow: Workflow): void {
     console.log(workflow.description);
   }
 
+  if (workflow.maxParallel) {
+    console.log(theme.muted(`Max parallel steps: ${workflow.maxParallel}`));
+  }
+
+  if (workflow.schedule) {
+    console.log(
+      theme.muted(
+        `Schedule: ${workflow.schedule.cron}${workflow.schedule.timezone ? ` (${workflow.schedule.timezone})` : ""}`
+      )
+    );
+  }
+
   if (workflow.metadata) {
     console.log("");
     if (workflow.metadata.frequency) {
@@ -219,9 +436,18 @@ function displayWorkflowDetails(workflow: Workflow): void {
       console.log(theme.muted(`     ${step.description}`));
     }
     console.log(theme.muted(`     → Run '${step.command}' on node '${step.node}'`));
+    if (step.conditional?.requires && step.conditional.requires.length > 0) {
+      console.log(theme.muted(`     Requires: ${step.conditional.requires.join(", ")}`));
+    }
     console.log(
       theme.muted(`     On error: ${step.onError} (timeout: ${step.timeout ?? 300000}ms)`)
     );
+    if (step.onError === "retry") {
+      console.log(theme.muted(`     Max attempts: ${step.retry?.maxAttempts ?? 3} per provider`));
+    }
+    if (step.fallbackProviders && step.fallbackProviders.length > 0) {
+      console.log(theme.muted(`     Fallback providers: ${step.fallbackProviders.join(", ")}`));
+    }
   });
 
   console.log("");
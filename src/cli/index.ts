@@ -13,6 +13,7 @@ import os from "os";
 
 // Import logger
 import { logger, LogLevel } from "../core/logger.js";
+import { loadUserProviders } from "../core/providers.js";
 
 // Import commands
 import { initCommand } from "./commands/init.js";
@@ -25,8 +26,12 @@ import { runCommand } from "./commands/run.js";
 import { configCommand } from "./commands/config.js";
 import { logsCommand } from "./commands/logs.js";
 import { diffCommand } from "./commands/diff.js";
+import { replayCommand } from "./commands/replay.js";
+import { sessionsCommand } from "./commands/sessions.js";
+import { memoryCommand } from "./commands/memory.js";
 import { versionCommand } from "./commands/version.js";
 import { workflowsCommand } from "./commands/workflows.js";
+import { scheduleCommand } from "./commands/schedule.js";
 import { cleanupCommand } from "./commands/cleanup.js";
 import { commandCommand } from "./commands/command.js";
 import { templateCommand } from "./commands/template.js";
@@ -107,6 +112,9 @@ async function main(): Promise<void> {
   // Initialize logger
   await initializeLogger();
 
+  // Load user-defined providers once; provider lookups use them from memory
+  await loadUserProviders();
+
   // Log CLI startup
   await logger.debug("BOZLY CLI starting", {
     version: FULL_VERSION,
@@ -156,8 +164,12 @@ async function main(): Promise<void> {
   program.addCommand(configCommand);
   program.addCommand(logsCommand);
   program.addCommand(diffCommand);
+  program.addCommand(replayCommand);
+  program.addCommand(sessionsCommand);
+  program.addCommand(memoryCommand);
   program.addCommand(versionCommand);
   program.addCommand(workflowsCommand);
+  program.addCommand(scheduleCommand);
   program.addCommand(cleanupCommand);
   program.addCommand(commandCommand);
   program.addCommand(templateCommand);
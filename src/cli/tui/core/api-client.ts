@@ -1,6 +1,7 @@
 import axios, { AxiosInstance } from "axios";
 import { getAPIURL } from "../../../core/port-config.js";
 import { ConfigManager } from "../../../core/config-manager.js";
+import type { FileChanges } from "../../../core/types.js";
 
 export interface APIError {
   code: string;
@@ -136,6 +137,15 @@ export class APIClient {
     return response.data.data || response.data;
   }
 
+  /**
+   * Get the vault files a session changed (changes.json)
+   */
+  async getSessionChanges(vaultId: string, sessionId: string): Promise<FileChanges | null> {
+    const response = await this.client.get(`/vaults/${vaultId}/sessions/${sessionId}`);
+    const session = (response.data.data ?? response.data) as { changes?: FileChanges } | undefined;
+    return session?.changes ?? null;
+  }
+
   async deleteSession(id: string): Promise<void> {
     await this.client.delete(`/sessions/${id}`);
     this.invalidateCache("/sessions");
@@ -2,6 +2,7 @@ import blessed from "@unblessed/blessed";
 import { Screen, ScreenConfig } from "../core/screen.js";
 import { APIClient } from "../core/api-client.js";
 import { logger } from "../../../core/logger.js";
+import type { FileChanges } from "../../../core/types.js";
 
 interface SessionItem {
   id: string;
@@ -220,7 +221,14 @@ export class SessionsScreen extends Screen {
   }
 
   private async showSessionDetail(session: SessionItem): Promise<void> {
-    const content = `\n  Session Output: ${session.id}\n\n  Command: ${session.command}\n  Status: ${session.status}\n  Duration: ${session.duration}ms\n  Provider: ${session.provider}\n\n  [Press any key to close]\n`;
+    let changes: FileChanges | null = null;
+    try {
+      changes = await this.apiClient.getSessionChanges(session.nodeId, session.id);
+    } catch {
+      // Show the session without file changes
+    }
+
+    const content = `\n  Session Output: ${session.id}\n\n  Command: ${session.command}\n  Status: ${session.status}\n  Duration: ${session.duration}ms\n  Provider: ${session.provider}\n${this.formatFileChanges(changes)}\n  [Press any key to close]\n`;
 
     try {
       const modal = blessed.box({
@@ -267,6 +275,27 @@ export class SessionsScreen extends Screen {
     }
   }
 
+  private formatFileChanges(changes: FileChanges | null): string {
+    if (!changes || changes.filesModified.length === 0) {
+      return "";
+    }
+
+    const { totalFilesCreated, totalFilesModified, totalFilesDeleted } = changes.summary;
+    const markers = { created: "+", modified: "~", deleted: "-" };
+    let content = `\n  Files Changed (${totalFilesCreated} created, ${totalFilesModified} modified, ${totalFilesDeleted} deleted)\n`;
+
+    for (const change of changes.filesModified) {
+      content += `  ${markers[change.action]} ${change.path}\n`;
+      if (change.diffPreview) {
+        content += change.diffPreview
+          .split("\n")
+          .map((line) => `      ${line}\n`)
+          .join("");
+      }
+    }
+    return content;
+  }
+
   private setupKeybindings(): void {
     // Keys are handled via the app's global keypress event -> handleKey()
     // No need to set up bindings here
@@ -0,0 +1,91 @@
+/**
+ * Diff formatting for the terminal
+ */
+
+import { theme } from "./theme.js";
+import { formatHunkHeader } from "../../core/text-diff.js";
+import { DiffLine, TextDiff } from "../../core/types.js";
+
+/**
+ * Format a line diff as unified hunks, with changed words inverted
+ */
+export function formatUnifiedDiff(diff: TextDiff): string {
+  const lines: string[] = [];
+
+  for (const hunk of diff.hunks) {
+    lines.push(theme.accent(formatHunkHeader(hunk)));
+    for (const line of hunk.lines) {
+      if (line.type === "context") {
+        lines.push(` ${line.text}`);
+      } else {
+        const color = line.type === "added" ? theme.success : theme.error;
+        lines.push(color(line.type === "added" ? "+" : "-") + formatChangedLine(line));
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Format a line diff in two columns (old left, new right)
+ *
+ * @param width - Total width (default: terminal width, or 120)
+ */
+export function formatSideBySideDiff(diff: TextDiff, width?: number): string {
+  const columnWidth = Math.max(20, Math.floor(((width ?? process.stdout.columns ?? 120) - 3) / 2));
+  const cell = (line: DiffLine | undefined, side: "oldLine" | "newLine"): string => {
+    if (!line) {
+      return " ".repeat(columnWidth);
+    }
+    const text = `${String(line[side] ?? "").padStart(4)} ${line.text}`;
+    const fitted =
+      text.length > columnWidth ? `${text.slice(0, columnWidth - 1)}…` : text.padEnd(columnWidth);
+    if (line.type === "context") {
+      return fitted;
+    }
+    return line.type === "added" ? theme.success(fitted) : theme.error(fitted);
+  };
+  const row = (left: DiffLine | undefined, right: DiffLine | undefined): string =>
+    `${cell(left, "oldLine")} ${theme.muted("│")} ${cell(right, "newLine")}`;
+
+  const lines: string[] = [];
+  for (const hunk of diff.hunks) {
+    lines.push(theme.accent(formatHunkHeader(hunk)));
+
+    let i = 0;
+    while (i < hunk.lines.length) {
+      if (hunk.lines[i].type === "context") {
+        lines.push(row(hunk.lines[i], hunk.lines[i]));
+        i++;
+        continue;
+      }
+
+      // Pair up the removed and added lines of a change block
+      const removed: DiffLine[] = [];
+      const added: DiffLine[] = [];
+      while (i < hunk.lines.length && hunk.lines[i].type !== "context") {
+        (hunk.lines[i].type === "removed" ? removed : added).push(hunk.lines[i]);
+        i++;
+      }
+      for (let r = 0; r < Math.max(removed.length, added.length); r++) {
+        lines.push(row(removed[r], added[r]));
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Color a removed/added line, with changed words inverted
+ */
+function formatChangedLine(line: DiffLine): string {
+  const color = line.type === "added" ? theme.success : theme.error;
+  if (!line.segments) {
+    return color(line.text);
+  }
+  return line.segments
+    .map((segment) => (segment.changed ? color.inverse(segment.text) : color(segment.text)))
+    .join("");
+}
@@ -23,3 +23,4 @@ export {
   formatList,
   formatSection,
 } from "./boxes.js";
+export { formatUnifiedDiff, formatSideBySideDiff } from "./diff.js";
@@ -293,8 +293,8 @@ export function createTable(options?: {
 
   return new Table({
     head: options?.headers?.map((h) => chalk.cyan.bold(h)) ?? [],
-    colWidths: options?.colWidths,
-    style: styleConfig[style],
+    ...(options?.colWidths && { colWidths: options.colWidths }),
+    chars: styleConfig[style],
     wordWrap: true,
   });
 }
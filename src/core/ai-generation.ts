@@ -10,6 +10,7 @@
 
 import { spawn } from "child_process";
 import { getProviderConfig, validateProvider } from "./providers.js";
+import { executeHttpProvider } from "./http-provider.js";
 
 /**
  * Generate command content via AI
@@ -189,7 +190,8 @@ No markdown code fences or additional explanation - ONLY valid JSON.`;
  * Execute prompt with AI provider via stdin/stdout
  *
  * Spawns the provider CLI and passes the prompt via stdin,
- * collecting output via stdout.
+ * collecting output via stdout. HTTP providers are called over their
+ * REST endpoint instead.
  *
  * @param provider - Provider name (e.g., 'claude')
  * @param prompt - The prompt to send to AI
@@ -199,6 +201,11 @@ No markdown code fences or additional explanation - ONLY valid JSON.`;
 async function executeWithProvider(provider: string, prompt: string): Promise<string> {
   const config = getProviderConfig(provider);
 
+  if (config.type === "http") {
+    const result = await executeHttpProvider(config, prompt, { timeoutMs: 60000 });
+    return result.output.trim();
+  }
+
   return new Promise((resolve, reject) => {
     const proc = spawn(config.command, config.args, {
       stdio: ["pipe", "pipe", "pipe"],
@@ -7,6 +7,8 @@ import path from "path";
 import { exec } from "child_process";
 import { promisify } from "util";
 import { logger } from "./logger.js";
+import { removeFromSessionIndex } from "./session-index.js";
+import { removeSessionsFromSearch } from "./search-index.js";
 import { CleanupConfig, CleanupResult, StorageUsage, NodeStorageInfo } from "./types.js";
 
 const execAsync = promisify(exec);
@@ -339,6 +341,7 @@ export async function cleanupNode(
     let sessionsDeleted = 0;
     let sessionsArchived = 0;
     let spaceFreedMB = 0;
+    const deletedIds: string[] = [];
 
     // Filter sessions to clean
     const sessionsToDelete = sessions
@@ -355,10 +358,18 @@ export async function cleanupNode(
 
         if (!dryRun) {
           await deleteSession(session.path);
+          deletedIds.push(session.sessionId);
         }
         sessionsDeleted++;
       }
     }
+    await removeFromSessionIndex(path.join(nodePath, ".bozly", "sessions"), deletedIds);
+    await removeSessionsFromSearch(path.join(nodePath, ".bozly"), deletedIds).catch(
+      (error: unknown) =>
+        logger.warn("Failed to remove deleted sessions from the search index", {
+          error: String(error),
+        })
+    );
 
     // Clean backups if not archiveOnly
     let backupsDeleted = 0;
@@ -15,11 +15,38 @@ import fs from "fs/promises";
 import path from "path";
 import * as os from "os";
 import { spawn } from "child_process";
-import { NodeInfo, NodeCommand, RunOptions, RunResult, HookContext } from "./types.js";
-import { generateContext } from "./context.js";
+import yaml from "js-yaml";
+import {
+  NodeInfo,
+  NodeCommand,
+  RunOptions,
+  RunResult,
+  HookContext,
+  ScheduleDefinition,
+  ExecutionLogEntry,
+  TokenUsage,
+  OutputFileMode,
+  ContextSectionSize,
+  ContextIncludeSource,
+} from "./types.js";
+import { loadContextSections, ContextSections } from "./context.js";
+import { resolveContextBudget, fitContextSections } from "./context-builder.js";
+import {
+  resolveIncludeDirectives,
+  resolveIncludeList,
+  parseIncludeList,
+} from "./context-includes.js";
 import { loadModel, modelExists, formatModelForPrompt } from "./models.js";
 import { validateProvider, getProviderConfig } from "./providers.js";
+import {
+  prepareProviderInvocation,
+  cleanupProviderInvocation,
+  processProviderOutput,
+} from "./provider-invocation.js";
+import { executeHttpProvider } from "./http-provider.js";
+import { FILE_OUTPUT_INSTRUCTIONS } from "./output-files.js";
 import { executeHooks } from "./hooks.js";
+import { logger } from "./logger.js";
 
 /**
  * Get all commands for a vault
@@ -38,6 +65,10 @@ export async function getNodeCommands(vaultPath: string): Promise<NodeCommand[]>
         const description = extractDescription(content);
         const provider = extractProviderFromFrontmatter(content);
         const model = extractModelName(content);
+        const schedule = extractScheduleFromFrontmatter(content);
+        const tags = extractTagsFromFrontmatter(content);
+        const { output, outputMode } = extractOutputFromFrontmatter(content);
+        const includes = extractIncludesFromFrontmatter(content);
 
         commands.push({
           name,
@@ -47,6 +78,11 @@ export async function getNodeCommands(vaultPath: string): Promise<NodeCommand[]>
           source: "vault",
           provider,
           model,
+          tags,
+          schedule,
+          output,
+          outputMode,
+          includes,
         });
       }
     }
@@ -74,6 +110,10 @@ export async function getCommand(
     const description = extractDescription(content);
     const provider = extractProviderFromFrontmatter(content);
     const model = extractModelName(content);
+    const schedule = extractScheduleFromFrontmatter(content);
+    const tags = extractTagsFromFrontmatter(content);
+    const { output, outputMode } = extractOutputFromFrontmatter(content);
+    const includes = extractIncludesFromFrontmatter(content);
 
     return {
       name: commandName,
@@ -83,6 +123,11 @@ export async function getCommand(
       source: "vault",
       provider,
       model,
+      tags,
+      schedule,
+      output,
+      outputMode,
+      includes,
     };
   } catch {
     // Try global commands
@@ -116,6 +161,10 @@ export async function getGlobalCommands(): Promise<NodeCommand[]> {
         const description = extractDescription(content);
         const provider = extractProviderFromFrontmatter(content);
         const model = extractModelName(content);
+        const schedule = extractScheduleFromFrontmatter(content);
+        const tags = extractTagsFromFrontmatter(content);
+        const { output, outputMode } = extractOutputFromFrontmatter(content);
+        const includes = extractIncludesFromFrontmatter(content);
 
         commands.push({
           name,
@@ -125,6 +174,11 @@ export async function getGlobalCommands(): Promise<NodeCommand[]> {
           source: "global",
           provider,
           model,
+          tags,
+          schedule,
+          output,
+          outputMode,
+          includes,
         });
       }
     }
@@ -193,8 +247,10 @@ ${content}`;
  * 1. Loading command content and metadata
  * 2. Generating vault context (if enabled)
  * 3. Loading referenced model (if specified in command)
- * 4. Building complete prompt with context, model, and command
- * 5. Executing with AI provider (or showing dry-run)
+ * 4. Resolving the command's includes (`{{include ...}}` and frontmatter `includes:`)
+ * 5. Building complete prompt with context, model, includes, and command
+ * 6. Executing with AI provider (or showing dry-run), failing over along
+ *    the routing fallback chain if the provider fails or times out
  */
 export async function runNodeCommand(
   vault: NodeInfo,
@@ -207,15 +263,25 @@ export async function runNodeCommand(
     throw new Error(`Command '${commandName}' not found in vault '${vault.name}'`);
   }
 
-  // Generate context
-  let context = "";
+  const budget = await resolveContextBudget(
+    vault.path,
+    options.provider ?? "claude",
+    options.model
+  );
+
+  // Load context sections
+  let contextSections: ContextSections = { base: "", commands: "", guides: "", includes: [] };
+  let memories = "";
   if (options.includeContext !== false) {
-    context = await generateContext(vault, { provider: options.provider });
+    contextSections = await loadContextSections(vault, {
+      provider: options.provider,
+      includeGuides: budget.includeGuides,
+    });
 
     // Inject past memories if provided
     if (options.pastMemories && options.pastMemories.length > 0) {
       const { injectMemoriesIntoContext } = await import("../core/sessions.js");
-      context = injectMemoriesIntoContext(context, options.pastMemories);
+      memories = injectMemoriesIntoContext("", options.pastMemories);
     }
   }
 
@@ -237,20 +303,115 @@ export async function runNodeCommand(
     }
   }
 
-  // Build prompt
-  const prompt = buildPrompt(context, modelContent, command, options.params);
-  const provider = options.provider ?? "claude";
+  // Resolve the command's includes
+  const commandFrom =
+    command.source === "vault"
+      ? `.bozly/commands/${command.name}.md`
+      : `commands/${command.name}.md`;
+  const commandText = await resolveIncludeDirectives(
+    vault.path,
+    command.content ?? "",
+    commandFrom
+  );
+  const listed = await resolveIncludeList(vault.path, command.includes ?? [], commandFrom);
+  const includes: ContextIncludeSource[] = [
+    ...contextSections.includes,
+    ...commandText.sources,
+    ...listed.sources,
+  ];
+
+  // Fit the sections to the provider's token budget
+  const fitted = fitContextSections(
+    [
+      { name: "memories", content: memories },
+      { name: "base", content: contextSections.base },
+      { name: "commands", content: contextSections.commands },
+      { name: "guides", content: contextSections.guides },
+      { name: "model", content: modelContent },
+      { name: "includes", content: listed.text && `## Included Files\n\n${listed.text}` },
+      { name: "command", content: commandText.text },
+      { name: "params", content: options.params ?? "" },
+    ],
+    { ...budget, tokens: options.tokenBudget ?? budget.tokens }
+  );
+  const reduced = fitted.sections.filter((section) => section.action !== "kept");
+  if (reduced.length > 0 || fitted.overBudget) {
+    await logger.info("Fitted prompt to token budget", {
+      command: commandName,
+      budget: fitted.budget,
+      totalTokens: fitted.totalTokens,
+      reduced: reduced.map((section) => `${section.name} (${section.action})`),
+      overBudget: fitted.overBudget,
+    });
+  }
 
-  if (options.dryRun) {
-    return {
-      provider,
+  // Build prompt
+  const { content } = fitted;
+  const context = content.memories + content.base + content.commands + content.guides;
+  const prompt = buildPrompt(
+    context,
+    content.model,
+    content.includes,
+    { ...command, content: commandText.text },
+    options.params
+  );
+
+  return runPrompt(
+    vault,
+    commandName,
+    {
       prompt,
-      contextSize: context.length,
       contextText: context,
       commandText: command.content,
-      commandName,
       modelsUsed,
-    };
+      tokenBudget: fitted.budget,
+      sections: fitted.sections,
+      includes,
+    },
+    options
+  );
+}
+
+/**
+ * Run a prompt that has already been built
+ *
+ * Shared by runNodeCommand and `bozly replay`: runs pre-execution hooks,
+ * executes with the provider (and fallbacks) and runs post-execution hooks.
+ * With options.dryRun, returns without executing.
+ *
+ * @param prompt - Full prompt text and the parts it was built from (for session recording)
+ */
+export async function runPrompt(
+  vault: NodeInfo,
+  commandName: string,
+  prompt: {
+    prompt: string;
+    contextText: string;
+    commandText?: string;
+    modelsUsed?: string[];
+    tokenBudget?: number;
+    sections?: ContextSectionSize[];
+    includes?: ContextIncludeSource[];
+  },
+  options: RunOptions = {}
+): Promise<RunResult> {
+  const provider = options.provider ?? "claude";
+  const result: RunResult = {
+    provider,
+    prompt: prompt.prompt,
+    contextSize: prompt.contextText.length,
+    contextText: prompt.contextText,
+    commandText: prompt.commandText,
+    commandName,
+    modelsUsed: prompt.modelsUsed ?? [],
+    model: options.model,
+    tokenBudget: prompt.tokenBudget,
+    contextSections: prompt.sections,
+    includes: prompt.includes,
+  };
+
+  if (options.dryRun) {
+    return result;
   }
 
   // Execute pre-execution hooks (before calling AI)
@@ -261,15 +422,16 @@ export async function runNodeCommand(
     command: commandName,
     provider,
     timestamp: new Date().toISOString(),
-    prompt,
-    promptSize: prompt.length,
+    prompt: prompt.prompt,
+    promptSize: prompt.prompt.length,
   };
 
   await executeHooks(vault.path, "pre-execution", preContext);
 
-  // Execute with AI provider and measure duration
+  // Execute with AI provider (and fallbacks) and measure duration
   const startTime = Date.now();
-  const output = await executeWithProvider(provider, prompt);
+  const execution = await executeWithFallback(provider, prompt.prompt, options);
+  const { output } = execution;
   const duration = Date.now() - startTime;
 
   // Execute post-execution hooks (after AI completes successfully)
@@ -278,10 +440,10 @@ export async function runNodeCommand(
     nodeName: vault.name,
     nodePath: vault.path,
     command: commandName,
-    provider,
+    provider: execution.provider,
     timestamp: new Date().toISOString(),
-    prompt,
-    promptSize: prompt.length,
+    prompt: prompt.prompt,
+    promptSize: prompt.prompt.length,
     session: {
       id: "pre-recording", // Will be created in run.ts after recordSession
       sessionPath: vault.path,
@@ -294,24 +456,24 @@ export async function runNodeCommand(
   await executeHooks(vault.path, "post-execution", postContext);
 
   return {
-    provider,
-    prompt,
-    contextSize: context.length,
+    ...result,
+    provider: execution.provider,
     output,
-    contextText: context,
-    commandText: command.content,
-    commandName,
-    modelsUsed,
     duration,
+    attemptedProviders: execution.attemptedProviders,
+    executionLog: execution.executionLog,
+    model: execution.model,
+    usage: execution.usage,
   };
 }
 
 /**
- * Build the full prompt with context, model, and command
+ * Build the full prompt with context, model, included files, and command
  */
 function buildPrompt(
   context: string,
   modelContent: string,
+  includesContent: string,
   command: NodeCommand,
   params?: string
 ): string {
@@ -321,6 +483,10 @@ function buildPrompt(
     prompt += `\n\n---\n\n${modelContent}`;
   }
 
+  if (includesContent) {
+    prompt += `\n\n---\n\n${includesContent}`;
+  }
+
   prompt += `\n\n---\n\n## Command: /${command.name}\n\n${command.content}`;
 
   // Inject parameters if provided
@@ -328,6 +494,11 @@ function buildPrompt(
     prompt += `\n\n---\n\n## Parameters\n\n${params}`;
   }
 
+  // Tell the AI how to write files for `output: files` commands
+  if (command.output === "files") {
+    prompt += `\n\n---\n\n${FILE_OUTPUT_INSTRUCTIONS}`;
+  }
+
   return prompt;
 }
 
@@ -390,64 +561,366 @@ function extractProviderFromFrontmatter(content: string | undefined): string | u
   return undefined;
 }
 
+/**
+ * Extract tags from command frontmatter (if specified)
+ *
+ * Accepts an inline list or a YAML block list:
+ *   tags: [analysis, weekly]
+ *   tags: analysis, weekly
+ *   tags:
+ *     - analysis
+ * @internal
+ */
+function extractTagsFromFrontmatter(content: string | undefined): string[] | undefined {
+  if (!content) {
+    return undefined;
+  }
+
+  const lines = content.split("\n");
+  if (lines[0] !== "---") {
+    return undefined;
+  }
+  const end = lines.indexOf("---", 1);
+  const frontmatter = lines.slice(1, end === -1 ? undefined : end);
+
+  const index = frontmatter.findIndex((line) => /^tags:/.test(line));
+  if (index === -1) {
+    return undefined;
+  }
+
+  const inline = frontmatter[index].replace(/^tags:\s*/, "").trim();
+  const values: string[] = [];
+  if (inline) {
+    values.push(...inline.replace(/^\[|\]$/g, "").split(","));
+  } else {
+    for (const line of frontmatter.slice(index + 1)) {
+      const item = line.match(/^\s*-\s*(.+)$/);
+      if (!item) {
+        break;
+      }
+      values.push(item[1]);
+    }
+  }
+
+  const tags = values.map((tag) => tag.trim().replace(/^["']|["']$/g, "")).filter(Boolean);
+  return tags.length > 0 ? tags : undefined;
+}
+
+/**
+ * Extract output handling from command frontmatter (if specified)
+ *
+ *   output: files        # write ```file:path blocks from the response into the vault
+ *   outputMode: append   # default for blocks without a mode (overwrite if unset)
+ * Unknown values are ignored
+ * @internal
+ */
+function extractOutputFromFrontmatter(content: string | undefined): {
+  output?: NodeCommand["output"];
+  outputMode?: OutputFileMode;
+} {
+  const lines = content?.split("\n") ?? [];
+  if (lines[0] !== "---") {
+    return {};
+  }
+
+  const result: { output?: NodeCommand["output"]; outputMode?: OutputFileMode } = {};
+  for (let i = 1; i < lines.length && lines[i] !== "---"; i++) {
+    const match = lines[i].match(/^(output|outputMode):\s*["']?([\w-]+)["']?\s*$/);
+    if (match?.[1] === "output" && (match[2] === "files" || match[2] === "text")) {
+      result.output = match[2];
+    } else if (match?.[1] === "outputMode" && (match[2] === "append" || match[2] === "overwrite")) {
+      result.outputMode = match[2];
+    }
+  }
+  return result;
+}
+
+/**
+ * Extract includes from command frontmatter (if specified)
+ *
+ *   includes: guides/rating.md
+ *   includes:
+ *     - guides/*.md
+ *     - path: notes/current.md
+ *       max: 4000
+ * @internal
+ */
+function extractIncludesFromFrontmatter(content: string | undefined): NodeCommand["includes"] {
+  const lines = content?.split("\n") ?? [];
+  if (lines[0] !== "---") {
+    return undefined;
+  }
+  const end = lines.indexOf("---", 1);
+  const frontmatter = lines.slice(1, end === -1 ? undefined : end);
+  if (!frontmatter.some((line) => /^includes:/.test(line))) {
+    return undefined;
+  }
+
+  try {
+    const value = (yaml.load(frontmatter.join("\n")) as Record<string, unknown> | null)?.includes;
+    const includes = parseIncludeList(value);
+    return includes.length > 0 ? includes : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extract schedule from command frontmatter (if specified)
+ *
+ * Accepts either a cron string or a mapping:
+ *   schedule: "0 9 * * 1"
+ *   schedule:
+ *     cron: "0 9 * * 1"
+ *     timezone: America/New_York
+ * Does NOT validate the cron expression - the scheduler reports invalid ones
+ * @internal
+ */
+function extractScheduleFromFrontmatter(
+  content: string | undefined
+): ScheduleDefinition | undefined {
+  if (!content) {
+    return undefined;
+  }
+
+  const lines = content.split("\n");
+  if (lines[0] !== "---") {
+    return undefined;
+  }
+  const end = lines.indexOf("---", 1);
+  const frontmatter = lines.slice(1, end === -1 ? undefined : end);
+
+  let value: unknown;
+  try {
+    value = (yaml.load(frontmatter.join("\n")) as Record<string, unknown> | null)?.schedule;
+  } catch {
+    // Unquoted cron strings like "*/15 * * * *" aren't valid YAML
+    const line = frontmatter.find((l) => /^schedule:\s*\S/.test(l));
+    value = line?.replace(/^schedule:\s*/, "").trim();
+  }
+
+  if (typeof value === "string" && value.trim()) {
+    return { cron: value.trim().replace(/^["']|["']$/g, "") };
+  }
+  if (typeof value === "object" && value !== null) {
+    const schedule = value as Record<string, unknown>;
+    if (typeof schedule.cron === "string" && schedule.cron.trim()) {
+      return {
+        cron: schedule.cron.trim(),
+        timezone: typeof schedule.timezone === "string" ? schedule.timezone : undefined,
+        enabled: typeof schedule.enabled === "boolean" ? schedule.enabled : undefined,
+        catchUp: typeof schedule.catchUp === "boolean" ? schedule.catchUp : undefined,
+      };
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * Execute prompt with AI provider
  *
  * Validates provider availability, executes with streaming output,
- * and returns full response text.
+ * and returns full response text. The prompt is delivered according to the
+ * provider's inputMode (stdin, temp file or argument), and the output is
+ * post-processed per the provider's output config. HTTP providers are called
+ * over their REST endpoint instead and report real token usage.
  *
  * @param provider - Provider name
  * @param prompt - Full prompt text
- * @returns Response text from provider
+ * @param options - Model (passed via the provider's modelArgs), run timeout
+ *   (wins over the provider's own timeout), default timeout (used when
+ *   neither is set) and whether to stream output to the console
+ * @returns Response text from provider, the model it was given and token usage
+ *   (HTTP providers only)
  * @throws Error if provider unavailable or execution fails
  */
-async function executeWithProvider(provider: string, prompt: string): Promise<string> {
+export async function executeWithProvider(
+  provider: string,
+  prompt: string,
+  options: { model?: string; timeoutMs?: number; defaultTimeoutMs?: number; quiet?: boolean } = {}
+): Promise<{ output: string; model?: string; usage?: TokenUsage }> {
   // Validate provider is available
   await validateProvider(provider);
 
   // Get provider configuration
   const config = getProviderConfig(provider);
+  const timeoutMs = options.timeoutMs ?? config.timeout ?? options.defaultTimeoutMs;
+  const model = options.model ?? config.defaultModel;
 
-  return new Promise((resolve, reject) => {
-    const startTime = Date.now();
-
-    const proc = spawn(config.command, config.args, {
-      stdio: ["pipe", "pipe", "inherit"], // Stream stderr to console for user visibility
+  if (config.type === "http") {
+    const result = await executeHttpProvider(config, prompt, {
+      model,
+      timeoutMs,
+      // Stream output to console in real-time
+      onToken: options.quiet ? undefined : (token) => process.stdout.write(token),
     });
+    return { output: result.output, model, usage: result.usage };
+  }
 
-    let output = "";
+  const invocation = await prepareProviderInvocation(config, prompt, { model });
 
-    // Send prompt via stdin
-    if (proc.stdin) {
-      proc.stdin.write(prompt);
-      proc.stdin.end();
-    }
+  try {
+    const output = await new Promise<string>((resolve, reject) => {
+      const startTime = Date.now();
 
-    // Collect stdout
-    if (proc.stdout) {
-      proc.stdout.setEncoding("utf-8");
-      proc.stdout.on("data", (data) => {
-        const chunk = data.toString();
-        output += chunk;
-        // Stream output to console in real-time
-        process.stdout.write(chunk);
+      const proc = spawn(invocation.command, invocation.args, {
+        // Stream stderr to console for user visibility
+        stdio: [invocation.input !== undefined ? "pipe" : "ignore", "pipe", "inherit"],
+        env: invocation.env,
       });
+
+      let timedOut = false;
+      const timer =
+        timeoutMs !== undefined
+          ? setTimeout(() => {
+              timedOut = true;
+              proc.kill("SIGTERM");
+              reject(new Error(`${config.displayName} timed out after ${timeoutMs}ms`));
+            }, timeoutMs)
+          : undefined;
+
+      let output = "";
+
+      // Send prompt via stdin
+      if (proc.stdin && invocation.input !== undefined) {
+        proc.stdin.write(invocation.input);
+        proc.stdin.end();
+      }
+
+      // Collect stdout
+      if (proc.stdout) {
+        proc.stdout.setEncoding("utf-8");
+        proc.stdout.on("data", (data) => {
+          const chunk = data.toString();
+          output += chunk;
+          // Stream output to console in real-time
+          if (!options.quiet) {
+            process.stdout.write(chunk);
+          }
+        });
+      }
+
+      proc.on("close", (code) => {
+        clearTimeout(timer);
+        const duration = Date.now() - startTime;
+
+        if (timedOut) {
+          return;
+        }
+        if (code === 0) {
+          resolve(output);
+        } else {
+          reject(new Error(`${config.displayName} exited with code ${code} after ${duration}ms`));
+        }
+      });
+
+      proc.on("error", (err) => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to start ${config.displayName}: ${err.message}`));
+      });
+    });
+
+    return { output: processProviderOutput(output, config.output), model };
+  } finally {
+    await cleanupProviderInvocation(invocation);
+  }
+}
+
+/**
+ * Execute a prompt, failing over to the next provider when one fails
+ *
+ * Providers are tried in order: the primary, then the fallback chain
+ * (options.fallbackChain, or GlobalConfig.routing.fallbackChain). A provider
+ * fails if it exits non-zero, times out or can't be started. Every attempt
+ * is recorded in the execution log.
+ *
+ * @throws Error with each provider's failure if none of them answers
+ */
+async function executeWithFallback(
+  primary: string,
+  prompt: string,
+  options: RunOptions
+): Promise<{
+  provider: string;
+  output: string;
+  model?: string;
+  usage?: TokenUsage;
+  attemptedProviders: string[];
+  executionLog: ExecutionLogEntry[];
+}> {
+  let fallbackChain = options.fallbackChain;
+  let defaultTimeoutMs: number | undefined;
+  if (fallbackChain === undefined || options.timeout === undefined) {
+    try {
+      // Not a static import: config.js loads cleanup.js and search-index.js,
+      // which imports this module back
+      const { getGlobalConfig } = await import("./config.js");
+      const routing = (await getGlobalConfig()).routing;
+      fallbackChain = fallbackChain ?? routing?.fallbackChain;
+      defaultTimeoutMs = routing?.timeoutMs;
+    } catch {
+      // Run without fallbacks if global config can't be loaded
     }
+  }
 
-    proc.on("close", (code) => {
-      const duration = Date.now() - startTime;
+  const providers = [primary, ...(fallbackChain ?? [])].filter((p, i, arr) => arr.indexOf(p) === i);
+  const executionLog: ExecutionLogEntry[] = [];
+  const log = (type: ExecutionLogEntry["type"], message: string): void => {
+    executionLog.push({ timestamp: new Date().toISOString(), type, message });
+  };
+  const attemptedProviders: string[] = [];
+  const failures: string[] = [];
+  let lastError: Error | undefined;
+
+  log("start", "Session started");
 
-      if (code === 0) {
-        resolve(output);
+  for (const [index, provider] of providers.entries()) {
+    attemptedProviders.push(provider);
+    // The requested model only applies to the primary provider
+    const requestedModel = index === 0 ? options.model : undefined;
+    log("ai_call", `Called ${provider}${requestedModel ? ` (model: ${requestedModel})` : ""}`);
+
+    try {
+      const { output, model, usage } = await executeWithProvider(provider, prompt, {
+        model: requestedModel,
+        timeoutMs: options.timeout,
+        defaultTimeoutMs,
+        quiet: options.quiet,
+      });
+      log(
+        "complete",
+        index === 0
+          ? "Execution completed"
+          : `Execution completed by ${provider} after ${index + 1} attempts`
+      );
+      return { provider, output, model, usage, attemptedProviders, executionLog };
+    } catch (error) {
+      lastError = error as Error;
+      // First line only: a missing provider's error ends with setup instructions
+      const message = lastError.message.split("\n")[0];
+      failures.push(`${provider}: ${message}`);
+      log("error", message);
+
+      const next = providers[index + 1];
+      if (next === undefined) {
+        break;
+      }
+      log("processing", `Falling back to ${next}`);
+      if (options.quiet) {
+        // Quiet runs (comparisons, parallel workflow steps) share the console
+        await logger.warn("Provider failed, falling back", { provider, next, error: message });
       } else {
-        reject(new Error(`${config.displayName} exited with code ${code} after ${duration}ms`));
+        console.warn(`Warning: ${message}. Falling back to ${next}...`);
       }
-    });
+    }
+  }
 
-    proc.on("error", (err) => {
-      reject(new Error(`Failed to start ${config.displayName}: ${err.message}`));
-    });
-  });
+  // With a single provider, keep its original error
+  if (providers.length === 1 && lastError) {
+    throw lastError;
+  }
+  throw new Error(`All providers failed (${failures.join("; ")})`);
 }
 
 /**
@@ -0,0 +1,186 @@
+/**
+ * Provider Comparison Runs
+ *
+ * Runs one command against several providers at once ("bake-off"):
+ *
+ *   bozly run daily --compare claude,gpt,ollama
+ *
+ * The prompt is built once and sent to every provider in parallel, without
+ * fallbacks. Each provider's answer (or failure) is recorded as its own
+ * session, and the sessions share `metadata.comparisonId` so they can be
+ * grouped later (see SuggestionEngine's provider analysis).
+ *
+ * @module core/comparison
+ */
+
+import { randomUUID } from "crypto";
+import { runNodeCommand, runPrompt } from "./commands.js";
+import { resolveContextBudget } from "./context-builder.js";
+import { recordSession } from "./sessions.js";
+import { NodeInfo, PricingConfig, RunResult, Session } from "./types.js";
+import { logger } from "./logger.js";
+
+/**
+ * Options for compareProviders
+ */
+export interface ComparisonOptions {
+  includeContext?: boolean;
+  pastMemories?: string[];
+  params?: string;
+  /** Per-provider timeout in ms */
+  timeout?: number;
+  /** Timezone recorded with the sessions */
+  timezone?: string;
+  /** Price table for the sessions' cost */
+  pricing?: PricingConfig;
+}
+
+/**
+ * One provider's part of a comparison run
+ */
+export interface ComparisonEntry {
+  provider: string;
+  status: "completed" | "failed";
+  output: string;
+  duration: number;
+  error?: string;
+  model?: string;
+  /** Recorded session (not set if recording failed) */
+  session?: Session;
+}
+
+/**
+ * Result of a comparison run
+ */
+export interface ComparisonResult {
+  comparisonId: string;
+  commandName: string;
+  prompt: string;
+  /** Entries in the order the providers were given */
+  entries: ComparisonEntry[];
+}
+
+/**
+ * Run a command against several providers in parallel
+ *
+ * @param vault - Vault to run the command in
+ * @param commandName - Command to run
+ * @param providers - Providers to compare (duplicates are ignored)
+ * @param options - Context, parameters, timeout and timezone
+ * @returns One entry per provider, failed providers included
+ * @throws Error if fewer than two providers are given or the command doesn't exist
+ */
+export async function compareProviders(
+  vault: NodeInfo,
+  commandName: string,
+  providers: string[],
+  options: ComparisonOptions = {}
+): Promise<ComparisonResult> {
+  const unique = providers.filter((p, i, arr) => arr.indexOf(p) === i);
+  if (unique.length < 2) {
+    throw new Error("At least two providers are needed for a comparison");
+  }
+
+  // Build the prompt once so every provider gets exactly the same text,
+  // fitted to the smallest of their token budgets
+  const budgets = await Promise.all(
+    unique.map((provider) => resolveContextBudget(vault.path, provider))
+  );
+  const built = await runNodeCommand(vault, commandName, {
+    includeContext: options.includeContext,
+    pastMemories: options.pastMemories,
+    params: options.params,
+    dryRun: true,
+    tokenBudget: Math.min(...budgets.map((budget) => budget.tokens)),
+  });
+  const prompt = {
+    prompt: built.prompt,
+    contextText: built.contextText ?? "",
+    commandText: built.commandText,
+    modelsUsed: built.modelsUsed,
+    tokenBudget: built.tokenBudget,
+    sections: built.contextSections,
+    includes: built.includes,
+  };
+
+  const comparisonId = randomUUID();
+  await logger.info("Starting comparison run", {
+    comparisonId,
+    command: commandName,
+    providers: unique,
+  });
+
+  const runs = await Promise.all(
+    unique.map(async (provider): Promise<{ run?: RunResult; error?: string; duration: number }> => {
+      const startTime = Date.now();
+      try {
+        const run = await runPrompt(vault, commandName, prompt, {
+          provider,
+          fallbackChain: [],
+          timeout: options.timeout,
+          quiet: true,
+        });
+        return { run, duration: run.duration ?? Date.now() - startTime };
+      } catch (error) {
+        return {
+          error: error instanceof Error ? error.message : String(error),
+          duration: Date.now() - startTime,
+        };
+      }
+    })
+  );
+
+  // Record sequentially so sessions don't race on the session index
+  const entries: ComparisonEntry[] = [];
+  for (const [index, provider] of unique.entries()) {
+    const { run, error, duration } = runs[index];
+    const entry: ComparisonEntry = {
+      provider,
+      status: error ? "failed" : "completed",
+      output: run?.output ?? "",
+      duration,
+      ...(error && { error }),
+      ...(run?.model && { model: run.model }),
+    };
+
+    try {
+      entry.session = await recordSession(
+        vault.path,
+        vault.id,
+        vault.name,
+        commandName,
+        provider,
+        {
+          contextText: prompt.contextText,
+          commandText: prompt.commandText ?? "",
+          modelsUsed: prompt.modelsUsed,
+          tokenBudget: prompt.tokenBudget,
+          sections: prompt.sections,
+          includes: prompt.includes,
+        },
+        {
+          text: entry.output,
+          error,
+          duration,
+          model: run?.model,
+          usage: run?.usage,
+        },
+        run?.executionLog ?? [],
+        [],
+        options.timezone,
+        { comparisonId },
+        options.pricing
+      );
+    } catch (recordError) {
+      await logger.warn("Failed to record comparison session", {
+        comparisonId,
+        provider,
+        error: recordError instanceof Error ? recordError.message : String(recordError),
+      });
+    }
+
+    entries.push(entry);
+  }
+
+  return { comparisonId, commandName, prompt: prompt.prompt, entries };
+}
@@ -0,0 +1,306 @@
+/**
+ * Context Builder
+ *
+ * Fits the sections of a prompt (base context, guides, commands list,
+ * memories, model, included files, command, params) to the provider's
+ * token budget:
+ *
+ * - Budgets: `context.budgets` per provider (vault config over global
+ *   config), else a default for the provider's tokenizer family
+ * - Priorities: higher-priority sections are kept longest; the command and
+ *   its parameters are never reduced
+ * - Reduction: starting with the lowest priority, sections are summarized
+ *   (headings and the first line under each, if that fills at least half
+ *   the room left) or truncated, and dropped if too little would be left
+ *
+ * The resulting section sizes are recorded with the session and shown by
+ * `bozly run --dry`.
+ *
+ * @module core/context-builder
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { countTokens, getTokenizerFamily } from "./tokens.js";
+import {
+  ContextBudgetConfig,
+  ContextSectionName,
+  ContextSectionSize,
+  NodeConfig,
+  TokenizerFamily,
+} from "./types.js";
+
+/** Prompt token budgets when none is configured, by tokenizer family */
+export const DEFAULT_TOKEN_BUDGETS: Record<TokenizerFamily, number> = {
+  claude: 150000,
+  gpt: 100000,
+  gemini: 500000,
+  llama: 6000, // Ollama's default context window is small
+  generic: 24000,
+};
+
+/** Section priorities (higher is kept longer) */
+export const DEFAULT_SECTION_PRIORITIES: Record<ContextSectionName, number> = {
+  command: 100,
+  params: 90,
+  base: 70,
+  model: 60,
+  memories: 50,
+  includes: 40,
+  commands: 30,
+  guides: 20,
+};
+
+/** Sections that are never reduced */
+const REQUIRED_SECTIONS: ContextSectionName[] = ["command", "params"];
+
+/** Sections that are summarized before being truncated */
+const SUMMARIZED_SECTIONS: ContextSectionName[] = ["base", "guides", "memories", "includes"];
+
+/** Headings and memory labels that summaries are built around */
+const SUMMARY_ANCHOR = /^(#{1,6}\s|\[Session \d+\])/gm;
+
+/** Sections that would be cut below this are dropped */
+const MIN_SECTION_TOKENS = 100;
+
+const TRUNCATION_MARKER = "\n\n[… truncated to fit the context budget]\n";
+const SUMMARY_MARKER = "\n\n[Summarized to fit the context budget]\n";
+
+/**
+ * A prompt section to fit
+ */
+export interface ContextSectionInput {
+  name: ContextSectionName;
+  content: string;
+}
+
+/**
+ * Budget settings for a run
+ */
+export interface ContextBudget {
+  tokens: number;
+  family: TokenizerFamily;
+  priorities: Record<ContextSectionName, number>;
+  includeGuides: boolean;
+}
+
+/**
+ * Sections fitted to a budget
+ */
+export interface FittedContext {
+  content: Record<ContextSectionName, string>; // Final text per section ("" if dropped or empty)
+  sections: ContextSectionSize[]; // Non-empty sections, in input order
+  budget: number;
+  totalTokens: number;
+  overBudget: boolean; // The sections that are never reduced exceed the budget on their own
+}
+
+/**
+ * Resolve the prompt token budget and section priorities for a provider
+ *
+ * @param vaultPath - Vault whose .bozly/config.json `context` overrides the global one
+ * @param provider - Provider the prompt is sent to
+ * @param model - Model (picks the tokenizer family)
+ */
+export async function resolveContextBudget(
+  vaultPath: string,
+  provider: string,
+  model?: string
+): Promise<ContextBudget> {
+  let globalConfig: ContextBudgetConfig | undefined;
+  try {
+    // Imported here, not statically: config.js → cleanup.js → search-index.js
+    // → commands.js imports this module, which would close an import cycle
+    const { getGlobalConfig } = await import("./config.js");
+    globalConfig = (await getGlobalConfig()).context;
+  } catch {
+    // Use the vault config and defaults if global config can't be loaded
+  }
+  const nodeConfig = await loadNodeContextConfig(vaultPath);
+  const budgets = { ...globalConfig?.budgets, ...nodeConfig?.budgets };
+  const family = getTokenizerFamily(provider, model);
+
+  return {
+    tokens: budgets[provider] ?? budgets.default ?? DEFAULT_TOKEN_BUDGETS[family],
+    family,
+    priorities: {
+      ...DEFAULT_SECTION_PRIORITIES,
+      ...globalConfig?.priorities,
+      ...nodeConfig?.priorities,
+    },
+    includeGuides: nodeConfig?.includeGuides ?? globalConfig?.includeGuides ?? false,
+  };
+}
+
+/**
+ * Fit prompt sections to a token budget
+ *
+ * @param sections - Sections in prompt order
+ * @param budget - Token budget and priorities
+ * @returns Final section texts and sizes
+ */
+export function fitContextSections(
+  sections: ContextSectionInput[],
+  budget: Pick<ContextBudget, "tokens" | "family"> & Partial<Pick<ContextBudget, "priorities">>
+): FittedContext {
+  const priorities = { ...DEFAULT_SECTION_PRIORITIES, ...budget.priorities };
+  const fitted = sections
+    .filter((section) => section.content.length > 0)
+    .map((section) => {
+      const tokens = countTokens(section.content, budget.family);
+      return {
+        name: section.name,
+        content: section.content,
+        size: {
+          name: section.name,
+          priority: priorities[section.name],
+          originalTokens: tokens,
+          tokens,
+          chars: section.content.length,
+          action: "kept",
+        } as ContextSectionSize,
+      };
+    });
+
+  let excess = fitted.reduce((sum, section) => sum + section.size.tokens, 0) - budget.tokens;
+  const reducible = fitted
+    .filter((section) => !REQUIRED_SECTIONS.includes(section.name))
+    .sort((a, b) => a.size.priority - b.size.priority);
+
+  for (const section of reducible) {
+    if (excess <= 0) {
+      break;
+    }
+
+    const target = section.size.tokens - excess;
+    const reduced =
+      target < MIN_SECTION_TOKENS
+        ? { content: "", action: "dropped" as const }
+        : reduceSection(section.name, section.content, target, budget.family);
+    const tokens = reduced.content ? countTokens(reduced.content, budget.family) : 0;
+
+    excess -= section.size.tokens - tokens;
+    section.content = reduced.content;
+    section.size = {
+      ...section.size,
+      tokens,
+      chars: reduced.content.length,
+      action: reduced.action,
+    };
+  }
+
+  const content = Object.fromEntries(
+    Object.keys(DEFAULT_SECTION_PRIORITIES).map((name) => [name, ""])
+  ) as Record<ContextSectionName, string>;
+  for (const section of fitted) {
+    content[section.name] = section.content;
+  }
+
+  return {
+    content,
+    sections: fitted.map((section) => section.size),
+    budget: budget.tokens,
+    totalTokens: fitted.reduce((sum, section) => sum + section.size.tokens, 0),
+    overBudget: excess > 0,
+  };
+}
+
+/**
+ * Condense markdown to its headings and the first line under each
+ *
+ * Lines that frame memories ("[Session 1]", "===" banners, "---") are kept.
+ */
+export function summarizeMarkdown(text: string): string {
+  const kept: string[] = [];
+  let wantFirstLine = true;
+
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (/^(#{1,6}\s|\[Session \d+\]|===|---$)/.test(trimmed)) {
+      kept.push(line);
+      wantFirstLine = true;
+    } else if (trimmed && wantFirstLine) {
+      kept.push(trimmed.length > 200 ? `${trimmed.slice(0, 200)}…` : line);
+      wantFirstLine = false;
+    }
+  }
+
+  return kept.join("\n") + SUMMARY_MARKER;
+}
+
+/**
+ * Cut a text to at most maxTokens, at a line break where possible
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  family: TokenizerFamily = "generic"
+): string {
+  if (countTokens(text, family) <= maxTokens) {
+    return text;
+  }
+
+  const available = maxTokens - countTokens(TRUNCATION_MARKER, family);
+  if (available <= 0) {
+    return "";
+  }
+
+  // Longest prefix that fits
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (countTokens(text.slice(0, mid), family) <= available) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const lineBreak = text.lastIndexOf("\n", low);
+  let end = lineBreak > low * 0.8 ? lineBreak : low;
+  let truncated = text.slice(0, end).trimEnd() + TRUNCATION_MARKER;
+
+  // Pieces can merge across the cut; back off a word at a time until it fits
+  while (end > 0 && countTokens(truncated, family) > maxTokens) {
+    end = Math.max(text.lastIndexOf(" ", end - 1), text.lastIndexOf("\n", end - 1), 0);
+    truncated = text.slice(0, end).trimEnd() + TRUNCATION_MARKER;
+  }
+  return end > 0 ? truncated : "";
+}
+
+/**
+ * Shrink a section to at most target tokens
+ */
+function reduceSection(
+  name: ContextSectionName,
+  content: string,
+  target: number,
+  family: TokenizerFamily
+): { content: string; action: ContextSectionSize["action"] } {
+  // An outline of every part beats the first part alone, unless it leaves most of the room unused
+  if (SUMMARIZED_SECTIONS.includes(name) && (content.match(SUMMARY_ANCHOR) ?? []).length > 1) {
+    const summary = summarizeMarkdown(content);
+    const tokens = countTokens(summary, family);
+    if (tokens <= target && tokens * 2 >= target) {
+      return { content: summary, action: "summarized" };
+    }
+  }
+
+  const truncated = truncateToTokens(content, target, family);
+  return truncated
+    ? { content: truncated, action: "truncated" }
+    : { content: "", action: "dropped" };
+}
+
+/**
+ * Read `context` from a vault's .bozly/config.json
+ */
+async function loadNodeContextConfig(vaultPath: string): Promise<ContextBudgetConfig | undefined> {
+  try {
+    const content = await fs.readFile(path.join(vaultPath, ".bozly", "config.json"), "utf-8");
+    return (JSON.parse(content) as NodeConfig).context;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,356 @@
+/**
+ * Context Includes
+ *
+ * Pulls vault files into prompts on demand:
+ *
+ * - Directives: `{{include guides/rating.md}}` in context.md, commands and
+ *   included files; `{{include "notes/*.md" max=4000}}` with a glob and a
+ *   size cap
+ * - Frontmatter: `includes:` on commands, a list of paths or
+ *   `{ path, max }` mappings
+ * - Paths: relative to .bozly/ if they match there, otherwise to the vault
+ *   root; paths outside the vault, also through symlinks, are refused
+ * - Limits: each include is capped (default 20000 characters) and a glob
+ *   includes at most 20 files; includes nest up to 5 deep and cycles are
+ *   skipped
+ *
+ * Every include is reported as a source, which sessions list in their
+ * context.md.
+ *
+ * @module core/context-includes
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { logger } from "./logger.js";
+import { ContextInclude, ContextIncludeSource } from "./types.js";
+
+/** Default size cap of one include, in characters */
+export const DEFAULT_INCLUDE_MAX_CHARS = 20000;
+
+/** Files a glob includes at most */
+export const MAX_INCLUDE_FILES = 20;
+
+/** How deep included files may include others */
+export const MAX_INCLUDE_DEPTH = 5;
+
+/** `{{include path}}`, `{{include "path with spaces" max=4000}}` */
+const INCLUDE_DIRECTIVE = /\{\{\s*include\s+("[^"]+"|[^\s}]+)(?:\s+max=(\d+))?\s*\}\}/g;
+
+const GLOB_CHARS = /[*?[]/;
+
+/** Directories a `**` glob doesn't descend into (besides hidden ones) */
+const SKIPPED_DIRS = new Set(["node_modules", ".bozly/sessions"]);
+
+/**
+ * Text with its includes resolved
+ */
+export interface ResolvedIncludes {
+  text: string;
+  sources: ContextIncludeSource[];
+}
+
+/**
+ * Replace the include directives in a text with the files they name
+ *
+ * Directives that can't be resolved become an HTML comment saying why.
+ *
+ * @param vaultPath - Vault the paths are relative to
+ * @param text - Text with `{{include ...}}` directives
+ * @param from - Where the text comes from (for sources and cycle detection),
+ *   vault-relative like ".bozly/context.md"
+ * @returns Resolved text and the files it includes
+ */
+export async function resolveIncludeDirectives(
+  vaultPath: string,
+  text: string,
+  from: string
+): Promise<ResolvedIncludes> {
+  return resolveText(vaultPath, text, from, [from]);
+}
+
+/**
+ * Resolve a list of includes (a command's frontmatter `includes:`)
+ *
+ * @param vaultPath - Vault the paths are relative to
+ * @param includes - Paths or globs with optional size caps
+ * @param from - Where the list comes from, vault-relative
+ * @returns The included files' text, one after another, and their sources
+ */
+export async function resolveIncludeList(
+  vaultPath: string,
+  includes: ContextInclude[],
+  from: string
+): Promise<ResolvedIncludes> {
+  const parts: string[] = [];
+  const sources: ContextIncludeSource[] = [];
+
+  for (const include of includes) {
+    const resolved = await resolveInclude(vaultPath, include, from, [from]);
+    parts.push(resolved.text);
+    sources.push(...resolved.sources);
+  }
+
+  return { text: parts.filter(Boolean).join("\n\n"), sources };
+}
+
+/**
+ * Parse the `includes:` value of a command's frontmatter
+ *
+ * Accepts a path, a list of paths, or a list of `{ path, max }` mappings;
+ * anything else is ignored.
+ */
+export function parseIncludeList(value: unknown): ContextInclude[] {
+  const items = Array.isArray(value) ? value : [value];
+  const includes: ContextInclude[] = [];
+
+  for (const item of items) {
+    if (typeof item === "string" && item.trim()) {
+      includes.push({ path: item.trim() });
+    } else if (typeof item === "object" && item !== null) {
+      const { path: includePath, max } = item as Record<string, unknown>;
+      if (typeof includePath === "string" && includePath.trim()) {
+        includes.push({
+          path: includePath.trim(),
+          ...(typeof max === "number" && max > 0 && { max }),
+        });
+      }
+    }
+  }
+
+  return includes;
+}
+
+/**
+ * Find the vault files a path or glob names
+ *
+ * Matches under .bozly/ are preferred over matches under the vault root.
+ *
+ * @param vaultPath - Vault to search
+ * @param pattern - Path or glob (*, ?, [abc], **)
+ * @returns Vault-relative file paths, sorted
+ * @throws Error if the pattern points outside the vault
+ */
+export async function findIncludeFiles(vaultPath: string, pattern: string): Promise<string[]> {
+  const normalized = path.posix.normalize(pattern.replace(/\\/g, "/"));
+  if (path.posix.isAbsolute(normalized) || normalized.split("/").includes("..")) {
+    throw new Error("outside the vault");
+  }
+
+  const segments = normalized.split("/").filter((segment) => segment && segment !== ".");
+  for (const base of [".bozly", ""]) {
+    const found = new Set<string>();
+    await matchSegments(vaultPath, base, segments, found);
+    if (found.size > 0) {
+      return [...found].sort();
+    }
+  }
+  return [];
+}
+
+/**
+ * Private helper: Resolve the directives in a text
+ *
+ * @param stack - Files being included, outermost first (for cycle detection)
+ */
+async function resolveText(
+  vaultPath: string,
+  text: string,
+  from: string,
+  stack: string[]
+): Promise<ResolvedIncludes> {
+  const sources: ContextIncludeSource[] = [];
+  let result = "";
+  let cursor = 0;
+
+  for (const match of text.matchAll(INCLUDE_DIRECTIVE)) {
+    const include: ContextInclude = {
+      path: match[1].replace(/^"|"$/g, ""),
+      ...(match[2] && { max: parseInt(match[2], 10) }),
+    };
+    const resolved = await resolveInclude(vaultPath, include, from, stack);
+    result += text.slice(cursor, match.index) + resolved.text;
+    sources.push(...resolved.sources);
+    cursor = match.index + match[0].length;
+  }
+
+  return { text: result + text.slice(cursor), sources };
+}
+
+/**
+ * Private helper: Resolve one include to the text of its files
+ */
+async function resolveInclude(
+  vaultPath: string,
+  include: ContextInclude,
+  from: string,
+  stack: string[]
+): Promise<ResolvedIncludes> {
+  const unresolved = async (error: string): Promise<ResolvedIncludes> => {
+    await logger.warn("Could not resolve include", { include: include.path, from, error });
+    return {
+      text: `<!-- include ${include.path}: ${error} -->`,
+      sources: [{ path: include.path, from, chars: 0, error }],
+    };
+  };
+
+  if (stack.length > MAX_INCLUDE_DEPTH) {
+    return unresolved(`nested more than ${MAX_INCLUDE_DEPTH} deep`);
+  }
+
+  let files: string[];
+  try {
+    files = await findIncludeFiles(vaultPath, include.path);
+  } catch (error) {
+    return unresolved((error as Error).message);
+  }
+  if (files.length === 0) {
+    return unresolved("not found");
+  }
+  if (files.length > MAX_INCLUDE_FILES) {
+    await logger.warn(`Include matches more than ${MAX_INCLUDE_FILES} files`, {
+      include: include.path,
+      from,
+    });
+    files = files.slice(0, MAX_INCLUDE_FILES);
+  }
+
+  const parts: string[] = [];
+  const sources: ContextIncludeSource[] = [];
+  let remaining = include.max ?? DEFAULT_INCLUDE_MAX_CHARS;
+  const realRoot = await fs.realpath(vaultPath).catch(() => vaultPath);
+
+  for (const file of files) {
+    if (stack.includes(file)) {
+      const cycle = [...stack.slice(stack.indexOf(file)), file].join(" → ");
+      parts.push(`<!-- include ${file}: cycle ${cycle} -->`);
+      sources.push({ path: file, from, chars: 0, error: `cycle ${cycle}` });
+      await logger.warn("Skipped include cycle", { cycle });
+      continue;
+    }
+
+    if (remaining <= 0) {
+      sources.push({ path: file, from, chars: 0, truncated: true });
+      continue;
+    }
+
+    // Symlinks may point out of the vault, and prompts go to external providers
+    const realFile = await fs.realpath(path.join(vaultPath, file)).catch(() => undefined);
+    if (realFile && !isInside(realRoot, realFile)) {
+      parts.push(`<!-- include ${file}: outside the vault -->`);
+      sources.push({ path: file, from, chars: 0, error: "outside the vault" });
+      await logger.warn("Skipped include outside the vault", { include: file, target: realFile });
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(realFile ?? path.join(vaultPath, file), "utf-8");
+    } catch (error) {
+      parts.push(`<!-- include ${file}: unreadable -->`);
+      sources.push({ path: file, from, chars: 0, error: "unreadable" });
+      continue;
+    }
+
+    // Nested includes count against this include's cap
+    const nested = await resolveText(vaultPath, content.trim(), file, [...stack, file]);
+    let included = nested.text;
+    const truncated = included.length > remaining;
+    if (truncated) {
+      const marker = `\n[… truncated at ${remaining} characters]`;
+      included = included.slice(0, Math.max(0, remaining - marker.length)).trimEnd() + marker;
+    }
+    remaining -= included.length;
+
+    parts.push(`<!-- ${file} -->\n${included}`);
+    sources.push({ path: file, from, chars: included.length, ...(truncated && { truncated }) });
+    sources.push(...nested.sources);
+  }
+
+  return { text: parts.join("\n\n"), sources };
+}
+
+/**
+ * Private helper: Collect the files under dir that match glob segments
+ *
+ * @param dir - Vault-relative directory ("" for the vault root)
+ */
+async function matchSegments(
+  vaultPath: string,
+  dir: string,
+  segments: string[],
+  found: Set<string>
+): Promise<void> {
+  if (found.size > MAX_INCLUDE_FILES) {
+    return;
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    const stats = await fs.stat(path.join(vaultPath, dir)).catch(() => null);
+    if (stats?.isFile()) {
+      found.add(dir);
+    }
+    return;
+  }
+
+  if (!GLOB_CHARS.test(segment)) {
+    await matchSegments(vaultPath, path.posix.join(dir, segment), rest, found);
+    return;
+  }
+
+  const entries = await fs
+    .readdir(path.join(vaultPath, dir), { withFileTypes: true })
+    .catch(() => []);
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  if (segment === "**") {
+    await matchSegments(vaultPath, dir, rest, found);
+    for (const entry of entries) {
+      const entryPath = path.posix.join(dir, entry.name);
+      if (entry.isDirectory() && !entry.name.startsWith(".") && !SKIPPED_DIRS.has(entryPath)) {
+        await matchSegments(vaultPath, entryPath, segments, found);
+      }
+    }
+    return;
+  }
+
+  const pattern = globSegmentToRegExp(segment);
+  for (const entry of entries) {
+    // Hidden files only match patterns that start with a dot
+    if (pattern.test(entry.name) && (!entry.name.startsWith(".") || segment.startsWith("."))) {
+      await matchSegments(vaultPath, path.posix.join(dir, entry.name), rest, found);
+    }
+  }
+}
+
+/**
+ * Whether a real path is the root or under it
+ */
+function isInside(realRoot: string, realPath: string): boolean {
+  const relative = path.relative(realRoot, realPath);
+  return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+}
+
+/**
+ * Convert one path segment of a glob to a regular expression
+ */
+function globSegmentToRegExp(segment: string): RegExp {
+  let source = "";
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[" && segment.indexOf("]", i + 1) > i + 1) {
+      const end = segment.indexOf("]", i + 1);
+      const set = segment.slice(i + 1, end).replace(/\\/g, "\\\\");
+      source += `[${set.startsWith("!") ? `^${set.slice(1)}` : set}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|\\\]]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
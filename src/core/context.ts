@@ -12,6 +12,8 @@
  * - Configurable context options (include/exclude commands)
  * - Automatic command discovery from vault
  * - Description extraction from command files
+ * - Optional guides from .bozly/guides/
+ * - `{{include path}}` directives in context.md (see context-includes)
  *
  * Usage:
  *   import { generateContext } from './context.js';
@@ -26,28 +28,60 @@ import fs from "fs/promises";
 import path from "path";
 import { logger } from "./logger.js";
 import { trackFileVersion } from "./versions.js";
-import { NodeInfo, ContextOptions } from "./types.js";
+import { resolveIncludeDirectives } from "./context-includes.js";
+import { NodeInfo, ContextOptions, ContextIncludeSource } from "./types.js";
 
 const CONTEXT_FILE = "context.md";
+const GUIDES_DIR = "guides";
+
+/**
+ * Context split into the sections the context builder fits to a token budget
+ */
+export interface ContextSections {
+  base: string; // Vault metadata and context.md
+  commands: string; // Available commands list ("" if excluded or none)
+  guides: string; // .bozly/guides/*.md ("" unless includeGuides)
+  includes: ContextIncludeSource[]; // Files included by context.md
+}
 
 /**
  * Generate context for AI consumption
  *
  * Creates a complete context document for an AI provider by combining:
  * 1. Vault metadata (name, type, path, provider)
- * 2. Vault context content from .bozly/context.md
+ * 2. Vault context content from .bozly/context.md, with its includes resolved
  * 3. Available commands (if includeCommands option is true)
+ * 4. Guides from .bozly/guides/ (if includeGuides option is true)
  *
  * @param vault - Vault information object
  * @param options - Context generation options
  * @param options.provider - AI provider name (default: 'claude')
  * @param options.includeCommands - Include commands list (default: true)
+ * @param options.includeGuides - Include guides (default: false)
  * @returns Complete context as markdown string for AI consumption
  */
 export async function generateContext(
   vault: NodeInfo,
   options: ContextOptions = {}
 ): Promise<string> {
+  const sections = await loadContextSections(vault, options);
+  return sections.base + sections.commands + sections.guides;
+}
+
+/**
+ * Load the sections of a vault's context
+ *
+ * generateContext joins them in order; runNodeCommand fits them to the
+ * provider's token budget first.
+ *
+ * @param vault - Vault information object
+ * @param options - Context generation options
+ * @returns Context sections
+ */
+export async function loadContextSections(
+  vault: NodeInfo,
+  options: ContextOptions = {}
+): Promise<ContextSections> {
   const bozlyPath = path.join(vault.path, ".bozly");
   const contextPath = path.join(bozlyPath, CONTEXT_FILE);
 
@@ -81,6 +115,13 @@ export async function generateContext(
     context = `# ${vault.name}\n\nNo context file found.`;
   }
 
+  // Resolve {{include ...}} directives
+  const included = await resolveIncludeDirectives(vault.path, context, `.bozly/${CONTEXT_FILE}`);
+  if (included.sources.length > 0) {
+    await logger.debug("Resolved context includes", { count: included.sources.length });
+  }
+  context = included.text;
+
   // Add vault metadata
   const metadata = `
 ---
@@ -92,15 +133,19 @@ provider: ${options.provider ?? "claude"}
 
 `;
 
-  // Combine context
-  let fullContext = metadata + context;
+  const sections: ContextSections = {
+    base: metadata + context,
+    commands: "",
+    guides: "",
+    includes: included.sources,
+  };
 
   // Add commands if requested
   if (options.includeCommands !== false) {
     const commands = await getCommandList(bozlyPath);
     if (commands.length > 0) {
       await logger.debug("Adding commands to context", { count: commands.length });
-      fullContext += `
+      sections.commands = `
 
 ## Available Commands
 
@@ -111,13 +156,29 @@ ${commands.map((c) => `- \`/${c.name}\` — ${c.description ?? "No description"}
     }
   }
 
+  // Add guides if requested (except those context.md already includes)
+  if (options.includeGuides) {
+    const guides = (await getGuides(bozlyPath)).filter(
+      (g) => !included.sources.some((source) => source.path === `.bozly/${GUIDES_DIR}/${g.name}.md`)
+    );
+    if (guides.length > 0) {
+      await logger.debug("Adding guides to context", { count: guides.length });
+      sections.guides = `
+
+## Guides
+
+${guides.map((g) => `### ${g.name}\n\n${g.content.trim()}`).join("\n\n")}
+`;
+    }
+  }
+
   await logger.info("Context generated successfully", {
     vaultName: vault.name,
-    totalLength: fullContext.length,
+    totalLength: sections.base.length + sections.commands.length + sections.guides.length,
     provider: options.provider ?? "claude",
   });
 
-  return fullContext;
+  return sections;
 }
 
 /**
@@ -172,6 +233,35 @@ async function getCommandList(
   return commands;
 }
 
+/**
+ * Get the guides of a vault
+ *
+ * Reads the markdown files in .bozly/guides/ (written by `bozly optimize`).
+ *
+ * @param bozlyPath - Path to vault's .bozly directory
+ * @returns Guides sorted by name
+ */
+async function getGuides(bozlyPath: string): Promise<Array<{ name: string; content: string }>> {
+  const guidesPath = path.join(bozlyPath, GUIDES_DIR);
+  const guides: Array<{ name: string; content: string }> = [];
+
+  try {
+    const files = (await fs.readdir(guidesPath)).filter((f) => f.endsWith(".md")).sort();
+    for (const file of files) {
+      try {
+        const content = await fs.readFile(path.join(guidesPath, file), "utf-8");
+        guides.push({ name: file.replace(/\.md$/, ""), content });
+      } catch (error) {
+        await logger.warn("Failed to read guide file", { file });
+      }
+    }
+  } catch (error) {
+    await logger.debug("Guides directory not found", { guidesPath });
+  }
+
+  return guides;
+}
+
 /**
  * Extract description from command file
  */
@@ -0,0 +1,247 @@
+/**
+ * Cost Accounting
+ *
+ * Token usage and cost of recorded sessions, priced with the optional
+ * `pricing` table of the global config (prices per million tokens):
+ *
+ *   "pricing": {
+ *     "currency": "USD",
+ *     "prices": {
+ *       "claude/opus": { "input": 15, "output": 75 },
+ *       "claude": { "input": 3, "output": 15 }
+ *     },
+ *     "monthlyBudget": 50,
+ *     "warnAtPercent": 80
+ *   }
+ *
+ * Prices are looked up by "provider/model", then by provider. Monthly
+ * spending is summed from the session indexes of the registered vaults.
+ *
+ * @module core/costs
+ */
+
+import path from "path";
+import { loadSessionIndex } from "./session-index.js";
+import { listNodes } from "./registry.js";
+import { estimateTokenUsage, getTokenizerFamily } from "./tokens.js";
+import { ISODateTime, PricingConfig, SessionUsage, TokenPrice, TokenUsage } from "./types.js";
+
+export const DEFAULT_CURRENCY = "USD";
+
+const DEFAULT_WARN_AT_PERCENT = 80;
+
+/**
+ * Where spending stands against the monthly budget
+ */
+export interface BudgetStatus {
+  month: string; // YYYY-MM
+  spent: number;
+  budget: number;
+  currency: string;
+  percent: number; // Share of the budget spent (0-100+)
+  level: "ok" | "warning" | "exceeded";
+}
+
+/**
+ * Find the price of a provider/model in the price table
+ */
+export function findTokenPrice(
+  pricing: PricingConfig | undefined,
+  provider: string,
+  model?: string
+): TokenPrice | undefined {
+  const prices = pricing?.prices;
+  if (!prices) {
+    return undefined;
+  }
+  return (model ? prices[`${provider}/${model}`] : undefined) ?? prices[provider];
+}
+
+/**
+ * Cost of a number of prompt and output tokens
+ */
+export function calculateCost(
+  promptTokens: number,
+  outputTokens: number,
+  price: TokenPrice
+): number {
+  return roundCost((promptTokens * price.input + outputTokens * price.output) / 1_000_000);
+}
+
+/**
+ * Round an amount to millionths (avoids float noise in sums)
+ */
+export function roundCost(amount: number): number {
+  return Math.round(amount * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Work out the token usage and cost of a session
+ *
+ * Provider-reported usage wins; missing parts are estimated from the prompt
+ * and output text with the provider's tokenizer family.
+ *
+ * @param provider - Provider that answered
+ * @param model - Model passed to the provider, if any
+ * @param promptText - Prompt sent to the provider
+ * @param outputText - Provider output
+ * @param reported - Usage reported by the provider, if any
+ * @param pricing - Price table (cost is left out if it has no price for the model)
+ */
+export function calculateSessionUsage(
+  provider: string,
+  model: string | undefined,
+  promptText: string,
+  outputText: string,
+  reported?: TokenUsage,
+  pricing?: PricingConfig
+): SessionUsage {
+  const estimate = estimateTokenUsage(provider, model, promptText, outputText);
+
+  let usage: SessionUsage;
+  if (reported) {
+    const promptTokens = reported.promptTokens ?? estimate.promptTokens ?? 0;
+    usage = {
+      promptTokens,
+      outputTokens: reported.completionTokens ?? Math.max(0, reported.totalTokens - promptTokens),
+      totalTokens: reported.totalTokens,
+      source: "provider",
+    };
+  } else {
+    usage = {
+      promptTokens: estimate.promptTokens ?? 0,
+      outputTokens: estimate.completionTokens ?? 0,
+      totalTokens: estimate.totalTokens,
+      source: "estimate",
+      tokenizer: getTokenizerFamily(provider, model),
+    };
+  }
+
+  const price = findTokenPrice(pricing, provider, model);
+  if (price) {
+    usage.cost = calculateCost(usage.promptTokens, usage.outputTokens, price);
+    usage.currency = pricing?.currency ?? DEFAULT_CURRENCY;
+  }
+
+  return usage;
+}
+
+/**
+ * Calendar month (YYYY-MM, UTC) a session counts towards
+ */
+export function getUsageMonth(timestamp: ISODateTime = new Date().toISOString()): string {
+  return timestamp.slice(0, 7);
+}
+
+/**
+ * Sum the cost of the sessions recorded in a month
+ *
+ * @param sessionsRoots - Sessions roots to sum (usually every vault's .bozly/sessions)
+ * @param month - YYYY-MM (default: this month)
+ */
+export async function getMonthlySpend(
+  sessionsRoots: string[],
+  month: string = getUsageMonth()
+): Promise<number> {
+  let spent = 0;
+  for (const sessionsRoot of new Set(sessionsRoots.map((root) => path.resolve(root)))) {
+    for (const entry of await loadSessionIndex(sessionsRoot)) {
+      if (entry.cost && getUsageMonth(entry.timestamp) === month) {
+        spent += entry.cost;
+      }
+    }
+  }
+  return roundCost(spent);
+}
+
+/**
+ * Sessions roots of every registered vault
+ */
+export async function getVaultSessionsRoots(): Promise<string[]> {
+  const nodes = await listNodes();
+  return nodes.map((node) => path.join(node.path, ".bozly", "sessions"));
+}
+
+/**
+ * Compare spending with the monthly budget
+ *
+ * @returns Budget status, or null if no monthly budget is configured
+ */
+export function getBudgetStatus(
+  spent: number,
+  pricing: PricingConfig | undefined,
+  month: string = getUsageMonth()
+): BudgetStatus | null {
+  const budget = pricing?.monthlyBudget;
+  if (!budget || budget <= 0) {
+    return null;
+  }
+
+  const percent = (spent / budget) * 100;
+  const warnAt = pricing.warnAtPercent ?? DEFAULT_WARN_AT_PERCENT;
+
+  return {
+    month,
+    spent,
+    budget,
+    currency: pricing.currency ?? DEFAULT_CURRENCY,
+    percent: Math.round(percent * 10) / 10,
+    level: percent >= 100 ? "exceeded" : percent >= warnAt ? "warning" : "ok",
+  };
+}
+
+/**
+ * Check whether a new session pushed spending over a budget threshold
+ *
+ * @param pricing - Price table and budget
+ * @param sessionCost - Cost of the new session (which must already be indexed)
+ * @param sessionsRoots - Sessions roots to sum (default: every registered vault)
+ * @returns Budget status if the warning threshold or the budget was just crossed, else null
+ */
+export async function checkBudgetCrossing(
+  pricing: PricingConfig | undefined,
+  sessionCost: number | undefined,
+  sessionsRoots?: string[]
+): Promise<BudgetStatus | null> {
+  if (!pricing?.monthlyBudget || !sessionCost) {
+    return null;
+  }
+
+  const spent = await getMonthlySpend(sessionsRoots ?? (await getVaultSessionsRoots()));
+  const after = getBudgetStatus(spent, pricing);
+  const before = getBudgetStatus(spent - sessionCost, pricing);
+
+  return after && after.level !== "ok" && after.level !== before?.level ? after : null;
+}
+
+/**
+ * Describe a budget status in one line
+ */
+export function formatBudgetStatus(status: BudgetStatus): string {
+  const amounts = `${formatCost(status.spent, status.currency)} of ${formatCost(status.budget, status.currency)}`;
+  const state =
+    status.level === "exceeded"
+      ? "Monthly budget exceeded"
+      : status.level === "warning"
+        ? "Monthly budget almost used up"
+        : "Monthly budget";
+  return `${state}: ${amounts} spent in ${status.month} (${status.percent}%)`;
+}
+
+/**
+ * Format an amount of money (more decimals for small amounts)
+ */
+export function formatCost(amount: number, currency: string = DEFAULT_CURRENCY): string {
+  const digits = amount !== 0 && Math.abs(amount) < 1 ? 4 : 2;
+  return `${amount.toFixed(digits)} ${currency}`;
+}
+
+/**
+ * Describe a session's token usage and cost in one line
+ */
+export function formatSessionUsage(usage: SessionUsage): string {
+  const tokens = `Tokens: ${usage.totalTokens.toLocaleString("en-US")}${usage.source === "estimate" ? " (estimated)" : ""}`;
+  return usage.cost !== undefined
+    ? `${tokens} · Cost: ${formatCost(usage.cost, usage.currency)}`
+    : tokens;
+}
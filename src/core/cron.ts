@@ -0,0 +1,245 @@
+/**
+ * Cron Expression Module
+ *
+ * Parses standard 5-field cron expressions and computes their next run time
+ * in a given timezone. Used by the scheduler for workflow and command
+ * `schedule` definitions.
+ *
+ * Supported syntax:
+ * - Fields: minute hour day-of-month month day-of-week
+ * - `*`, lists (`1,15`), ranges (`1-5`), steps (`*\/15`, `0-30/10`)
+ * - Month names (`jan`-`dec`) and weekday names (`sun`-`sat`); weekday 7 is Sunday
+ * - Macros: @yearly, @annually, @monthly, @weekly, @daily, @midnight, @hourly
+ *
+ * When both day-of-month and day-of-week are restricted, a day matches if
+ * either does (standard cron behavior).
+ *
+ * @module core/cron
+ */
+
+import { getDatePartsInTimezone, TimezoneDateParts } from "../utils/timezone.js";
+
+/**
+ * Parsed cron expression
+ */
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = "jan feb mar apr may jun jul aug sep oct nov dec".split(" ");
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  { name: "day-of-week", min: 0, max: 7, names: WEEKDAY_NAMES, namesOffset: 0 },
+];
+
+/**
+ * How far ahead getNextCronRun searches before giving up
+ */
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a cron expression
+ *
+ * @throws Error describing the invalid field
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const expanded = MACROS[source.toLowerCase()] ?? source;
+  const parts = expanded.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression '${source}': expected 5 fields, got ${parts.length}`);
+  }
+
+  const sets = parts.map((part, index) => {
+    try {
+      return parseField(part, FIELDS[index]);
+    } catch (error) {
+      throw new Error(`Invalid cron expression '${source}': ${(error as Error).message}`);
+    }
+  });
+
+  // Weekday 7 is an alias for Sunday
+  if (sets[4].delete(7)) {
+    sets[4].add(0);
+  }
+
+  const cron: CronExpression = {
+    source,
+    minutes: sets[0],
+    hours: sets[1],
+    daysOfMonth: sets[2],
+    months: sets[3],
+    daysOfWeek: sets[4],
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*",
+  };
+
+  // e.g. "0 0 30 2 *" can never fire
+  if (cron.dayOfMonthRestricted && !cron.dayOfWeekRestricted) {
+    const possible = Array.from(cron.months).some((month) =>
+      Array.from(cron.daysOfMonth).some((day) => day <= DAYS_IN_MONTH[month - 1])
+    );
+    if (!possible) {
+      throw new Error(`Invalid cron expression '${source}': no matching dates`);
+    }
+  }
+
+  return cron;
+}
+
+/**
+ * Parse one cron field into the set of values it matches
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(",")) {
+    const [rangePart, stepPart, ...extra] = item.split("/");
+    if (extra.length > 0 || rangePart === "") {
+      throw new Error(`invalid ${spec.name} '${item}'`);
+    }
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`invalid ${spec.name} step '${stepPart}'`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = spec.min;
+      end = spec.name === "day-of-week" ? 6 : spec.max;
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`invalid ${spec.name} range '${rangePart}'`);
+      }
+    } else {
+      start = parseValue(rangePart, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a single numeric or named cron value
+ */
+function parseValue(value: string, spec: FieldSpec): number {
+  const lower = value.toLowerCase();
+  const nameIndex = spec.names?.indexOf(lower) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + (spec.namesOffset ?? 0);
+  }
+
+  const number = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (Number.isNaN(number) || number < spec.min || number > spec.max) {
+    throw new Error(`${spec.name} '${value}' out of range (${spec.min}-${spec.max})`);
+  }
+  return number;
+}
+
+/**
+ * Check whether wall-clock parts match a cron expression
+ */
+export function matchesCron(cron: CronExpression, parts: TimezoneDateParts): boolean {
+  return (
+    cron.minutes.has(parts.minute) &&
+    cron.hours.has(parts.hour) &&
+    cron.months.has(parts.month) &&
+    matchesDay(cron, parts)
+  );
+}
+
+/**
+ * Day-of-month / day-of-week matching (either matches when both are restricted)
+ */
+function matchesDay(cron: CronExpression, parts: TimezoneDateParts): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(parts.day);
+  const dayOfWeek = cron.daysOfWeek.has(parts.weekday);
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Compute the first time strictly after `after` that matches the expression
+ *
+ * Times are matched against the wall clock in `timezone`, so "0 9 * * *"
+ * fires at 09:00 local time across DST changes. Local times skipped by a
+ * DST transition never match.
+ *
+ * @returns Next run time, or null if nothing matches within five years
+ */
+export function getNextCronRun(
+  expression: string | CronExpression,
+  after: Date,
+  timezone: string
+): Date | null {
+  const cron = typeof expression === "string" ? parseCron(expression) : expression;
+
+  // Start at the next whole minute
+  let time = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+  const limit = time + MAX_SEARCH_MS;
+
+  while (time <= limit) {
+    const parts = getDatePartsInTimezone(new Date(time), timezone);
+
+    if (!cron.months.has(parts.month) || !matchesDay(cron, parts) || !cron.hours.has(parts.hour)) {
+      // Jump to the next local hour boundary
+      time += (60 - parts.minute) * 60000;
+      continue;
+    }
+
+    if (!cron.minutes.has(parts.minute)) {
+      time += 60000;
+      continue;
+    }
+
+    return new Date(time);
+  }
+
+  return null;
+}
@@ -0,0 +1,289 @@
+/**
+ * Vault File Change Tracking
+ *
+ * Snapshots the files in a vault (hash + size) before and after a command
+ * runs, and turns the difference into FileChange entries for changes.json.
+ *
+ * Ignore patterns are gitignore-like:
+ * - A pattern without a slash matches any file or directory name ("*.log", "node_modules")
+ * - A pattern with a slash matches from the vault root (".bozly/sessions", "notes/*.tmp")
+ * - `*` matches within a path segment, `**` across segments
+ *
+ * @module core/file-tracking
+ */
+
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { FileChange } from "./types.js";
+import { logger } from "./logger.js";
+
+/**
+ * One file in a vault snapshot
+ */
+export interface FileSnapshotEntry {
+  hash: string;
+  size: number;
+  /** Text content, kept for diff previews (small text files only) */
+  content?: string;
+}
+
+/**
+ * Vault snapshot keyed by path relative to the vault root (forward slashes)
+ */
+export type VaultSnapshot = Map<string, FileSnapshotEntry>;
+
+/**
+ * Paths never tracked: VCS/dependency folders and BOZLY's own bookkeeping
+ */
+export const DEFAULT_TRACKING_IGNORE = [
+  ".git",
+  "node_modules",
+  ".DS_Store",
+  ".obsidian/workspace*",
+  ".bozly/sessions",
+  ".bozly/logs",
+  ".bozly/backups",
+  ".bozly/workflows/runs",
+  ".bozly/suggestions-history.json",
+  ".bozly/memory-index.json",
+  ".bozly/memory-vectors.json",
+  ".bozly/search-index.json",
+];
+
+/** Text files up to this size keep their content for diff previews */
+const MAX_CONTENT_SIZE = 16 * 1024;
+/** Content kept per snapshot at most (files past it are hashed only) */
+const MAX_SNAPSHOT_CONTENT = 8 * 1024 * 1024;
+/** Stop snapshotting after this many files */
+const MAX_TRACKED_FILES = 10000;
+/** Maximum lines in a diff preview */
+const MAX_PREVIEW_LINES = 20;
+
+/**
+ * Convert a glob pattern to a regular expression source
+ */
+function globToRegExpSource(pattern: string): string {
+  return pattern
+    .split(/(\*\*\/?|\*|\?)/)
+    .map((part) => {
+      if (part === "**/") {
+        return "(?:.*/)?";
+      }
+      if (part === "**") {
+        return ".*";
+      }
+      if (part === "*") {
+        return "[^/]*";
+      }
+      if (part === "?") {
+        return "[^/]";
+      }
+      return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+}
+
+/**
+ * Check whether a vault-relative path matches any ignore pattern
+ *
+ * A path is also ignored when one of its parent directories matches.
+ */
+export function isIgnoredPath(relativePath: string, patterns: string[]): boolean {
+  const segments = relativePath.split("/");
+
+  return patterns.some((raw) => {
+    const pattern = raw.trim().replace(/^\/+|\/+$/g, "");
+    if (!pattern || pattern.startsWith("#")) {
+      return false;
+    }
+
+    if (!pattern.includes("/")) {
+      const regex = new RegExp(`^${globToRegExpSource(pattern)}$`);
+      return segments.some((segment) => regex.test(segment));
+    }
+    return new RegExp(`^${globToRegExpSource(pattern)}(?:/.*)?$`).test(relativePath);
+  });
+}
+
+/**
+ * Snapshot the files in a vault
+ *
+ * @param vaultPath - Vault root
+ * @param ignore - Extra ignore patterns (added to DEFAULT_TRACKING_IGNORE)
+ * @returns Snapshot keyed by vault-relative path
+ */
+export async function snapshotVault(
+  vaultPath: string,
+  ignore: string[] = []
+): Promise<VaultSnapshot> {
+  const patterns = [...DEFAULT_TRACKING_IGNORE, ...ignore];
+  const snapshot: VaultSnapshot = new Map();
+  let contentLeft = MAX_SNAPSHOT_CONTENT;
+
+  const walk = async (dir: string, prefix: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (snapshot.size >= MAX_TRACKED_FILES) {
+        return;
+      }
+
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (isIgnoredPath(relativePath, patterns)) {
+        continue;
+      }
+
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath, relativePath);
+      } else if (entry.isFile()) {
+        try {
+          const stats = await fs.stat(fullPath);
+          if (stats.size > MAX_CONTENT_SIZE) {
+            // Large files are streamed through the hash, never held in memory
+            snapshot.set(relativePath, { hash: await hashFile(fullPath), size: stats.size });
+            continue;
+          }
+
+          const data = await fs.readFile(fullPath);
+          const keepContent = !data.includes(0) && data.length <= contentLeft;
+          if (keepContent) {
+            contentLeft -= data.length;
+          }
+          snapshot.set(relativePath, {
+            hash: createHash("sha256").update(data).digest("hex"),
+            size: data.length,
+            ...(keepContent && { content: data.toString("utf-8") }),
+          });
+        } catch {
+          // File removed or unreadable while walking
+        }
+      }
+    }
+  };
+
+  await walk(vaultPath, "");
+
+  if (snapshot.size >= MAX_TRACKED_FILES) {
+    await logger.warn("Vault has too many files to track all changes", {
+      vaultPath,
+      limit: MAX_TRACKED_FILES,
+    });
+  }
+
+  return snapshot;
+}
+
+/**
+ * Hash a file by streaming it
+ */
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Compare two snapshots
+ *
+ * @returns Created, modified and deleted files, sorted by path
+ */
+export function diffSnapshots(before: VaultSnapshot, after: VaultSnapshot): FileChange[] {
+  const changes: FileChange[] = [];
+
+  for (const [filePath, entry] of after) {
+    const previous = before.get(filePath);
+    if (!previous) {
+      changes.push({
+        path: filePath,
+        action: "created",
+        afterSize: entry.size,
+        diffPreview: buildDiffPreview(undefined, entry),
+      });
+    } else if (previous.hash !== entry.hash) {
+      changes.push({
+        path: filePath,
+        action: "modified",
+        beforeSize: previous.size,
+        afterSize: entry.size,
+        diffPreview: buildDiffPreview(previous, entry),
+      });
+    }
+  }
+
+  for (const [filePath, entry] of before) {
+    if (!after.has(filePath)) {
+      changes.push({
+        path: filePath,
+        action: "deleted",
+        beforeSize: entry.size,
+        diffPreview: buildDiffPreview(entry, undefined),
+      });
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Build a short diff preview of the changed lines
+ *
+ * Lines common to the start and end of both versions are skipped; the
+ * rest is shown as removed (-) and added (+) lines.
+ */
+export function buildDiffPreview(
+  before: FileSnapshotEntry | undefined,
+  after: FileSnapshotEntry | undefined
+): string | undefined {
+  const isBinary = (entry?: FileSnapshotEntry): boolean =>
+    entry !== undefined && entry.content === undefined;
+  if (isBinary(before) || isBinary(after)) {
+    return "(binary or large file)";
+  }
+
+  const toLines = (content = ""): string[] =>
+    content ? content.replace(/\n$/, "").split("\n") : [];
+  const oldLines = toLines(before?.content);
+  const newLines = toLines(after?.content);
+
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < oldLines.length - start &&
+    end < newLines.length - start &&
+    oldLines[oldLines.length - 1 - end] === newLines[newLines.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const lines = [
+    ...oldLines.slice(start, oldLines.length - end).map((line) => `- ${line}`),
+    ...newLines.slice(start, newLines.length - end).map((line) => `+ ${line}`),
+  ];
+  if (lines.length === 0) {
+    return undefined;
+  }
+
+  const header = before && after ? [`@@ line ${start + 1} @@`] : [];
+  const shown = lines.slice(0, MAX_PREVIEW_LINES);
+  if (lines.length > shown.length) {
+    shown.push(`... ${lines.length - shown.length} more line(s)`);
+  }
+  return [...header, ...shown].join("\n");
+}
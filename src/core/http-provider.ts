@@ -0,0 +1,296 @@
+/**
+ * HTTP Provider
+ *
+ * Sends prompts to REST endpoints instead of spawning a CLI:
+ * - OpenAI-compatible servers: POST {baseUrl}/v1/chat/completions
+ * - Ollama: POST {baseUrl}/api/generate
+ *
+ * Supports streaming (server-sent events for OpenAI, NDJSON for Ollama)
+ * and returns the token usage reported by the server.
+ *
+ * @module core/http-provider
+ */
+
+import type { ProviderConfig, ProviderHttpConfig } from "./providers.js";
+import type { TokenUsage } from "./types.js";
+
+/**
+ * Options for a single HTTP provider request
+ */
+export interface HttpProviderRequestOptions {
+  model?: string;
+  timeoutMs?: number;
+  /** Called with each streamed chunk of text */
+  onToken?: (token: string) => void;
+}
+
+/**
+ * Result of an HTTP provider request
+ */
+export interface HttpProviderResult {
+  output: string;
+  usage?: TokenUsage;
+}
+
+/**
+ * Build the endpoint URL for an HTTP provider
+ *
+ * A base URL that already ends in /v1 isn't given a second one.
+ */
+export function getHttpProviderEndpoint(http: ProviderHttpConfig): string {
+  const baseUrl = http.baseUrl.replace(/\/+$/, "");
+  if (http.api === "ollama") {
+    return `${baseUrl}/api/generate`;
+  }
+  return baseUrl.endsWith("/v1") ? `${baseUrl}/chat/completions` : `${baseUrl}/v1/chat/completions`;
+}
+
+/**
+ * Send a prompt to an HTTP provider
+ *
+ * @throws Error if the provider has no model, the API key variable is unset,
+ *   the request fails or times out, or the server responds with an error
+ */
+export async function executeHttpProvider(
+  config: Pick<ProviderConfig, "displayName" | "http" | "defaultModel">,
+  prompt: string,
+  options: HttpProviderRequestOptions = {}
+): Promise<HttpProviderResult> {
+  const http = config.http;
+  if (!http) {
+    throw new Error(`${config.displayName} is not an HTTP provider`);
+  }
+
+  const model = options.model ?? config.defaultModel;
+  if (!model) {
+    throw new Error(`${config.displayName} needs a model (set defaultModel or pass one)`);
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (http.apiKeyEnv) {
+    const apiKey = process.env[http.apiKeyEnv];
+    if (!apiKey) {
+      throw new Error(`${config.displayName} requires an API key in $${http.apiKeyEnv}`);
+    }
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const stream = http.stream ?? true;
+  const body =
+    http.api === "ollama"
+      ? { model, prompt, stream }
+      : {
+          model,
+          messages: [{ role: "user", content: prompt }],
+          stream,
+          ...(stream && { stream_options: { include_usage: true } }),
+        };
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer =
+    options.timeoutMs !== undefined
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, options.timeoutMs)
+      : undefined;
+
+  try {
+    const response = await fetch(getHttpProviderEndpoint(http), {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text()).trim().slice(0, 200);
+      throw new Error(
+        `${config.displayName} returned HTTP ${response.status}${detail ? `: ${detail}` : ""}`
+      );
+    }
+
+    if (!stream || !response.body) {
+      return parseCompleteResponse(config.displayName, http.api, await response.json());
+    }
+
+    const result: HttpProviderResult = { output: "" };
+    await readLines(response.body, (line) => {
+      const chunk = parseStreamLine(config.displayName, http.api, line);
+      if (chunk?.text) {
+        result.output += chunk.text;
+        options.onToken?.(chunk.text);
+      }
+      if (chunk?.usage) {
+        result.usage = chunk.usage;
+      }
+    });
+    return result;
+  } catch (error) {
+    if (timedOut) {
+      throw new Error(`${config.displayName} timed out after ${options.timeoutMs}ms`);
+    }
+    if ((error as Error).message.startsWith(config.displayName)) {
+      throw error;
+    }
+    throw new Error(`Failed to reach ${config.displayName}: ${(error as Error).message}`);
+  } finally {
+    clearTimeout(timer);
+    // Stops reading a stream that was cut short by an error line
+    controller.abort();
+  }
+}
+
+/**
+ * Read a response body line by line
+ */
+async function readLines(
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = done ? "" : (lines.pop() ?? "");
+    lines
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .forEach(onLine);
+
+    if (done) {
+      return;
+    }
+  }
+}
+
+/**
+ * Parse one line of a streamed response (SSE for OpenAI, NDJSON for Ollama)
+ *
+ * @throws Error if the line reports an error
+ */
+function parseStreamLine(
+  displayName: string,
+  api: ProviderHttpConfig["api"],
+  line: string
+): { text?: string; usage?: TokenUsage } | undefined {
+  let payload = line;
+  if (api === "openai") {
+    if (!line.startsWith("data:")) {
+      return undefined;
+    }
+    payload = line.slice(5).trim();
+    if (payload === "[DONE]") {
+      return undefined;
+    }
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(payload) as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+  throwIfResponseError(displayName, data);
+
+  if (api === "ollama") {
+    return {
+      text: typeof data.response === "string" ? data.response : undefined,
+      usage: data.done === true ? parseOllamaUsage(data) : undefined,
+    };
+  }
+
+  const choices = data.choices as Array<{ delta?: { content?: unknown } }> | undefined;
+  const content = choices?.[0]?.delta?.content;
+  return {
+    text: typeof content === "string" ? content : undefined,
+    usage: parseOpenAIUsage(data.usage),
+  };
+}
+
+/**
+ * Parse a non-streamed response
+ *
+ * @throws Error if the response reports an error
+ */
+function parseCompleteResponse(
+  displayName: string,
+  api: ProviderHttpConfig["api"],
+  json: unknown
+): HttpProviderResult {
+  const data = (json ?? {}) as Record<string, unknown>;
+  throwIfResponseError(displayName, data);
+
+  if (api === "ollama") {
+    return {
+      output: typeof data.response === "string" ? data.response : "",
+      usage: parseOllamaUsage(data),
+    };
+  }
+
+  const choices = data.choices as Array<{ message?: { content?: unknown } }> | undefined;
+  const content = choices?.[0]?.message?.content;
+  return {
+    output: typeof content === "string" ? content : "",
+    usage: parseOpenAIUsage(data.usage),
+  };
+}
+
+/**
+ * Throw the error a response reports
+ *
+ * Ollama sends `{"error": "..."}`, OpenAI-compatible APIs
+ * `{"error": {"message": "..."}}`, also mid-stream.
+ */
+function throwIfResponseError(displayName: string, data: Record<string, unknown>): void {
+  const { error } = data;
+  if (error === undefined || error === null) {
+    return;
+  }
+  const message =
+    typeof error === "object" && typeof (error as { message?: unknown }).message === "string"
+      ? (error as { message: string }).message
+      : typeof error === "string"
+        ? error
+        : JSON.stringify(error);
+  throw new Error(`${displayName} returned an error: ${message}`);
+}
+
+/**
+ * Token usage from an OpenAI `usage` object
+ */
+function parseOpenAIUsage(usage: unknown): TokenUsage | undefined {
+  if (typeof usage !== "object" || usage === null) {
+    return undefined;
+  }
+  const { prompt_tokens, completion_tokens, total_tokens } = usage as Record<string, unknown>;
+  const promptTokens = typeof prompt_tokens === "number" ? prompt_tokens : undefined;
+  const completionTokens = typeof completion_tokens === "number" ? completion_tokens : undefined;
+  const totalTokens =
+    typeof total_tokens === "number" ? total_tokens : (promptTokens ?? 0) + (completionTokens ?? 0);
+
+  return totalTokens > 0 ? { promptTokens, completionTokens, totalTokens } : undefined;
+}
+
+/**
+ * Token usage from Ollama's prompt_eval_count / eval_count
+ */
+function parseOllamaUsage(data: Record<string, unknown>): TokenUsage | undefined {
+  const promptTokens =
+    typeof data.prompt_eval_count === "number" ? data.prompt_eval_count : undefined;
+  const completionTokens = typeof data.eval_count === "number" ? data.eval_count : undefined;
+  if (promptTokens === undefined && completionTokens === undefined) {
+    return undefined;
+  }
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: (promptTokens ?? 0) + (completionTokens ?? 0),
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * AI Output Files
+ *
+ * Commands with `output: files` in their frontmatter let the AI create or
+ * update vault files. The response marks each file with a fenced block:
+ *
+ *   ```file:notes/2026-10-19.md
+ *   # Daily note
+ *   ```
+ *
+ * Adding `append` or `overwrite` after the path picks the write mode
+ * (default: the command's `outputMode`, otherwise overwrite).
+ *
+ * Writes are sandboxed to the vault root: absolute paths, paths that escape
+ * the vault (including through symlinks) and BOZLY internals are rejected.
+ *
+ * @module core/output-files
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { FileChange, OutputFileMode } from "./types.js";
+import { buildDiffPreview } from "./file-tracking.js";
+
+/**
+ * A file block parsed from an AI response
+ */
+export interface OutputFileBlock {
+  path: string;
+  content: string;
+  mode?: OutputFileMode;
+}
+
+/**
+ * A planned write, checked against the vault
+ */
+export interface OutputFileWrite {
+  /** Path relative to the vault root (forward slashes) */
+  path: string;
+  absolutePath: string;
+  mode: OutputFileMode;
+  content: string;
+  /** Whether the file exists before writing */
+  exists: boolean;
+  beforeSize?: number;
+  /** Why the write is rejected (rejected writes are skipped) */
+  error?: string;
+}
+
+/**
+ * Instructions added to the prompt of `output: files` commands
+ */
+export const FILE_OUTPUT_INSTRUCTIONS = `## Output Format
+
+To create or update files in the vault, put each file's full content in a fenced block whose info string is \`file:\` followed by the path relative to the vault root:
+
+\`\`\`\`
+\`\`\`file:notes/example.md
+File content
+\`\`\`
+\`\`\`\`
+
+Write \`file:notes/example.md append\` to add to the end of an existing file instead of replacing it.`;
+
+/** Top-level folders the AI may not write into */
+const PROTECTED_DIRECTORIES = [".bozly", ".git"];
+
+const OPEN_FENCE = /^\s*(`{3,}|~{3,})\s*file:\s*(\S+)(?:\s+(append|overwrite))?\s*$/;
+
+/**
+ * Parse ```file:path blocks from an AI response
+ *
+ * Blocks without a closing fence are ignored (the response was likely cut off).
+ */
+export function parseOutputFileBlocks(output: string): OutputFileBlock[] {
+  const lines = output.split(/\r?\n/);
+  const blocks: OutputFileBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(OPEN_FENCE);
+    if (!open) {
+      continue;
+    }
+
+    const [, fence, filePath, mode] = open;
+    const close = new RegExp(`^\\s*${fence[0] === "`" ? "`" : "~"}{${fence.length},}\\s*$`);
+    const end = lines.findIndex((line, index) => index > i && close.test(line));
+    if (end === -1) {
+      break;
+    }
+
+    const body = lines.slice(i + 1, end).join("\n");
+    blocks.push({
+      path: filePath,
+      content: body ? `${body}\n` : "",
+      mode: mode as OutputFileMode | undefined,
+    });
+    i = end;
+  }
+
+  return blocks;
+}
+
+/**
+ * Check a block's path and work out what writing it would do
+ *
+ * @param vaultPath - Vault root
+ * @param blocks - Parsed file blocks
+ * @param defaultMode - Mode for blocks that don't set one
+ */
+export async function planOutputFileWrites(
+  vaultPath: string,
+  blocks: OutputFileBlock[],
+  defaultMode: OutputFileMode = "overwrite"
+): Promise<OutputFileWrite[]> {
+  const root = path.resolve(vaultPath);
+  const realRoot = await fs.realpath(root).catch(() => root);
+
+  return Promise.all(
+    blocks.map(async (block): Promise<OutputFileWrite> => {
+      const absolutePath = path.resolve(root, block.path);
+      const relativePath = path.relative(root, absolutePath).split(path.sep).join("/");
+      const write: OutputFileWrite = {
+        path: relativePath || block.path,
+        absolutePath,
+        mode: block.mode ?? defaultMode,
+        content: block.content,
+        exists: false,
+      };
+
+      if (path.isAbsolute(block.path)) {
+        return { ...write, path: block.path, error: "absolute paths aren't allowed" };
+      }
+      if (!relativePath || relativePath === ".." || relativePath.startsWith("../")) {
+        return { ...write, path: block.path, error: "path is outside the vault" };
+      }
+      if (PROTECTED_DIRECTORIES.includes(relativePath.split("/")[0])) {
+        return { ...write, error: `can't write into ${relativePath.split("/")[0]}/` };
+      }
+      if (!(await isInside(realRoot, absolutePath))) {
+        return { ...write, error: "path resolves outside the vault" };
+      }
+
+      try {
+        const stats = await fs.stat(absolutePath);
+        if (!stats.isFile()) {
+          return { ...write, error: "path is not a file" };
+        }
+        return { ...write, exists: true, beforeSize: stats.size };
+      } catch {
+        return write;
+      }
+    })
+  );
+}
+
+/**
+ * Check that the deepest existing ancestor of a path resolves inside the root
+ */
+async function isInside(realRoot: string, target: string): Promise<boolean> {
+  let current = target;
+  for (;;) {
+    try {
+      const real = await fs.realpath(current);
+      const relative = path.relative(realRoot, real);
+      return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return false;
+      }
+      current = parent;
+    }
+  }
+}
+
+/**
+ * Write planned files into the vault
+ *
+ * Rejected writes are skipped. Several blocks for the same file are applied
+ * in order and reported as one change.
+ *
+ * @returns One FileChange per written file
+ */
+export async function applyOutputFileWrites(writes: OutputFileWrite[]): Promise<FileChange[]> {
+  const originals = new Map<string, string | undefined>();
+  const written = new Map<string, string>();
+
+  for (const write of writes.filter((w) => !w.error)) {
+    if (!originals.has(write.path)) {
+      originals.set(
+        write.path,
+        await fs.readFile(write.absolutePath, "utf-8").catch(() => undefined)
+      );
+    }
+
+    await fs.mkdir(path.dirname(write.absolutePath), { recursive: true });
+    if (write.mode === "append") {
+      await fs.appendFile(write.absolutePath, write.content, "utf-8");
+    } else {
+      await fs.writeFile(write.absolutePath, write.content, "utf-8");
+    }
+    written.set(write.path, await fs.readFile(write.absolutePath, "utf-8"));
+  }
+
+  return Array.from(written.entries()).map(([filePath, content]): FileChange => {
+    const original = originals.get(filePath);
+    const after = { hash: "", size: Buffer.byteLength(content), content };
+    if (original === undefined) {
+      return {
+        path: filePath,
+        action: "created",
+        afterSize: after.size,
+        diffPreview: buildDiffPreview(undefined, after),
+      };
+    }
+    return {
+      path: filePath,
+      action: "modified",
+      beforeSize: Buffer.byteLength(original),
+      afterSize: after.size,
+      diffPreview: buildDiffPreview({ hash: "", size: 0, content: original }, after),
+    };
+  });
+}
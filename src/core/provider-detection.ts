@@ -9,7 +9,7 @@
  * @module core/provider-detection
  */
 
-import { execSync } from "child_process";
+import { execFileSync } from "child_process";
 import { listProviders } from "./providers.js";
 
 /**
@@ -60,11 +60,12 @@ export interface ProviderDetectionResult {
  * @returns Version string or null if detection fails
  */
 function getProviderVersion(command: string): string | null {
-  const versionCommands = [`${command} --version`, `${command} -v`, `${command} version`];
+  const versionArgs = ["--version", "-v", "version"];
 
-  for (const versionCmd of versionCommands) {
+  for (const versionArg of versionArgs) {
     try {
-      const version = execSync(versionCmd, {
+      // No shell: user-defined providers set the command
+      const version = execFileSync(command, [versionArg], {
         stdio: ["pipe", "pipe", "ignore"],
         timeout: 5000, // 5 second timeout per attempt
       })
@@ -93,11 +94,9 @@ function getProviderVersion(command: string): string | null {
  */
 function isCommandInstalled(command: string): boolean {
   try {
-    if (process.platform === "win32") {
-      execSync(`where ${command}`, { stdio: "ignore" });
-    } else {
-      execSync(`which ${command}`, { stdio: "ignore" });
-    }
+    execFileSync(process.platform === "win32" ? "where" : "which", [command], {
+      stdio: "ignore",
+    });
     return true;
   } catch {
     return false;
@@ -0,0 +1,153 @@
+/**
+ * Provider Invocation
+ *
+ * Turns a provider configuration into a concrete CLI invocation:
+ * - Renders args templates ({{model}}, {{promptFile}}, {{prompt}})
+ * - Delivers the prompt according to inputMode (stdin, temp file, or argument)
+ * - Merges provider environment variables
+ * - Post-processes provider output (strip ANSI, JSON path, regex extract, trim)
+ *
+ * @module core/provider-invocation
+ */
+
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import type { ProviderConfig, ProviderOutputConfig } from "./providers.js";
+
+/**
+ * A ready-to-spawn provider invocation
+ */
+export interface ProviderInvocation {
+  command: string;
+  args: string[];
+  /** Prompt to write to stdin (stdin input mode only) */
+  input?: string;
+  env: NodeJS.ProcessEnv;
+  /** Temp file holding the prompt (file input mode only) */
+  promptFile?: string;
+}
+
+const PLACEHOLDER = /\{\{\s*(model|promptFile|prompt)\s*\}\}/g;
+
+/**
+ * Build the invocation for a provider
+ *
+ * modelArgs are appended only when a model is set (options.model or the
+ * provider's defaultModel). In file mode the prompt is written to a temp
+ * file, appended as the last argument unless args reference {{promptFile}};
+ * in arg mode the prompt is appended unless args reference {{prompt}}.
+ * Arguments that render to an empty string are dropped.
+ *
+ * Call cleanupProviderInvocation() when the process has finished.
+ */
+export async function prepareProviderInvocation(
+  config: Pick<ProviderConfig, "command" | "args"> & Partial<ProviderConfig>,
+  prompt: string,
+  options: { model?: string } = {}
+): Promise<ProviderInvocation> {
+  const model = options.model ?? config.defaultModel;
+  const templates = [...config.args, ...(model ? (config.modelArgs ?? []) : [])];
+  const references = (name: string): boolean =>
+    templates.some((arg) => new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(arg));
+
+  let promptFile: string | undefined;
+  let input: string | undefined;
+
+  switch (config.inputMode) {
+    case "file": {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "bozly-prompt-"));
+      promptFile = path.join(dir, "prompt.md");
+      await fs.writeFile(promptFile, prompt, "utf-8");
+      if (!references("promptFile")) {
+        templates.push("{{promptFile}}");
+      }
+      break;
+    }
+    case "arg":
+      if (!references("prompt")) {
+        templates.push("{{prompt}}");
+      }
+      break;
+    default:
+      input = prompt;
+  }
+
+  const values: Record<string, string> = {
+    model: model ?? "",
+    promptFile: promptFile ?? "",
+    prompt: config.inputMode === "arg" ? prompt : "",
+  };
+  const args = templates
+    .map((arg) => ({ arg, rendered: arg.replace(PLACEHOLDER, (_, key: string) => values[key]) }))
+    .filter(({ arg, rendered }) => rendered !== "" || arg === "")
+    .map(({ rendered }) => rendered);
+
+  return {
+    command: config.command,
+    args,
+    input,
+    env: { ...process.env, ...config.envVars },
+    promptFile,
+  };
+}
+
+/**
+ * Remove temporary files created for an invocation
+ */
+export async function cleanupProviderInvocation(invocation: ProviderInvocation): Promise<void> {
+  if (invocation.promptFile) {
+    await fs.rm(path.dirname(invocation.promptFile), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Post-process raw provider output
+ *
+ * Steps run in order: stripAnsi, json (dot path into parsed JSON output),
+ * extract (regex; first capture group, or the whole match), trim.
+ * Output that doesn't match `extract` is kept unchanged.
+ *
+ * @throws Error if `json` is set and the output isn't valid JSON
+ */
+export function processProviderOutput(
+  output: string,
+  config: ProviderOutputConfig | undefined
+): string {
+  if (!config) {
+    return output;
+  }
+
+  let result = output;
+
+  if (config.stripAnsi) {
+    // eslint-disable-next-line no-control-regex
+    result = result.replace(/\x1b\[[0-9;?]*[A-Za-z]/g, "");
+  }
+
+  if (config.json !== undefined) {
+    let value: unknown;
+    try {
+      value = JSON.parse(result);
+    } catch {
+      throw new Error("Provider output is not valid JSON");
+    }
+    for (const key of config.json.split(".").filter(Boolean)) {
+      value = (value as Record<string, unknown> | undefined)?.[key];
+    }
+    result = typeof value === "string" ? value : (JSON.stringify(value, null, 2) ?? "");
+  }
+
+  if (config.extract) {
+    const match = result.match(new RegExp(config.extract));
+    if (match) {
+      result = match[1] ?? match[0];
+    }
+  }
+
+  if (config.trim) {
+    result = result.trim();
+  }
+
+  return result;
+}
@@ -9,11 +9,20 @@
  * - Get provider configuration (command, args, input mode)
  * - List available providers
  * - Get setup instructions for missing providers
+ * - Load user-defined providers from ~/.bozly/providers/*.json|yaml
+ *
+ * User-defined providers override built-in ones with the same name.
+ * Besides CLI providers, a definition can describe an HTTP provider
+ * (`type: http`) that talks to an OpenAI-compatible or Ollama REST endpoint.
  *
  * @module core/providers
  */
 
-import { execSync } from "child_process";
+import { execFileSync } from "child_process";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import yaml from "js-yaml";
 import { logger } from "./logger.js";
 
 /**
@@ -24,7 +33,7 @@ export interface ProviderConfig {
   name: string;
   /** Display name for user messages */
   displayName: string;
-  /** CLI command to execute */
+  /** CLI command to execute (base URL for HTTP providers) */
   command: string;
   /** Default arguments for provider */
   args: string[];
@@ -38,6 +47,66 @@ export interface ProviderConfig {
   setupInstructions: string;
   /** Environment variables (if needed) */
   envVars?: Record<string, string>;
+  /** Arguments appended when a model is set, e.g. ["--model", "{{model}}"] */
+  modelArgs?: string[];
+  /** Model used when none is requested */
+  defaultModel?: string;
+  /** Execution timeout in milliseconds */
+  timeout?: number;
+  /** Output post-processing */
+  output?: ProviderOutputConfig;
+  /** Where the definition came from */
+  source?: "builtin" | "user";
+  /** Definition file (user-defined providers) */
+  file?: string;
+  /** Provider type (defaults to "cli") */
+  type?: "cli" | "http";
+  /** Endpoint settings (HTTP providers only) */
+  http?: ProviderHttpConfig;
+}
+
+/**
+ * HTTP provider endpoint settings
+ */
+export interface ProviderHttpConfig {
+  /** API flavor: OpenAI-compatible /v1/chat/completions or Ollama /api/generate */
+  api: "openai" | "ollama";
+  /** Server base URL, e.g. http://localhost:11434 */
+  baseUrl: string;
+  /** Environment variable holding the API key (sent as a Bearer token) */
+  apiKeyEnv?: string;
+  /** Stream tokens as they arrive (default: true) */
+  stream?: boolean;
+}
+
+/**
+ * Provider output post-processing (applied in this order)
+ */
+export interface ProviderOutputConfig {
+  /** Remove ANSI escape sequences */
+  stripAnsi?: boolean;
+  /** Parse output as JSON and take the value at this dot path (e.g. "choices.0.text") */
+  json?: string;
+  /** Regex; keep the first capture group (or whole match) */
+  extract?: string;
+  /** Trim surrounding whitespace */
+  trim?: boolean;
+}
+
+/**
+ * Problem loading a user-defined provider file
+ */
+export interface ProviderDefinitionError {
+  file: string;
+  error: string;
+}
+
+/**
+ * User-defined providers and the definitions that failed to load
+ */
+export interface UserProviders {
+  providers: Record<string, Omit<ProviderConfig, "installed">>;
+  errors: ProviderDefinitionError[];
 }
 
 /**
@@ -49,6 +118,7 @@ const PROVIDER_CONFIGS: Record<string, Omit<ProviderConfig, "installed">> = {
     displayName: "Claude",
     command: "claude",
     args: ["-p"],
+    modelArgs: ["--model", "{{model}}"],
     inputMode: "stdin",
     docsUrl: "https://github.com/anthropics/claude-cli",
     setupInstructions: `Install Claude CLI:
@@ -64,6 +134,7 @@ More info: https://github.com/anthropics/claude-cli`,
     displayName: "ChatGPT",
     command: "gpt",
     args: [],
+    modelArgs: ["--model", "{{model}}"],
     inputMode: "stdin",
     docsUrl: "https://github.com/jamesdobson/prompt_gen",
     setupInstructions: `Install GPT CLI:
@@ -82,6 +153,7 @@ More info: https://github.com/jamesdobson/prompt_gen`,
     displayName: "Gemini",
     command: "gemini",
     args: [],
+    modelArgs: ["--model", "{{model}}"],
     inputMode: "stdin",
     docsUrl: "https://github.com/google/ai-cli",
     setupInstructions: `Gemini CLI support is experimental.
@@ -95,7 +167,9 @@ If you'd like Gemini support, please file an issue:
     name: "ollama",
     displayName: "Ollama (Local)",
     command: "ollama",
-    args: ["run", "llama2"],
+    args: ["run"],
+    modelArgs: ["{{model}}"],
+    defaultModel: "llama2",
     inputMode: "stdin",
     docsUrl: "https://ollama.ai",
     setupInstructions: `Install Ollama for local AI models:
@@ -109,16 +183,253 @@ Then run: bozly run <command> --ai ollama`,
   },
 };
 
+const INPUT_MODES = ["stdin", "file", "arg"];
+const HTTP_APIS = ["openai", "ollama"];
+
+/**
+ * Get the directory holding user-defined providers
+ * Respects BOZLY_HOME environment variable (useful for testing)
+ */
+export function getUserProvidersPath(): string {
+  return path.join(process.env.BOZLY_HOME ?? path.join(os.homedir(), ".bozly"), "providers");
+}
+
+/** User-defined providers last loaded, with the directory they came from */
+let loadedUserProviders: (UserProviders & { dir: string }) | undefined;
+
+/**
+ * Load user-defined providers from ~/.bozly/providers/*.json|yaml|yml
+ *
+ * The provider name defaults to the file name. Invalid definitions are
+ * skipped and reported in `errors`.
+ *
+ * Entry points (the CLI, the server) call this once at startup; provider
+ * lookups then use the loaded definitions without touching the disk.
+ *
+ * @param dir - Directory to load from (defaults to getUserProvidersPath())
+ */
+export async function loadUserProviders(
+  dir: string = getUserProvidersPath()
+): Promise<UserProviders> {
+  const providers: Record<string, Omit<ProviderConfig, "installed">> = {};
+  const errors: ProviderDefinitionError[] = [];
+
+  const files = await fs.readdir(dir).catch(() => [] as string[]);
+
+  for (const file of files.sort()) {
+    const ext = path.extname(file).toLowerCase();
+    if (![".json", ".yaml", ".yml"].includes(ext)) {
+      continue;
+    }
+
+    const filePath = path.join(dir, file);
+    try {
+      const content = await fs.readFile(filePath, "utf-8");
+      const raw: unknown = ext === ".json" ? JSON.parse(content) : yaml.load(content);
+      const config = parseProviderDefinition(raw, path.basename(file, ext), filePath);
+      providers[config.name] = config;
+    } catch (error) {
+      errors.push({ file: filePath, error: (error as Error).message });
+    }
+  }
+
+  loadedUserProviders = { dir, providers, errors };
+  return { providers, errors };
+}
+
+/**
+ * User-defined providers loaded from the current providers directory
+ * (none until loadUserProviders has run)
+ */
+function getLoadedUserProviders(): UserProviders {
+  if (!loadedUserProviders || loadedUserProviders.dir !== getUserProvidersPath()) {
+    return { providers: {}, errors: [] };
+  }
+  return loadedUserProviders;
+}
+
+/**
+ * Validate a user-defined provider definition
+ *
+ * @throws Error describing the first invalid field
+ */
+export function parseProviderDefinition(
+  raw: unknown,
+  defaultName: string,
+  file?: string
+): Omit<ProviderConfig, "installed"> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("Provider definition must be an object");
+  }
+  const def = raw as Record<string, unknown>;
+
+  const isString = (value: unknown): value is string => typeof value === "string";
+  const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(isString);
+
+  if (def.type !== undefined && def.type !== "cli" && def.type !== "http") {
+    throw new Error("'type' must be one of: cli, http");
+  }
+  if (def.type === "http") {
+    return parseHttpProviderDefinition(def, defaultName, file);
+  }
+
+  if (def.name !== undefined && (!isString(def.name) || !def.name.trim())) {
+    throw new Error("'name' must be a non-empty string");
+  }
+  if (!isString(def.command) || !def.command.trim()) {
+    throw new Error("'command' is required");
+  }
+  if (def.args !== undefined && !isStringArray(def.args)) {
+    throw new Error("'args' must be an array of strings");
+  }
+  if (def.modelArgs !== undefined && !isStringArray(def.modelArgs)) {
+    throw new Error("'modelArgs' must be an array of strings");
+  }
+  if (def.inputMode !== undefined && !INPUT_MODES.includes(def.inputMode as string)) {
+    throw new Error(`'inputMode' must be one of: ${INPUT_MODES.join(", ")}`);
+  }
+  if (
+    def.envVars !== undefined &&
+    (typeof def.envVars !== "object" ||
+      def.envVars === null ||
+      !Object.values(def.envVars).every(isString))
+  ) {
+    throw new Error("'envVars' must map names to strings");
+  }
+  if (def.timeout !== undefined && (typeof def.timeout !== "number" || def.timeout <= 0)) {
+    throw new Error("'timeout' must be a positive number of milliseconds");
+  }
+  for (const field of ["displayName", "defaultModel", "docsUrl", "setupInstructions"]) {
+    if (def[field] !== undefined && !isString(def[field])) {
+      throw new Error(`'${field}' must be a string`);
+    }
+  }
+
+  const output = def.output as ProviderOutputConfig | undefined;
+  if (output !== undefined) {
+    if (typeof output !== "object" || output === null) {
+      throw new Error("'output' must be an object");
+    }
+    if (output.json !== undefined && !isString(output.json)) {
+      throw new Error("'output.json' must be a string");
+    }
+    if (output.extract !== undefined) {
+      try {
+        new RegExp(output.extract);
+      } catch (error) {
+        throw new Error(`'output.extract' is not a valid regex: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  const name = (def.name ?? defaultName).toLowerCase();
+  const command = def.command.trim();
+
+  return {
+    name,
+    displayName: (def.displayName as string | undefined) ?? name,
+    command,
+    args: def.args ?? [],
+    modelArgs: def.modelArgs,
+    defaultModel: def.defaultModel as string | undefined,
+    inputMode: (def.inputMode as ProviderConfig["inputMode"] | undefined) ?? "stdin",
+    envVars: def.envVars as Record<string, string> | undefined,
+    timeout: def.timeout,
+    output,
+    docsUrl: (def.docsUrl as string | undefined) ?? "",
+    setupInstructions:
+      (def.setupInstructions as string | undefined) ??
+      `Install '${command}' and make sure it is on your PATH.${file ? `\n\nDefined in: ${file}` : ""}`,
+    source: "user",
+    file,
+  };
+}
+
+/**
+ * Validate an HTTP provider definition (`type: http`)
+ *
+ * @throws Error describing the first invalid field
+ */
+function parseHttpProviderDefinition(
+  def: Record<string, unknown>,
+  defaultName: string,
+  file?: string
+): Omit<ProviderConfig, "installed"> {
+  if (!HTTP_APIS.includes(def.api as string)) {
+    throw new Error(`'api' must be one of: ${HTTP_APIS.join(", ")}`);
+  }
+  if (typeof def.baseUrl !== "string" || !/^https?:\/\//.test(def.baseUrl)) {
+    throw new Error("'baseUrl' must be an http(s) URL");
+  }
+  if (def.name !== undefined && (typeof def.name !== "string" || !def.name.trim())) {
+    throw new Error("'name' must be a non-empty string");
+  }
+  if (def.stream !== undefined && typeof def.stream !== "boolean") {
+    throw new Error("'stream' must be true or false");
+  }
+  if (def.timeout !== undefined && (typeof def.timeout !== "number" || def.timeout <= 0)) {
+    throw new Error("'timeout' must be a positive number of milliseconds");
+  }
+  for (const field of ["displayName", "defaultModel", "apiKeyEnv", "docsUrl"]) {
+    if (def[field] !== undefined && typeof def[field] !== "string") {
+      throw new Error(`'${field}' must be a string`);
+    }
+  }
+
+  const name = (def.name ?? defaultName).toLowerCase();
+  const baseUrl = def.baseUrl.replace(/\/+$/, "");
+  const apiKeyEnv = def.apiKeyEnv as string | undefined;
+
+  return {
+    name,
+    displayName: (def.displayName as string | undefined) ?? name,
+    command: baseUrl,
+    args: [],
+    defaultModel: def.defaultModel as string | undefined,
+    inputMode: "stdin",
+    timeout: def.timeout,
+    docsUrl: (def.docsUrl as string | undefined) ?? "",
+    setupInstructions:
+      `Make sure the server at ${baseUrl} is running` +
+      (apiKeyEnv ? ` and ${apiKeyEnv} is set.` : ".") +
+      (file ? `\n\nDefined in: ${file}` : ""),
+    source: "user",
+    file,
+    type: "http",
+    http: {
+      api: def.api as ProviderHttpConfig["api"],
+      baseUrl,
+      apiKeyEnv,
+      stream: def.stream,
+    },
+  };
+}
+
+/**
+ * Get built-in and user-defined provider configurations (user overrides built-in)
+ */
+function getAllProviderConfigs(): Record<string, Omit<ProviderConfig, "installed">> {
+  const builtin = Object.fromEntries(
+    Object.entries(PROVIDER_CONFIGS).map(([name, config]) => [
+      name,
+      { ...config, source: "builtin" as const },
+    ])
+  );
+  return { ...builtin, ...getLoadedUserProviders().providers };
+}
+
 /**
  * Check if a provider CLI is installed on the system
+ *
+ * The command is passed as an argument, never through a shell: user-defined
+ * providers set it.
  */
 function isProviderInstalled(command: string): boolean {
   try {
-    if (process.platform === "win32") {
-      execSync(`where ${command}`, { stdio: "ignore" });
-    } else {
-      execSync(`which ${command}`, { stdio: "ignore" });
-    }
+    execFileSync(process.platform === "win32" ? "where" : "which", [command], {
+      stdio: "ignore",
+    });
     return true;
   } catch {
     return false;
@@ -134,17 +445,22 @@ function isProviderInstalled(command: string): boolean {
  */
 export function getProviderConfig(providerName: string): ProviderConfig {
   const normalized = providerName.toLowerCase();
-  const baseConfig = PROVIDER_CONFIGS[normalized];
+  const configs = getAllProviderConfigs();
+  const baseConfig = configs[normalized];
 
   if (!baseConfig) {
+    const { errors } = getLoadedUserProviders();
+    const invalid = errors.map((e) => `\n  ${e.file}: ${e.error}`).join("");
     throw new Error(
-      `Unknown provider: ${providerName}. Available: ${Object.keys(PROVIDER_CONFIGS).join(", ")}`
+      `Unknown provider: ${providerName}. Available: ${Object.keys(configs).join(", ")}` +
+        (invalid ? `\nInvalid provider definitions:${invalid}` : "")
     );
   }
 
   return {
     ...baseConfig,
-    installed: isProviderInstalled(baseConfig.command),
+    // HTTP providers need no local CLI; reachability is checked when they run
+    installed: baseConfig.type === "http" || isProviderInstalled(baseConfig.command),
   };
 }
 
@@ -171,7 +487,7 @@ export function isProviderAvailable(providerName: string): boolean {
 export function listProviders(): ProviderConfig[] {
   const providers: ProviderConfig[] = [];
 
-  for (const name of Object.keys(PROVIDER_CONFIGS)) {
+  for (const name of Object.keys(getAllProviderConfigs())) {
     try {
       const config = getProviderConfig(name);
       providers.push(config);
@@ -289,7 +605,8 @@ export function formatProvidersList(): string {
 
   for (const provider of providers) {
     const status = provider.installed ? "✅" : "❌";
-    lines.push(`  ${status} ${provider.displayName}`);
+    const custom = provider.source === "user" ? " (custom)" : "";
+    lines.push(`  ${status} ${provider.displayName}${custom}`);
   }
 
   lines.push(
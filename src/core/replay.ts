@@ -0,0 +1,165 @@
+/**
+ * Session Replay
+ *
+ * Re-runs the prompt of a recorded session, usually against another provider,
+ * and records the result as a new session linked to the original through
+ * `metadata.replayOf`:
+ *
+ *   bozly replay <sessionId> --ai gpt
+ *
+ * The stored prompt.txt is sent verbatim. With `currentContext`, the context
+ * part of it (the first `prompt.metadata.contextSize` characters) is swapped
+ * for freshly generated vault context.
+ *
+ * @module core/replay
+ */
+
+import { generateContext } from "./context.js";
+import { runPrompt } from "./commands.js";
+import {
+  extractResultsOutput,
+  getIndexedSessionPath,
+  loadSession,
+  loadSessionFiles,
+  recordSession,
+} from "./sessions.js";
+import { diffText } from "./text-diff.js";
+import { NodeInfo, PricingConfig, RunResult, Session, SessionFiles, TextDiff } from "./types.js";
+import { logger } from "./logger.js";
+
+/**
+ * Options for replaySession
+ */
+export interface ReplayOptions {
+  /** Provider to replay with (default: the original session's provider) */
+  provider?: string;
+  /** Model to replay with (default: the original model, if the provider is unchanged) */
+  model?: string;
+  /** Replace the stored context with the vault's current context */
+  currentContext?: boolean;
+  /** Build the prompt without executing it */
+  dryRun?: boolean;
+  /** Timezone recorded with the new session */
+  timezone?: string;
+  /** Price table for the new session's cost */
+  pricing?: PricingConfig;
+}
+
+/**
+ * Result of replaying a session
+ */
+export interface ReplayResult {
+  original: Session;
+  run: RunResult;
+  /** New session (not set for dry runs) */
+  session?: Session;
+  /** Diff of the original AI output against the replayed one (not set for dry runs) */
+  outputDiff?: TextDiff;
+}
+
+/**
+ * Replay a recorded session's prompt
+ *
+ * @param vault - Vault the session belongs to
+ * @param sessionId - Session to replay
+ * @param options - Provider, model and context options
+ * @returns Original session, run result, new session and output diff
+ * @throws Error if the session or its files can't be loaded, or execution fails
+ */
+export async function replaySession(
+  vault: NodeInfo,
+  sessionId: string,
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const original = await loadSession(vault.path, sessionId);
+  if (!original) {
+    throw new Error(`Session not found: ${sessionId}`);
+  }
+
+  const sessionPath = await getIndexedSessionPath(vault.path, sessionId);
+  const files = sessionPath ? await loadSessionFiles(sessionPath) : null;
+  if (!files) {
+    throw new Error(`Failed to load session files for ${sessionId}`);
+  }
+
+  const provider = options.provider ?? original.provider;
+  const model =
+    options.model ?? (provider === original.provider ? original.metadata?.model : undefined);
+  const prompt = await buildReplayPrompt(vault, original, files, provider, options.currentContext);
+
+  await logger.info("Replaying session", {
+    sessionId,
+    command: original.command,
+    from: original.provider,
+    provider,
+    currentContext: options.currentContext ?? false,
+  });
+
+  // Replays run against the chosen provider only
+  const run = await runPrompt(vault, original.command, prompt, {
+    provider,
+    model,
+    dryRun: options.dryRun,
+    fallbackChain: [],
+  });
+
+  if (options.dryRun) {
+    return { original, run };
+  }
+
+  const output = run.output ?? "";
+  const session = await recordSession(
+    vault.path,
+    vault.id,
+    vault.name,
+    original.command,
+    run.provider,
+    {
+      contextText: prompt.contextText,
+      commandText: prompt.commandText,
+      promptText: prompt.prompt,
+    },
+    {
+      text: output,
+      duration: run.duration ?? 0,
+      model: run.model,
+      usage: run.usage,
+    },
+    run.executionLog ?? [],
+    [],
+    options.timezone,
+    { replayOf: original.id },
+    options.pricing
+  );
+
+  const outputDiff = diffText(extractResultsOutput(files.resultsMd), output, {
+    oldLabel: `${original.id} (${original.provider})`,
+    newLabel: `${session.id} (${run.provider})`,
+  });
+
+  return { original, run, session, outputDiff };
+}
+
+/**
+ * Split the stored prompt.txt into context and the rest, replacing the
+ * context with the current one if asked
+ */
+async function buildReplayPrompt(
+  vault: NodeInfo,
+  original: Session,
+  files: SessionFiles,
+  provider: string,
+  currentContext: boolean | undefined
+): Promise<{ prompt: string; contextText: string; commandText: string }> {
+  const contextSize = original.prompt?.metadata?.contextSize ?? 0;
+  const storedContext = files.promptTxt.slice(0, contextSize);
+  const rest = files.promptTxt.slice(contextSize);
+  const commandText = rest.replace(/^\n---\n/, "");
+
+  if (!currentContext) {
+    return { prompt: files.promptTxt, contextText: storedContext, commandText };
+  }
+
+  const contextText = await generateContext(vault, { provider });
+  return { prompt: `${contextText}${rest}`, contextText, commandText };
+}
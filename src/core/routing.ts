@@ -9,11 +9,19 @@
  * 5. Default ("claude")
  *
  * Also supports fallback chains when primary provider is unavailable.
+ *
+ * With the "complexity-based" strategy (GlobalConfig.routing.strategy),
+ * levels 2-4 are replaced by scoring the run and mapping the score to a
+ * configured provider/model band.
  */
 
+import fs from "fs/promises";
+import path from "path";
 import { logger } from "./logger.js";
 import { getNodeConfig, getGlobalConfig } from "./config.js";
 import { isProviderAvailable as checkProviderAvailable } from "./providers.js";
+import { getSessionStats } from "./sessions.js";
+import { ComplexityBand, NodeCommand, NodeInfo } from "./types.js";
 
 /**
  * Provider configuration including how to invoke it
@@ -31,10 +39,57 @@ export interface ProviderConfig {
 export interface ProviderResolutionContext {
   selectedProvider: string;
   selectedModel?: string;
-  resolvedFrom: "cli" | "frontmatter" | "command" | "node" | "global" | "default";
+  resolvedFrom: "cli" | "frontmatter" | "command" | "node" | "global" | "default" | "complexity";
   fallbackChain?: string[];
+  complexity?: ComplexityScore; // Set when the complexity-based strategy scored the run
+  band?: ComplexityBand; // Band that matched the complexity score
+}
+
+/**
+ * Inputs for complexity scoring
+ */
+export interface ComplexityInput {
+  promptSize: number; // Estimated prompt size in characters
+  modelUsed: boolean; // Command references a domain model
+  tags: string[];
+  history: {
+    totalSessions: number;
+    totalFailed: number;
+    averageDuration: number; // milliseconds
+  };
+}
+
+/**
+ * One factor of a complexity score
+ */
+export interface ComplexityFactor {
+  name: "prompt-size" | "model" | "tags" | "duration" | "failures";
+  score: number;
+  max: number;
+  detail: string;
+}
+
+/**
+ * Complexity score (0-100) with its breakdown
+ */
+export interface ComplexityScore {
+  score: number;
+  factors: ComplexityFactor[];
 }
 
+/**
+ * Default points per command tag for complexity scoring
+ */
+export const DEFAULT_TAG_SCORES: Record<string, number> = {
+  analysis: 15,
+  research: 15,
+  code: 10,
+  planning: 10,
+  review: 10,
+  summary: -5,
+  quick: -10,
+};
+
 /**
  * Known provider configurations
  */
@@ -199,6 +254,171 @@ export async function resolveFallbackChain(
   };
 }
 
+/**
+ * Score how demanding a run is likely to be
+ *
+ * Factors (max points):
+ * - prompt-size (40): 1 point per 500 characters
+ * - model (15): the command references a domain model
+ * - tags (0-20): sum of tag points, clamped
+ * - duration (15): 1 point per 4s of average past duration
+ * - failures (10): past failure rate
+ */
+export function scoreComplexity(
+  input: ComplexityInput,
+  tagScores: Record<string, number> = DEFAULT_TAG_SCORES
+): ComplexityScore {
+  const factors: ComplexityFactor[] = [];
+
+  factors.push({
+    name: "prompt-size",
+    score: Math.min(40, Math.round(input.promptSize / 500)),
+    max: 40,
+    detail: `${input.promptSize} chars`,
+  });
+
+  factors.push({
+    name: "model",
+    score: input.modelUsed ? 15 : 0,
+    max: 15,
+    detail: input.modelUsed ? "uses a domain model" : "no domain model",
+  });
+
+  const scoredTags = input.tags
+    .map((tag) => ({ tag, points: tagScores[tag.toLowerCase()] ?? 0 }))
+    .filter((t) => t.points !== 0);
+  const tagPoints = scoredTags.reduce((sum, t) => sum + t.points, 0);
+  factors.push({
+    name: "tags",
+    score: Math.max(0, Math.min(20, tagPoints)),
+    max: 20,
+    detail:
+      scoredTags.length > 0
+        ? scoredTags.map((t) => `${t.tag} ${t.points > 0 ? "+" : ""}${t.points}`).join(", ")
+        : "no scored tags",
+  });
+
+  const { totalSessions, totalFailed, averageDuration } = input.history;
+  factors.push({
+    name: "duration",
+    score: totalSessions > 0 ? Math.min(15, Math.round(averageDuration / 4000)) : 0,
+    max: 15,
+    detail:
+      totalSessions > 0
+        ? `avg ${(averageDuration / 1000).toFixed(1)}s over ${totalSessions} sessions`
+        : "no history",
+  });
+
+  factors.push({
+    name: "failures",
+    score: totalSessions > 0 ? Math.round((totalFailed / totalSessions) * 10) : 0,
+    max: 10,
+    detail: totalSessions > 0 ? `${totalFailed}/${totalSessions} failed` : "no history",
+  });
+
+  const score = factors.reduce((sum, f) => sum + f.score, 0);
+  return { score: Math.min(100, score), factors };
+}
+
+/**
+ * Pick the band for a score
+ *
+ * Bands are checked from the lowest maxScore up; a band without maxScore
+ * matches any score.
+ */
+export function selectComplexityBand(
+  score: number,
+  bands: ComplexityBand[]
+): ComplexityBand | undefined {
+  const sorted = [...bands].sort((a, b) => (a.maxScore ?? Infinity) - (b.maxScore ?? Infinity));
+  return sorted.find((band) => band.maxScore === undefined || score <= band.maxScore);
+}
+
+/**
+ * Resolve the provider for a command run, honoring the routing strategy
+ *
+ * With the "complexity-based" strategy the run is scored from the command
+ * (estimated prompt size, model, tags) and the vault's session history, and
+ * the matching band picks the provider. If no band matches, or the strategy
+ * is "manual", the regular hierarchy applies (see resolveProvider).
+ *
+ * CLI and frontmatter overrides are handled by the caller.
+ */
+export async function resolveProviderForRun(
+  node: NodeInfo,
+  command: NodeCommand,
+  params?: string
+): Promise<ProviderResolutionContext> {
+  let complexity: ComplexityScore | undefined;
+
+  try {
+    const routing = (await getGlobalConfig()).routing;
+    if (routing?.strategy === "complexity-based") {
+      const input = await gatherComplexityInput(node, command, params);
+      complexity = scoreComplexity(input, {
+        ...DEFAULT_TAG_SCORES,
+        ...routing.complexity?.tagScores,
+      });
+      const band = selectComplexityBand(complexity.score, routing.complexity?.bands ?? []);
+
+      await logger.debug("Scored run complexity", {
+        command: command.name,
+        score: complexity.score,
+        provider: band?.provider,
+      });
+
+      if (band) {
+        return {
+          selectedProvider: band.provider,
+          selectedModel: band.model,
+          resolvedFrom: "complexity",
+          complexity,
+          band,
+        };
+      }
+    }
+  } catch (error) {
+    await logger.debug("Complexity routing failed, using provider hierarchy", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const resolution = await resolveProvider(command.name, undefined);
+  return complexity ? { ...resolution, complexity } : resolution;
+}
+
+/**
+ * Collect complexity inputs for a command run
+ *
+ * The prompt size is estimated from the vault context file, the command
+ * and its parameters, without generating the full context.
+ */
+async function gatherComplexityInput(
+  node: NodeInfo,
+  command: NodeCommand,
+  params?: string
+): Promise<ComplexityInput> {
+  let contextSize = 0;
+  try {
+    contextSize = (await fs.stat(path.join(node.path, ".bozly", "context.md"))).size;
+  } catch {
+    // No context file
+  }
+
+  const stats = await getSessionStats(node.path, command.name);
+
+  return {
+    promptSize: contextSize + (command.content?.length ?? 0) + (params?.length ?? 0),
+    modelUsed: command.model !== undefined,
+    tags: command.tags ?? [],
+    history: {
+      totalSessions: stats.totalSessions,
+      totalFailed: stats.totalFailed,
+      averageDuration: stats.averageDuration,
+    },
+  };
+}
+
 /**
  * Clear provider cache (no-op since we don't cache anymore)
  * Kept for backwards compatibility with tests
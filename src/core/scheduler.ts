@@ -0,0 +1,581 @@
+/**
+ * Scheduler Module
+ *
+ * Runs workflows and commands on a cron schedule. Schedules are declared
+ * with a `schedule` field on node workflows (.bozly/workflows/*.json) or in
+ * command frontmatter, and are discovered across every registered node.
+ *
+ * Key Features:
+ * - Cron expressions evaluated in the schedule's timezone (core/cron)
+ * - Persisted state in ~/.bozly/scheduler-state.json: enable/disable
+ *   overrides, last run, next run
+ * - Catch-up: a run missed while the scheduler was down runs once on the
+ *   next tick (unless the schedule sets `catchUp: false`)
+ * - Runs record sessions exactly like `bozly run` / `bozly run <workflow>`
+ * - A lock file keeps two scheduler loops (e.g. `bozly schedule start` and
+ *   `bozly serve --scheduler`) from running the same jobs
+ *
+ * @module core/scheduler
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import { logger } from "./logger.js";
+import { listNodes } from "./registry.js";
+import { getNodeCommands } from "./commands.js";
+import { getGlobalConfig } from "./config.js";
+import { parseCron, getNextCronRun } from "./cron.js";
+import {
+  discoverNodeWorkflows,
+  loadWorkflow,
+  executeWorkflow,
+  executeWorkflowStep,
+  getWorkflowRunsPath,
+} from "./workflows.js";
+import { getSystemTimezone, isValidTimezone } from "../utils/timezone.js";
+import {
+  NodeConfig,
+  NodeInfo,
+  ScheduleDefinition,
+  ScheduledJob,
+  ScheduledJobState,
+  ScheduledRunResult,
+  SchedulerState,
+  Workflow,
+  WorkflowStep,
+} from "./types.js";
+
+const STATE_FILE = "scheduler-state.json";
+const LOCK_FILE = "scheduler.lock";
+const STATE_VERSION = 1;
+
+/**
+ * Default time between scheduler ticks (30 seconds)
+ */
+export const DEFAULT_SCHEDULER_INTERVAL_MS = 30000;
+
+/**
+ * A due run older than this is treated as missed (scheduler was down)
+ */
+export const MISSED_RUN_GRACE_MS = 10 * 60 * 1000;
+
+/**
+ * Options for a single scheduler tick
+ */
+export interface SchedulerTickOptions {
+  now?: Date;
+  statePath?: string;
+  jobs?: ScheduledJob[]; // Pre-discovered jobs (default: discover)
+  onRun?: (job: ScheduledJob, result: ScheduledRunResult) => void;
+}
+
+/**
+ * Options for the long-running scheduler loop
+ */
+export interface SchedulerOptions {
+  intervalMs?: number;
+  statePath?: string;
+  lockPath?: string;
+  onRun?: (job: ScheduledJob, result: ScheduledRunResult) => void;
+}
+
+/**
+ * Handle returned by startScheduler
+ */
+export interface SchedulerHandle {
+  stop(): Promise<void>;
+}
+
+/**
+ * Get BOZLY_HOME directory path (respects BOZLY_HOME for testing)
+ */
+function getBozlyHome(): string {
+  return process.env.BOZLY_HOME ?? path.join(os.homedir(), ".bozly");
+}
+
+/**
+ * Get the path of the scheduler state file
+ */
+export function getSchedulerStatePath(): string {
+  return path.join(getBozlyHome(), STATE_FILE);
+}
+
+/**
+ * Get the path of the scheduler lock file
+ */
+export function getSchedulerLockPath(): string {
+  return path.join(getBozlyHome(), LOCK_FILE);
+}
+
+/**
+ * Load scheduler state (empty state if the file doesn't exist yet)
+ */
+export async function loadSchedulerState(
+  statePath = getSchedulerStatePath()
+): Promise<SchedulerState> {
+  try {
+    const content = await fs.readFile(statePath, "utf-8");
+    const state = JSON.parse(content) as SchedulerState;
+    return { ...state, jobs: state.jobs ?? {} };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      await logger.warn("Failed to read scheduler state, starting fresh", {
+        statePath,
+        error: (error as Error).message,
+      });
+    }
+    return { version: STATE_VERSION, jobs: {} };
+  }
+}
+
+/**
+ * Save scheduler state atomically (write + rename)
+ */
+export async function saveSchedulerState(
+  state: SchedulerState,
+  statePath = getSchedulerStatePath()
+): Promise<void> {
+  await fs.mkdir(path.dirname(statePath), { recursive: true });
+  const tempPath = `${statePath}.${process.pid}.tmp`;
+  await fs.writeFile(
+    tempPath,
+    JSON.stringify({ ...state, version: STATE_VERSION, updated: new Date().toISOString() }, null, 2)
+  );
+  await fs.rename(tempPath, statePath);
+}
+
+/**
+ * Apply a change to one job's state
+ *
+ * State is re-read before every write so enable/disable from another
+ * process isn't lost while the scheduler loop is running.
+ */
+export async function updateScheduledJobState(
+  jobId: string,
+  patch: Partial<ScheduledJobState>,
+  statePath = getSchedulerStatePath()
+): Promise<ScheduledJobState> {
+  const state = await loadSchedulerState(statePath);
+  const jobState = { ...state.jobs[jobId], ...patch };
+  state.jobs[jobId] = jobState;
+  await saveSchedulerState(state, statePath);
+  return jobState;
+}
+
+/**
+ * Discover scheduled workflows and commands in every registered node
+ *
+ * Only a node's own workflows and commands are considered; global ones
+ * have no node to run in. Schedules with an invalid cron expression or
+ * timezone are returned with `error` set so they can be reported.
+ */
+export async function discoverScheduledJobs(): Promise<ScheduledJob[]> {
+  const jobs: ScheduledJob[] = [];
+  let globalTimezone: string | undefined;
+  try {
+    globalTimezone = (await getGlobalConfig()).timezone;
+  } catch {
+    // Fall back to the system timezone
+  }
+
+  for (const node of await listNodes()) {
+    const nodeConfig = await loadNodeConfig(node.path);
+    const defaultTimezone = nodeConfig?.timezone ?? globalTimezone ?? getSystemTimezone();
+
+    try {
+      for (const workflow of await discoverNodeWorkflows(node.path)) {
+        if (workflow.schedule) {
+          jobs.push(
+            toScheduledJob(node, "workflow", workflow.id, workflow.schedule, defaultTimezone)
+          );
+        }
+      }
+
+      for (const command of await getNodeCommands(node.path)) {
+        if (command.schedule) {
+          jobs.push(
+            toScheduledJob(node, "command", command.name, command.schedule, defaultTimezone)
+          );
+        }
+      }
+    } catch (error) {
+      await logger.warn("Failed to discover schedules in node", {
+        node: node.id,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  return jobs.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Build a job from a schedule definition
+ */
+function toScheduledJob(
+  node: NodeInfo,
+  kind: ScheduledJob["kind"],
+  target: string,
+  schedule: ScheduleDefinition,
+  defaultTimezone: string
+): ScheduledJob {
+  const timezone = schedule.timezone ?? defaultTimezone;
+  let error: string | undefined;
+
+  try {
+    parseCron(schedule.cron ?? "");
+  } catch (cronError) {
+    error = (cronError as Error).message;
+  }
+  if (!error && !isValidTimezone(timezone)) {
+    error = `Invalid timezone '${timezone}'`;
+  }
+
+  return {
+    id: `${node.id}:${kind}:${target}`,
+    kind,
+    target,
+    nodeId: node.id,
+    nodeName: node.name,
+    nodePath: node.path,
+    cron: schedule.cron,
+    timezone,
+    enabled: schedule.enabled ?? true,
+    catchUp: schedule.catchUp ?? true,
+    ...(error && { error }),
+  };
+}
+
+/**
+ * Load a node's config.json (null if missing or unreadable)
+ */
+async function loadNodeConfig(nodePath: string): Promise<NodeConfig | null> {
+  try {
+    const content = await fs.readFile(path.join(nodePath, ".bozly", "config.json"), "utf-8");
+    return JSON.parse(content) as NodeConfig;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find a job by full ID, "{kind}:{target}", or target name
+ *
+ * @throws Error if the reference matches more than one job
+ */
+export function findScheduledJob(jobs: ScheduledJob[], ref: string): ScheduledJob | undefined {
+  const exact = jobs.find((job) => job.id === ref);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = jobs.filter((job) => `${job.kind}:${job.target}` === ref || job.target === ref);
+  if (matches.length > 1) {
+    throw new Error(
+      `'${ref}' matches multiple schedules: ${matches.map((job) => job.id).join(", ")}`
+    );
+  }
+  return matches[0];
+}
+
+/**
+ * Whether a job runs, taking `bozly schedule enable/disable` into account
+ */
+export function isScheduledJobEnabled(job: ScheduledJob, state?: ScheduledJobState): boolean {
+  return state?.enabled ?? job.enabled;
+}
+
+/**
+ * Enable or disable a job
+ *
+ * Enabling clears the stored next run so it's computed from now, rather
+ * than catching up on runs skipped while the job was disabled.
+ */
+export async function setScheduledJobEnabled(
+  jobId: string,
+  enabled: boolean,
+  statePath = getSchedulerStatePath()
+): Promise<ScheduledJobState> {
+  return updateScheduledJobState(
+    jobId,
+    enabled ? { enabled, nextRun: undefined } : { enabled },
+    statePath
+  );
+}
+
+/**
+ * Compute the next run of a job after a given time
+ */
+export function getNextScheduledRun(job: ScheduledJob, after: Date): Date | null {
+  if (job.error) {
+    return null;
+  }
+  return getNextCronRun(job.cron, after, job.timezone);
+}
+
+/**
+ * Run a scheduled job once
+ *
+ * Workflows run like `bozly run <workflow>` (with persisted run state);
+ * commands run as a single workflow step, which resolves the provider,
+ * injects past memories and records a session in the node like `bozly run`.
+ * Jobs run quietly: their output is in the recorded sessions, not the console.
+ */
+export async function runScheduledJob(job: ScheduledJob): Promise<ScheduledRunResult> {
+  const startTime = new Date();
+  await logger.info("Running scheduled job", { job: job.id });
+
+  try {
+    if (job.kind === "workflow") {
+      const workflow = await loadWorkflow(job.nodePath, job.target);
+      if (!workflow) {
+        throw new Error(`Workflow '${job.target}' not found in node '${job.nodeName}'`);
+      }
+
+      const result = await executeWorkflow(workflow, {
+        runsPath: getWorkflowRunsPath(job.nodePath),
+        quiet: true,
+      });
+      const failedStep = result.steps.find((s) => s.status === "failed");
+
+      return {
+        jobId: job.id,
+        status: result.status,
+        startTime: startTime.toISOString(),
+        duration: Date.now() - startTime.getTime(),
+        error: failedStep ? `Step '${failedStep.stepId}' failed: ${failedStep.error}` : undefined,
+        workflowRunId: result.runId,
+      };
+    }
+
+    const step: WorkflowStep = {
+      id: job.target,
+      node: job.nodeId,
+      command: job.target,
+      onError: "stop",
+    };
+    const commandWorkflow: Workflow = {
+      id: `schedule:${job.id}`,
+      name: job.target,
+      version: "1.0.0",
+      created: startTime.toISOString(),
+      steps: [step],
+    };
+    const result = await executeWorkflowStep(commandWorkflow, step, new Map(), { quiet: true });
+
+    return {
+      jobId: job.id,
+      status: result.status === "completed" ? "completed" : "failed",
+      startTime: startTime.toISOString(),
+      duration: Date.now() - startTime.getTime(),
+      error: result.error,
+      sessionId: result.session?.id,
+    };
+  } catch (error) {
+    return {
+      jobId: job.id,
+      status: "failed",
+      startTime: startTime.toISOString(),
+      duration: Date.now() - startTime.getTime(),
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * Store the outcome of a run in the job's state
+ */
+export async function recordScheduledRun(
+  result: ScheduledRunResult,
+  nextRun: Date | null | undefined,
+  statePath = getSchedulerStatePath()
+): Promise<ScheduledJobState> {
+  return updateScheduledJobState(
+    result.jobId,
+    {
+      lastRun: result.startTime,
+      lastStatus: result.status,
+      lastError: result.error,
+      lastSessionId: result.sessionId,
+      lastWorkflowRunId: result.workflowRunId,
+      // undefined keeps the stored next run (e.g. for `run-now`)
+      ...(nextRun !== undefined && { nextRun: nextRun?.toISOString() }),
+    },
+    statePath
+  );
+}
+
+/**
+ * Run every job that is due, one at a time
+ *
+ * - A job seen for the first time (or just re-enabled) gets its next run
+ *   computed from now; it doesn't run immediately
+ * - A due job runs once, then its next run is computed from when it
+ *   finished, so missed occurrences are never run more than once
+ * - A job due for longer than MISSED_RUN_GRACE_MS was missed; it runs
+ *   (catch-up) unless its schedule sets `catchUp: false`
+ *
+ * @returns Results of the jobs that ran
+ */
+export async function tickScheduler(
+  options: SchedulerTickOptions = {}
+): Promise<ScheduledRunResult[]> {
+  const now = options.now ?? new Date();
+  const statePath = options.statePath ?? getSchedulerStatePath();
+  const jobs = options.jobs ?? (await discoverScheduledJobs());
+  const state = await loadSchedulerState(statePath);
+  const results: ScheduledRunResult[] = [];
+
+  for (const job of jobs) {
+    const jobState = state.jobs[job.id] ?? {};
+    if (job.error !== undefined || !isScheduledJobEnabled(job, jobState)) {
+      continue;
+    }
+
+    if (!jobState.nextRun) {
+      const nextRun = getNextScheduledRun(job, now);
+      if (nextRun) {
+        await updateScheduledJobState(job.id, { nextRun: nextRun.toISOString() }, statePath);
+      }
+      continue;
+    }
+
+    const dueAt = new Date(jobState.nextRun);
+    if (dueAt.getTime() > now.getTime()) {
+      continue;
+    }
+
+    const missed = now.getTime() - dueAt.getTime() > MISSED_RUN_GRACE_MS;
+    if (missed && !job.catchUp) {
+      await logger.info("Skipping missed scheduled run", { job: job.id, dueAt: jobState.nextRun });
+      await updateScheduledJobState(
+        job.id,
+        { nextRun: getNextScheduledRun(job, now)?.toISOString() },
+        statePath
+      );
+      continue;
+    }
+
+    const result = await runScheduledJob(job);
+    if (missed) {
+      result.catchUp = true;
+    }
+    const finished = new Date(Math.max(now.getTime(), Date.now()));
+    await recordScheduledRun(result, getNextScheduledRun(job, finished), statePath);
+    results.push(result);
+
+    await logger.info("Scheduled job finished", {
+      job: job.id,
+      status: result.status,
+      duration: result.duration,
+      catchUp: missed,
+    });
+    options.onRun?.(job, result);
+  }
+
+  return results;
+}
+
+/**
+ * Take the scheduler lock
+ *
+ * The lock file is created exclusively, so of two schedulers starting at
+ * once only one gets it; a lock whose process has exited is taken over.
+ *
+ * @throws Error if another live process holds it
+ */
+export async function acquireSchedulerLock(lockPath = getSchedulerLockPath()): Promise<void> {
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    try {
+      await fs.writeFile(lockPath, String(process.pid), { flag: "wx" });
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const pid = parseInt(await fs.readFile(lockPath, "utf-8").catch(() => ""), 10);
+    if (pid === process.pid) {
+      return;
+    }
+    if (pid && isProcessAlive(pid)) {
+      throw new Error(`Scheduler already running (PID: ${pid})`);
+    }
+    // Stale lock: remove it and try again
+    await fs.rm(lockPath, { force: true });
+  }
+
+  throw new Error(`Could not take the scheduler lock: ${lockPath}`);
+}
+
+/**
+ * Release the scheduler lock if this process holds it
+ */
+export async function releaseSchedulerLock(lockPath = getSchedulerLockPath()): Promise<void> {
+  try {
+    const pid = parseInt(await fs.readFile(lockPath, "utf-8"), 10);
+    if (pid === process.pid) {
+      await fs.unlink(lockPath);
+    }
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Check whether a process exists
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Start the scheduler loop
+ *
+ * Ticks immediately (catching up missed runs), then every `intervalMs`.
+ * A tick never overlaps the previous one.
+ *
+ * @throws Error if another scheduler already holds the lock
+ */
+export async function startScheduler(options: SchedulerOptions = {}): Promise<SchedulerHandle> {
+  const lockPath = options.lockPath ?? getSchedulerLockPath();
+  const intervalMs = options.intervalMs ?? DEFAULT_SCHEDULER_INTERVAL_MS;
+  await acquireSchedulerLock(lockPath);
+
+  let ticking: Promise<void> | null = null;
+  const tick = (): void => {
+    if (ticking) {
+      return;
+    }
+    ticking = tickScheduler({ statePath: options.statePath, onRun: options.onRun })
+      .then(() => undefined)
+      .catch(async (error) => {
+        await logger.error("Scheduler tick failed", { error: (error as Error).message });
+      })
+      .finally(() => {
+        ticking = null;
+      });
+  };
+
+  await logger.info("Scheduler started", { intervalMs, pid: process.pid });
+  tick();
+  const timer = setInterval(tick, intervalMs);
+
+  return {
+    stop: async (): Promise<void> => {
+      clearInterval(timer);
+      await ticking;
+      await releaseSchedulerLock(lockPath);
+      await logger.info("Scheduler stopped");
+    },
+  };
+}
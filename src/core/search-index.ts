@@ -0,0 +1,688 @@
+/**
+ * Search Index
+ *
+ * Persistent inverted index over what a .bozly directory holds, for ranked
+ * full-text search (`bozly search`):
+ *
+ *   session  AI output of each session (results.md)
+ *   memory   Title, summary, tags and sections of each memory (memory.md)
+ *   command  Name, description, tags and body of each command
+ *
+ * Stored in .bozly/search-index.json: the documents with their fields, and
+ * per stemmed term the token positions it occurs at in each document
+ * (positions make phrase queries possible). Results are ranked with BM25,
+ * with matches in titles, tags and summaries weighted above body text.
+ *
+ * recordSession adds sessions as they are recorded; commands are re-read
+ * whenever the index is opened (they are edited outside BOZLY). A missing
+ * index is rebuilt from the session folders.
+ *
+ * @module core/search-index
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+import { analyze, ParsedSearchQuery, buildSnippet } from "./text-search.js";
+import { loadSessionIndex, isArchivedEntry } from "./session-index.js";
+import { extractResultsOutput } from "./sessions.js";
+import { getNodeCommands } from "./commands.js";
+import { ISODateTime, MemoryMetadata, NodeCommand, Session } from "./types.js";
+
+export const SEARCH_INDEX_FILE = "search-index.json";
+const SEARCH_INDEX_VERSION = 1;
+
+/** BM25 parameters (the usual defaults) */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** Fields in indexing order, with their weight in term frequencies */
+const FIELD_WEIGHTS = {
+  title: 3,
+  summary: 2,
+  tags: 2,
+  command: 2,
+  body: 1,
+};
+
+/** Position gap between fields, so phrases don't match across them */
+const FIELD_GAP = 16;
+
+/** Body text beyond this many tokens isn't indexed */
+const MAX_BODY_TOKENS = 5000;
+
+export type SearchDocumentType = "session" | "memory" | "command";
+
+export type SearchField = keyof typeof FIELD_WEIGHTS;
+
+/**
+ * An indexed session, memory or command
+ */
+export interface SearchDocument {
+  id: string; // "<type>:<session ID or command name>"
+  key: number; // Short key used in the postings
+  type: SearchDocumentType;
+  filePath: string; // results.md, memory.md or the command file
+  sessionPath?: string; // Session directory (sessions and memories)
+  nodeId?: string;
+  nodeName?: string;
+  command: string;
+  tags: string[];
+  timestamp?: ISODateTime;
+  provider?: string;
+  status?: string;
+  summary?: string; // Memory summary or command description
+  source?: NodeCommand["source"];
+  hash?: string; // Content hash (commands)
+  length: number; // Indexed tokens
+  fields: Partial<Record<SearchField, [number, number]>>; // Token positions per field
+  terms: string[]; // Distinct terms
+}
+
+/**
+ * A document to index, with the text of its fields
+ */
+export type SearchDocumentInput = Omit<SearchDocument, "key" | "length" | "fields" | "terms"> & {
+  text: Partial<Record<SearchField, string>>;
+};
+
+/**
+ * A matching document
+ */
+export interface SearchHit {
+  document: SearchDocument;
+  score: number; // BM25 (0 for queries with only field prefixes)
+  matchedFields: SearchField[];
+}
+
+/**
+ * Options for SearchIndex.search
+ */
+export interface SearchIndexSearchOptions {
+  types?: SearchDocumentType[];
+  filter?: (document: SearchDocument) => boolean;
+}
+
+/**
+ * search-index.json
+ */
+interface SearchIndexData {
+  version: number;
+  updated: ISODateTime;
+  nextKey: number;
+  documents: SearchDocument[];
+  postings: Record<string, Record<string, number[]>>; // term → document key → positions
+}
+
+/**
+ * Search Index - Inverted index of one .bozly directory
+ */
+export class SearchIndex {
+  private indexPath: string;
+  private nextKey = 1;
+  private documents = new Map<string, SearchDocument>();
+  private byKey = new Map<number, SearchDocument>();
+  private postings = new Map<string, Map<number, number[]>>();
+
+  constructor(bozlyPath: string) {
+    this.indexPath = path.join(bozlyPath, SEARCH_INDEX_FILE);
+  }
+
+  /**
+   * Load the index from disk
+   *
+   * @returns false if there is no index, or it can't be read or is from another version
+   */
+  async load(): Promise<boolean> {
+    let data: SearchIndexData;
+    try {
+      data = JSON.parse(await fs.readFile(this.indexPath, "utf-8")) as SearchIndexData;
+    } catch {
+      return false;
+    }
+    if (data.version !== SEARCH_INDEX_VERSION) {
+      return false;
+    }
+
+    this.nextKey = data.nextKey;
+    this.documents = new Map(data.documents.map((document) => [document.id, document]));
+    this.byKey = new Map(data.documents.map((document) => [document.key, document]));
+    this.postings = new Map(
+      Object.entries(data.postings).map(([term, documents]) => [
+        term,
+        new Map(Object.entries(documents).map(([key, positions]) => [Number(key), positions])),
+      ])
+    );
+    return true;
+  }
+
+  /**
+   * Save the index to disk (atomically)
+   */
+  async save(): Promise<void> {
+    const data: SearchIndexData = {
+      version: SEARCH_INDEX_VERSION,
+      updated: new Date().toISOString(),
+      nextKey: this.nextKey,
+      documents: Array.from(this.documents.values()),
+      postings: Object.fromEntries(
+        Array.from(this.postings, ([term, documents]) => [term, Object.fromEntries(documents)])
+      ),
+    };
+
+    await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
+    const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data), "utf-8");
+    await fs.rename(tempPath, this.indexPath);
+  }
+
+  /**
+   * Number of indexed documents
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Get a document by ID
+   */
+  getDocument(id: string): SearchDocument | undefined {
+    return this.documents.get(id);
+  }
+
+  /**
+   * Get all documents, optionally of one type
+   */
+  getDocuments(type?: SearchDocumentType): SearchDocument[] {
+    const documents = Array.from(this.documents.values());
+    return type ? documents.filter((document) => document.type === type) : documents;
+  }
+
+  /**
+   * Add a document (replacing the document with the same ID)
+   */
+  addDocument(input: SearchDocumentInput): SearchDocument {
+    this.removeDocument(input.id);
+
+    const { text, ...rest } = input;
+    const document: SearchDocument = {
+      ...rest,
+      key: this.nextKey++,
+      length: 0,
+      fields: {},
+      terms: [],
+    };
+
+    const positions = new Map<string, number[]>();
+    let position = 0;
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      const fieldText = text[field];
+      const terms = fieldText ? analyze(fieldText) : [];
+      if (terms.length === 0) {
+        continue;
+      }
+
+      const start = position;
+      for (const term of field === "body" ? terms.slice(0, MAX_BODY_TOKENS) : terms) {
+        const termPositions = positions.get(term);
+        if (termPositions) {
+          termPositions.push(position);
+        } else {
+          positions.set(term, [position]);
+        }
+        position++;
+      }
+      document.fields[field] = [start, position];
+      document.length += position - start;
+      position += FIELD_GAP;
+    }
+
+    document.terms = Array.from(positions.keys());
+    for (const [term, termPositions] of positions) {
+      const documents = this.postings.get(term) ?? new Map<number, number[]>();
+      documents.set(document.key, termPositions);
+      this.postings.set(term, documents);
+    }
+
+    this.documents.set(document.id, document);
+    this.byKey.set(document.key, document);
+    return document;
+  }
+
+  /**
+   * Remove a document
+   *
+   * @returns Whether the document was indexed
+   */
+  removeDocument(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) {
+      return false;
+    }
+
+    for (const term of document.terms) {
+      const documents = this.postings.get(term);
+      documents?.delete(document.key);
+      if (documents?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documents.delete(id);
+    this.byKey.delete(document.key);
+    return true;
+  }
+
+  /**
+   * Find the documents matching a query, best first
+   *
+   * Documents must contain every term and phrase and match every field
+   * prefix. Queries with only field prefixes return every matching
+   * document with a score of 0.
+   */
+  search(query: ParsedSearchQuery, options: SearchIndexSearchOptions = {}): SearchHit[] {
+    const candidates = Array.from(this.documents.values()).filter(
+      (document) =>
+        (!options.types || options.types.includes(document.type)) &&
+        matchesFieldFilters(document, query) &&
+        (!options.filter || options.filter(document))
+    );
+
+    const queryTerms = [...new Set([...query.terms, ...query.phrases.flat()])];
+    if (queryTerms.length === 0) {
+      return candidates.map((document) => ({ document, score: 0, matchedFields: [] }));
+    }
+
+    const averageLength =
+      Array.from(this.documents.values()).reduce((sum, document) => sum + document.length, 0) /
+        this.documents.size || 1;
+
+    const hits: SearchHit[] = [];
+    for (const document of candidates) {
+      if (
+        !query.terms.every((term) => this.postings.get(term)?.has(document.key)) ||
+        !query.phrases.every((phrase) => this.containsPhrase(document, phrase))
+      ) {
+        continue;
+      }
+
+      let score = 0;
+      const matchedFields = new Set<SearchField>();
+      for (const term of queryTerms) {
+        const documents = this.postings.get(term);
+        const positions = documents?.get(document.key);
+        if (!documents || !positions) {
+          continue;
+        }
+
+        let frequency = 0;
+        for (const position of positions) {
+          const field = getFieldAt(document, position);
+          frequency += FIELD_WEIGHTS[field];
+          matchedFields.add(field);
+        }
+
+        const idf = Math.log(
+          1 + (this.documents.size - documents.size + 0.5) / (documents.size + 0.5)
+        );
+        const lengthNorm = 1 - BM25_B + (BM25_B * document.length) / averageLength;
+        score += (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+      }
+
+      hits.push({ document, score, matchedFields: Array.from(matchedFields) });
+    }
+
+    return hits.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Whether a document contains the terms of a phrase at consecutive positions
+   */
+  private containsPhrase(document: SearchDocument, phrase: string[]): boolean {
+    const positions = phrase.map((term) => this.postings.get(term)?.get(document.key));
+    if (positions.some((termPositions) => !termPositions)) {
+      return false;
+    }
+    const following = positions.slice(1).map((termPositions) => new Set(termPositions));
+    return (positions[0] ?? []).some((start) =>
+      following.every((termPositions, i) => termPositions.has(start + i + 1))
+    );
+  }
+}
+
+/**
+ * Open a .bozly directory's search index
+ *
+ * Builds the index if it's missing and refreshes its commands; changes are
+ * saved if the directory exists.
+ *
+ * @param bozlyPath - .bozly directory (of a vault, or ~/.bozly)
+ * @param node - Vault the directory belongs to (unset for ~/.bozly, whose commands are global)
+ */
+export async function openSearchIndex(
+  bozlyPath: string,
+  node?: { id: string; name: string }
+): Promise<SearchIndex> {
+  const index = new SearchIndex(bozlyPath);
+  let changed = false;
+
+  if (!(await index.load())) {
+    await indexSessionFolders(index, bozlyPath);
+    changed = true;
+  }
+  if (await syncCommandDocuments(index, bozlyPath, node)) {
+    changed = true;
+  }
+
+  if (changed && (await directoryExists(bozlyPath))) {
+    await index.save();
+  }
+  return index;
+}
+
+/**
+ * Rebuild a .bozly directory's search index from scratch
+ *
+ * @returns The new index (saved if the directory exists)
+ */
+export async function rebuildSearchIndex(
+  bozlyPath: string,
+  node?: { id: string; name: string }
+): Promise<SearchIndex> {
+  const index = new SearchIndex(bozlyPath);
+  await indexSessionFolders(index, bozlyPath);
+  await syncCommandDocuments(index, bozlyPath, node);
+
+  if (await directoryExists(bozlyPath)) {
+    await index.save();
+  }
+  return index;
+}
+
+/**
+ * Add a recorded session and its memory to the search index
+ *
+ * Does nothing if the directory has no search index yet (the first search
+ * builds it, including this session).
+ *
+ * @param bozlyPath - .bozly directory the session was recorded in
+ * @param sessionPath - Session directory
+ */
+export async function indexSessionForSearch(bozlyPath: string, sessionPath: string): Promise<void> {
+  const index = new SearchIndex(bozlyPath);
+  if (!(await index.load())) {
+    return;
+  }
+  await addSessionDocuments(index, sessionPath);
+  await index.save();
+}
+
+/**
+ * Remove sessions and their memories from the search index
+ *
+ * For sessions that were archived or deleted. Does nothing if the
+ * directory has no search index yet.
+ *
+ * @param bozlyPath - .bozly directory the sessions were recorded in
+ * @param sessionIds - IDs of the sessions to remove
+ */
+export async function removeSessionsFromSearch(
+  bozlyPath: string,
+  sessionIds: string[]
+): Promise<void> {
+  if (sessionIds.length === 0) {
+    return;
+  }
+  const index = new SearchIndex(bozlyPath);
+  if (!(await index.load())) {
+    return;
+  }
+
+  let changed = false;
+  for (const id of sessionIds) {
+    changed = index.removeDocument(`session:${id}`) || changed;
+    changed = index.removeDocument(`memory:${id}`) || changed;
+  }
+  if (changed) {
+    await index.save();
+  }
+}
+
+/**
+ * Get the passage of a document that best matches a query
+ *
+ * @returns Passage with matches in **bold**, or undefined if the file is gone
+ *   or only the document's name or tags matched
+ */
+export async function getSearchSnippet(
+  document: SearchDocument,
+  query: ParsedSearchQuery,
+  maxLength?: number
+): Promise<string | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(document.filePath, "utf-8");
+  } catch {
+    return undefined;
+  }
+
+  const text =
+    document.type === "session"
+      ? extractResultsOutput(content)
+      : document.type === "memory"
+        ? getMemoryText(content).body
+        : stripFrontmatter(content);
+  const terms = [...query.terms, ...query.phrases.flat()];
+
+  return buildSnippet(text, terms, maxLength) ?? buildSnippet(document.summary ?? "", terms);
+}
+
+/**
+ * Index every (unarchived) session of a .bozly directory
+ */
+async function indexSessionFolders(index: SearchIndex, bozlyPath: string): Promise<void> {
+  const sessionsRoot = path.join(bozlyPath, "sessions");
+  for (const entry of await loadSessionIndex(sessionsRoot)) {
+    if (!isArchivedEntry(entry)) {
+      await addSessionDocuments(index, path.join(sessionsRoot, entry.path));
+    }
+  }
+}
+
+/**
+ * Index a session directory's output and memory
+ */
+async function addSessionDocuments(index: SearchIndex, sessionPath: string): Promise<void> {
+  const session = await readJson<Session>(path.join(sessionPath, "session.json"));
+  if (!session?.id) {
+    return;
+  }
+  const metadata = await readJson<MemoryMetadata>(path.join(sessionPath, "metadata.json"));
+  const resultsPath = path.join(sessionPath, "results.md");
+  const memoryPath = path.join(sessionPath, "memory.md");
+
+  const shared = {
+    sessionPath,
+    nodeId: session.nodeId,
+    nodeName: session.nodeName,
+    command: session.command,
+    tags: metadata?.tags ?? [],
+    timestamp: session.timestamp,
+    provider: session.provider,
+    status: session.status,
+  };
+
+  const results = await readText(resultsPath);
+  index.addDocument({
+    ...shared,
+    id: `session:${session.id}`,
+    type: "session",
+    filePath: resultsPath,
+    text: {
+      command: session.command,
+      tags: shared.tags.join(" "),
+      body: [results && extractResultsOutput(results), session.error?.message]
+        .filter(Boolean)
+        .join("\n"),
+    },
+  });
+
+  const memory = await readText(memoryPath);
+  if (memory === undefined) {
+    index.removeDocument(`memory:${session.id}`);
+    return;
+  }
+  const { title, body } = getMemoryText(memory);
+  index.addDocument({
+    ...shared,
+    id: `memory:${session.id}`,
+    type: "memory",
+    filePath: memoryPath,
+    summary: metadata?.summary,
+    text: {
+      title,
+      summary: metadata?.summary,
+      tags: shared.tags.join(" "),
+      command: session.command,
+      body,
+    },
+  });
+}
+
+/**
+ * Re-index the commands of a .bozly directory whose content changed
+ *
+ * @returns Whether anything changed
+ */
+async function syncCommandDocuments(
+  index: SearchIndex,
+  bozlyPath: string,
+  node?: { id: string; name: string }
+): Promise<boolean> {
+  // getNodeCommands reads <dir>/.bozly/commands, which for ~/.bozly is the global commands
+  const commands = await getNodeCommands(path.dirname(bozlyPath));
+  const current = new Set<string>();
+  let changed = false;
+
+  for (const command of commands) {
+    const id = `command:${command.name}`;
+    const content = command.content ?? "";
+    const hash = createHash("sha1").update(content).digest("hex");
+    current.add(id);
+
+    const indexed = index.getDocument(id);
+    if (indexed?.hash === hash && indexed.nodeId === node?.id) {
+      continue;
+    }
+
+    index.addDocument({
+      id,
+      type: "command",
+      filePath: command.file,
+      nodeId: node?.id,
+      nodeName: node?.name,
+      command: command.name,
+      tags: command.tags ?? [],
+      provider: command.provider,
+      summary: command.description,
+      source: node ? "vault" : "global",
+      hash,
+      text: {
+        title: command.name.replace(/[-_]/g, " "),
+        summary: command.description,
+        tags: (command.tags ?? []).join(" "),
+        body: stripFrontmatter(content),
+      },
+    });
+    changed = true;
+  }
+
+  for (const document of index.getDocuments("command")) {
+    if (!current.has(document.id)) {
+      index.removeDocument(document.id);
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Whether a document matches the tag:, command: and vault: prefixes of a query
+ */
+function matchesFieldFilters(document: SearchDocument, query: ParsedSearchQuery): boolean {
+  const { tag, command, vault } = query.filters;
+  const tags = document.tags.map((t) => t.toLowerCase());
+  const node = [document.nodeId?.toLowerCase(), document.nodeName?.toLowerCase()];
+
+  return (
+    tag.every((value) => tags.includes(value)) &&
+    command.every((value) => document.command.toLowerCase() === value) &&
+    vault.every((value) => node.includes(value))
+  );
+}
+
+/**
+ * Field a token position belongs to
+ */
+function getFieldAt(document: SearchDocument, position: number): SearchField {
+  for (const [field, range] of Object.entries(document.fields)) {
+    if (position >= range[0] && position < range[1]) {
+      return field as SearchField;
+    }
+  }
+  return "body";
+}
+
+/**
+ * Split memory.md into its title and sections (without the Metadata section)
+ */
+function getMemoryText(memory: string): { title: string; body: string } {
+  const [firstLine, ...rest] = memory.split("\n");
+  const body = rest.join("\n");
+  const metadataStart = body.indexOf("\n## Metadata");
+  return {
+    title: firstLine.replace(/^#\s*(Session:\s*)?/, ""),
+    body: metadataStart === -1 ? body : body.slice(0, metadataStart),
+  };
+}
+
+/**
+ * Remove a leading YAML frontmatter block
+ */
+function stripFrontmatter(content: string): string {
+  return content.replace(/^---\n[\s\S]*?\n---\n?/, "");
+}
+
+/**
+ * Read a text file (undefined if it doesn't exist)
+ */
+async function readText(filePath: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read a JSON file (undefined if it doesn't exist or doesn't parse)
+ */
+async function readJson<T>(filePath: string): Promise<T | undefined> {
+  const content = await readText(filePath);
+  try {
+    return content === undefined ? undefined : (JSON.parse(content) as T);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a directory exists
+ */
+async function directoryExists(dirPath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -1,6 +1,10 @@
 /**
  * Cross-node search functionality for BOZLY
  * Enables searching across multiple vaults for sessions, memories, and commands
+ *
+ * Text queries are ranked (BM25) with the search index of ~/.bozly and of
+ * every registered vault (see core/search-index); queries without text list
+ * sessions and commands by their filters.
  */
 
 import * as fs from "fs";
@@ -20,19 +24,43 @@ import {
 } from "./types.js";
 import { querySessionsGlobal } from "./sessions.js";
 import { getGlobalCommands, getAllCommands } from "./commands.js";
-import { MemoryIndex } from "../memory/index.js";
-import { getRegistry } from "./registry.js";
+import { getRegistry, listNodes } from "./registry.js";
+import {
+  SearchIndex,
+  SearchHit,
+  SearchDocument,
+  SearchDocumentType,
+  openSearchIndex,
+  rebuildSearchIndex,
+  getSearchSnippet,
+} from "./search-index.js";
+import { parseSearchQuery, ParsedSearchQuery } from "./text-search.js";
+import { applySessionMigrations } from "./session-migrations.js";
+
+/**
+ * Search index of a .bozly directory, with the vault it belongs to
+ */
+interface OpenedSearchIndex {
+  index: SearchIndex;
+  node?: { id: string; name: string; path: string };
+}
+
+/**
+ * Search hit with its relevance among all hits (0-1)
+ */
+interface RankedSearchHit extends SearchHit {
+  relevanceScore: number;
+}
 
 /**
  * CrossNodeSearcher - Search across all vaults for sessions, memories, and commands
  */
 export class CrossNodeSearcher {
   private bozlyPath: string;
-  private memoryIndex: MemoryIndex;
+  private openedIndexes?: Promise<OpenedSearchIndex[]>;
 
   constructor(bozlyPath: string) {
     this.bozlyPath = bozlyPath;
-    this.memoryIndex = new MemoryIndex(bozlyPath);
   }
 
   /**
@@ -95,6 +123,10 @@ export class CrossNodeSearcher {
    * Search sessions across all vaults
    */
   async searchSessions(query: SearchQuery): Promise<SessionSearchResult[]> {
+    if (query.text?.trim()) {
+      return this.searchIndexedSessions(query);
+    }
+
     const globalSessionsPath = path.join(this.bozlyPath, "sessions");
 
     // Check if sessions directory exists
@@ -102,7 +134,9 @@ export class CrossNodeSearcher {
       return [];
     }
 
-    // Get all sessions matching the filter query
+    // Get the sessions matching the filter query, up to the requested page
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
     const sessions = await querySessionsGlobal(globalSessionsPath, {
       command: query.command,
       provider: query.provider,
@@ -111,17 +145,12 @@ export class CrossNodeSearcher {
       status: query.status as any,
       startDate: query.startDate,
       endDate: query.endDate,
-      limit: Math.max(query.limit ?? 50, 1000), // Get more to filter by text
+      limit: offset + limit,
       offset: 0,
     });
 
-    // Filter by text if provided
-    const filtered = query.text
-      ? sessions.filter((session) => this.matchesQuery(session, query.text ?? ""))
-      : sessions;
-
     // Score results by relevance
-    const scored: SessionSearchResult[] = filtered.map((session) => {
+    const scored: SessionSearchResult[] = sessions.map((session) => {
       const relevanceScore = this.scoreSessionRelevance(session, query);
       const matchedFields = this.getSessionMatchedFields(session, query);
 
@@ -142,71 +171,39 @@ export class CrossNodeSearcher {
     scored.sort((a, b) => b.relevanceScore - a.relevanceScore);
 
     // Apply limit and offset
-    const limit = query.limit ?? 50;
-    const offset = query.offset ?? 0;
     return scored.slice(offset, offset + limit);
   }
 
   /**
    * Search memories across all vaults
+   *
+   * Without text, lists the memories matching the filters (newest first).
    */
   async searchMemories(query: SearchQuery): Promise<MemorySearchResult[]> {
-    // Query memory index for matching memories
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let entries: any[] = [];
-    if (query.text) {
-      const result = await this.memoryIndex.search(query.text, query.limit ?? 50);
-      entries = result.entries ?? [];
-    }
-
-    // Filter by other criteria
-    const filtered = entries.filter((entry) => {
-      if (query.nodeId && entry.nodeId !== query.nodeId) {
-        return false;
-      }
-      if (query.command && entry.command !== query.command) {
-        return false;
-      }
-
-      // Check date range if provided
-      if (query.startDate ?? query.endDate) {
-        const entryDate = new Date(entry.timestamp);
-        if (query.startDate && entryDate < new Date(query.startDate)) {
-          return false;
-        }
-        if (query.endDate && entryDate > new Date(query.endDate)) {
-          return false;
-        }
-      }
+    const parsed = parseSearchQuery(query.text ?? "");
+    const hits = this.paginate(await this.searchIndexes(parsed, "memory", query), query);
 
-      return true;
-    });
-
-    // Convert to MemorySearchResult
-    const results: MemorySearchResult[] = filtered.map((entry) => {
-      const relevanceScore = this.scoreMemoryRelevance(entry, query);
-      const matchedFields = this.getMemoryMatchedFields(entry, query);
-
-      return {
+    const results: MemorySearchResult[] = [];
+    for (const hit of hits) {
+      const { document } = hit;
+      results.push({
         type: "memory",
         memory: {
-          sessionId: entry.sessionId,
-          nodeId: entry.nodeId,
-          nodeName: entry.nodeName,
-          timestamp: entry.timestamp,
-          command: entry.command,
-          summary: entry.summary,
-          tags: entry.tags,
-          filePath: entry.filePath,
+          sessionId: document.id.slice("memory:".length),
+          nodeId: document.nodeId ?? "",
+          nodeName: document.nodeName ?? "",
+          timestamp: document.timestamp ?? "",
+          command: document.command,
+          summary: document.summary ?? "",
+          tags: document.tags,
+          filePath: document.filePath,
         },
-        matchedFields,
-        relevanceScore,
-        sessionPath: entry.filePath,
-      };
-    });
-
-    // Sort by relevance
-    results.sort((a, b) => b.relevanceScore - a.relevanceScore);
+        matchedFields: hit.matchedFields,
+        relevanceScore: hit.relevanceScore,
+        sessionPath: document.sessionPath ?? path.dirname(document.filePath),
+        snippet: query.text?.trim() ? await getSearchSnippet(document, parsed) : undefined,
+      });
+    }
 
     return results;
   }
@@ -215,6 +212,10 @@ export class CrossNodeSearcher {
    * Search commands across all vaults
    */
   async searchCommands(query: SearchQuery): Promise<CommandSearchResult[]> {
+    if (query.text?.trim()) {
+      return this.searchIndexedCommands(query);
+    }
+
     const registry = await getRegistry();
     const results: CommandSearchResult[] = [];
 
@@ -234,32 +235,24 @@ export class CrossNodeSearcher {
         continue;
       }
 
-      const matches = this.matchesCommandQuery(cmd, query);
-      if (matches) {
-        const relevanceScore = this.scoreCommandRelevance(cmd, query);
-        const matchedFields = this.getCommandMatchedFields(cmd, query);
-
-        // Determine source node if it's a vault command
-        let sourceNode: { nodeId: string; nodeName: string } | undefined;
-        if (cmd.source === "vault") {
-          const node = registry.nodes.find((n) => n.path === path.dirname(path.dirname(cmd.file)));
-          if (node) {
-            sourceNode = { nodeId: node.id, nodeName: node.name };
-          }
+      // Determine source node if it's a vault command
+      let sourceNode: { nodeId: string; nodeName: string } | undefined;
+      if (cmd.source === "vault") {
+        const node = registry.nodes.find((n) => n.path === path.dirname(path.dirname(cmd.file)));
+        if (node) {
+          sourceNode = { nodeId: node.id, nodeName: node.name };
         }
-
-        results.push({
-          type: "command",
-          command: cmd,
-          matchedFields,
-          relevanceScore,
-          sourceNode,
-        });
       }
-    }
 
-    // Sort by relevance
-    results.sort((a, b) => b.relevanceScore - a.relevanceScore);
+      // Without text every command matches equally
+      results.push({
+        type: "command",
+        command: cmd,
+        matchedFields: [],
+        relevanceScore: 0.5,
+        sourceNode,
+      });
+    }
 
     // Apply limit and offset
     const limit = query.limit ?? 50;
@@ -394,22 +387,17 @@ export class CrossNodeSearcher {
   }
 
   /**
-   * Private helper: Check if session matches text query
+   * Rebuild the search indexes of ~/.bozly and every registered vault
+   *
+   * @returns Number of indexed documents
    */
-  private matchesQuery(session: Session, query: string): boolean {
-    const text = query.toLowerCase();
-
-    // Check command name
-    if (session.command?.toLowerCase().includes(text)) {
-      return true;
+  async rebuildSearchIndexes(): Promise<number> {
+    const opened: OpenedSearchIndex[] = [];
+    for (const { bozlyPath, node } of await this.getIndexedDirectories()) {
+      opened.push({ index: await rebuildSearchIndex(bozlyPath, node), node });
     }
-
-    // Check in metadata tags
-    if (session.metadata?.tags?.some((tag: string) => tag.toLowerCase().includes(text))) {
-      return true;
-    }
-
-    return false;
+    this.openedIndexes = Promise.resolve(opened);
+    return opened.reduce((sum, { index }) => sum + index.size, 0);
   }
 
   /**
@@ -433,151 +421,176 @@ export class CrossNodeSearcher {
       score += 0.1;
     }
 
-    // Boost for text match
-    if (query.text && this.matchesQuery(session, query.text)) {
-      score += 0.2;
-    }
-
     return Math.min(score, 1.0);
   }
 
   /**
-   * Private helper: Score memory relevance
+   * Private helper: Get matched field names for session
    */
-  private scoreMemoryRelevance(
-    memory: { summary: string; tags?: string[]; command?: string },
-    query: SearchQuery
-  ): number {
-    let score = 0.5;
+  private getSessionMatchedFields(session: Session, query: SearchQuery): string[] {
+    const fields: string[] = [];
 
-    if (query.text) {
-      if (memory.summary.toLowerCase().includes(query.text.toLowerCase())) {
-        score += 0.3;
-      }
-      if (
-        memory.tags?.some((tag: string) =>
-          tag.toLowerCase().includes(query.text?.toLowerCase() ?? "")
-        )
-      ) {
-        score += 0.2;
-      }
+    if (query.command && session.command === query.command) {
+      fields.push("command");
     }
-
-    if (query.command && memory.command === query.command) {
-      score += 0.2;
+    if (query.provider && session.provider === query.provider) {
+      fields.push("provider");
     }
 
-    return Math.min(score, 1.0);
+    return fields;
   }
 
   /**
-   * Private helper: Score command relevance
+   * Private helper: Rank sessions with the search indexes
    */
-  private scoreCommandRelevance(cmd: NodeCommand, query: SearchQuery): number {
-    let score = 0.5;
-
-    if (query.text) {
-      const text = query.text.toLowerCase();
-      if (cmd.name.toLowerCase().includes(text)) {
-        score += 0.3;
+  private async searchIndexedSessions(query: SearchQuery): Promise<SessionSearchResult[]> {
+    const parsed = parseSearchQuery(query.text ?? "");
+    const hits = await this.searchIndexes(parsed, "session", query);
+    const wanted = (query.offset ?? 0) + (query.limit ?? 50);
+
+    // Sessions deleted since they were indexed are dropped before paginating
+    const found: Array<{ hit: RankedSearchHit; session: Session }> = [];
+    for (const hit of hits) {
+      if (found.length >= wanted) {
+        break;
       }
-      if (cmd.description?.toLowerCase().includes(text)) {
-        score += 0.2;
-      }
-      if (cmd.tags?.some((tag) => tag.toLowerCase().includes(text))) {
-        score += 0.15;
+      const session = await readSession(hit.document.sessionPath);
+      if (session) {
+        found.push({ hit, session });
       }
     }
 
-    return Math.min(score, 1.0);
+    const results: SessionSearchResult[] = [];
+    for (const { hit, session } of this.paginate(found, query)) {
+      results.push({
+        type: "session",
+        session,
+        matchedFields: hit.matchedFields,
+        relevanceScore: hit.relevanceScore,
+        nodeInfo: {
+          nodeId: session.nodeId,
+          nodeName: session.nodeName,
+          nodePath: session.nodePath,
+        },
+        snippet: await getSearchSnippet(hit.document, parsed),
+      });
+    }
+
+    return results;
   }
 
   /**
-   * Private helper: Get matched field names for session
+   * Private helper: Rank commands with the search indexes
    */
-  private getSessionMatchedFields(session: Session, query: SearchQuery): string[] {
-    const fields: string[] = [];
+  private async searchIndexedCommands(query: SearchQuery): Promise<CommandSearchResult[]> {
+    const parsed = parseSearchQuery(query.text ?? "");
+    const hits = this.paginate(await this.searchIndexes(parsed, "command", query), query);
 
-    if (query.command && session.command === query.command) {
-      fields.push("command");
-    }
-    if (query.text && this.matchesQuery(session, query.text)) {
-      fields.push("text");
-    }
-    if (query.provider && session.provider === query.provider) {
-      fields.push("provider");
+    const results: CommandSearchResult[] = [];
+    for (const hit of hits) {
+      const { document } = hit;
+      results.push({
+        type: "command",
+        command: {
+          name: document.command,
+          description: document.summary,
+          file: document.filePath,
+          source: document.source,
+          provider: document.provider,
+          tags: document.tags,
+        },
+        matchedFields: hit.matchedFields,
+        relevanceScore: hit.relevanceScore,
+        sourceNode:
+          document.nodeId && document.nodeName
+            ? { nodeId: document.nodeId, nodeName: document.nodeName }
+            : undefined,
+        snippet: await getSearchSnippet(document, parsed),
+      });
     }
 
-    return fields;
+    return results;
   }
 
   /**
-   * Private helper: Get matched field names for memory
+   * Private helper: Search every index for one document type
+   *
+   * Hits are ranked by BM25 score (relative to the best hit) and then by date;
+   * the query's structured filters apply to their documents.
    */
-  private getMemoryMatchedFields(
-    memory: { summary: string; tags?: string[]; command?: string },
+  private async searchIndexes(
+    parsed: ParsedSearchQuery,
+    type: SearchDocumentType,
     query: SearchQuery
-  ): string[] {
-    const fields: string[] = [];
-
-    if (query.text) {
-      if (memory.summary.toLowerCase().includes(query.text.toLowerCase())) {
-        fields.push("summary");
-      }
-      if (
-        memory.tags?.some((tag: string) =>
-          tag.toLowerCase().includes(query.text?.toLowerCase() ?? "")
-        )
-      ) {
-        fields.push("tags");
-      }
-    }
-
-    if (query.command && memory.command === query.command) {
-      fields.push("command");
+  ): Promise<RankedSearchHit[]> {
+    const hits: SearchHit[] = [];
+    for (const { index } of await this.getSearchIndexes()) {
+      hits.push(
+        ...index.search(parsed, {
+          types: [type],
+          filter: (document) => matchesSearchFilters(document, query),
+        })
+      );
     }
 
-    return fields;
+    const best = Math.max(0, ...hits.map((hit) => hit.score));
+    return hits
+      .map((hit) => ({
+        ...hit,
+        relevanceScore: best > 0 ? Math.round((hit.score / best) * 1000) / 1000 : 1,
+      }))
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          (b.document.timestamp ?? "").localeCompare(a.document.timestamp ?? "")
+      );
   }
 
   /**
-   * Private helper: Get matched field names for command
+   * Private helper: Apply a query's limit and offset
    */
-  private getCommandMatchedFields(cmd: NodeCommand, query: SearchQuery): string[] {
-    const fields: string[] = [];
+  private paginate<T>(items: T[], query: SearchQuery): T[] {
+    const limit = query.limit ?? 50;
+    const offset = query.offset ?? 0;
+    return items.slice(offset, offset + limit);
+  }
 
-    if (query.text) {
-      const text = query.text.toLowerCase();
-      if (cmd.name.toLowerCase().includes(text)) {
-        fields.push("name");
-      }
-      if (cmd.description?.toLowerCase().includes(text)) {
-        fields.push("description");
-      }
-      if (cmd.tags?.some((tag: string) => tag.toLowerCase().includes(text))) {
-        fields.push("tags");
-      }
+  /**
+   * Private helper: Open the search indexes (once per searcher)
+   */
+  private getSearchIndexes(): Promise<OpenedSearchIndex[]> {
+    if (!this.openedIndexes) {
+      this.openedIndexes = this.getIndexedDirectories().then(async (directories) => {
+        const opened: OpenedSearchIndex[] = [];
+        for (const { bozlyPath, node } of directories) {
+          opened.push({ index: await openSearchIndex(bozlyPath, node), node });
+        }
+        return opened;
+      });
     }
-
-    return fields;
+    return this.openedIndexes;
   }
 
   /**
-   * Private helper: Check if command matches query
+   * Private helper: .bozly directories to search (~/.bozly, then every vault)
    */
-  private matchesCommandQuery(cmd: NodeCommand, query: SearchQuery): boolean {
-    if (query.text) {
-      const text = query.text.toLowerCase();
-      if (!cmd.name.toLowerCase().includes(text)) {
-        if (!cmd.description?.toLowerCase().includes(text)) {
-          if (!cmd.tags?.some((tag: string) => tag.toLowerCase().includes(text))) {
-            return false;
-          }
-        }
+  private async getIndexedDirectories(): Promise<
+    Array<{ bozlyPath: string; node?: OpenedSearchIndex["node"] }>
+  > {
+    const directories: Array<{ bozlyPath: string; node?: OpenedSearchIndex["node"] }> = [
+      { bozlyPath: this.bozlyPath },
+    ];
+    const seen = new Set([path.resolve(this.bozlyPath)]);
+
+    for (const node of await listNodes()) {
+      const bozlyPath = path.join(node.path, ".bozly");
+      if (!seen.has(path.resolve(bozlyPath))) {
+        seen.add(path.resolve(bozlyPath));
+        directories.push({ bozlyPath, node: { id: node.id, name: node.name, path: node.path } });
       }
     }
 
-    return true;
+    return directories;
   }
 
   /**
@@ -637,3 +650,34 @@ export class CrossNodeSearcher {
 export function createSearcher(bozlyPath: string): CrossNodeSearcher {
   return new CrossNodeSearcher(bozlyPath);
 }
+
+/**
+ * Whether an indexed document matches a query's structured filters
+ */
+function matchesSearchFilters(document: SearchDocument, query: SearchQuery): boolean {
+  const timestamp = document.timestamp ? new Date(document.timestamp).getTime() : undefined;
+  return (
+    (!query.command || document.command === query.command) &&
+    (!query.provider || document.provider === query.provider) &&
+    (!query.nodeId || document.nodeId === query.nodeId) &&
+    (!query.status || document.status === query.status) &&
+    (!query.startDate ||
+      (timestamp !== undefined && timestamp >= new Date(query.startDate).getTime())) &&
+    (!query.endDate || (timestamp !== undefined && timestamp <= new Date(query.endDate).getTime()))
+  );
+}
+
+/**
+ * Read a session directory's session.json (upgraded to the current schema)
+ */
+async function readSession(sessionPath: string | undefined): Promise<Session | null> {
+  if (!sessionPath) {
+    return null;
+  }
+  try {
+    const content = await fs.promises.readFile(path.join(sessionPath, "session.json"), "utf-8");
+    return applySessionMigrations({ session: JSON.parse(content) as Session }).session;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * Session Bundles
+ *
+ * Portable .tar.gz archives of recorded sessions, for backup and for moving
+ * sessions between machines:
+ *
+ *   manifest.json                 (format, version, filters, session list)
+ *   sessions/{uuid}/session.json  (plus the rest of SessionFiles)
+ *   sessions/{uuid}/memory.md     (extracted memory, if any)
+ *   sessions/{uuid}/metadata.json
+ *
+ * On import, sessions are upgraded to the current schema version (sessions
+ * from a newer BOZLY are skipped), moved to the local node with the same ID
+ * (or name, or the given default node), skipped if their UUID is already
+ * recorded there, and their memories are added to the node's memory index.
+ *
+ * @module core/session-bundle
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { createTarGz, extractTarGz, TarEntry } from "./tar.js";
+import { getSessionPath, isValidSessionId } from "./sessions.js";
+import { indexSessionForSearch } from "./search-index.js";
+import {
+  addToSessionIndex,
+  createSessionIndexEntry,
+  filterSessionIndex,
+  loadSessionIndex,
+} from "./session-index.js";
+import { migrateSessionFiles, getSessionSchemaVersion } from "./session-migrations.js";
+import { MemoryIndex } from "../memory/index.js";
+import { VERSION } from "./version.js";
+import { logger } from "./logger.js";
+import { ExecutionDetails, ISODateTime, MemoryMetadata, NodeInfo, Session } from "./types.js";
+
+export const SESSION_BUNDLE_FORMAT = "bozly-sessions";
+export const SESSION_BUNDLE_VERSION = 1;
+
+/** Files bundled per session (memory files are optional) */
+const SESSION_FILES = [
+  "session.json",
+  "context.md",
+  "prompt.txt",
+  "execution.json",
+  "results.md",
+  "changes.json",
+];
+const MEMORY_FILES = ["memory.md", "metadata.json"];
+
+/**
+ * manifest.json of a session bundle
+ */
+export interface SessionBundleManifest {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: ISODateTime;
+  bozlyVersion: string;
+  filters: SessionExportOptions & { nodes: string[] };
+  sessions: Array<{
+    id: string;
+    nodeId: string;
+    nodeName: string;
+    timestamp: ISODateTime;
+    command: string;
+    schema_version: string;
+    files: string[];
+  }>;
+}
+
+/**
+ * Filters for exportSessionBundle
+ */
+export interface SessionExportOptions {
+  command?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Result of exporting a bundle
+ */
+export interface SessionExportResult {
+  path: string;
+  sessions: number;
+  memories: number;
+  bytes: number;
+}
+
+/**
+ * Options for importSessionBundle
+ */
+export interface SessionImportOptions {
+  /** Local nodes to map bundled node IDs to (usually the registry) */
+  nodes: NodeInfo[];
+  /** Node for sessions whose node isn't registered here */
+  defaultNode?: NodeInfo;
+  /** Validate and report without writing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of importing a bundle
+ */
+export interface SessionImportResult {
+  imported: Array<{ id: string; nodeId: string; fromNodeId: string }>;
+  skipped: Array<{ id: string; reason: string }>;
+  memoriesIndexed: number;
+}
+
+/**
+ * Export the sessions of some nodes to a .tar.gz bundle
+ *
+ * @param nodes - Nodes whose sessions to export
+ * @param outputPath - Archive file to write
+ * @param options - Command and date range filters
+ * @returns Archive path, session and memory counts and archive size
+ */
+export async function exportSessionBundle(
+  nodes: NodeInfo[],
+  outputPath: string,
+  options: SessionExportOptions = {}
+): Promise<SessionExportResult> {
+  const manifest: SessionBundleManifest = {
+    format: SESSION_BUNDLE_FORMAT,
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    bozlyVersion: VERSION,
+    filters: { ...options, nodes: nodes.map((node) => node.id) },
+    sessions: [],
+  };
+  const files: TarEntry[] = [];
+  let memories = 0;
+
+  for (const node of nodes) {
+    const sessionsRoot = path.join(node.path, ".bozly", "sessions");
+    const entries = filterSessionIndex(await loadSessionIndex(sessionsRoot), options).reverse();
+
+    for (const entry of entries) {
+      const sessionDir = path.join(sessionsRoot, entry.path);
+      const bundled: string[] = [];
+
+      for (const file of [...SESSION_FILES, ...MEMORY_FILES]) {
+        try {
+          const content = await fs.readFile(path.join(sessionDir, file));
+          files.push({ path: `sessions/${entry.id}/${file}`, content });
+          bundled.push(file);
+        } catch {
+          // Older sessions may lack some files; memory files are optional
+        }
+      }
+
+      if (!bundled.includes("session.json")) {
+        await logger.warn("Skipping session without session.json", { id: entry.id, sessionDir });
+        continue;
+      }
+
+      let schemaVersion = "1.0";
+      try {
+        const session = JSON.parse(
+          await fs.readFile(path.join(sessionDir, "session.json"), "utf-8")
+        ) as Session;
+        schemaVersion = session.schema_version ?? schemaVersion;
+      } catch {
+        // Exported as is; the importer validates it
+      }
+
+      if (bundled.includes("memory.md")) {
+        memories++;
+      }
+      manifest.sessions.push({
+        id: entry.id,
+        nodeId: entry.nodeId,
+        nodeName: node.name,
+        timestamp: entry.timestamp,
+        command: entry.command,
+        schema_version: schemaVersion,
+        files: bundled,
+      });
+    }
+  }
+
+  const archive = await createTarGz([
+    { path: "manifest.json", content: Buffer.from(JSON.stringify(manifest, null, 2)) },
+    ...files,
+  ]);
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, archive);
+
+  await logger.info("Sessions exported", {
+    path: outputPath,
+    sessions: manifest.sessions.length,
+    memories,
+  });
+
+  return { path: outputPath, sessions: manifest.sessions.length, memories, bytes: archive.length };
+}
+
+/**
+ * Read and validate a bundle's manifest without importing it
+ *
+ * @throws Error if the file isn't a session bundle this version can read
+ */
+export async function readSessionBundle(
+  bundlePath: string
+): Promise<{ manifest: SessionBundleManifest; files: Map<string, Buffer> }> {
+  const entries = await extractTarGz(await fs.readFile(bundlePath));
+  const files = new Map(entries.map((entry) => [entry.path, entry.content]));
+
+  const manifestFile = files.get("manifest.json");
+  let manifest: SessionBundleManifest | undefined;
+  try {
+    manifest =
+      manifestFile && (JSON.parse(manifestFile.toString("utf-8")) as SessionBundleManifest);
+  } catch {
+    // Reported below
+  }
+  if (!manifest || manifest.format !== SESSION_BUNDLE_FORMAT || !Array.isArray(manifest.sessions)) {
+    throw new Error("Not a BOZLY session bundle (missing or invalid manifest.json)");
+  }
+  if (manifest.version > SESSION_BUNDLE_VERSION) {
+    throw new Error(
+      `Bundle version ${manifest.version} is newer than supported (${SESSION_BUNDLE_VERSION}); upgrade BOZLY to import it`
+    );
+  }
+
+  return { manifest, files };
+}
+
+/**
+ * Import a session bundle into local nodes
+ *
+ * @param bundlePath - Archive created by exportSessionBundle
+ * @param options - Local nodes, default node and dry-run flag
+ * @returns Imported and skipped sessions, and memories indexed
+ * @throws Error if the file isn't a valid session bundle
+ */
+export async function importSessionBundle(
+  bundlePath: string,
+  options: SessionImportOptions
+): Promise<SessionImportResult> {
+  const { manifest, files } = await readSessionBundle(bundlePath);
+  const result: SessionImportResult = { imported: [], skipped: [], memoriesIndexed: 0 };
+
+  // Session IDs already recorded, per target sessions root
+  const knownIds = new Map<string, Set<string>>();
+  const indexEntries = new Map<string, ReturnType<typeof createSessionIndexEntry>[]>();
+
+  for (const item of manifest.sessions) {
+    const skip = (reason: string): void => {
+      result.skipped.push({ id: item.id, reason });
+    };
+
+    const read = <T>(file: string): T | undefined => {
+      const content = files.get(`sessions/${item.id}/${file}`);
+      return content && (JSON.parse(content.toString("utf-8")) as T);
+    };
+
+    let session: Session | undefined;
+    let execution: ExecutionDetails | undefined;
+    let memoryMetadata: MemoryMetadata | undefined;
+    try {
+      session = read<Session>("session.json");
+      execution = read<ExecutionDetails>("execution.json");
+      memoryMetadata = read<MemoryMetadata>("metadata.json");
+    } catch {
+      skip("Unreadable session files");
+      continue;
+    }
+    if (!session) {
+      skip("Missing session.json");
+      continue;
+    }
+    if (session.id !== item.id) {
+      skip("session.json doesn't match the manifest");
+      continue;
+    }
+
+    try {
+      ({ session, execution, memoryMetadata } = migrateSessionFiles({
+        session,
+        execution,
+        memoryMetadata,
+      }).files);
+    } catch {
+      skip(`Unsupported schema_version ${getSessionSchemaVersion(session)}`);
+      continue;
+    }
+
+    const target =
+      options.nodes.find((node) => node.id === session.nodeId) ??
+      options.nodes.find((node) => node.name === (session.nodeName ?? item.nodeName)) ??
+      options.defaultNode;
+    if (!target) {
+      skip(`No local node for '${session.nodeName ?? item.nodeName}'`);
+      continue;
+    }
+
+    // The ID names the session's directory, and bundles may come from anywhere
+    if (!isValidSessionId(session.id)) {
+      skip("Invalid session ID");
+      continue;
+    }
+
+    const sessionsRoot = path.join(target.path, ".bozly", "sessions");
+    let ids = knownIds.get(sessionsRoot);
+    if (!ids) {
+      ids = new Set((await loadSessionIndex(sessionsRoot)).map((entry) => entry.id));
+      knownIds.set(sessionsRoot, ids);
+    }
+    if (ids.has(session.id)) {
+      skip("Already recorded");
+      continue;
+    }
+    ids.add(session.id);
+
+    const fromNodeId = session.nodeId;
+    const imported: Session = {
+      ...session,
+      nodeId: target.id,
+      nodeName: target.name,
+      nodePath: target.path,
+    };
+    const sessionDir = getSessionPath(
+      path.join(target.path, ".bozly"),
+      target.id,
+      session.timestamp,
+      session.id
+    );
+    if (path.relative(sessionsRoot, sessionDir).split(path.sep).includes("..")) {
+      skip("Session directory outside the sessions folder");
+      continue;
+    }
+    result.imported.push({ id: session.id, nodeId: target.id, fromNodeId });
+
+    const hasMemory = files.has(`sessions/${item.id}/memory.md`);
+
+    if (options.dryRun) {
+      result.memoriesIndexed += hasMemory && memoryMetadata ? 1 : 0;
+      continue;
+    }
+
+    // JSON files are written as migrated; the rest are copied as is
+    const migrated: Record<string, unknown> = {
+      "session.json": imported,
+      "execution.json": execution,
+      "metadata.json": memoryMetadata && {
+        ...memoryMetadata,
+        nodeId: target.id,
+        nodeName: target.name,
+      },
+    };
+    await fs.mkdir(sessionDir, { recursive: true });
+    for (const file of [...SESSION_FILES, ...MEMORY_FILES]) {
+      const content = file in migrated ? migrated[file] : files.get(`sessions/${item.id}/${file}`);
+      if (content) {
+        await fs.writeFile(
+          path.join(sessionDir, file),
+          Buffer.isBuffer(content) ? content : JSON.stringify(content, null, 2)
+        );
+      }
+    }
+
+    indexEntries.set(sessionsRoot, [
+      ...(indexEntries.get(sessionsRoot) ?? []),
+      createSessionIndexEntry(imported, sessionDir, sessionsRoot),
+    ]);
+
+    if (hasMemory && memoryMetadata) {
+      if (
+        await indexImportedMemory(target, sessionDir, migrated["metadata.json"] as MemoryMetadata)
+      ) {
+        result.memoriesIndexed++;
+      }
+    }
+    await indexSessionForSearch(path.join(target.path, ".bozly"), sessionDir).catch(
+      (error: unknown) =>
+        logger.warn("Failed to add imported session to the search index", {
+          id: session.id,
+          error: String(error),
+        })
+    );
+  }
+
+  for (const [sessionsRoot, entries] of indexEntries) {
+    await addToSessionIndex(sessionsRoot, entries);
+  }
+
+  await logger.info("Sessions imported", {
+    path: bundlePath,
+    imported: result.imported.length,
+    skipped: result.skipped.length,
+    dryRun: options.dryRun ?? false,
+  });
+
+  return result;
+}
+
+/**
+ * Add an imported memory to its new node's memory index
+ */
+async function indexImportedMemory(
+  node: NodeInfo,
+  sessionDir: string,
+  metadata: MemoryMetadata
+): Promise<boolean> {
+  try {
+    const memoryIndex = new MemoryIndex(path.join(node.path, ".bozly", "memory-index.json"));
+    await memoryIndex.addEntry(metadata, path.join(sessionDir, "memory.md"));
+    return true;
+  } catch (error) {
+    await logger.warn("Failed to index imported memory", {
+      sessionDir,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
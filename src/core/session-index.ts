@@ -0,0 +1,299 @@
+/**
+ * Session Index
+ *
+ * Append-only index of the sessions under a sessions root, so queries don't
+ * walk {nodeId}/{YYYY}/{MM}/{DD}/{uuid} on every call:
+ *
+ *   .bozly/sessions/index.jsonl      (per vault)
+ *   ~/.bozly/sessions/index.jsonl    (global)
+ *
+ * Each line is a SessionIndexEntry, or `{"id": "...", "removed": true}` for a
+ * deleted session. Later lines win, so moving a session (archiving) appends
+ * its entry again with the new path. The file is compacted when rebuilt or
+ * when superseded lines pile up.
+ *
+ * A missing index is rebuilt by scanning the sessions root;
+ * `bozly sessions reindex` does the same to repair a stale one.
+ *
+ * @module core/session-index
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { Session, SessionIndexEntry, SessionQueryOptions } from "./types.js";
+import { logger } from "./logger.js";
+
+export const SESSION_INDEX_FILE = "index.jsonl";
+
+/** Compact once this many lines are superseded or removed */
+const COMPACT_THRESHOLD = 500;
+
+/**
+ * Get the index file path for a sessions root
+ */
+export function getSessionIndexPath(sessionsRoot: string): string {
+  return path.join(sessionsRoot, SESSION_INDEX_FILE);
+}
+
+/**
+ * Build the index entry for a session
+ *
+ * @param session - Session metadata
+ * @param sessionDir - Full path to the session directory
+ * @param sessionsRoot - Sessions root the index belongs to
+ */
+export function createSessionIndexEntry(
+  session: Session,
+  sessionDir: string,
+  sessionsRoot: string
+): SessionIndexEntry {
+  const tokens = session.usage?.totalTokens ?? session.response?.metadata?.tokenEstimate;
+  return {
+    id: session.id,
+    nodeId: session.nodeId,
+    timestamp: session.timestamp,
+    command: session.command,
+    provider: session.provider,
+    status: session.status,
+    executionTimeMs: session.executionTimeMs,
+    promptSize: session.prompt?.metadata?.total,
+    ...(session.metadata?.model && { model: session.metadata.model }),
+    ...(tokens !== undefined && { tokens }),
+    ...(session.usage?.cost !== undefined && { cost: session.usage.cost }),
+    path: path.relative(sessionsRoot, sessionDir).split(path.sep).join("/"),
+  };
+}
+
+/**
+ * Whether an entry points into the archive folder
+ */
+export function isArchivedEntry(entry: SessionIndexEntry): boolean {
+  return entry.path === "archive" || entry.path.startsWith("archive/");
+}
+
+/**
+ * Read the index for a sessions root
+ *
+ * @returns Current entries (oldest line first), or null if there is no index
+ */
+export async function readSessionIndex(sessionsRoot: string): Promise<SessionIndexEntry[] | null> {
+  const result = await readIndexFile(sessionsRoot);
+  return result ? Array.from(result.entries.values()) : null;
+}
+
+/**
+ * Load the index for a sessions root, building it first if it doesn't exist
+ *
+ * @returns Current entries, or [] if the sessions root doesn't exist
+ */
+export async function loadSessionIndex(sessionsRoot: string): Promise<SessionIndexEntry[]> {
+  const result = await readIndexFile(sessionsRoot);
+  if (!result) {
+    return rebuildSessionIndex(sessionsRoot);
+  }
+
+  const entries = Array.from(result.entries.values());
+  if (result.lines - entries.length >= COMPACT_THRESHOLD) {
+    await writeIndexFile(sessionsRoot, entries).catch(() => undefined);
+  }
+  return entries;
+}
+
+/**
+ * Rebuild the index by scanning the sessions root for session.json files
+ *
+ * @returns Indexed entries ([] if the sessions root doesn't exist)
+ */
+export async function rebuildSessionIndex(sessionsRoot: string): Promise<SessionIndexEntry[]> {
+  try {
+    await fs.access(sessionsRoot);
+  } catch {
+    return [];
+  }
+
+  const entries: SessionIndexEntry[] = [];
+
+  const scan = async (dir: string): Promise<void> => {
+    try {
+      const dirEntries = await fs.readdir(dir, { withFileTypes: true });
+      for (const entry of dirEntries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await scan(fullPath);
+        } else if (entry.name === "session.json") {
+          try {
+            const session = JSON.parse(await fs.readFile(fullPath, "utf-8")) as Session;
+            if (session.id) {
+              entries.push(createSessionIndexEntry(session, dir, sessionsRoot));
+            }
+          } catch {
+            // Skip invalid JSON files
+          }
+        }
+      }
+    } catch {
+      // Skip inaccessible directories
+    }
+  };
+
+  await scan(sessionsRoot);
+  entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  try {
+    await writeIndexFile(sessionsRoot, entries);
+    await logger.debug("Session index rebuilt", { sessionsRoot, count: entries.length });
+  } catch (error) {
+    await logger.warn("Failed to write session index", {
+      sessionsRoot,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Add or update sessions in the index
+ *
+ * Builds the index from disk instead if it doesn't exist yet, so sessions
+ * recorded before the index was created aren't left out.
+ */
+export async function addToSessionIndex(
+  sessionsRoot: string,
+  entries: SessionIndexEntry[]
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  try {
+    await fs.access(getSessionIndexPath(sessionsRoot));
+  } catch {
+    await rebuildSessionIndex(sessionsRoot);
+    return;
+  }
+
+  await appendLines(
+    sessionsRoot,
+    entries.map((entry) => JSON.stringify(entry))
+  );
+}
+
+/**
+ * Mark sessions as removed from the index
+ *
+ * Does nothing if there is no index (the next rebuild won't find them).
+ */
+export async function removeFromSessionIndex(sessionsRoot: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) {
+    return;
+  }
+
+  try {
+    await fs.access(getSessionIndexPath(sessionsRoot));
+  } catch {
+    return;
+  }
+
+  await appendLines(
+    sessionsRoot,
+    ids.map((id) => JSON.stringify({ id, removed: true }))
+  );
+}
+
+/**
+ * Filter index entries by query options (limit and offset aren't applied)
+ *
+ * @returns Matching entries, newest first
+ */
+export function filterSessionIndex(
+  entries: SessionIndexEntry[],
+  options: SessionQueryOptions = {}
+): SessionIndexEntry[] {
+  // Callers sometimes pass Date objects despite the ISO string type
+  const startDate = options.startDate && toISODate(options.startDate);
+  const endDate = options.endDate && toISODate(options.endDate);
+
+  return entries
+    .filter(
+      (entry) =>
+        (!options.command || entry.command === options.command) &&
+        (!options.provider || entry.provider === options.provider) &&
+        (!options.node || entry.nodeId === options.node) &&
+        (!options.status || entry.status === options.status) &&
+        (!startDate || entry.timestamp >= startDate) &&
+        (!endDate || entry.timestamp <= endDate)
+    )
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+/**
+ * Normalize a date filter to an ISO string (left as is if it doesn't parse)
+ */
+function toISODate(value: string | Date): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? String(value) : date.toISOString();
+}
+
+/**
+ * Read and replay the index file
+ */
+async function readIndexFile(
+  sessionsRoot: string
+): Promise<{ entries: Map<string, SessionIndexEntry>; lines: number } | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(getSessionIndexPath(sessionsRoot), "utf-8");
+  } catch {
+    return null;
+  }
+
+  const entries = new Map<string, SessionIndexEntry>();
+  let lines = 0;
+  for (const line of content.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    lines++;
+    try {
+      const record = JSON.parse(line) as SessionIndexEntry & { removed?: boolean };
+      // Re-insert so the map keeps the latest write last
+      entries.delete(record.id);
+      if (!record.removed && record.path) {
+        entries.set(record.id, record);
+      }
+    } catch {
+      // Skip partially written lines
+    }
+  }
+
+  return { entries, lines };
+}
+
+/** Numbers temp files, so concurrent writes in one process don't share one */
+let tempFileCounter = 0;
+
+/**
+ * Replace the index file with the given entries
+ */
+async function writeIndexFile(sessionsRoot: string, entries: SessionIndexEntry[]): Promise<void> {
+  const indexPath = getSessionIndexPath(sessionsRoot);
+  const tempPath = `${indexPath}.${process.pid}.${++tempFileCounter}.tmp`;
+  const content = entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+  await fs.writeFile(tempPath, content, "utf-8");
+  await fs.rename(tempPath, indexPath);
+}
+
+/**
+ * Append lines to the index file
+ */
+async function appendLines(sessionsRoot: string, lines: string[]): Promise<void> {
+  try {
+    await fs.appendFile(getSessionIndexPath(sessionsRoot), `${lines.join("\n")}\n`, "utf-8");
+  } catch (error) {
+    await logger.warn("Failed to update session index", {
+      sessionsRoot,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Session Schema Migrations
+ *
+ * Stored sessions carry `schema_version` in session.json. Each migration
+ * upgrades a session one version, and may also touch its execution.json and
+ * memory metadata.json (which are versioned along with it):
+ *
+ *   1.0 → 1.1  copy model and token usage from execution.json into
+ *              session.json; fill memory metadata defaults
+ *
+ * Migrations run in memory whenever sessions are loaded. `bozly sessions
+ * migrate` writes them back to disk. Sessions written by a newer BOZLY are
+ * left untouched and reported by `bozly validate`.
+ *
+ * @module core/session-migrations
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { addToSessionIndex, createSessionIndexEntry } from "./session-index.js";
+import { ExecutionDetails, MemoryMetadata, Session, SessionIndexEntry } from "./types.js";
+import { logger } from "./logger.js";
+
+/** Schema version written by recordSession */
+export const CURRENT_SESSION_SCHEMA_VERSION = "1.1";
+
+/** Sessions without schema_version predate versioning */
+const UNVERSIONED_SCHEMA_VERSION = "1.0";
+
+/**
+ * The files of a session that migrations can change
+ */
+export interface MigratableSessionFiles {
+  session: Session;
+  execution?: ExecutionDetails;
+  memoryMetadata?: MemoryMetadata;
+}
+
+/**
+ * Upgrade from one schema version to the next
+ */
+export interface SessionMigration {
+  from: string;
+  to: string;
+  description: string;
+  /** Mutates the files in place (they are copies) */
+  migrate: (files: MigratableSessionFiles) => void;
+}
+
+/**
+ * Result of migrating the sessions under a sessions root
+ */
+export interface SessionMigrationReport {
+  scanned: number;
+  migrated: Array<{ id: string; path: string; from: string; to: string }>;
+  upToDate: number;
+  newer: Array<{ path: string; version: string }>;
+  failed: Array<{ path: string; error: string }>;
+}
+
+export const SESSION_MIGRATIONS: SessionMigration[] = [
+  {
+    from: "1.0",
+    to: "1.1",
+    description:
+      "Copy model and token usage from execution.json into session.json; fill memory metadata defaults",
+    migrate: ({ session, execution, memoryMetadata }) => {
+      const model = execution?.aiRequest?.model;
+      if (model && !session.metadata?.model) {
+        session.metadata = { ...session.metadata, model };
+      }
+
+      const totalTokens = execution?.aiResponse?.usage?.totalTokens;
+      const responseMetadata = session.response?.metadata;
+      if (totalTokens !== undefined && responseMetadata?.tokenEstimate === undefined) {
+        session.response = {
+          ...session.response,
+          metadata: { ...responseMetadata, tokenEstimate: totalTokens },
+        };
+      }
+
+      if (memoryMetadata) {
+        memoryMetadata.tags = memoryMetadata.tags ?? [];
+        memoryMetadata.relevantPreviousSessions = memoryMetadata.relevantPreviousSessions ?? [];
+        memoryMetadata.vaultType = memoryMetadata.vaultType ?? "generic";
+      }
+    },
+  },
+];
+
+/**
+ * Get a session's schema version ("1.0" if it has none)
+ */
+export function getSessionSchemaVersion(session: Partial<Session>): string {
+  return session.schema_version ?? UNVERSIONED_SCHEMA_VERSION;
+}
+
+/**
+ * Compare two "major.minor" schema versions
+ *
+ * @returns Negative if a is older than b, 0 if equal, positive if newer
+ */
+export function compareSchemaVersions(a: string, b: string): number {
+  const [aMajor = 0, aMinor = 0] = a.split(".").map(Number);
+  const [bMajor = 0, bMinor = 0] = b.split(".").map(Number);
+  return aMajor !== bMajor ? aMajor - bMajor : aMinor - bMinor;
+}
+
+/**
+ * Whether a schema version was written by a newer BOZLY than this one
+ */
+export function isNewerSessionSchema(version: string): boolean {
+  return compareSchemaVersions(version, CURRENT_SESSION_SCHEMA_VERSION) > 0;
+}
+
+/**
+ * Upgrade session files to the current schema version
+ *
+ * @returns Migrated copies, the versions migrated between and the migrations applied
+ * @throws Error if the schema is newer than supported or has no migration path
+ */
+export function migrateSessionFiles<T extends MigratableSessionFiles>(
+  files: T
+): { files: T; from: string; to: string; applied: SessionMigration[] } {
+  const from = getSessionSchemaVersion(files.session);
+  if (isNewerSessionSchema(from)) {
+    throw new Error(
+      `Session schema ${from} is newer than supported (${CURRENT_SESSION_SCHEMA_VERSION})`
+    );
+  }
+
+  const migrated = structuredClone(files);
+  const applied: SessionMigration[] = [];
+  let version = from;
+
+  while (version !== CURRENT_SESSION_SCHEMA_VERSION) {
+    const migration = SESSION_MIGRATIONS.find((m) => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration from session schema ${version}`);
+    }
+    migration.migrate(migrated);
+    applied.push(migration);
+    version = migration.to;
+  }
+
+  migrated.session.schema_version = version;
+  return { files: migrated, from, to: version, applied };
+}
+
+/**
+ * Upgrade session files on load
+ *
+ * Never throws: files with a newer or unknown schema are returned unchanged.
+ */
+export function applySessionMigrations<T extends MigratableSessionFiles>(files: T): T {
+  if (getSessionSchemaVersion(files.session) === CURRENT_SESSION_SCHEMA_VERSION) {
+    return files;
+  }
+  try {
+    return migrateSessionFiles(files).files;
+  } catch {
+    return files;
+  }
+}
+
+/**
+ * Migrate every session under a sessions root and write the results back
+ *
+ * Unreadable sessions and sessions from a newer schema are reported, not
+ * changed. Index entries of migrated sessions are refreshed.
+ *
+ * @param sessionsRoot - .bozly/sessions (or ~/.bozly/sessions)
+ * @param options - dryRun: report without writing anything
+ */
+export async function migrateSessionsOnDisk(
+  sessionsRoot: string,
+  options: { dryRun?: boolean } = {}
+): Promise<SessionMigrationReport> {
+  const report: SessionMigrationReport = {
+    scanned: 0,
+    migrated: [],
+    upToDate: 0,
+    newer: [],
+    failed: [],
+  };
+  const indexEntries: SessionIndexEntry[] = [];
+
+  for (const sessionDir of await findSessionDirs(sessionsRoot)) {
+    report.scanned++;
+    const relativePath = path.relative(sessionsRoot, sessionDir).split(path.sep).join("/");
+
+    try {
+      const session = await readJson<Session>(path.join(sessionDir, "session.json"));
+      if (!session?.id) {
+        throw new Error("session.json has no session ID");
+      }
+
+      const version = getSessionSchemaVersion(session);
+      if (isNewerSessionSchema(version)) {
+        report.newer.push({ path: relativePath, version });
+        continue;
+      }
+      if (version === CURRENT_SESSION_SCHEMA_VERSION) {
+        report.upToDate++;
+        continue;
+      }
+
+      const execution = await readJson<ExecutionDetails>(path.join(sessionDir, "execution.json"));
+      const memoryMetadata = await readJson<MemoryMetadata>(path.join(sessionDir, "metadata.json"));
+      const { files, from, to } = migrateSessionFiles({ session, execution, memoryMetadata });
+
+      if (!options.dryRun) {
+        await writeJson(path.join(sessionDir, "session.json"), files.session);
+        if (files.execution) {
+          await writeJson(path.join(sessionDir, "execution.json"), files.execution);
+        }
+        if (files.memoryMetadata) {
+          await writeJson(path.join(sessionDir, "metadata.json"), files.memoryMetadata);
+        }
+        indexEntries.push(createSessionIndexEntry(files.session, sessionDir, sessionsRoot));
+      }
+      report.migrated.push({ id: session.id, path: relativePath, from, to });
+    } catch (error) {
+      report.failed.push({
+        path: relativePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  await addToSessionIndex(sessionsRoot, indexEntries);
+
+  if (!options.dryRun && report.migrated.length > 0) {
+    await logger.info("Sessions migrated", {
+      sessionsRoot,
+      migrated: report.migrated.length,
+      to: CURRENT_SESSION_SCHEMA_VERSION,
+    });
+  }
+
+  return report;
+}
+
+/**
+ * Find every directory holding a session.json
+ */
+async function findSessionDirs(sessionsRoot: string): Promise<string[]> {
+  const dirs: string[] = [];
+
+  const scan = async (dir: string): Promise<void> => {
+    let entries;
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        await scan(path.join(dir, entry.name));
+      } else if (entry.name === "session.json") {
+        dirs.push(dir);
+      }
+    }
+  };
+
+  await scan(sessionsRoot);
+  return dirs.sort();
+}
+
+/**
+ * Read a JSON file (undefined if it doesn't exist; throws if it doesn't parse)
+ */
+async function readJson<T>(filePath: string): Promise<T | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, "utf-8");
+  } catch {
+    return undefined;
+  }
+  try {
+    return JSON.parse(content) as T;
+  } catch {
+    throw new Error(`${path.basename(filePath)} is not valid JSON`);
+  }
+}
+
+/**
+ * Replace a JSON file atomically
+ */
+async function writeJson(filePath: string, data: unknown): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), "utf-8");
+  await fs.rename(tempPath, filePath);
+}
@@ -10,6 +10,9 @@
  *   ├── results.md         (human-readable output)
  *   └── changes.json       (file modifications)
  *
+ * Queries go through the append-only session index (sessions/index.jsonl,
+ * see core/session-index) instead of walking the directory tree.
+ *
  * This design enables:
  * - Easy archival by date/vault
  * - n8n monitoring specific directories
@@ -34,12 +37,35 @@ import {
   SessionFiles,
   SessionMemory,
   MemoryMetadata,
+  TokenUsage,
+  SessionIndexEntry,
+  SessionFileDiff,
+  PricingConfig,
+  UsageTotals,
+  MemoryExtractionConfig,
+  NodeConfig,
+  MemoryNodeConfig,
+  ContextSectionSize,
+  ContextIncludeSource,
 } from "./types.js";
 import { logger } from "./logger.js";
 import { MemoryExtractor } from "../memory/extractor.js";
+import { extractMemory, MemoryExtractionResult } from "../memory/ai-extractor.js";
 import { MemoryLoader } from "../memory/loader.js";
+import { createMemoryEmbedder } from "../memory/embeddings.js";
 import { MemoryIndex } from "../memory/index.js";
 import { VERSION } from "./version.js";
+import {
+  loadSessionIndex,
+  addToSessionIndex,
+  createSessionIndexEntry,
+  filterSessionIndex,
+  isArchivedEntry,
+} from "./session-index.js";
+import { diffText } from "./text-diff.js";
+import { applySessionMigrations, CURRENT_SESSION_SCHEMA_VERSION } from "./session-migrations.js";
+import { calculateSessionUsage, getUsageMonth, roundCost } from "./costs.js";
+import { indexSessionForSearch, removeSessionsFromSearch } from "./search-index.js";
 
 /**
  * Format timestamp as ISO string
@@ -61,6 +87,19 @@ function getDatePathComponent(timestamp: ISODateTime): string {
   return `${year}/${month}/${day}`;
 }
 
+/** Session IDs are UUIDs (see recordSession) */
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether an ID is a session ID (a UUID)
+ *
+ * Session IDs become directory names, so IDs read from bundles or given on
+ * the command line are checked before they are joined into a path.
+ */
+export function isValidSessionId(id: unknown): id is string {
+  return typeof id === "string" && SESSION_ID_PATTERN.test(id);
+}
+
 /**
  * Build the full path to a session directory
  * Path: ~/.bozly/sessions/{nodeId}/{YYYY}/{MM}/{DD}/{uuid}/
@@ -160,11 +199,16 @@ export async function loadSessionFiles(sessionPath: string): Promise<SessionFile
         fs.readFile(path.join(sessionPath, "changes.json"), "utf-8"),
       ]);
 
+    const { session, execution } = applySessionMigrations({
+      session: JSON.parse(sessionJson) as Session,
+      execution: JSON.parse(executionJson) as ExecutionDetails,
+    });
+
     return {
-      sessionJson: JSON.parse(sessionJson),
+      sessionJson: session,
       contextMd,
       promptTxt,
-      executionJson: JSON.parse(executionJson),
+      executionJson: execution,
       resultsMd,
       changesJson: JSON.parse(changesJson),
     };
@@ -190,6 +234,8 @@ export async function loadSessionFiles(sessionPath: string): Promise<SessionFile
  * @param executionLog - Timeline of execution events
  * @param filesChanged - Files modified by command
  * @param timezone - User's configured timezone (e.g., "America/New_York")
+ * @param metadata - Extra session metadata (e.g., replayOf for `bozly replay`)
+ * @param pricing - Price table for the session's cost (global config `pricing`)
  * @returns Recorded session
  */
 export async function recordSession(
@@ -202,15 +248,23 @@ export async function recordSession(
     contextText?: string;
     commandText: string;
     modelsUsed?: string[];
+    promptText?: string; // Exact prompt sent, stored as prompt.txt as is
+    tokenBudget?: number;
+    sections?: ContextSectionSize[]; // Prompt section sizes from the context builder
+    includes?: ContextIncludeSource[]; // Files pulled in by include directives
   },
   response: {
     text: string;
     error?: string;
     duration: number;
+    model?: string;
+    usage?: TokenUsage;
   },
   executionLog: ExecutionLogEntry[] = [],
   filesChanged: FileChange[] = [],
-  timezone?: string
+  timezone?: string,
+  metadata?: Session["metadata"],
+  pricing?: PricingConfig
 ): Promise<Session> {
   const now = getCurrentTimestamp();
   const sessionId = randomUUID();
@@ -221,7 +275,7 @@ export async function recordSession(
 
   // Create session metadata
   const session: Session = {
-    schema_version: "1.0",
+    schema_version: CURRENT_SESSION_SCHEMA_VERSION,
     id: sessionId,
     nodeId,
     timestamp: now,
@@ -247,6 +301,9 @@ export async function recordSession(
           (prompt.contextText?.length ?? 0) +
           prompt.commandText.length +
           (prompt.modelsUsed?.reduce((sum, m) => sum + m.length, 0) ?? 0),
+        ...(prompt.tokenBudget !== undefined && { tokenBudget: prompt.tokenBudget }),
+        ...(prompt.sections && { sections: prompt.sections }),
+        ...(prompt.includes?.length && { includes: prompt.includes }),
       },
     },
     response: {
@@ -262,6 +319,9 @@ export async function recordSession(
       platform: process.platform,
       timezone: timezone,
     },
+    ...((response.model ?? metadata) && {
+      metadata: { ...metadata, ...(response.model && { model: response.model }) },
+    }),
   };
 
   // Build context.md (what AI knew)
@@ -277,22 +337,36 @@ ${command} execution on ${nodeName}
 - Vault knowledge: .bozly/context.md
 - Command instructions: .bozly/commands/${command}.md
 ${prompt.modelsUsed?.length ? `- Models: ${prompt.modelsUsed.join(", ")}` : "- Models: none"}
-- External data: none injected
-
+${formatIncludeSources(prompt.includes ?? [])}- External data: none injected
+${metadata?.replayOf ? `- Replayed from: session ${metadata.replayOf}\n` : ""}
 ---
 
 ## Variables/Dynamic Data
 Timestamp: ${now}
 Provider: ${provider}
-Command: ${command}
+${response.model ? `Model: ${response.model}\n` : ""}Command: ${command}
 `;
 
   // Build prompt.txt (raw prompt for diff)
-  const promptTxt = `${prompt.contextText ?? ""}
+  const promptTxt =
+    prompt.promptText ??
+    `${prompt.contextText ?? ""}
 ---
 ${prompt.commandText}
 ${prompt.modelsUsed?.length ? `\n---\n${prompt.modelsUsed.join("\n")}` : ""}`;
 
+  // Token usage and cost (estimated if the provider didn't report usage)
+  const usage = calculateSessionUsage(
+    provider,
+    response.model,
+    promptTxt,
+    response.text ?? "",
+    response.usage,
+    pricing
+  );
+  session.usage = usage;
+  session.response.metadata.tokenEstimate = usage.totalTokens;
+
   // Build execution.json (technical details)
   const startMs = Date.now() - response.duration;
   const executionJson: ExecutionDetails = {
@@ -304,6 +378,7 @@ ${prompt.modelsUsed?.length ? `\n---\n${prompt.modelsUsed.join("\n")}` : ""}`;
     },
     aiRequest: {
       provider,
+      model: response.model,
       promptLength: prompt.contextText
         ? prompt.contextText.length + prompt.commandText.length
         : prompt.commandText.length,
@@ -311,6 +386,7 @@ ${prompt.modelsUsed?.length ? `\n---\n${prompt.modelsUsed.join("\n")}` : ""}`;
     aiResponse: {
       finishReason: response.error ? "error" : "end_turn",
       contentLength: response.text?.length ?? 0,
+      ...(response.usage && { usage: response.usage }),
     },
     executionLog:
       executionLog.length > 0
@@ -385,13 +461,19 @@ ${response.error ? `\n## Error\n${response.error}` : ""}`;
       status: session.status,
     });
 
+    const sessionsRoot = path.join(bozlyPath, "sessions");
+    await addToSessionIndex(sessionsRoot, [
+      createSessionIndexEntry(session, sessionPath, sessionsRoot),
+    ]);
+
     // Auto-extract memory after session is saved
     const memory = await extractAndSaveMemory(
       sessionPath,
       session,
       prompt.contextText,
       prompt.commandText,
-      response.text
+      response.text,
+      (await loadMemoryConfig(nodePath))?.extraction
     );
 
     // Index memory for cross-vault queries
@@ -399,13 +481,18 @@ ${response.error ? `\n## Error\n${response.error}` : ""}`;
       const bozlyPath = path.join(nodePath, ".bozly");
       await indexSessionMemory(bozlyPath, memory, sessionPath);
     }
+
+    // Keep the full-text search index current
+    await indexSessionForSearch(bozlyPath, sessionPath).catch((error: unknown) =>
+      logger.warn(`Failed to update search index for session ${sessionId}: ${String(error)}`)
+    );
   }
 
   return session;
 }
 
 /**
- * Load a session by ID (searches across all vaults and dates)
+ * Load a session by ID (looked up in the session index)
  *
  * @param vaultBasePath - Path to vault (.bozly directory base)
  * @param sessionId - Session UUID
@@ -415,36 +502,66 @@ export async function loadSession(
   vaultBasePath: string,
   sessionId: string
 ): Promise<Session | null> {
+  const sessionsDir = path.join(vaultBasePath, ".bozly", "sessions");
+  const entries = await loadSessionIndex(sessionsDir);
+  const entry = entries.find((e) => e.id === sessionId);
+  return entry ? readIndexedSession(sessionsDir, entry) : null;
+}
+
+/**
+ * Find a session's directory by ID (looked up in the session index, so
+ * archived sessions are found too)
+ *
+ * @param vaultBasePath - Path to vault (.bozly directory base)
+ * @param sessionId - Session UUID
+ * @returns Full path to the session directory or null if not indexed
+ */
+export async function getIndexedSessionPath(
+  vaultBasePath: string,
+  sessionId: string
+): Promise<string | null> {
+  const sessionsDir = path.join(vaultBasePath, ".bozly", "sessions");
+  const entries = await loadSessionIndex(sessionsDir);
+  const entry = entries.find((e) => e.id === sessionId);
+  return entry ? path.join(sessionsDir, entry.path) : null;
+}
+
+/**
+ * Find a loaded session's directory: the indexed one (archived sessions
+ * have moved), else where recordSession put it
+ */
+async function findSessionDirectory(session: Session): Promise<string> {
+  return (
+    (await getIndexedSessionPath(session.nodePath, session.id)) ??
+    getSessionPath(
+      path.join(session.nodePath, ".bozly"),
+      session.nodeId,
+      session.timestamp,
+      session.id
+    )
+  );
+}
+
+/**
+ * Load the file changes (changes.json) recorded for a session
+ *
+ * @param session - Session (found through the session index, so archived ones work)
+ * @returns File changes or null if not found
+ */
+export async function loadSessionChanges(session: Session): Promise<FileChanges | null> {
   try {
-    const sessionsDir = path.join(vaultBasePath, ".bozly", "sessions");
-    const files = await fs.readdir(sessionsDir, { recursive: true });
-
-    // Find session.json with matching ID
-    for (const file of files) {
-      const filePath = path.join(sessionsDir, file);
-      if (file.toString().endsWith("session.json")) {
-        try {
-          const content = await fs.readFile(filePath, "utf-8");
-          const session = JSON.parse(content) as Session;
-          if (session.id === sessionId) {
-            return session;
-          }
-        } catch {
-          // Continue searching
-        }
-      }
-    }
+    const sessionPath = await findSessionDirectory(session);
+    const content = await fs.readFile(path.join(sessionPath, "changes.json"), "utf-8");
+    return JSON.parse(content) as FileChanges;
   } catch {
-    // Directory doesn't exist
+    return null;
   }
-
-  return null;
 }
 
 /**
  * Query sessions with filters
  *
- * Scans vault/date/id directory hierarchy and returns matching sessions
+ * Filters the vault's session index, then loads only the matching page
  *
  * @param vaultBasePath - Path to vault (.bozly directory base)
  * @param options - Query options (command, provider, vault, status, date range, limit)
@@ -454,76 +571,7 @@ export async function querySessions(
   vaultBasePath: string,
   options: SessionQueryOptions = {}
 ): Promise<Session[]> {
-  const sessions: Session[] = [];
-
-  try {
-    const sessionsDir = path.join(vaultBasePath, ".bozly", "sessions");
-
-    // Check if directory exists
-    try {
-      await fs.access(sessionsDir);
-    } catch {
-      return [];
-    }
-
-    // Recursively find all session.json files
-    const findSessions = async (dir: string): Promise<void> => {
-      try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          if (entry.isDirectory()) {
-            await findSessions(fullPath);
-          } else if (entry.name === "session.json") {
-            try {
-              const content = await fs.readFile(fullPath, "utf-8");
-              const session = JSON.parse(content) as Session;
-
-              // Apply filters
-              if (options.command && session.command !== options.command) {
-                continue;
-              }
-              if (options.provider && session.provider !== options.provider) {
-                continue;
-              }
-              if (options.node && session.nodeId !== options.node) {
-                continue;
-              }
-              if (options.status && session.status !== options.status) {
-                continue;
-              }
-
-              if (options.startDate && session.timestamp < options.startDate) {
-                continue;
-              }
-              if (options.endDate && session.timestamp > options.endDate) {
-                continue;
-              }
-
-              sessions.push(session);
-            } catch {
-              // Skip invalid JSON files
-            }
-          }
-        }
-      } catch {
-        // Skip inaccessible directories
-      }
-    };
-
-    await findSessions(sessionsDir);
-
-    // Sort by timestamp, newest first
-    sessions.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
-
-    // Apply limit and offset
-    const offset = options.offset ?? 0;
-    const limit = options.limit ?? sessions.length;
-
-    return sessions.slice(offset, offset + limit);
-  } catch {
-    return [];
-  }
+  return querySessionsGlobal(path.join(vaultBasePath, ".bozly", "sessions"), options);
 }
 
 /**
@@ -578,6 +626,53 @@ export function diffSessions(session1: Session, session2: Session): SessionDiff
   };
 }
 
+/**
+ * Compare two sessions line by line
+ *
+ * Diffs prompt.txt, context.md and results.md, on top of the size and
+ * duration differences from diffSessions. session1 is the "old" side.
+ *
+ * @param session1 - First (older) session
+ * @param session2 - Second (newer) session
+ * @param options - Lines of context around each change (default: 3)
+ * @returns Diff with promptDiff and per-file line diffs
+ */
+export async function diffSessionFiles(
+  session1: Session,
+  session2: Session,
+  options: { context?: number } = {}
+): Promise<SessionDiff> {
+  const [files1, files2] = await Promise.all(
+    [session1, session2].map(async (session) =>
+      loadSessionFiles(await findSessionDirectory(session))
+    )
+  );
+  if (!files1 || !files2) {
+    throw new Error(`Failed to load session files for ${(files1 ? session2 : session1).id}`);
+  }
+
+  const files: SessionFileDiff[] = (
+    [
+      ["prompt.txt", files1.promptTxt, files2.promptTxt],
+      ["context.md", files1.contextMd, files2.contextMd],
+      ["results.md", files1.resultsMd, files2.resultsMd],
+    ] as const
+  ).map(([file, oldText, newText]) => ({
+    file,
+    ...diffText(oldText, newText, {
+      context: options.context,
+      oldLabel: `${session1.id}/${file}`,
+      newLabel: `${session2.id}/${file}`,
+    }),
+  }));
+
+  return {
+    ...diffSessions(session1, session2),
+    promptDiff: files[0].unified,
+    files,
+  };
+}
+
 /**
  * Get session statistics
  *
@@ -596,34 +691,22 @@ export async function getSessionStats(
   averagePromptSize: number;
   providersUsed: string[];
 }> {
-  const sessions = await querySessions(nodePath, { command });
-
-  if (sessions.length === 0) {
-    return {
-      totalSessions: 0,
-      totalSuccessful: 0,
-      totalFailed: 0,
-      averageDuration: 0,
-      averagePromptSize: 0,
-      providersUsed: [],
-    };
-  }
-
-  const successful = sessions.filter((s) => s.status === "completed").length;
-  const failed = sessions.filter((s) => s.status === "failed").length;
-  const avgDuration =
-    sessions.reduce((sum, s) => sum + (s.executionTimeMs ?? 0), 0) / sessions.length;
-  const avgPromptSize =
-    sessions.reduce((sum, s) => sum + (s.prompt?.metadata?.total ?? 0), 0) / sessions.length;
-  const providers = [...new Set(sessions.map((s) => s.provider))].sort();
+  const {
+    totalSessions,
+    totalSuccessful,
+    totalFailed,
+    averageDuration,
+    averagePromptSize,
+    providersUsed,
+  } = await getSessionStatsGlobal(path.join(nodePath, ".bozly", "sessions"), { command });
 
   return {
-    totalSessions: sessions.length,
-    totalSuccessful: successful,
-    totalFailed: failed,
-    averageDuration: Math.round(avgDuration),
-    averagePromptSize: Math.round(avgPromptSize),
-    providersUsed: providers,
+    totalSessions,
+    totalSuccessful,
+    totalFailed,
+    averageDuration,
+    averagePromptSize,
+    providersUsed,
   };
 }
 
@@ -683,7 +766,6 @@ export async function cleanupOldSessions(
   daysToKeep: number = 30
 ): Promise<number> {
   const sessionsDir = path.join(nodePath, ".bozly", "sessions");
-  const archiveDir = path.join(nodePath, ".bozly", "sessions", "archive");
 
   const cutoffDate = new Date();
   cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
@@ -691,32 +773,10 @@ export async function cleanupOldSessions(
   let archived = 0;
 
   try {
-    const findAndArchive = async (dir: string): Promise<void> => {
-      try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          if (entry.isDirectory()) {
-            await findAndArchive(fullPath);
-          } else if (entry.name === "session.json") {
-            const stats = await fs.stat(fullPath);
-            if (stats.mtime < cutoffDate) {
-              // Move entire session directory to archive
-              const sessionDir = path.dirname(fullPath);
-              const relPath = path.relative(sessionsDir, sessionDir);
-              const archivePath = path.join(archiveDir, relPath);
-              await fs.mkdir(path.dirname(archivePath), { recursive: true });
-              await fs.rename(sessionDir, archivePath);
-              archived++;
-            }
-          }
-        }
-      } catch {
-        // Skip inaccessible directories
-      }
-    };
-
-    await findAndArchive(sessionsDir);
+    archived = await archiveIndexedSessions(sessionsDir, async (_entry, sessionDir) => {
+      const stats = await fs.stat(path.join(sessionDir, "session.json"));
+      return stats.mtime < cutoffDate;
+    });
 
     if (archived > 0) {
       await logger.info("Sessions archived", {
@@ -735,7 +795,8 @@ export async function cleanupOldSessions(
 
 /**
  * Query sessions across all vaults (global level)
- * Searches ~/.bozly/sessions/ across all vault directories
+ * Filters the session index of ~/.bozly/sessions/ (or any sessions root),
+ * then loads only the matching page
  *
  * @param globalSessionsPath - Path to ~/.bozly/sessions/
  * @param options - Query filters
@@ -745,71 +806,19 @@ export async function querySessionsGlobal(
   globalSessionsPath: string,
   options: SessionQueryOptions = {}
 ): Promise<Session[]> {
-  const sessions: Session[] = [];
-
   try {
-    // Check if directory exists
-    try {
-      await fs.access(globalSessionsPath);
-    } catch {
-      return [];
-    }
-
-    // Recursively find all session.json files across vaults
-    const findSessions = async (dir: string): Promise<void> => {
-      try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          if (entry.isDirectory()) {
-            await findSessions(fullPath);
-          } else if (entry.name === "session.json") {
-            try {
-              const content = await fs.readFile(fullPath, "utf-8");
-              const session = JSON.parse(content) as Session;
-
-              // Apply filters
-              if (options.command && session.command !== options.command) {
-                continue;
-              }
-              if (options.provider && session.provider !== options.provider) {
-                continue;
-              }
-              if (options.node && session.nodeId !== options.node) {
-                continue;
-              }
-              if (options.status && session.status !== options.status) {
-                continue;
-              }
-
-              if (options.startDate && session.timestamp < options.startDate) {
-                continue;
-              }
-              if (options.endDate && session.timestamp > options.endDate) {
-                continue;
-              }
-
-              sessions.push(session);
-            } catch {
-              // Skip invalid JSON files
-            }
-          }
-        }
-      } catch {
-        // Skip inaccessible directories
-      }
-    };
-
-    await findSessions(globalSessionsPath);
-
-    // Sort by timestamp, newest first
-    sessions.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    const entries = filterSessionIndex(await loadSessionIndex(globalSessionsPath), options);
 
     // Apply limit and offset
     const offset = options.offset ?? 0;
-    const limit = options.limit ?? sessions.length;
+    const limit = options.limit ?? entries.length;
 
-    return sessions.slice(offset, offset + limit);
+    const sessions = await Promise.all(
+      entries
+        .slice(offset, offset + limit)
+        .map((entry) => readIndexedSession(globalSessionsPath, entry))
+    );
+    return sessions.filter((session): session is Session => session !== null);
   } catch {
     return [];
   }
@@ -824,23 +833,11 @@ export async function querySessionsGlobal(
 export async function getNodesWithSessions(globalSessionsPath: string): Promise<string[]> {
   const vaults = new Set<string>();
 
-  try {
-    try {
-      await fs.access(globalSessionsPath);
-    } catch {
-      return [];
-    }
-
-    const entries = await fs.readdir(globalSessionsPath, {
-      withFileTypes: true,
-    });
-    for (const entry of entries) {
-      if (entry.isDirectory() && entry.name !== "archive") {
-        vaults.add(entry.name);
-      }
+  for (const entry of await loadSessionIndex(globalSessionsPath)) {
+    if (!isArchivedEntry(entry)) {
+      // Top-level directory is the vault ID
+      vaults.add(entry.path.split("/")[0]);
     }
-  } catch {
-    // Return empty set if unable to read
   }
 
   return Array.from(vaults).sort();
@@ -867,8 +864,16 @@ export async function getSessionStatsGlobal(
   commandsExecuted: string[];
   sessionsByNode: Record<string, number>;
   sessionsByProvider: Record<string, number>;
+  sessionsByModel: Record<string, number>; // Keyed "provider/model" ("provider/default" if none)
+  totalTokens: number;
+  totalCost: number;
+  usageByNode: Record<string, UsageTotals>;
+  usageByCommand: Record<string, UsageTotals>;
+  usageByProvider: Record<string, UsageTotals>;
+  usageByMonth: Record<string, UsageTotals>; // Keyed YYYY-MM
 }> {
-  const sessions = await querySessionsGlobal(globalSessionsPath, options);
+  // Aggregate from the index, without loading each session.json
+  const sessions = filterSessionIndex(await loadSessionIndex(globalSessionsPath), options);
 
   if (sessions.length === 0) {
     return {
@@ -882,6 +887,13 @@ export async function getSessionStatsGlobal(
       commandsExecuted: [],
       sessionsByNode: {},
       sessionsByProvider: {},
+      sessionsByModel: {},
+      totalTokens: 0,
+      totalCost: 0,
+      usageByNode: {},
+      usageByCommand: {},
+      usageByProvider: {},
+      usageByMonth: {},
     };
   }
 
@@ -889,8 +901,7 @@ export async function getSessionStatsGlobal(
   const failed = sessions.filter((s) => s.status === "failed").length;
   const avgDuration =
     sessions.reduce((sum, s) => sum + (s.executionTimeMs ?? 0), 0) / sessions.length;
-  const avgPromptSize =
-    sessions.reduce((sum, s) => sum + (s.prompt?.metadata?.total ?? 0), 0) / sessions.length;
+  const avgPromptSize = sessions.reduce((sum, s) => sum + (s.promptSize ?? 0), 0) / sessions.length;
   const providers = [...new Set(sessions.map((s) => s.provider))].sort();
   const vaults = [...new Set(sessions.map((s) => s.nodeId))].sort();
   const commands = [...new Set(sessions.map((s) => s.command))].sort();
@@ -907,6 +918,21 @@ export async function getSessionStatsGlobal(
     sessionsByProvider[provider] = sessions.filter((s) => s.provider === provider).length;
   }
 
+  // Count sessions by provider and model
+  const sessionsByModel: Record<string, number> = {};
+  for (const session of sessions) {
+    const key = `${session.provider}/${session.model ?? "default"}`;
+    sessionsByModel[key] = (sessionsByModel[key] ?? 0) + 1;
+  }
+
+  // Sum tokens and cost by vault, command, provider and month
+  const usageByNode = sumUsage(sessions, (s) => s.nodeId);
+  const usageByCommand = sumUsage(sessions, (s) => s.command);
+  const usageByProvider = sumUsage(sessions, (s) => s.provider);
+  const usageByMonth = sumUsage(sessions, (s) => getUsageMonth(s.timestamp));
+  const totalTokens = sessions.reduce((sum, s) => sum + (s.tokens ?? 0), 0);
+  const totalCost = sessions.reduce((sum, s) => sum + (s.cost ?? 0), 0);
+
   return {
     totalSessions: sessions.length,
     totalSuccessful: successful,
@@ -918,9 +944,37 @@ export async function getSessionStatsGlobal(
     commandsExecuted: commands,
     sessionsByNode,
     sessionsByProvider,
+    sessionsByModel: Object.fromEntries(
+      Object.entries(sessionsByModel).sort(([a], [b]) => a.localeCompare(b))
+    ),
+    totalTokens,
+    totalCost: roundCost(totalCost),
+    usageByNode,
+    usageByCommand,
+    usageByProvider,
+    usageByMonth,
   };
 }
 
+/**
+ * Sum sessions, tokens and cost of index entries by key (keys sorted)
+ */
+function sumUsage(
+  entries: SessionIndexEntry[],
+  keyOf: (entry: SessionIndexEntry) => string
+): Record<string, UsageTotals> {
+  const totals: Record<string, UsageTotals> = {};
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    const total = totals[key] ?? { sessions: 0, tokens: 0, cost: 0 };
+    totals[key] = total;
+    total.sessions++;
+    total.tokens += entry.tokens ?? 0;
+    total.cost = roundCost(total.cost + (entry.cost ?? 0));
+  }
+  return Object.fromEntries(Object.entries(totals).sort(([a], [b]) => a.localeCompare(b)));
+}
+
 /**
  * Archive old sessions across all vaults
  *
@@ -932,45 +986,16 @@ export async function cleanupOldSessionsGlobal(
   globalSessionsPath: string,
   daysToKeep: number = 30
 ): Promise<number> {
-  const archiveDir = path.join(globalSessionsPath, "archive");
   const cutoffDate = new Date();
   cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
 
   let archived = 0;
 
   try {
-    try {
-      await fs.access(globalSessionsPath);
-    } catch {
-      return 0;
-    }
-
-    const findAndArchive = async (dir: string): Promise<void> => {
-      try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          if (entry.isDirectory() && entry.name !== "archive") {
-            await findAndArchive(fullPath);
-          } else if (entry.name === "session.json") {
-            const stats = await fs.stat(fullPath);
-            if (stats.mtime < cutoffDate) {
-              // Move entire session directory to archive
-              const sessionDir = path.dirname(fullPath);
-              const relPath = path.relative(globalSessionsPath, sessionDir);
-              const archivePath = path.join(archiveDir, relPath);
-              await fs.mkdir(path.dirname(archivePath), { recursive: true });
-              await fs.rename(sessionDir, archivePath);
-              archived++;
-            }
-          }
-        }
-      } catch {
-        // Skip inaccessible directories
-      }
-    };
-
-    await findAndArchive(globalSessionsPath);
+    archived = await archiveIndexedSessions(globalSessionsPath, async (_entry, sessionDir) => {
+      const stats = await fs.stat(path.join(sessionDir, "session.json"));
+      return stats.mtime < cutoffDate;
+    });
 
     if (archived > 0) {
       await logger.info("Sessions archived globally", {
@@ -998,47 +1023,13 @@ export async function archiveSessionsByDate(
   globalSessionsPath: string,
   beforeDate: Date
 ): Promise<number> {
-  const archiveDir = path.join(globalSessionsPath, "archive");
   let archived = 0;
 
   try {
-    try {
-      await fs.access(globalSessionsPath);
-    } catch {
-      return 0;
-    }
-
-    const findAndArchive = async (dir: string): Promise<void> => {
-      try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          if (entry.isDirectory() && entry.name !== "archive") {
-            await findAndArchive(fullPath);
-          } else if (entry.name === "session.json") {
-            try {
-              const content = await fs.readFile(fullPath, "utf-8");
-              const session = JSON.parse(content) as Session;
-
-              if (new Date(session.timestamp) < beforeDate) {
-                const sessionDir = path.dirname(fullPath);
-                const relPath = path.relative(globalSessionsPath, sessionDir);
-                const archivePath = path.join(archiveDir, relPath);
-                await fs.mkdir(path.dirname(archivePath), { recursive: true });
-                await fs.rename(sessionDir, archivePath);
-                archived++;
-              }
-            } catch {
-              // Skip invalid sessions
-            }
-          }
-        }
-      } catch {
-        // Skip inaccessible directories
-      }
-    };
-
-    await findAndArchive(globalSessionsPath);
+    archived = await archiveIndexedSessions(
+      globalSessionsPath,
+      (entry) => new Date(entry.timestamp) < beforeDate
+    );
 
     if (archived > 0) {
       await logger.info("Sessions archived by date", {
@@ -1068,53 +1059,15 @@ export async function archiveSessionsByNode(
   nodeId: string,
   beforeDate?: Date
 ): Promise<number> {
-  const vaultSessionsPath = path.join(globalSessionsPath, nodeId);
-  const archiveDir = path.join(globalSessionsPath, "archive", nodeId);
   let archived = 0;
 
   try {
-    try {
-      await fs.access(vaultSessionsPath);
-    } catch {
-      return 0;
-    }
-
-    const findAndArchive = async (dir: string): Promise<void> => {
-      try {
-        const entries = await fs.readdir(dir, { withFileTypes: true });
-        for (const entry of entries) {
-          const fullPath = path.join(dir, entry.name);
-          if (entry.isDirectory()) {
-            await findAndArchive(fullPath);
-          } else if (entry.name === "session.json") {
-            try {
-              let shouldArchive = true;
-
-              if (beforeDate) {
-                const content = await fs.readFile(fullPath, "utf-8");
-                const session = JSON.parse(content) as Session;
-                shouldArchive = new Date(session.timestamp) < beforeDate;
-              }
-
-              if (shouldArchive) {
-                const sessionDir = path.dirname(fullPath);
-                const relPath = path.relative(vaultSessionsPath, sessionDir);
-                const archivePath = path.join(archiveDir, relPath);
-                await fs.mkdir(path.dirname(archivePath), { recursive: true });
-                await fs.rename(sessionDir, archivePath);
-                archived++;
-              }
-            } catch {
-              // Skip invalid sessions
-            }
-          }
-        }
-      } catch {
-        // Skip inaccessible directories
-      }
-    };
-
-    await findAndArchive(vaultSessionsPath);
+    archived = await archiveIndexedSessions(
+      globalSessionsPath,
+      (entry) =>
+        entry.path.startsWith(`${nodeId}/`) &&
+        (!beforeDate || new Date(entry.timestamp) < beforeDate)
+    );
 
     if (archived > 0) {
       await logger.info("Sessions archived by vault", {
@@ -1133,6 +1086,77 @@ export async function archiveSessionsByNode(
   return archived;
 }
 
+/**
+ * Move indexed sessions into {sessionsRoot}/archive/ and update the index
+ *
+ * @param sessionsRoot - Sessions root holding the index
+ * @param shouldArchive - Decides per session (already archived ones are skipped)
+ * @returns Number of sessions archived
+ */
+async function archiveIndexedSessions(
+  sessionsRoot: string,
+  shouldArchive: (entry: SessionIndexEntry, sessionDir: string) => boolean | Promise<boolean>
+): Promise<number> {
+  const moved: SessionIndexEntry[] = [];
+
+  for (const entry of await loadSessionIndex(sessionsRoot)) {
+    if (isArchivedEntry(entry)) {
+      continue;
+    }
+
+    const sessionDir = path.join(sessionsRoot, entry.path);
+    try {
+      if (await shouldArchive(entry, sessionDir)) {
+        const archivePath = path.join(sessionsRoot, "archive", entry.path);
+        await fs.mkdir(path.dirname(archivePath), { recursive: true });
+        await fs.rename(sessionDir, archivePath);
+        moved.push({ ...entry, path: `archive/${entry.path}` });
+      }
+    } catch {
+      // Skip sessions that are missing or can't be moved
+    }
+  }
+
+  await addToSessionIndex(sessionsRoot, moved);
+  await removeSessionsFromSearch(
+    path.dirname(sessionsRoot),
+    moved.map((entry) => entry.id)
+  ).catch((error: unknown) =>
+    logger.warn(`Failed to remove archived sessions from the search index: ${String(error)}`)
+  );
+  return moved.length;
+}
+
+/**
+ * Read the session.json an index entry points to
+ *
+ * execution.json is only read when the session needs migrating.
+ */
+async function readIndexedSession(
+  sessionsRoot: string,
+  entry: SessionIndexEntry
+): Promise<Session | null> {
+  const sessionDir = path.join(sessionsRoot, entry.path);
+  try {
+    const content = await fs.readFile(path.join(sessionDir, "session.json"), "utf-8");
+    const session = JSON.parse(content) as Session;
+    if (session.schema_version === CURRENT_SESSION_SCHEMA_VERSION) {
+      return session;
+    }
+
+    let execution: ExecutionDetails | undefined;
+    try {
+      const executionJson = await fs.readFile(path.join(sessionDir, "execution.json"), "utf-8");
+      execution = JSON.parse(executionJson) as ExecutionDetails;
+    } catch {
+      // Migrate without it
+    }
+    return applySessionMigrations({ session, execution }).session;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Export sessions to CSV (for analysis)
  *
@@ -1160,6 +1184,7 @@ export function exportSessionsToCSV(sessions: Session[]): string {
  * @param vaultContext - Vault context (.bozly/context.md content)
  * @param commandContent - Command content
  * @param executionOutput - AI response output
+ * @param extraction - Extraction settings (memory.extraction; heuristic by default)
  * @returns SessionMemory object or null if extraction failed
  */
 export async function extractAndSaveMemory(
@@ -1167,46 +1192,136 @@ export async function extractAndSaveMemory(
   session: Session,
   vaultContext?: string,
   commandContent?: string,
-  executionOutput?: string
+  executionOutput?: string,
+  extraction?: MemoryExtractionConfig
 ): Promise<SessionMemory | null> {
-  try {
-    const extractionInput = {
-      session,
-      vaultContext,
-      commandContent,
-      executionOutput,
-      executionTimeMs: session.executionTimeMs,
-    };
+  const result = await extractAndWriteMemory(
+    sessionPath,
+    session,
+    vaultContext,
+    commandContent,
+    executionOutput,
+    extraction
+  );
+  return result?.memory ?? null;
+}
 
-    // Extract memory using MemoryExtractor
-    const memory = MemoryExtractor.extract(extractionInput, "sessionEnd");
-    const vaultType = vaultContext?.toLowerCase().includes("music")
-      ? "music"
-      : vaultContext?.toLowerCase().includes("project")
-        ? "project"
-        : vaultContext?.toLowerCase().includes("journal")
-          ? "journal"
-          : "generic";
+/**
+ * Options for reextractSessionMemories
+ */
+export interface MemoryReextractOptions {
+  sessionIds?: string[]; // Only these sessions (default: every session matching the filters)
+  command?: string;
+  startDate?: string;
+  endDate?: string;
+  limit?: number;
+  extraction?: MemoryExtractionConfig; // Default: the vault's memory.extraction
+  dryRun?: boolean; // List the sessions without extracting anything
+}
 
-    const metadata = MemoryExtractor.generateMetadata(memory, "sessionEnd", vaultType);
+/**
+ * Outcome of re-extracting one session's memory
+ */
+export interface MemoryReextractResult {
+  id: string;
+  command: string;
+  timestamp: ISODateTime;
+  method?: "heuristic" | "ai"; // Unset on a dry run or if extraction failed
+  error?: string; // Why AI extraction fell back, or why the session failed
+}
 
-    // Convert to markdown
-    const memoryMarkdown = MemoryExtractor.toMarkdown(memory, metadata);
+/**
+ * Re-extract the memories of recorded sessions
+ *
+ * Back-fills memories of sessions recorded before AI extraction was
+ * configured (or before memories existed). The command instructions and
+ * output are read back from prompt.txt and results.md; memories are
+ * re-indexed in the vault's memory index.
+ *
+ * @param vaultPath - Path to vault (.bozly directory base)
+ * @param options - Session filters, extraction settings and dry-run flag
+ * @returns One result per matching session, newest first
+ */
+export async function reextractSessionMemories(
+  vaultPath: string,
+  options: MemoryReextractOptions = {}
+): Promise<MemoryReextractResult[]> {
+  const bozlyPath = path.join(vaultPath, ".bozly");
+  const sessionsRoot = path.join(bozlyPath, "sessions");
+  const extraction = options.extraction ?? (await loadMemoryConfig(vaultPath))?.extraction;
+
+  let entries = filterSessionIndex(await loadSessionIndex(sessionsRoot), {
+    command: options.command,
+    startDate: options.startDate,
+    endDate: options.endDate,
+  }).filter((entry) => !isArchivedEntry(entry));
+  if (options.sessionIds) {
+    const ids = options.sessionIds;
+    entries = entries.filter((entry) => ids.some((id) => entry.id.startsWith(id)));
+  }
+  if (options.limit) {
+    entries = entries.slice(0, options.limit);
+  }
 
-    // Save memory.md
-    const memoryPath = path.join(sessionPath, "memory.md");
-    await fs.writeFile(memoryPath, memoryMarkdown, "utf-8");
+  const results: MemoryReextractResult[] = [];
+  for (const entry of entries) {
+    const result: MemoryReextractResult = {
+      id: entry.id,
+      command: entry.command,
+      timestamp: entry.timestamp,
+    };
+    results.push(result);
+    if (options.dryRun) {
+      continue;
+    }
 
-    // Save metadata.json
-    const metadataPath = path.join(sessionPath, "metadata.json");
-    await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), "utf-8");
+    const sessionPath = path.join(sessionsRoot, entry.path);
+    const files = await loadSessionFiles(sessionPath);
+    if (!files) {
+      result.error = "Session files not found";
+      continue;
+    }
 
-    logger.debug(`Extracted and saved memory for session ${session.id}`);
-    return memory;
-  } catch (error) {
-    logger.warn(`Failed to extract memory for session ${session.id}: ${String(error)}`);
-    return null;
+    // prompt.txt is the context, then "---" and the command instructions
+    const contextSize = files.sessionJson.prompt?.metadata?.contextSize ?? 0;
+    const extracted = await extractAndWriteMemory(
+      sessionPath,
+      files.sessionJson,
+      files.promptTxt.slice(0, contextSize),
+      files.promptTxt.slice(contextSize).replace(/^\n---\n/, ""),
+      extractResultsOutput(files.resultsMd),
+      extraction
+    );
+    if (!extracted) {
+      result.error = "Memory extraction failed";
+      continue;
+    }
+
+    result.method = extracted.method;
+    result.error = extracted.error;
+    await indexSessionMemory(bozlyPath, extracted.memory, sessionPath);
+    await indexSessionForSearch(bozlyPath, sessionPath).catch((error: unknown) =>
+      logger.warn(`Failed to update search index for session ${entry.id}: ${String(error)}`)
+    );
   }
+
+  if (!options.dryRun) {
+    await logger.info("Session memories re-extracted", {
+      vaultPath,
+      sessions: results.length,
+      ai: results.filter((r) => r.method === "ai").length,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Pull the AI output section out of a session's results.md
+ */
+export function extractResultsOutput(resultsMd: string): string {
+  const match = /## AI Output\n([\s\S]*?)\n\n## Status\n/.exec(resultsMd);
+  return match ? match[1] : "";
 }
 
 /**
@@ -1257,18 +1372,40 @@ export async function indexSessionMemory(
 /**
  * Load past memories for a vault
  *
- * Loads relevant past session memories for context injection
+ * Loads relevant past session memories for context injection. With a query
+ * (the command text and parameters), memories are picked by similarity to it,
+ * blended with their quality and recency, using the embedder configured in
+ * memory.retrieval; without one, or if that fails, the most recent ones.
  *
  * @param bozlyBasePath - Base path to .bozly directory (~/.bozly)
  * @param nodeId - Node/vault ID
  * @param limit - Maximum number of memories to load (default: 3)
+ * @param query - Text to pick memories by (optional)
  * @returns Array of memory markdown content
  */
 export async function loadPastMemories(
   bozlyBasePath: string,
   nodeId: string,
-  limit = 3
+  limit = 3,
+  query?: string
 ): Promise<string[]> {
+  if (query?.trim()) {
+    try {
+      const retrieval = (await loadMemoryConfig(path.dirname(bozlyBasePath)))?.retrieval;
+      const memories = await MemoryLoader.loadSimilarMemories(bozlyBasePath, nodeId, query, {
+        limit,
+        maxAge: 30,
+        embedder: createMemoryEmbedder(retrieval),
+        similarityWeight: retrieval?.similarityWeight,
+      });
+      if (memories.length > 0) {
+        return memories;
+      }
+    } catch (error) {
+      logger.warn(`Failed to rank memories by similarity, using recent ones: ${String(error)}`);
+    }
+  }
+
   try {
     const sessionsPath = path.join(bozlyBasePath, "sessions");
     return await MemoryLoader.loadRelevantMemories(sessionsPath, nodeId, {
@@ -1294,3 +1431,87 @@ export async function loadPastMemories(
 export function injectMemoriesIntoContext(baseContext: string, memories: string[]): string {
   return MemoryLoader.injectMemoriesIntoContext(baseContext, memories);
 }
+
+/**
+ * Extract a session's memory and write memory.md and metadata.json
+ */
+async function extractAndWriteMemory(
+  sessionPath: string,
+  session: Session,
+  vaultContext?: string,
+  commandContent?: string,
+  executionOutput?: string,
+  extraction?: MemoryExtractionConfig
+): Promise<MemoryExtractionResult | null> {
+  try {
+    const extractionInput = {
+      session,
+      vaultContext,
+      commandContent,
+      executionOutput,
+      executionTimeMs: session.executionTimeMs,
+      tokensUsed: session.usage?.totalTokens,
+    };
+
+    const result = await extractMemory(extractionInput, "sessionEnd", extraction);
+    const { memory } = result;
+    const vaultType = vaultContext?.toLowerCase().includes("music")
+      ? "music"
+      : vaultContext?.toLowerCase().includes("project")
+        ? "project"
+        : vaultContext?.toLowerCase().includes("journal")
+          ? "journal"
+          : "generic";
+
+    const metadata: MemoryMetadata = {
+      ...MemoryExtractor.generateMetadata(memory, "sessionEnd", vaultType),
+      extractionMethod: result.method,
+      ...(result.method === "ai" && { extractionProvider: result.provider }),
+    };
+
+    // Convert to markdown
+    const memoryMarkdown = MemoryExtractor.toMarkdown(memory, metadata);
+
+    // Save memory.md
+    const memoryPath = path.join(sessionPath, "memory.md");
+    await fs.writeFile(memoryPath, memoryMarkdown, "utf-8");
+
+    // Save metadata.json
+    const metadataPath = path.join(sessionPath, "metadata.json");
+    await fs.writeFile(metadataPath, JSON.stringify(metadata, null, 2), "utf-8");
+
+    logger.debug(`Extracted and saved memory for session ${session.id} (${result.method})`);
+    return result;
+  } catch (error) {
+    logger.warn(`Failed to extract memory for session ${session.id}: ${String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Read the memory settings from a vault's .bozly/config.json
+ */
+async function loadMemoryConfig(nodePath: string): Promise<MemoryNodeConfig | undefined> {
+  try {
+    const content = await fs.readFile(path.join(nodePath, ".bozly", "config.json"), "utf-8");
+    return (JSON.parse(content) as NodeConfig).memory;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * List included files for a session's context.md ("" if there are none)
+ */
+function formatIncludeSources(includes: ContextIncludeSource[]): string {
+  return includes
+    .map((include) => {
+      const note = include.error
+        ? ` (not included: ${include.error})`
+        : include.truncated
+          ? ` (truncated to ${include.chars} chars)`
+          : "";
+      return `- Included file: ${include.path}, from ${include.from}${note}\n`;
+    })
+    .join("");
+}
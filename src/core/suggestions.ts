@@ -231,6 +231,9 @@ export class SuggestionEngine {
 
   /**
    * Analyze which provider performs best
+   *
+   * Sessions from comparison runs (bozly run --compare) are also scored head
+   * to head, which can back a recommendation when success rates are even.
    */
   private analyzeProviderPerformance(commandName: string, sessions: Session[]): Suggestion[] {
     // Group by provider
@@ -254,6 +257,8 @@ export class SuggestionEngine {
       providerStats[provider].avgDuration /= providerStats[provider].total;
     }
 
+    const comparisons = this.summarizeComparisons(sessions);
+
     // Only suggest if we have multiple providers
     if (Object.keys(providerStats).length < 2) {
       return [];
@@ -301,6 +306,7 @@ export class SuggestionEngine {
             })),
             recommended: bestProvider[0],
             improvement: Math.round(improvement),
+            ...(comparisons.groups > 0 && { comparisons }),
           },
         },
         recommendation: {
@@ -319,7 +325,97 @@ export class SuggestionEngine {
       return [suggestion];
     }
 
-    return [];
+    return this.analyzeComparisonWins(commandName, sessions.length, comparisons);
+  }
+
+  /**
+   * Score comparison groups head to head
+   *
+   * Groups are sessions sharing metadata.comparisonId with at least two
+   * providers. The fastest provider that completed wins the group.
+   */
+  private summarizeComparisons(sessions: Session[]): {
+    groups: number;
+    wins: Record<string, number>;
+  } {
+    const groups = new Map<string, Session[]>();
+    for (const session of sessions) {
+      const comparisonId = session.metadata?.comparisonId;
+      if (comparisonId) {
+        groups.set(comparisonId, [...(groups.get(comparisonId) ?? []), session]);
+      }
+    }
+
+    let count = 0;
+    const wins: Record<string, number> = {};
+    for (const group of groups.values()) {
+      if (new Set(group.map((s) => s.provider)).size < 2) {
+        continue;
+      }
+      count++;
+      const winner = group
+        .filter((s) => s.status === "completed")
+        .sort((a, b) => a.executionTimeMs - b.executionTimeMs)[0];
+      if (winner) {
+        wins[winner.provider] = (wins[winner.provider] ?? 0) + 1;
+      }
+    }
+
+    return { groups: count, wins };
+  }
+
+  /**
+   * Recommend the provider that wins most comparison runs
+   */
+  private analyzeComparisonWins(
+    commandName: string,
+    samplesAnalyzed: number,
+    comparisons: { groups: number; wins: Record<string, number> }
+  ): Suggestion[] {
+    if (comparisons.groups < 2) {
+      return [];
+    }
+
+    const [leader, wins] = Object.entries(comparisons.wins).sort((a, b) => b[1] - a[1])[0] ?? [];
+    // Needs a clear majority, and nothing to suggest if it's already the default
+    if (!leader || wins / comparisons.groups <= 0.5) {
+      return [];
+    }
+    if (leader === this.nodeConfig.ai.defaultProvider) {
+      return [];
+    }
+
+    const winRate = Math.round((wins / comparisons.groups) * 100);
+    const suggestion: Suggestion = {
+      id: randomUUID(),
+      commandName,
+      type: "provider",
+      priority: "medium",
+      title: "Provider Recommendation",
+      description: `Provider '${leader}' won ${wins} of ${comparisons.groups} comparison runs`,
+      analysis: {
+        samplesAnalyzed,
+        confidence: wins / comparisons.groups,
+        data: {
+          comparisons: comparisons.groups,
+          wins: comparisons.wins,
+          recommended: leader,
+        },
+      },
+      recommendation: {
+        action: `Consider using provider '${leader}' as default`,
+        example: `bozly config set ai.defaultProvider ${leader}`,
+        rationale: `Completed fastest in ${winRate}% of side-by-side runs (bozly run --compare)`,
+      },
+      impact: {
+        expectedImprovement: "Faster responses at the same success rate",
+        riskLevel: "low",
+        reversible: true,
+      },
+      createdAt: new Date().toISOString(),
+    };
+
+    return [suggestion];
   }
 
   /**
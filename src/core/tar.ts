@@ -0,0 +1,182 @@
+/**
+ * Tar Archives
+ *
+ * Minimal gzip-compressed ustar reader/writer for the small, text-heavy
+ * bundles BOZLY produces (see core/session-bundle). Only regular files are
+ * written; on read, directories and other entry types are skipped.
+ *
+ * @module core/tar
+ */
+
+import { promisify } from "util";
+import { gzip, gunzip } from "zlib";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+const BLOCK_SIZE = 512;
+
+/**
+ * A file in a tar archive
+ */
+export interface TarEntry {
+  /** Relative path using "/" separators */
+  path: string;
+  content: Buffer;
+}
+
+/**
+ * Pack files into a .tar.gz buffer
+ *
+ * @throws Error if a path is unsafe or too long for a ustar header
+ */
+export async function createTarGz(entries: TarEntry[], mtime = new Date()): Promise<Buffer> {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    assertSafePath(entry.path);
+    blocks.push(createHeader(entry.path, entry.content.length, mtime));
+    blocks.push(entry.content);
+    const padding = (BLOCK_SIZE - (entry.content.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+  return gzipAsync(Buffer.concat(blocks));
+}
+
+/**
+ * Unpack the regular files of a .tar.gz buffer
+ *
+ * @throws Error if the data isn't a valid archive or contains unsafe paths
+ */
+export async function extractTarGz(data: Buffer): Promise<TarEntry[]> {
+  let tar: Buffer;
+  try {
+    tar = await gunzipAsync(data);
+  } catch {
+    throw new Error("Not a gzip-compressed archive");
+  }
+
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    if (readOctal(header, 148, 8) !== checksum(header)) {
+      throw new Error(`Corrupt tar header at offset ${offset}`);
+    }
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156]);
+    const name = readString(header, 0, 100);
+    const prefix = readString(header, 345, 155);
+    const entryPath = prefix ? `${prefix}/${name}` : name;
+
+    offset += BLOCK_SIZE;
+    if (offset + size > tar.length) {
+      throw new Error(`Truncated tar entry: ${entryPath}`);
+    }
+
+    if (type === "0" || type === "\0") {
+      assertSafePath(entryPath);
+      entries.push({ path: entryPath, content: Buffer.from(tar.subarray(offset, offset + size)) });
+    }
+
+    offset += Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return entries;
+}
+
+/**
+ * Build a ustar header block for a regular file
+ */
+function createHeader(entryPath: string, size: number, mtime: Date): Buffer {
+  const { name, prefix } = splitPath(entryPath);
+  const header = Buffer.alloc(BLOCK_SIZE);
+
+  header.write(name, 0, 100, "utf-8");
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+  header.write("0", 156, 1, "ascii");
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+  header.write(prefix, 345, 155, "utf-8");
+
+  // Checksum is computed with its own field filled with spaces
+  header.fill(" ", 148, 156);
+  const sum = checksum(header);
+  header.write(`${sum.toString(8).padStart(6, "0")}\0 `, 148, 8, "ascii");
+
+  return header;
+}
+
+/**
+ * Split a path into ustar name (100 bytes) and prefix (155 bytes)
+ */
+function splitPath(entryPath: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(entryPath) <= 100) {
+    return { name: entryPath, prefix: "" };
+  }
+
+  for (let i = entryPath.indexOf("/"); i !== -1; i = entryPath.indexOf("/", i + 1)) {
+    const prefix = entryPath.slice(0, i);
+    const name = entryPath.slice(i + 1);
+    if (Buffer.byteLength(prefix) <= 155 && Buffer.byteLength(name) <= 100) {
+      return { name, prefix };
+    }
+  }
+
+  throw new Error(`Path too long for tar archive: ${entryPath}`);
+}
+
+/**
+ * Sum of header bytes, counting the checksum field as spaces
+ */
+function checksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(`${value.toString(8).padStart(length - 1, "0")}\0`, offset, length, "ascii");
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+  const text = readString(header, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString("utf-8");
+}
+
+/**
+ * Reject absolute paths and ".." segments
+ */
+function assertSafePath(entryPath: string): void {
+  if (
+    !entryPath ||
+    entryPath.startsWith("/") ||
+    /^[a-zA-Z]:/.test(entryPath) ||
+    entryPath.split(/[\\/]/).includes("..")
+  ) {
+    throw new Error(`Unsafe path in archive: ${entryPath}`);
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Text Diffing
+ *
+ * Line-level diffs (Myers' algorithm) grouped into unified-diff hunks, with
+ * word-level segments for changed lines that pair up. Used by `bozly diff`
+ * and the session diff API route.
+ *
+ * @module core/text-diff
+ */
+
+import { DiffHunk, DiffLine, DiffSegment, TextDiff } from "./types.js";
+
+/**
+ * Options for diffText
+ */
+export interface TextDiffOptions {
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number;
+  /** Label for the "---" line of the unified diff */
+  oldLabel?: string;
+  /** Label for the "+++" line of the unified diff */
+  newLabel?: string;
+}
+
+/** Give up on a minimal diff past this many edits and replace the whole block */
+const MAX_EDIT_DISTANCE = 2000;
+
+type EditOp = "equal" | "removed" | "added";
+
+/**
+ * Diff two texts line by line
+ *
+ * @returns Hunks, added/removed line counts and the unified diff text
+ */
+export function diffText(
+  oldText: string,
+  newText: string,
+  options: TextDiffOptions = {}
+): TextDiff {
+  const context = options.context ?? 3;
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of diffSequences(oldLines, newLines)) {
+    if (op === "equal") {
+      lines.push({ type: "context", text: oldLines[oldLine - 1], oldLine, newLine });
+      oldLine++;
+      newLine++;
+    } else if (op === "removed") {
+      lines.push({ type: "removed", text: oldLines[oldLine - 1], oldLine });
+      oldLine++;
+    } else {
+      lines.push({ type: "added", text: newLines[newLine - 1], newLine });
+      newLine++;
+    }
+  }
+
+  addWordSegments(lines);
+  const hunks = buildHunks(lines, context);
+  const added = lines.filter((line) => line.type === "added").length;
+  const removed = lines.filter((line) => line.type === "removed").length;
+
+  return {
+    hunks,
+    added,
+    removed,
+    unified: hunks.length > 0 ? formatUnified(hunks, options.oldLabel, options.newLabel) : "",
+  };
+}
+
+/**
+ * Diff two lines word by word
+ *
+ * @returns Segments of each side, with the words that differ marked changed
+ */
+export function diffWords(
+  oldText: string,
+  newText: string
+): { old: DiffSegment[]; new: DiffSegment[] } {
+  const oldTokens = tokenize(oldText);
+  const newTokens = tokenize(newText);
+  const result = { old: [] as DiffSegment[], new: [] as DiffSegment[] };
+
+  let i = 0;
+  let j = 0;
+  for (const op of diffSequences(oldTokens, newTokens)) {
+    if (op === "equal") {
+      pushSegment(result.old, oldTokens[i++], false);
+      pushSegment(result.new, newTokens[j++], false);
+    } else if (op === "removed") {
+      pushSegment(result.old, oldTokens[i++], true);
+    } else {
+      pushSegment(result.new, newTokens[j++], true);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Split text into lines (a trailing newline doesn't add an empty line)
+ */
+function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Split a line into words, whitespace runs and single punctuation characters
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+/**
+ * Append to the last segment when it has the same changed flag
+ */
+function pushSegment(segments: DiffSegment[], text: string, changed: boolean): void {
+  const last = segments[segments.length - 1];
+  if (last?.changed === changed) {
+    last.text += text;
+  } else {
+    segments.push({ text, changed });
+  }
+}
+
+/**
+ * Shortest edit script between two sequences
+ *
+ * Common prefix and suffix are trimmed before running Myers' algorithm on
+ * the rest.
+ */
+function diffSequences(a: string[], b: string[]): EditOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+  return [
+    ...new Array<EditOp>(prefix).fill("equal"),
+    ...middle,
+    ...new Array<EditOp>(suffix).fill("equal"),
+  ];
+}
+
+/**
+ * Myers' O(ND) diff, keeping the explored diagonals of each round for backtracking
+ */
+function myers(a: string[], b: string[]): EditOp[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0 || m === 0) {
+    return [...new Array<EditOp>(n).fill("removed"), ...new Array<EditOp>(m).fill("added")];
+  }
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    // Diagonals -d-1..d+1 of the previous round are all backtracking needs
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m);
+      }
+    }
+  }
+
+  // Too different to diff minimally - replace the whole block
+  return [...new Array<EditOp>(n).fill("removed"), ...new Array<EditOp>(m).fill("added")];
+}
+
+/**
+ * Walk the Myers trace back from the end to recover the edit script
+ */
+function backtrack(trace: Int32Array[], n: number, m: number): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number): number => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push("equal");
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? "added" : "removed");
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Add word segments to removed/added lines that pair up within a change block
+ */
+function addWordSegments(lines: DiffLine[]): void {
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === "context") {
+      i++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type !== "context") {
+      (lines[i].type === "removed" ? removed : added).push(lines[i]);
+      i++;
+    }
+
+    for (let p = 0; p < Math.min(removed.length, added.length); p++) {
+      const words = diffWords(removed[p].text, added[p].text);
+      // Only worth highlighting when the lines have something in common
+      if (words.old.some((s) => !s.changed)) {
+        removed[p].segments = words.old;
+        added[p].segments = words.new;
+      }
+    }
+  }
+}
+
+/**
+ * Group diff lines into hunks with the given amount of context
+ */
+function buildHunks(lines: DiffLine[], context: number): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: { start: number; end: number } | null = null;
+  const ranges: Array<{ start: number; end: number }> = [];
+
+  lines.forEach((line, index) => {
+    if (line.type === "context") {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    if (current && start <= current.end) {
+      current.end = Math.max(current.end, end);
+    } else {
+      current = { start, end };
+      ranges.push(current);
+    }
+  });
+
+  for (const range of ranges) {
+    const hunkLines = lines.slice(range.start, range.end);
+    const oldSide = hunkLines.filter((line) => line.type !== "added");
+    const newSide = hunkLines.filter((line) => line.type !== "removed");
+    hunks.push({
+      oldStart: oldSide[0]?.oldLine ?? countBefore(lines, range.start, "oldLine"),
+      oldLines: oldSide.length,
+      newStart: newSide[0]?.newLine ?? countBefore(lines, range.start, "newLine"),
+      newLines: newSide.length,
+      lines: hunkLines,
+    });
+  }
+
+  return hunks;
+}
+
+/**
+ * Line number preceding a hunk on a side with no lines in it
+ */
+function countBefore(lines: DiffLine[], index: number, side: "oldLine" | "newLine"): number {
+  for (let i = index - 1; i >= 0; i--) {
+    const line = lines[i][side];
+    if (line !== undefined) {
+      return line;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Format a hunk's "@@ -a,b +c,d @@" header
+ */
+export function formatHunkHeader(hunk: DiffHunk): string {
+  const range = (start: number, count: number): string =>
+    count === 1 ? `${start}` : `${start},${count}`;
+  return `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@`;
+}
+
+/**
+ * Format hunks as a unified diff
+ */
+function formatUnified(hunks: DiffHunk[], oldLabel = "a", newLabel = "b"): string {
+  const markers = { context: " ", removed: "-", added: "+" };
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const hunk of hunks) {
+    output.push(formatHunkHeader(hunk));
+    for (const line of hunk.lines) {
+      output.push(`${markers[line.type]}${line.text}`);
+    }
+  }
+  return output.join("\n");
+}
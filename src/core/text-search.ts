@@ -0,0 +1,318 @@
+/**
+ * Text Search Utilities
+ *
+ * Text analysis shared by the search index and its queries:
+ *
+ * - Tokenizing: lowercase runs of letters and digits, with their offsets
+ * - Stemming: Porter stemmer for English words ("reviews", "reviewing" → "review")
+ * - Query parsing: terms, "quoted phrases" and field prefixes
+ *   (`tag:music`, `command:daily`, `vault:"Music Vault"`)
+ * - Snippets: the best-matching passage of a text, matches in **bold**
+ *
+ * @module core/text-search
+ */
+
+/** Field prefixes understood by parseSearchQuery */
+export const SEARCH_QUERY_FIELDS = ["tag", "command", "vault"] as const;
+
+export type SearchQueryField = (typeof SEARCH_QUERY_FIELDS)[number];
+
+/**
+ * A token and where it appears in the text
+ */
+export interface TextToken {
+  term: string; // Stemmed, lowercase
+  start: number;
+  end: number;
+}
+
+/**
+ * Parsed search query
+ */
+export interface ParsedSearchQuery {
+  terms: string[]; // Stemmed terms every result must contain
+  phrases: string[][]; // Stemmed phrases every result must contain in order
+  filters: Record<SearchQueryField, string[]>; // Field prefix values (lowercase)
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/** Quoted field value, field value, quoted phrase, or bare word */
+const QUERY_PART_PATTERN = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+/**
+ * Split a text into stemmed tokens with their offsets
+ */
+export function tokenize(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    tokens.push({
+      term: stem(match[0].toLowerCase()),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Split a text into stemmed terms
+ */
+export function analyze(text: string): string[] {
+  return tokenize(text).map((token) => token.term);
+}
+
+/**
+ * Parse a search query
+ *
+ * Bare words are terms; a bare word that splits into several tokens
+ * ("daily-report") is a phrase. Prefixes other than tag:, command: and
+ * vault: are searched as text.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    filters: { tag: [], command: [], vault: [] },
+  };
+
+  const addText = (text: string): void => {
+    const terms = analyze(text);
+    if (terms.length === 1) {
+      parsed.terms.push(terms[0]);
+    } else if (terms.length > 1) {
+      parsed.phrases.push(terms);
+    }
+  };
+
+  for (const match of query.matchAll(QUERY_PART_PATTERN)) {
+    const [part, quotedField, quotedValue, field, value, phrase, word] = match;
+    const name = (quotedField ?? field)?.toLowerCase();
+
+    if (name && isQueryField(name)) {
+      const fieldValue = (quotedValue ?? value).trim().toLowerCase();
+      if (fieldValue) {
+        parsed.filters[name].push(fieldValue);
+      }
+    } else if (phrase !== undefined) {
+      addText(phrase);
+    } else {
+      addText(word ?? part);
+    }
+  }
+
+  parsed.terms = [...new Set(parsed.terms)];
+  return parsed;
+}
+
+/**
+ * Whether a parsed query has anything to search for
+ */
+export function isEmptySearchQuery(query: ParsedSearchQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    query.phrases.length === 0 &&
+    SEARCH_QUERY_FIELDS.every((field) => query.filters[field].length === 0)
+  );
+}
+
+/**
+ * Pick the passage of a text with the most query matches
+ *
+ * Whitespace is collapsed; matched words are wrapped in ** and cut ends
+ * are marked with "…".
+ *
+ * @param text - Text to take the passage from
+ * @param terms - Stemmed query terms (phrase terms included)
+ * @param maxLength - Approximate passage length in characters
+ * @returns The passage, or undefined if the text has no matches
+ */
+export function buildSnippet(
+  text: string,
+  terms: Iterable<string>,
+  maxLength: number = 160
+): string | undefined {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const wanted = new Set(terms);
+  const matches = tokenize(flat).filter((token) => wanted.has(token.term));
+  if (matches.length === 0) {
+    return undefined;
+  }
+
+  // Window starting shortly before the match that has the most matches after it
+  const lead = Math.floor(maxLength / 5);
+  let best = { start: 0, count: 0 };
+  for (const match of matches) {
+    const start = Math.max(0, match.start - lead);
+    const count = matches.filter((m) => m.start >= start && m.end <= start + maxLength).length;
+    if (count > best.count) {
+      best = { start, count };
+    }
+  }
+
+  // Snap the window to word boundaries
+  let start = best.start;
+  if (start > 0) {
+    const firstMatch = matches.find((m) => m.start >= best.start)?.start ?? start;
+    const space = flat.indexOf(" ", start);
+    start = space !== -1 && space < firstMatch ? space + 1 : firstMatch;
+  }
+  let end = Math.min(flat.length, start + maxLength);
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(" ", end);
+    end = space > start ? space : end;
+  }
+
+  let snippet = "";
+  let cursor = start;
+  for (const match of matches) {
+    if (match.start < start || match.end > end) {
+      continue;
+    }
+    snippet += `${flat.slice(cursor, match.start)}**${flat.slice(match.start, match.end)}**`;
+    cursor = match.end;
+  }
+  snippet += flat.slice(cursor, end);
+
+  return `${start > 0 ? "…" : ""}${snippet}${end < flat.length ? "…" : ""}`;
+}
+
+/**
+ * Porter stemmer (M.F. Porter, 1980) for lowercase English words
+ *
+ * Words with characters other than a-z are returned unchanged.
+ */
+export function stem(word: string): string {
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+  const startsWithY = w.startsWith("y");
+  if (startsWithY) {
+    w = `Y${w.slice(1)}`;
+  }
+
+  // Step 1a: plurals
+  if (/(ss|i)es$/.test(w)) {
+    w = w.slice(0, -2);
+  } else if (/[^s]s$/.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  let match = /^(.+?)eed$/.exec(w);
+  if (match) {
+    if (MEASURE_GT_0.test(match[1])) {
+      w = w.slice(0, -1);
+    }
+  } else if ((match = /^(.+?)(ed|ing)$/.exec(w)) && HAS_VOWEL.test(match[1])) {
+    w = match[1];
+    if (/(at|bl|iz)$/.test(w)) {
+      w += "e";
+    } else if (/([^aeiouylsz])\1$/.test(w)) {
+      w = w.slice(0, -1);
+    } else if (ENDS_CVC.test(w)) {
+      w += "e";
+    }
+  }
+
+  // Step 1c: -y → -i
+  match = /^(.+?)y$/.exec(w);
+  if (match && HAS_VOWEL.test(match[1])) {
+    w = `${match[1]}i`;
+  }
+
+  // Step 2: double suffixes
+  match = STEP2_PATTERN.exec(w);
+  if (match && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP2_SUFFIXES[match[2]];
+  }
+
+  // Step 3: -ic-, -full, -ness etc.
+  match = STEP3_PATTERN.exec(w);
+  if (match && MEASURE_GT_0.test(match[1])) {
+    w = match[1] + STEP3_SUFFIXES[match[2]];
+  }
+
+  // Step 4: -ant, -ence etc.
+  match = STEP4_PATTERN.exec(w);
+  if (match) {
+    if (MEASURE_GT_1.test(match[1])) {
+      w = match[1];
+    }
+  } else if ((match = /^(.+?)([st])ion$/.exec(w)) && MEASURE_GT_1.test(match[1] + match[2])) {
+    w = match[1] + match[2];
+  }
+
+  // Step 5: final -e and -ll
+  match = /^(.+?)e$/.exec(w);
+  if (
+    match &&
+    (MEASURE_GT_1.test(match[1]) || (MEASURE_EQ_1.test(match[1]) && !ENDS_CVC.test(match[1])))
+  ) {
+    w = match[1];
+  }
+  if (/ll$/.test(w) && MEASURE_GT_1.test(w)) {
+    w = w.slice(0, -1);
+  }
+
+  return startsWithY ? `y${w.slice(1)}` : w;
+}
+
+// Porter "measure" patterns: C = consonant run, V = vowel run, m = number of VC pairs
+const CONSONANT = "[^aeiou]";
+const VOWEL = "[aeiouy]";
+const CONSONANTS = `${CONSONANT}[^aeiouy]*`;
+const VOWELS = `${VOWEL}[aeiou]*`;
+const MEASURE_GT_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`);
+const MEASURE_EQ_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`);
+const MEASURE_GT_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`);
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`);
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`);
+
+const STEP2_SUFFIXES: Record<string, string> = {
+  ational: "ate",
+  tional: "tion",
+  enci: "ence",
+  anci: "ance",
+  izer: "ize",
+  bli: "ble",
+  alli: "al",
+  entli: "ent",
+  eli: "e",
+  ousli: "ous",
+  ization: "ize",
+  ation: "ate",
+  ator: "ate",
+  alism: "al",
+  iveness: "ive",
+  fulness: "ful",
+  ousness: "ous",
+  aliti: "al",
+  iviti: "ive",
+  biliti: "ble",
+  logi: "log",
+};
+const STEP2_PATTERN = new RegExp(`^(.+?)(${Object.keys(STEP2_SUFFIXES).join("|")})$`);
+
+const STEP3_SUFFIXES: Record<string, string> = {
+  icate: "ic",
+  ative: "",
+  alize: "al",
+  iciti: "ic",
+  ical: "ic",
+  ful: "",
+  ness: "",
+};
+const STEP3_PATTERN = new RegExp(`^(.+?)(${Object.keys(STEP3_SUFFIXES).join("|")})$`);
+
+const STEP4_PATTERN =
+  /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/;
+
+/**
+ * Whether a prefix name is a query field
+ */
+function isQueryField(name: string): name is SearchQueryField {
+  return (SEARCH_QUERY_FIELDS as readonly string[]).includes(name);
+}
@@ -0,0 +1,127 @@
+/**
+ * Token Counting
+ *
+ * Offline token estimates for providers that don't report usage. Text is
+ * split the way BPE tokenizers pre-tokenize it (words with their leading
+ * space, digit runs, punctuation runs, whitespace), then each piece is
+ * costed with the profile of the provider's tokenizer family:
+ *
+ *   claude  Claude models            ~3.5 chars per token, 3-digit numbers
+ *   gpt     OpenAI / Codex / Copilot ~4 chars per token, 3-digit numbers
+ *   gemini  Gemini models            ~4 chars per token, 1 token per digit
+ *   llama   Ollama / local models    ~3.8 chars per token, 1 token per digit
+ *   generic anything else            ~4 chars per token
+ *
+ * Counts are estimates, not exact tokenizer output; provider-reported
+ * usage always takes precedence.
+ *
+ * @module core/tokens
+ */
+
+import { TokenizerFamily, TokenUsage } from "./types.js";
+
+interface TokenizerProfile {
+  charsPerToken: number;
+  digitsPerToken: number;
+}
+
+const TOKENIZER_PROFILES: Record<TokenizerFamily, TokenizerProfile> = {
+  claude: { charsPerToken: 3.5, digitsPerToken: 3 },
+  gpt: { charsPerToken: 4, digitsPerToken: 3 },
+  gemini: { charsPerToken: 4, digitsPerToken: 1 },
+  llama: { charsPerToken: 3.8, digitsPerToken: 1 },
+  generic: { charsPerToken: 4, digitsPerToken: 3 },
+};
+
+/** Letter runs longer than this are costed as unusual strings */
+const LONG_WORD_LENGTH = 24;
+
+/** Pre-tokenization: contractions, words, numbers, punctuation, whitespace */
+const PIECE_PATTERN = /'(?:s|t|re|ve|m|ll|d)\b| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu;
+
+/**
+ * Pick the tokenizer family for a provider and model
+ */
+export function getTokenizerFamily(provider: string, model?: string): TokenizerFamily {
+  const name = `${provider}/${model ?? ""}`.toLowerCase();
+
+  if (name.includes("claude") || /\b(opus|sonnet|haiku)\b/.test(name)) {
+    return "claude";
+  }
+  if (/gpt|openai|codex|copilot|\bo[134]\b/.test(name)) {
+    return "gpt";
+  }
+  if (name.includes("gemini")) {
+    return "gemini";
+  }
+  if (/ollama|llama|mistral|qwen|phi|gemma|deepseek/.test(name)) {
+    return "llama";
+  }
+  return "generic";
+}
+
+/**
+ * Estimate the number of tokens in a text
+ *
+ * @param text - Text to count
+ * @param family - Tokenizer family (default: generic)
+ */
+export function countTokens(text: string, family: TokenizerFamily = "generic"): number {
+  const profile = TOKENIZER_PROFILES[family];
+  let tokens = 0;
+
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    tokens += countPieceTokens(piece, profile);
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate prompt and output tokens of an exchange with a provider
+ */
+export function estimateTokenUsage(
+  provider: string,
+  model: string | undefined,
+  promptText: string,
+  outputText: string
+): TokenUsage {
+  const family = getTokenizerFamily(provider, model);
+  const promptTokens = countTokens(promptText, family);
+  const completionTokens = countTokens(outputText, family);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Tokens for one pre-tokenized piece
+ */
+function countPieceTokens(piece: string, profile: TokenizerProfile): number {
+  // Whitespace runs merge into one token (a single leading space merges into the next word)
+  if (/^\s+$/.test(piece)) {
+    return 1;
+  }
+
+  const body = piece.startsWith(" ") ? piece.slice(1) : piece;
+
+  if (/^\p{N}+$/u.test(body)) {
+    return Math.ceil(body.length / profile.digitsPerToken);
+  }
+
+  // Non-Latin scripts: roughly one token per 3 UTF-8 bytes (one CJK character)
+  // eslint-disable-next-line no-control-regex
+  if (/[^\u0000-\u024f]/.test(body)) {
+    return Math.max(1, Math.ceil(Buffer.byteLength(body) / 3));
+  }
+
+  if (/^\p{L}+$/u.test(body)) {
+    // Words split into pieces of about twice the average token length (which
+    // counts spaces and punctuation); very long runs (identifiers, encoded
+    // data) don't match learned merges and split at the average length
+    return body.length > LONG_WORD_LENGTH
+      ? Math.ceil(body.length / profile.charsPerToken)
+      : Math.ceil(body.length / (profile.charsPerToken * 2));
+  }
+
+  // Punctuation and symbols: common pairs ("**", "##", "->") merge
+  return Math.ceil(body.length / 2);
+}
@@ -34,6 +34,17 @@ export interface NodeConfig {
   provider?: string; // Node-level default provider override
   model?: string; // Node-level default model hint
   commands?: Record<string, CommandRouting>; // Per-command provider/model overrides
+
+  changeTracking?: ChangeTrackingConfig; // Record vault files changed by `bozly run`
+  context?: ContextBudgetConfig; // Overrides the global prompt token budgets
+}
+
+/**
+ * File change tracking for `bozly run` (changes.json)
+ */
+export interface ChangeTrackingConfig {
+  enabled?: boolean; // Default: true
+  ignore?: string[]; // Extra gitignore-style patterns, e.g. ["*.tmp", "attachments/**"]
 }
 
 /**
@@ -65,6 +76,28 @@ export interface Registry {
 export interface RoutingConfig {
   strategy?: "manual" | "complexity-based"; // Default: "manual" (per-vault/command config)
   fallbackChain?: string[]; // Providers to try if primary fails (e.g., ["claude", "gpt", "ollama"])
+  timeoutMs?: number; // Per-provider execution timeout before failing over (default: none)
+  complexity?: ComplexityRoutingConfig; // Used when strategy is "complexity-based"
+}
+
+/**
+ * Complexity-based routing configuration
+ *
+ * Each run is scored 0-100; the first band whose maxScore is >= the score
+ * picks the provider. A band without maxScore matches any score.
+ */
+export interface ComplexityRoutingConfig {
+  bands?: ComplexityBand[];
+  tagScores?: Record<string, number>; // Points per command tag (merged over the defaults)
+}
+
+/**
+ * Score band mapped to a provider/model
+ */
+export interface ComplexityBand {
+  maxScore?: number; // Inclusive upper bound
+  provider: string;
+  model?: string;
 }
 
 /**
@@ -80,6 +113,30 @@ export interface GlobalConfig {
 
   // Smart Routing (Phase 2c)
   routing?: RoutingConfig;
+
+  // Token prices and monthly budget
+  pricing?: PricingConfig;
+
+  // Prompt token budgets
+  context?: ContextBudgetConfig;
+}
+
+/**
+ * Price of a model, per million tokens
+ */
+export interface TokenPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Token prices and monthly budget (global config `pricing`)
+ */
+export interface PricingConfig {
+  currency?: string; // Default: "USD"
+  prices?: Record<string, TokenPrice>; // Keyed "provider/model", or "provider" for any model
+  monthlyBudget?: number; // Spending limit per calendar month, in currency
+  warnAtPercent?: number; // Warn when spending reaches this share of the budget (default: 80)
 }
 
 /**
@@ -114,8 +171,40 @@ export interface NodeCommand {
   provider?: string; // NEW: provider override from frontmatter
   model?: string; // reference to domain model
   tags?: string[]; // command categorization
+  schedule?: ScheduleDefinition; // from frontmatter "schedule:"
+  output?: "text" | "files"; // "files": write ```file:path blocks from the response into the vault
+  outputMode?: OutputFileMode; // default write mode for file blocks (frontmatter "outputMode:")
+  includes?: ContextInclude[]; // Files added to the prompt (frontmatter "includes:")
+}
+
+/**
+ * A file or glob to include in a prompt
+ *
+ * From `{{include path max=N}}` directives or a command's frontmatter
+ * `includes:` list. Paths are relative to .bozly/ if they match there,
+ * otherwise to the vault root.
+ */
+export interface ContextInclude {
+  path: string; // File path or glob (*, ?, **)
+  max?: number; // Size cap in characters (default: 20000)
+}
+
+/**
+ * A resolved include, listed in the session's context.md
+ */
+export interface ContextIncludeSource {
+  path: string; // Vault-relative file, or the pattern if it couldn't be resolved
+  from: string; // Where the include was written (e.g. ".bozly/context.md")
+  chars: number; // Characters included
+  truncated?: boolean; // Cut to the size cap
+  error?: string; // Why nothing was included (not found, cycle, outside the vault)
 }
 
+/**
+ * How a file block from the AI response is written
+ */
+export type OutputFileMode = "overwrite" | "append";
+
 /**
  * Context generation options
  */
@@ -123,6 +212,7 @@ export interface ContextOptions {
   provider?: string;
   includeCommands?: boolean;
   includeHistory?: boolean;
+  includeGuides?: boolean; // Add .bozly/guides/*.md (default: false)
 }
 
 /**
@@ -134,6 +224,11 @@ export interface RunOptions {
   includeContext?: boolean;
   pastMemories?: string[]; // Optional past session memories to inject
   params?: string; // Optional parameters to pass to command
+  fallbackChain?: string[]; // Providers to fail over to (default: GlobalConfig.routing.fallbackChain)
+  timeout?: number; // Per-provider timeout in ms (default: GlobalConfig.routing.timeoutMs)
+  model?: string; // AI model for the primary provider (fallbacks use their default model)
+  quiet?: boolean; // Don't print provider output or fallback warnings to the console
+  tokenBudget?: number; // Prompt token budget (default: the provider's, see context-builder)
 }
 
 /**
@@ -150,6 +245,49 @@ export interface RunResult {
   commandName?: string;
   modelsUsed?: string[];
   duration?: number;
+  attemptedProviders?: string[]; // Providers tried in order; the last one answered
+  executionLog?: ExecutionLogEntry[];
+  model?: string; // AI model passed to the provider that answered
+  usage?: TokenUsage; // Token usage reported by the provider (HTTP providers)
+  tokenBudget?: number; // Prompt token budget the sections were fitted to
+  contextSections?: ContextSectionSize[]; // Final size of each prompt section
+  includes?: ContextIncludeSource[]; // Files pulled in by include directives
+}
+
+/**
+ * Token usage reported by an AI provider
+ */
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens: number;
+}
+
+/**
+ * Tokenizer family used for offline token estimates
+ */
+export type TokenizerFamily = "claude" | "gpt" | "gemini" | "llama" | "generic";
+
+/**
+ * Token usage and cost of a session
+ */
+export interface SessionUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  source: "provider" | "estimate"; // Reported by the provider, or estimated offline
+  tokenizer?: TokenizerFamily; // Family used for the estimate
+  cost?: number; // Set when the price table has the provider/model
+  currency?: string;
+}
+
+/**
+ * Sessions, tokens and cost summed over a group of sessions
+ */
+export interface UsageTotals {
+  sessions: number;
+  tokens: number;
+  cost: number;
 }
 
 /**
@@ -248,6 +386,43 @@ export interface SessionPromptMetadata {
   modelSize?: number;
   commandSize: number;
   total: number;
+  tokenBudget?: number; // Prompt token budget the sections were fitted to
+  sections?: ContextSectionSize[]; // Final size of each prompt section
+  includes?: ContextIncludeSource[]; // Files pulled in by include directives
+}
+
+/**
+ * Prompt sections, fitted to the token budget by priority
+ */
+export type ContextSectionName =
+  | "base" // Vault metadata and .bozly/context.md
+  | "guides" // .bozly/guides/*.md (context.includeGuides)
+  | "commands" // Available commands list
+  | "memories" // Past session memories
+  | "includes" // Files from the command's frontmatter "includes:"
+  | "model" // Domain model referenced by the command
+  | "command" // Command instructions (never reduced)
+  | "params"; // Command parameters (never reduced)
+
+/**
+ * Size of a prompt section and what fitting it to the budget did
+ */
+export interface ContextSectionSize {
+  name: ContextSectionName;
+  priority: number;
+  originalTokens: number;
+  tokens: number;
+  chars: number;
+  action: "kept" | "summarized" | "truncated" | "dropped";
+}
+
+/**
+ * Prompt token budgets (`context` in ~/.bozly/bozly-config.json or .bozly/config.json)
+ */
+export interface ContextBudgetConfig {
+  budgets?: Record<string, number>; // Tokens per provider name, or "default"
+  priorities?: Partial<Record<ContextSectionName, number>>; // Higher is kept longer
+  includeGuides?: boolean; // Add .bozly/guides/*.md to the context (default: false)
 }
 
 /**
@@ -300,6 +475,9 @@ export interface Session {
     content?: string; // Optional: full response text for audit
   };
 
+  // Token usage and cost
+  usage?: SessionUsage;
+
   // Environment metadata
   environment: {
     nodeVersion: string;
@@ -312,6 +490,9 @@ export interface Session {
   metadata?: {
     tags?: string[];
     relatedSessions?: string[];
+    model?: string; // AI model passed to the provider (e.g., "sonnet", "llama3")
+    replayOf?: string; // Session this one replayed (bozly replay)
+    comparisonId?: string; // Shared by the sessions of one comparison run (bozly run --compare)
   };
 }
 
@@ -351,6 +532,7 @@ export interface ExecutionDetails {
     finishReason: string;
     contentLength: number;
     stopReason?: string;
+    usage?: TokenUsage;
   };
   executionLog: ExecutionLogEntry[];
   timing: {
@@ -399,6 +581,27 @@ export interface SessionQueryOptions {
   offset?: number;
 }
 
+/**
+ * One session in a session index (sessions/index.jsonl)
+ *
+ * Holds the fields queries filter and aggregate on, so they don't have to
+ * open every session.json.
+ */
+export interface SessionIndexEntry {
+  id: string;
+  nodeId: string;
+  timestamp: ISODateTime;
+  command: string;
+  provider: AIProvider;
+  status: Session["status"];
+  executionTimeMs?: number;
+  promptSize?: number; // prompt.metadata.total
+  model?: string;
+  tokens?: number; // usage.totalTokens
+  cost?: number; // usage.cost
+  path: string; // Session directory relative to the sessions root (forward slashes)
+}
+
 /**
  * Session diff for comparison
  */
@@ -406,6 +609,7 @@ export interface SessionDiff {
   left: Session;
   right: Session;
   promptDiff?: string; // Diff output of prompt.txt files
+  files?: SessionFileDiff[]; // Line diffs of prompt.txt, context.md and results.md
   differences: {
     prompt: {
       contextSize: number; // Difference in context
@@ -418,6 +622,53 @@ export interface SessionDiff {
   };
 }
 
+/**
+ * Part of a changed line, for word-level highlighting
+ */
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+/**
+ * One line of a line diff
+ */
+export interface DiffLine {
+  type: "context" | "added" | "removed";
+  text: string;
+  oldLine?: number; // 1-based line number on the old side
+  newLine?: number; // 1-based line number on the new side
+  segments?: DiffSegment[]; // Word-level changes when paired with a line on the other side
+}
+
+/**
+ * A hunk of a unified diff
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Line diff of two texts
+ */
+export interface TextDiff {
+  hunks: DiffHunk[];
+  added: number;
+  removed: number;
+  unified: string; // Unified diff text ("" when identical)
+}
+
+/**
+ * Line diff of one session file
+ */
+export interface SessionFileDiff extends TextDiff {
+  file: "prompt.txt" | "context.md" | "results.md";
+}
+
 /**
  * Hook system types
  */
@@ -516,8 +767,22 @@ export interface HookResult {
  * Error handling strategy for workflow steps
  * - "stop": Fail entire workflow on step failure
  * - "continue": Log error and proceed to next step
+ * - "retry": Retry per the step's retry policy, then fail like "stop"
+ */
+export type WorkflowErrorStrategy = "stop" | "continue" | "retry";
+
+/**
+ * Retry policy for steps with onError "retry"
+ *
+ * Each provider (the step's own, then each fallback) gets `maxAttempts`
+ * tries; the delay before retry n is initialDelayMs * backoffFactor^(n-1).
  */
-export type WorkflowErrorStrategy = "stop" | "continue";
+export interface WorkflowRetryPolicy {
+  maxAttempts?: number; // Attempts per provider (default: 3)
+  initialDelayMs?: number; // Delay before the first retry (default: 1000)
+  backoffFactor?: number; // Delay multiplier per retry (default: 2)
+  maxDelayMs?: number; // Upper bound for a single delay (default: 30000)
+}
 
 /**
  * Single step in a workflow
@@ -527,12 +792,16 @@ export interface WorkflowStep {
   description?: string;
   node: string; // Node ID to run command on
   command: string; // Command name
+  provider?: string; // Provider override (default: command frontmatter, then global default)
   timeout?: number; // milliseconds, default 300000 (5 min)
   onError: WorkflowErrorStrategy;
-  context?: Record<string, unknown>; // Step-specific context
+  retry?: WorkflowRetryPolicy; // Used when onError is "retry"
+  fallbackProviders?: string[]; // Providers to try in order when the step's provider fails
+  context?: Record<string, unknown>; // Step-specific context ({{ expression }} templates)
+  when?: string; // Boolean expression; step is skipped when false
   conditional?: {
     requires?: string[]; // IDs of steps that must complete first
-    skip?: string; // Boolean expression to skip step
+    skip?: string; // Boolean expression; step is skipped when true
   };
 }
 
@@ -546,6 +815,22 @@ export interface WorkflowStepResult {
   output?: string;
   error?: string;
   session?: Session; // Full session object if step ran
+  startTime?: string; // ISO 8601, when the step started running
+  endTime?: string; // ISO 8601, when the step finished
+  provider?: string; // Provider of the last attempt (the one that succeeded, if any)
+  attempts?: WorkflowStepAttempt[]; // Every provider invocation, in order
+}
+
+/**
+ * A single provider invocation made while executing a workflow step
+ */
+export interface WorkflowStepAttempt {
+  attempt: number; // 1-based, counted across all providers
+  provider: string;
+  status: "completed" | "failed";
+  startTime: string; // ISO 8601
+  duration: number; // milliseconds
+  error?: string;
 }
 
 /**
@@ -560,6 +845,8 @@ export interface Workflow {
   updated?: string; // ISO 8601
 
   steps: WorkflowStep[];
+  maxParallel?: number; // Max steps running at once (default: 4)
+  schedule?: ScheduleDefinition; // Run automatically via the scheduler
   onCompleted?: "notify" | "none";
   metadata?: {
     frequency?: "once" | "daily" | "weekly" | "manual";
@@ -581,6 +868,9 @@ export interface WorkflowResult {
   stepsFailed: number;
   stepsSkipped: number;
   steps: WorkflowStepResult[];
+  criticalPath?: string[]; // Longest dependency chain (step IDs) by duration
+  criticalPathDuration?: number; // Sum of step durations along the critical path
+  runId?: string; // Persisted run ID (when run state is persisted)
   sessionId?: string; // Parent workflow session ID
   error?: string; // If workflow itself failed
 }
@@ -593,7 +883,44 @@ export interface WorkflowExecutionOptions {
   verbose?: boolean;
   fromStep?: string; // Start from this step
   skipSteps?: string[]; // Skip specific steps
+  maxParallel?: number; // Override workflow.maxParallel
   contextOverride?: Record<string, unknown>; // Override context variables
+  runsPath?: string; // Persist run state here (e.g., .bozly/workflows/runs)
+  resumeRun?: WorkflowRun; // Prior run to resume (completed steps are not re-run)
+  quiet?: boolean; // Don't stream provider output (default: when steps can run in parallel)
+  onStepOutput?: (result: WorkflowStepResult) => void; // Output of each step run quietly
+}
+
+/**
+ * Persisted state of a single step within a workflow run
+ */
+export interface WorkflowRunStep {
+  stepId: string;
+  status: "completed" | "failed" | "skipped";
+  duration: number; // milliseconds
+  output?: string;
+  error?: string;
+  nodeId?: string; // Node the step ran on
+  sessionId?: string; // Session recorded for the step
+  startTime?: string; // ISO 8601
+  endTime?: string; // ISO 8601
+  provider?: string; // Provider of the last attempt
+  attempts?: WorkflowStepAttempt[];
+}
+
+/**
+ * Persisted workflow run stored in .bozly/workflows/runs/{runId}.json
+ */
+export interface WorkflowRun {
+  runId: string; // UUID
+  workflowId: string;
+  workflowVersion: string;
+  status: "running" | WorkflowResult["status"];
+  startTime: string; // ISO 8601
+  endTime?: string; // ISO 8601
+  duration?: number; // milliseconds
+  resumedAt?: string[]; // ISO 8601 timestamps of each resume
+  steps: WorkflowRunStep[];
 }
 
 /**
@@ -605,6 +932,73 @@ export interface WorkflowValidationError {
   message: string;
 }
 
+/**
+ * Scheduler types
+ */
+
+/**
+ * When a workflow or command runs automatically
+ */
+export interface ScheduleDefinition {
+  cron: string; // 5-field cron expression or macro (e.g., "0 9 * * 1", "@daily")
+  timezone?: string; // IANA timezone (default: node config, then global config, then system)
+  enabled?: boolean; // Default true; `bozly schedule enable/disable` overrides this
+  catchUp?: boolean; // Run once on startup when a run was missed (default: true)
+}
+
+/**
+ * A schedule discovered in a registered node
+ */
+export interface ScheduledJob {
+  id: string; // "{nodeId}:{kind}:{target}"
+  kind: "workflow" | "command";
+  target: string; // Workflow ID or command name
+  nodeId: string;
+  nodeName: string;
+  nodePath: string;
+  cron: string;
+  timezone: string; // Resolved timezone
+  enabled: boolean; // From the definition (state overrides apply on top)
+  catchUp: boolean;
+  error?: string; // Invalid cron expression or timezone; the job never runs
+}
+
+/**
+ * Persisted state of a single schedule
+ */
+export interface ScheduledJobState {
+  enabled?: boolean; // Override set by `bozly schedule enable/disable`
+  lastRun?: string; // ISO 8601
+  lastStatus?: "completed" | "failed" | "partially_completed";
+  lastError?: string;
+  lastSessionId?: string; // Session recorded by the last command run
+  lastWorkflowRunId?: string; // Run recorded by the last workflow run
+  nextRun?: string; // ISO 8601
+}
+
+/**
+ * Scheduler state stored in ~/.bozly/scheduler-state.json
+ */
+export interface SchedulerState {
+  version: number;
+  updated?: string; // ISO 8601
+  jobs: Record<string, ScheduledJobState>;
+}
+
+/**
+ * Outcome of running a scheduled job once
+ */
+export interface ScheduledRunResult {
+  jobId: string;
+  status: "completed" | "failed" | "partially_completed";
+  startTime: string; // ISO 8601
+  duration: number; // milliseconds
+  error?: string;
+  sessionId?: string;
+  workflowRunId?: string;
+  catchUp?: boolean; // Ran to make up for a missed run
+}
+
 /**
  * Cleanup system types
  */
@@ -818,6 +1212,8 @@ export interface MemoryMetadata {
   relevantPreviousSessions: string[];
   summary: string;
   vaultType?: string; // 'music', 'project', 'journal', etc.
+  extractionMethod?: "heuristic" | "ai"; // How the memory sections were written
+  extractionProvider?: string; // Provider that wrote them (AI extraction)
 }
 
 /**
@@ -918,6 +1314,31 @@ export interface MemoryNodeConfig {
     enabled?: boolean;
     directory?: string; // Path to custom memory templates
   };
+  extraction?: MemoryExtractionConfig;
+  retrieval?: MemoryRetrievalConfig;
+}
+
+/**
+ * How session memories are extracted (memory.extraction in .bozly/config.json)
+ */
+export interface MemoryExtractionConfig {
+  mode?: "heuristic" | "ai"; // Default: heuristic (offline templates)
+  provider?: string; // Provider for AI extraction; a cheap or local one (e.g. "ollama")
+  model?: string;
+  timeoutMs?: number; // Default: 60000
+  maxOutputChars?: number; // Session output sent for extraction is cut to this (default: 12000)
+}
+
+/**
+ * How past memories are picked for a command (memory.retrieval in .bozly/config.json)
+ */
+export interface MemoryRetrievalConfig {
+  embedder?: "hashing" | "ollama"; // Default: hashing (offline, no model needed)
+  model?: string; // Ollama embedding model (default: nomic-embed-text)
+  baseUrl?: string; // Ollama URL (default: http://localhost:11434)
+  timeoutMs?: number; // Ollama request timeout (default: 10000)
+  dimensions?: number; // Hashing vector size (default: 512)
+  similarityWeight?: number; // Share of similarity in the score, the rest is quality/recency (default: 0.6)
 }
 
 /**
@@ -1005,7 +1426,7 @@ export type SessionStatus = "completed" | "failed" | "dry_run";
  * Cross-node search query
  */
 export interface SearchQuery {
-  text?: string; // Full-text search term
+  text?: string; // Full-text query: terms, "phrases", tag:/command:/vault: prefixes
   command?: string; // Specific command filter
   provider?: AIProvider; // claude, gpt, gemini, ollama
   nodeId?: string; // Specific vault/node ID
@@ -1031,6 +1452,7 @@ export interface SessionSearchResult {
     nodeName: string;
     nodePath: string;
   };
+  snippet?: string; // Best-matching passage of the output, matches in **bold**
 }
 
 /**
@@ -1048,9 +1470,10 @@ export interface MemorySearchResult {
     tags: string[];
     filePath: string;
   };
-  matchedFields: string[]; // summary, tags, command
+  matchedFields: string[]; // title, summary, tags, command, body
   relevanceScore: number;
   sessionPath: string; // Path to the session that generated this memory
+  snippet?: string; // Best-matching passage of the memory, matches in **bold**
 }
 
 /**
@@ -1059,12 +1482,13 @@ export interface MemorySearchResult {
 export interface CommandSearchResult {
   type: "command";
   command: NodeCommand;
-  matchedFields: string[]; // name, description, tags
+  matchedFields: string[]; // name, description, tags (title, summary, tags, body for text queries)
   relevanceScore: number;
   sourceNode?: {
     nodeId: string;
     nodeName: string;
   }; // undefined for global commands
+  snippet?: string; // Best-matching passage of the command body, matches in **bold**
 }
 
 /**
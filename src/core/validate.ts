@@ -11,6 +11,7 @@
  * - Check context.md existence and size
  * - Validate command and workflow files
  * - Check vault registry entries
+ * - Check recorded sessions are readable and not from a newer schema
  *
  * @module core/validate
  */
@@ -19,6 +20,7 @@ import fs from "fs/promises";
 import path from "path";
 import { getCurrentNode } from "./node.js";
 import { getRegistry } from "./registry.js";
+import { migrateSessionsOnDisk, CURRENT_SESSION_SCHEMA_VERSION } from "./session-migrations.js";
 
 export interface ValidationCheckResult {
   name: string;
@@ -79,6 +81,7 @@ export class VaultValidator {
     checks.push(await this.checkWorkflowFiles(vaultPath));
     checks.push(await this.checkCommandIndex(vaultPath));
     checks.push(await this.checkRegistryEntry(vaultPath));
+    checks.push(await this.checkSessionFiles(vaultPath));
 
     // Calculate statistics
     const passCount = checks.filter((c) => c.level === "pass").length;
@@ -657,4 +660,68 @@ export class VaultValidator {
       };
     }
   }
+
+  /**
+   * Check 11: Session Files
+   */
+  private async checkSessionFiles(vaultPath: string): Promise<ValidationCheckResult> {
+    const sessionsPath = path.join(vaultPath, ".bozly", "sessions");
+
+    try {
+      const report = await migrateSessionsOnDisk(sessionsPath, { dryRun: true });
+
+      if (report.failed.length > 0 || report.newer.length > 0) {
+        const problems = [
+          ...report.failed.map((f) => `${f.path}: ${f.error}`),
+          ...report.newer.map((n) => `${n.path}: schema ${n.version}`),
+        ];
+        const messages = [
+          report.failed.length > 0 && `${report.failed.length} unreadable`,
+          report.newer.length > 0 &&
+            `${report.newer.length} newer than schema ${CURRENT_SESSION_SCHEMA_VERSION}`,
+        ].filter(Boolean);
+        return {
+          name: "Session Files",
+          description: "Check recorded sessions can be read",
+          level: "fail",
+          message: `${messages.join(", ")} (of ${report.scanned} sessions)`,
+          details:
+            problems.slice(0, 5).join("\n") +
+            (problems.length > 5 ? `\n...and ${problems.length - 5} more` : "") +
+            (report.newer.length > 0 ? "\nUpgrade BOZLY to read newer sessions" : ""),
+          fixable: false,
+        };
+      }
+
+      if (report.migrated.length > 0) {
+        return {
+          name: "Session Files",
+          description: "Check recorded sessions can be read",
+          level: "warn",
+          message: `${report.migrated.length}/${report.scanned} sessions use an older schema`,
+          details: "Upgrade them with: bozly sessions migrate",
+          fixable: true,
+        };
+      }
+
+      return {
+        name: "Session Files",
+        description: "Check recorded sessions can be read",
+        level: "pass",
+        message:
+          report.scanned > 0
+            ? `${report.scanned} sessions are readable`
+            : "No sessions recorded yet (not an error)",
+        fixable: false,
+      };
+    } catch {
+      return {
+        name: "Session Files",
+        description: "Check recorded sessions can be read",
+        level: "warn",
+        message: "Could not check session files",
+        fixable: false,
+      };
+    }
+  }
 }
@@ -0,0 +1,701 @@
+/**
+ * Workflow Expression Language
+ *
+ * Small, sandboxed expression language used by workflow step `context`
+ * templates (`{{ ... }}`) and `when:` conditions.
+ *
+ * Variables:
+ * - now                    Current time (Date)
+ * - steps.{id}.output      Output of a finished step (also status, error, duration, session.*)
+ * - env.{NAME}             Environment variable
+ * - vault.{field}          Target node metadata (id, name, path, type)
+ *
+ * Filters (applied with `|`, arguments after `:` separated by `,`):
+ * - date:'YYYY-MM-DD'      Format a date (UTC). Tokens: YYYY YY MM M MMM MMMM DD D
+ *                          ddd dddd HH H mm m ss s SSS WW W GGGG, [literal]; 'ISO'
+ * - addDays:n, addWeeks:n, addMonths:n, addHours:n
+ * - upper, lower, trim, truncate:n, first-lines:n, json, length, default:value
+ *
+ * Conditions support `==`, `!=`, `<`, `<=`, `>`, `>=`, `&&`, `||`, `!` and
+ * parentheses. Strings are truthy when they contain non-whitespace.
+ *
+ * Example:
+ *   {{ now | addDays:-7 | date:'YYYY-[W]WW' }}
+ *   when: "steps.fetch.status == 'completed' && steps.fetch.output"
+ *
+ * @module core/workflow-expressions
+ */
+
+/**
+ * Values available to expressions
+ */
+export interface ExpressionScope {
+  now: Date;
+  steps: Record<string, Record<string, unknown>>;
+  env: Record<string, string | undefined>;
+  vault?: Record<string, unknown>;
+}
+
+type Token =
+  | { type: "ident"; value: string; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "number"; value: number; pos: number }
+  | { type: "op"; value: string; pos: number }
+  | { type: "eof"; pos: number };
+
+/**
+ * Parsed expression
+ */
+export type Expression =
+  | { kind: "literal"; value: unknown }
+  | { kind: "path"; segments: string[] }
+  | { kind: "filter"; input: Expression; name: string; args: Expression[] }
+  | { kind: "not"; operand: Expression }
+  | { kind: "binary"; op: string; left: Expression; right: Expression };
+
+type FilterFn = (value: unknown, args: unknown[]) => unknown;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+/**
+ * Known filters with their allowed argument counts
+ */
+const FILTERS: Record<string, { args: [number, number]; apply: FilterFn }> = {
+  date: {
+    args: [0, 1],
+    apply: (value, [format]) => formatDate(toDate(value, "date"), String(format ?? "ISO")),
+  },
+  addDays: { args: [1, 1], apply: (value, [n]) => shiftDate(value, "addDays", n, "days") },
+  addWeeks: { args: [1, 1], apply: (value, [n]) => shiftDate(value, "addWeeks", n, "weeks") },
+  addMonths: { args: [1, 1], apply: (value, [n]) => shiftDate(value, "addMonths", n, "months") },
+  addHours: { args: [1, 1], apply: (value, [n]) => shiftDate(value, "addHours", n, "hours") },
+  upper: { args: [0, 0], apply: (value) => stringifyValue(value).toUpperCase() },
+  lower: { args: [0, 0], apply: (value) => stringifyValue(value).toLowerCase() },
+  trim: { args: [0, 0], apply: (value) => stringifyValue(value).trim() },
+  truncate: {
+    args: [1, 1],
+    apply: (value, [n]) => {
+      const text = stringifyValue(value);
+      const max = toInteger(n, "truncate");
+      return text.length > max ? `${text.slice(0, max)}…` : text;
+    },
+  },
+  "first-lines": {
+    args: [1, 1],
+    apply: (value, [n]) =>
+      stringifyValue(value).split("\n").slice(0, toInteger(n, "first-lines")).join("\n"),
+  },
+  json: { args: [0, 0], apply: (value) => JSON.stringify(value ?? null) },
+  length: {
+    args: [0, 0],
+    apply: (value) => (Array.isArray(value) ? value.length : stringifyValue(value).length),
+  },
+  default: {
+    args: [1, 1],
+    apply: (value, [fallback]) => (isTruthy(value) ? value : fallback),
+  },
+};
+
+const VARIABLE_ROOTS = new Set(["now", "steps", "env", "vault"]);
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const previous = tokens[tokens.length - 1];
+    const afterDot = previous?.type === "op" && previous.value === ".";
+
+    // Path segments may start with a digit or contain hyphens (step IDs)
+    if (afterDot ? /[A-Za-z0-9_]/.test(ch) : /[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z0-9_-]+/.exec(source.slice(i));
+      const value = match ? match[0] : ch;
+      tokens.push({ type: "ident", value, pos: i });
+      i += value.length;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === "-" && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const match = /^-?\d+(\.\d+)?/.exec(source.slice(i));
+      const text = match ? match[0] : ch;
+      tokens.push({ type: "number", value: Number(text), pos: i });
+      i += text.length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      let value = "";
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === "\\" && j + 1 < source.length) {
+          j++;
+        }
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new Error(`Unterminated string at position ${i}`);
+      }
+      tokens.push({ type: "string", value, pos: i });
+      i = j + 1;
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (["==", "!=", "<=", ">=", "&&", "||"].includes(two)) {
+      tokens.push({ type: "op", value: two, pos: i });
+      i += 2;
+      continue;
+    }
+
+    if ("|:,.()!<>".includes(ch)) {
+      tokens.push({ type: "op", value: ch, pos: i });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character '${ch}' at position ${i}`);
+  }
+
+  tokens.push({ type: "eof", pos: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser
+ *
+ * or    := and ('||' and)*
+ * and   := not ('&&' not)*
+ * not   := '!' not | cmp
+ * cmp   := pipe (('=='|'!='|'<'|'<='|'>'|'>=') pipe)?
+ * pipe  := primary ('|' ident (':' primary (',' primary)*)?)*
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Expression {
+    const expr = this.parseOr();
+    const token = this.peek();
+    if (token.type !== "eof") {
+      throw new Error(`Unexpected ${describeToken(token)} at position ${token.pos}`);
+    }
+    return expr;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token.type === "op" && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    const token = this.next();
+    if (token.type !== "op" || token.value !== value) {
+      throw new Error(
+        `Expected '${value}' but found ${describeToken(token)} at position ${token.pos}`
+      );
+    }
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.isOp("||")) {
+      this.next();
+      left = { kind: "binary", op: "||", left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.isOp("&&")) {
+      this.next();
+      left = { kind: "binary", op: "&&", left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.isOp("!")) {
+      this.next();
+      return { kind: "not", operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Expression {
+    const left = this.parsePipe();
+    const token = this.peek();
+    if (token.type === "op" && ["==", "!=", "<", "<=", ">", ">="].includes(token.value)) {
+      this.next();
+      return { kind: "binary", op: token.value, left, right: this.parsePipe() };
+    }
+    return left;
+  }
+
+  private parsePipe(): Expression {
+    let input = this.parsePrimary();
+    while (this.isOp("|")) {
+      this.next();
+      const nameToken = this.next();
+      if (nameToken.type !== "ident") {
+        throw new Error(
+          `Expected filter name but found ${describeToken(nameToken)} at position ${nameToken.pos}`
+        );
+      }
+      const filter = FILTERS[nameToken.value];
+      if (!filter) {
+        throw new Error(`Unknown filter '${nameToken.value}'`);
+      }
+
+      const args: Expression[] = [];
+      if (this.isOp(":")) {
+        this.next();
+        args.push(this.parsePrimary());
+        while (this.isOp(",")) {
+          this.next();
+          args.push(this.parsePrimary());
+        }
+      }
+
+      const [min, max] = filter.args;
+      if (args.length < min || args.length > max) {
+        const expected = min === max ? `${min}` : `${min}-${max}`;
+        throw new Error(
+          `Filter '${nameToken.value}' expects ${expected} argument(s), got ${args.length}`
+        );
+      }
+
+      input = { kind: "filter", input, name: nameToken.value, args };
+    }
+    return input;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+
+    if (token.type === "string" || token.type === "number") {
+      return { kind: "literal", value: token.value };
+    }
+
+    if (token.type === "op" && token.value === "(") {
+      const inner = this.parseOr();
+      this.expectOp(")");
+      return inner;
+    }
+
+    if (token.type === "ident") {
+      if (token.value === "true" || token.value === "false") {
+        return { kind: "literal", value: token.value === "true" };
+      }
+      if (token.value === "null") {
+        return { kind: "literal", value: null };
+      }
+
+      const segments = [token.value];
+      while (this.isOp(".")) {
+        this.next();
+        const segment = this.next();
+        if (segment.type !== "ident") {
+          throw new Error(
+            `Expected property name but found ${describeToken(segment)} at position ${segment.pos}`
+          );
+        }
+        segments.push(segment.value);
+      }
+      return { kind: "path", segments };
+    }
+
+    throw new Error(`Unexpected ${describeToken(token)} at position ${token.pos}`);
+  }
+}
+
+function describeToken(token: Token): string {
+  if (token.type === "eof") {
+    return "end of expression";
+  }
+  return `'${String(token.value)}'`;
+}
+
+/**
+ * Parse an expression (without surrounding `{{ }}`)
+ *
+ * @throws Error on syntax errors, unknown filters or wrong filter arity
+ */
+export function parseExpression(source: string): Expression {
+  return new Parser(tokenize(source)).parse();
+}
+
+/**
+ * Check that an expression only references known variables and steps
+ *
+ * @param expr - Parsed expression
+ * @param stepIds - Step IDs the expression may reference
+ * @returns Error messages (empty if valid)
+ */
+export function checkExpression(expr: Expression, stepIds: Set<string>): string[] {
+  const errors: string[] = [];
+
+  const visit = (node: Expression): void => {
+    switch (node.kind) {
+      case "path": {
+        const [root, second] = node.segments;
+        if (!VARIABLE_ROOTS.has(root)) {
+          errors.push(`Unknown variable '${root}'`);
+        } else if (root === "steps" && (!second || !stepIds.has(second))) {
+          errors.push(`Unknown step '${second ?? ""}'`);
+        } else if (root === "now" && node.segments.length > 1) {
+          errors.push("'now' has no properties (use a filter like date)");
+        }
+        break;
+      }
+      case "filter":
+        visit(node.input);
+        node.args.forEach(visit);
+        break;
+      case "not":
+        visit(node.operand);
+        break;
+      case "binary":
+        visit(node.left);
+        visit(node.right);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(expr);
+  return errors;
+}
+
+/**
+ * List the step IDs an expression references via `steps.{id}`
+ */
+export function findStepReferences(expr: Expression): string[] {
+  const refs = new Set<string>();
+
+  const visit = (node: Expression): void => {
+    switch (node.kind) {
+      case "path":
+        if (node.segments[0] === "steps" && node.segments[1]) {
+          refs.add(node.segments[1]);
+        }
+        break;
+      case "filter":
+        visit(node.input);
+        node.args.forEach(visit);
+        break;
+      case "not":
+        visit(node.operand);
+        break;
+      case "binary":
+        visit(node.left);
+        visit(node.right);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(expr);
+  return Array.from(refs);
+}
+
+/**
+ * Evaluate a parsed expression against a scope
+ *
+ * @throws Error when a filter receives a value it can't handle
+ */
+export function evaluateExpression(expr: Expression, scope: ExpressionScope): unknown {
+  switch (expr.kind) {
+    case "literal":
+      return expr.value;
+    case "path":
+      return resolvePath(expr.segments, scope);
+    case "filter":
+      return FILTERS[expr.name].apply(
+        evaluateExpression(expr.input, scope),
+        expr.args.map((arg) => evaluateExpression(arg, scope))
+      );
+    case "not":
+      return !isTruthy(evaluateExpression(expr.operand, scope));
+    case "binary": {
+      if (expr.op === "&&") {
+        const left = evaluateExpression(expr.left, scope);
+        return isTruthy(left) ? evaluateExpression(expr.right, scope) : left;
+      }
+      if (expr.op === "||") {
+        const left = evaluateExpression(expr.left, scope);
+        return isTruthy(left) ? left : evaluateExpression(expr.right, scope);
+      }
+      return compare(
+        expr.op,
+        evaluateExpression(expr.left, scope),
+        evaluateExpression(expr.right, scope)
+      );
+    }
+  }
+}
+
+/**
+ * Find all `{{ ... }}` expressions in a template string
+ */
+export function extractTemplateExpressions(template: string): string[] {
+  return Array.from(template.matchAll(/\{\{([\s\S]*?)\}\}/g), (match) => match[1].trim());
+}
+
+/**
+ * Render a template string, replacing each `{{ expr }}` with its value
+ */
+export function renderTemplate(template: string, scope: ExpressionScope): string {
+  return template.replace(/\{\{([\s\S]*?)\}\}/g, (_match, source: string) =>
+    stringifyValue(evaluateExpression(parseExpression(source.trim()), scope))
+  );
+}
+
+/**
+ * Evaluate a boolean condition (e.g. a step's `when:`)
+ *
+ * Accepts the expression with or without surrounding `{{ }}`.
+ */
+export function evaluateCondition(condition: string, scope: ExpressionScope): boolean {
+  return isTruthy(evaluateExpression(parseExpression(unwrapCondition(condition)), scope));
+}
+
+/**
+ * Strip optional `{{ }}` around a condition
+ */
+export function unwrapCondition(condition: string): string {
+  const trimmed = condition.trim();
+  const match = /^\{\{([\s\S]*)\}\}$/.exec(trimmed);
+  return match ? match[1].trim() : trimmed;
+}
+
+/**
+ * Convert an evaluated value to template text
+ */
+export function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Truthiness used by conditions: blank strings and empty arrays are false
+ */
+export function isTruthy(value: unknown): boolean {
+  if (typeof value === "string") {
+    return value.trim().length > 0;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+}
+
+/**
+ * Format a date (UTC) with moment-style tokens
+ */
+export function formatDate(date: Date, format: string): string {
+  if (format === "ISO") {
+    return date.toISOString();
+  }
+
+  const pad = (n: number, width = 2): string => String(n).padStart(width, "0");
+  const { week, weekYear } = getIsoWeek(date);
+
+  return format.replace(
+    /\[([^\]]*)\]|YYYY|GGGG|MMMM|MMM|dddd|ddd|SSS|YY|MM|DD|HH|mm|ss|WW|M|D|H|m|s|W/g,
+    (token, literal: string | undefined) => {
+      if (literal !== undefined) {
+        return literal;
+      }
+      switch (token) {
+        case "YYYY":
+          return String(date.getUTCFullYear());
+        case "YY":
+          return pad(date.getUTCFullYear() % 100);
+        case "GGGG":
+          return String(weekYear);
+        case "MMMM":
+          return MONTH_NAMES[date.getUTCMonth()];
+        case "MMM":
+          return MONTH_NAMES[date.getUTCMonth()].slice(0, 3);
+        case "MM":
+          return pad(date.getUTCMonth() + 1);
+        case "M":
+          return String(date.getUTCMonth() + 1);
+        case "dddd":
+          return DAY_NAMES[date.getUTCDay()];
+        case "ddd":
+          return DAY_NAMES[date.getUTCDay()].slice(0, 3);
+        case "DD":
+          return pad(date.getUTCDate());
+        case "D":
+          return String(date.getUTCDate());
+        case "HH":
+          return pad(date.getUTCHours());
+        case "H":
+          return String(date.getUTCHours());
+        case "mm":
+          return pad(date.getUTCMinutes());
+        case "m":
+          return String(date.getUTCMinutes());
+        case "ss":
+          return pad(date.getUTCSeconds());
+        case "s":
+          return String(date.getUTCSeconds());
+        case "SSS":
+          return pad(date.getUTCMilliseconds(), 3);
+        case "WW":
+          return pad(week);
+        case "W":
+          return String(week);
+        default:
+          return token;
+      }
+    }
+  );
+}
+
+/**
+ * ISO 8601 week number and week-numbering year
+ */
+function getIsoWeek(date: Date): { week: number; weekYear: number } {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // Thursday of the current week decides the year
+  const dayNumber = target.getUTCDay() || 7;
+  target.setUTCDate(target.getUTCDate() + 4 - dayNumber);
+  const yearStart = Date.UTC(target.getUTCFullYear(), 0, 1);
+  const week = Math.ceil(((target.getTime() - yearStart) / DAY_MS + 1) / 7);
+  return { week, weekYear: target.getUTCFullYear() };
+}
+
+function resolvePath(segments: string[], scope: ExpressionScope): unknown {
+  let current: unknown = scope;
+  for (const segment of segments) {
+    if (current === null || current === undefined || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function toDate(value: unknown, filter: string): Date {
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Filter '${filter}' expects a date, got '${stringifyValue(value)}'`);
+  }
+  return date;
+}
+
+function toInteger(value: unknown, filter: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n)) {
+    throw new Error(`Filter '${filter}' expects an integer, got '${stringifyValue(value)}'`);
+  }
+  return n;
+}
+
+function shiftDate(
+  value: unknown,
+  filter: string,
+  amount: unknown,
+  unit: "hours" | "days" | "weeks" | "months"
+): Date {
+  const date = new Date(toDate(value, filter).getTime());
+  const n = toInteger(amount, filter);
+  switch (unit) {
+    case "hours":
+      date.setUTCHours(date.getUTCHours() + n);
+      break;
+    case "days":
+      date.setUTCDate(date.getUTCDate() + n);
+      break;
+    case "weeks":
+      date.setUTCDate(date.getUTCDate() + n * 7);
+      break;
+    case "months":
+      date.setUTCMonth(date.getUTCMonth() + n);
+      break;
+  }
+  return date;
+}
+
+function compare(op: string, left: unknown, right: unknown): boolean {
+  const bothNumeric =
+    left !== "" &&
+    right !== "" &&
+    left !== null &&
+    right !== null &&
+    !Number.isNaN(Number(left)) &&
+    !Number.isNaN(Number(right)) &&
+    typeof left !== "boolean" &&
+    typeof right !== "boolean";
+
+  const a = bothNumeric ? Number(left) : stringifyValue(left);
+  const b = bothNumeric ? Number(right) : stringifyValue(right);
+
+  switch (op) {
+    case "==":
+      return a === b;
+    case "!=":
+      return a !== b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    default:
+      throw new Error(`Unknown operator '${op}'`);
+  }
+}
@@ -1,24 +1,47 @@
 /**
  * Workflow System Module
  *
- * Enables multi-step processes where commands are executed sequentially
- * with context passing between steps. Workflows are stored as JSON files
+ * Enables multi-step processes where commands are executed on their target
+ * nodes with context passing between steps. Workflows are stored as JSON files
  * in .bozly/workflows/ and can be executed via `bozly run --workflow`.
  *
  * Key Features:
  * - Workflow discovery (node + global levels)
- * - Step-by-step execution with sequential context passing
- * - Configurable error handling (stop on failure or continue)
- * - Template variable interpolation for context
+ * - Dependency-graph execution: independent steps on different nodes run
+ *   in parallel, dependents wait for their requirements
+ * - Configurable error handling (stop, continue, or retry with exponential
+ *   backoff) and per-step provider fallback
+ * - Expression language for step context and `when:` conditions
+ *   (see core/workflow-expressions)
  * - Full session recording with per-step audit trail
  * - Timeout handling per step
+ * - Persisted run state (.bozly/workflows/runs/) for resuming failed runs
+ * - Optional cron `schedule` (run by core/scheduler)
  *
  * @module core/workflows
  */
 
 import fs from "fs/promises";
 import path from "path";
+import { randomUUID } from "crypto";
 import { logger } from "./logger.js";
+import { getNode } from "./registry.js";
+import { getCommand, runNodeCommand } from "./commands.js";
+import { recordSession, loadPastMemories, loadSession } from "./sessions.js";
+import { getGlobalConfig } from "./config.js";
+import { checkBudgetCrossing, formatBudgetStatus } from "./costs.js";
+import { parseCron } from "./cron.js";
+import { isValidTimezone } from "../utils/timezone.js";
+import {
+  ExpressionScope,
+  parseExpression,
+  checkExpression,
+  findStepReferences,
+  renderTemplate,
+  evaluateCondition,
+  extractTemplateExpressions,
+  unwrapCondition,
+} from "./workflow-expressions.js";
 import {
   Workflow,
   WorkflowStep,
@@ -26,9 +49,61 @@ import {
   WorkflowResult,
   WorkflowExecutionOptions,
   WorkflowValidationError,
+  WorkflowRun,
+  WorkflowRunStep,
+  WorkflowRetryPolicy,
+  WorkflowStepAttempt,
   Registry,
+  NodeConfig,
+  NodeInfo,
+  RunResult,
+  Session,
+  PricingConfig,
 } from "./types.js";
 
+/**
+ * Default per-step timeout (5 minutes)
+ */
+export const DEFAULT_STEP_TIMEOUT_MS = 300000;
+
+/**
+ * Extra time a step's provider call gets to stop itself after the step
+ * timeout before the step is failed anyway
+ */
+const STEP_TIMEOUT_GRACE_MS = 5000;
+
+/**
+ * Run IDs are UUIDs (see executeWorkflow)
+ */
+const WORKFLOW_RUN_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Default number of steps allowed to run at once
+ */
+export const DEFAULT_MAX_PARALLEL = 4;
+
+/**
+ * Retry policy defaults for steps with onError "retry"
+ */
+export const DEFAULT_RETRY_POLICY: Required<WorkflowRetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  backoffFactor: 2,
+  maxDelayMs: 30000,
+};
+
+/** Errors no other provider can fix: the command doesn't exist in the node */
+const STEP_CONFIGURATION_ERRORS = [/Command '.+' not found in vault/];
+
+/** Errors retrying the same provider can't fix: it isn't installed or set up */
+const PROVIDER_CONFIGURATION_ERRORS = [
+  /Unknown provider/,
+  /is not installed/,
+  /Failed to start/,
+  /requires an API key/,
+  /needs a model/,
+];
+
 /**
  * Discover all workflows from node-level and global locations
  * Search order:
@@ -56,6 +131,15 @@ export async function discoverWorkflows(nodePath: string): Promise<Workflow[]> {
   return Array.from(discovered.values()).sort((a, b) => a.id.localeCompare(b.id));
 }
 
+/**
+ * Discover only a node's own workflows ({nodePath}/.bozly/workflows/)
+ *
+ * Used by the scheduler, which must not run global workflows once per node.
+ */
+export async function discoverNodeWorkflows(nodePath: string): Promise<Workflow[]> {
+  return discoverWorkflowsInDirectory(path.join(nodePath, ".bozly", "workflows"));
+}
+
 /**
  * Discover workflows in a specific directory
  */
@@ -183,8 +267,35 @@ export function validateWorkflow(
     return errors; // Can't validate step references without steps
   }
 
+  if (
+    workflow.maxParallel !== undefined &&
+    (!Number.isInteger(workflow.maxParallel) || workflow.maxParallel <= 0)
+  ) {
+    errors.push({
+      step: "workflow",
+      field: "maxParallel",
+      message: "Workflow maxParallel must be a positive integer",
+    });
+  }
+
+  if (workflow.schedule) {
+    try {
+      parseCron(workflow.schedule.cron ?? "");
+    } catch (error) {
+      errors.push({ step: "workflow", field: "schedule.cron", message: (error as Error).message });
+    }
+    if (workflow.schedule.timezone && !isValidTimezone(workflow.schedule.timezone)) {
+      errors.push({
+        step: "workflow",
+        field: "schedule.timezone",
+        message: `Invalid timezone '${workflow.schedule.timezone}'`,
+      });
+    }
+  }
+
   // Validate each step
   const stepIds = new Set<string>();
+  const allStepIds = new Set(workflow.steps.map((s) => s.id));
   const nodeIds = new Set(registry.nodes.map((n) => n.id));
 
   for (const step of workflow.steps) {
@@ -229,14 +340,16 @@ export function validateWorkflow(
       });
     }
 
-    if (!step.onError || !["stop", "continue"].includes(step.onError)) {
+    if (!step.onError || !["stop", "continue", "retry"].includes(step.onError)) {
       errors.push({
         step: step.id,
         field: "onError",
-        message: "Step onError must be 'stop' or 'continue'",
+        message: "Step onError must be 'stop', 'continue' or 'retry'",
       });
     }
 
+    errors.push(...validateStepRetry(step));
+
     // Validate timeout
     if (step.timeout && (typeof step.timeout !== "number" || step.timeout <= 0)) {
       errors.push({
@@ -249,7 +362,7 @@ export function validateWorkflow(
     // Validate conditional dependencies
     if (step.conditional?.requires) {
       for (const requiredId of step.conditional.requires) {
-        if (!stepIds.has(requiredId) && requiredId !== step.id) {
+        if (!allStepIds.has(requiredId)) {
           errors.push({
             step: step.id,
             field: "conditional.requires",
@@ -260,130 +373,817 @@ export function validateWorkflow(
     }
   }
 
+  // Context templates and conditions must parse and reference known values
+  for (const step of workflow.steps) {
+    errors.push(...validateStepExpressions(step, allStepIds));
+  }
+
+  // Dependencies must form a DAG
+  const cycle = findWorkflowCycle(workflow);
+  if (cycle) {
+    errors.push({
+      step: cycle[0],
+      field: "conditional.requires",
+      message: `Dependency cycle detected: ${cycle.join(" → ")}`,
+    });
+  }
+
   return errors;
 }
 
+/**
+ * Build the dependency graph of a workflow
+ *
+ * A step depends on:
+ * - every step listed in `conditional.requires`
+ * - every step it references in its context or conditions
+ *   (`{{ steps.X.output }}`), so chaining keeps working without `requires`
+ *
+ * Unknown step IDs are ignored here (validateWorkflow reports them).
+ *
+ * @returns Map of step ID to the IDs of the steps it depends on
+ */
+export function buildWorkflowGraph(workflow: Workflow): Map<string, Set<string>> {
+  const stepIds = new Set(workflow.steps.map((s) => s.id));
+  const graph = new Map<string, Set<string>>();
+
+  for (const step of workflow.steps) {
+    const deps = new Set<string>();
+
+    for (const requiredId of step.conditional?.requires ?? []) {
+      if (stepIds.has(requiredId)) {
+        deps.add(requiredId);
+      }
+    }
+
+    for (const { source } of getStepExpressions(step)) {
+      try {
+        for (const stepId of findStepReferences(parseExpression(source))) {
+          if (stepIds.has(stepId)) {
+            deps.add(stepId);
+          }
+        }
+      } catch {
+        // Invalid expressions are reported by validateWorkflow
+      }
+    }
+
+    graph.set(step.id, deps);
+  }
+
+  return graph;
+}
+
+/**
+ * Order workflow steps so every step comes after its dependencies
+ *
+ * Ties keep definition order. Steps caught in a cycle are appended in
+ * definition order so callers can still report them.
+ */
+function orderWorkflowSteps(workflow: Workflow, graph: Map<string, Set<string>>): WorkflowStep[] {
+  const ordered: WorkflowStep[] = [];
+  const placed = new Set<string>();
+  let remaining = [...workflow.steps];
+
+  while (remaining.length > 0) {
+    const next = remaining.find((step) =>
+      Array.from(graph.get(step.id) ?? []).every((dep) => placed.has(dep))
+    );
+    if (!next) {
+      break;
+    }
+    ordered.push(next);
+    placed.add(next.id);
+    remaining = remaining.filter((step) => step !== next);
+  }
+
+  return [...ordered, ...remaining];
+}
+
+/**
+ * Find a dependency cycle in a workflow
+ *
+ * @returns Step IDs forming the cycle (first ID repeated at the end), or null
+ */
+export function findWorkflowCycle(workflow: Workflow): string[] | null {
+  const graph = buildWorkflowGraph(workflow);
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, "visiting");
+    stack.push(id);
+
+    for (const dep of graph.get(id) ?? []) {
+      if (state.get(dep) === "visiting") {
+        return [...stack.slice(stack.indexOf(dep)), dep];
+      }
+      if (!state.has(dep)) {
+        const cycle = visit(dep);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+
+    stack.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const step of workflow.steps) {
+    if (!state.has(step.id)) {
+      const cycle = visit(step.id);
+      if (cycle) {
+        return cycle;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compute the critical path of an executed workflow
+ *
+ * The critical path is the dependency chain with the largest total step
+ * duration — the chain that bounds how fast the workflow can finish no
+ * matter how much parallelism is available.
+ *
+ * @returns Step IDs along the path (in execution order) and its total duration
+ */
+export function computeCriticalPath(
+  workflow: Workflow,
+  results: WorkflowStepResult[]
+): { path: string[]; duration: number } {
+  const graph = buildWorkflowGraph(workflow);
+  const durations = new Map(results.map((r) => [r.stepId, r.duration]));
+  const finish = new Map<string, number>();
+  const previous = new Map<string, string | undefined>();
+
+  const longestTo = (id: string, seen: Set<string>): number => {
+    const cached = finish.get(id);
+    if (cached !== undefined) {
+      return cached;
+    }
+    seen.add(id);
+
+    let best = 0;
+    let bestDep: string | undefined;
+    for (const dep of graph.get(id) ?? []) {
+      if (seen.has(dep)) {
+        continue; // Cycles are rejected by validation; don't loop forever here
+      }
+      const depFinish = longestTo(dep, seen);
+      if (depFinish > best || bestDep === undefined) {
+        best = depFinish;
+        bestDep = dep;
+      }
+    }
+
+    seen.delete(id);
+    const total = best + (durations.get(id) ?? 0);
+    finish.set(id, total);
+    previous.set(id, bestDep);
+    return total;
+  };
+
+  let endId: string | undefined;
+  let endFinish = -1;
+  for (const step of workflow.steps) {
+    const total = longestTo(step.id, new Set());
+    if (total > endFinish) {
+      endFinish = total;
+      endId = step.id;
+    }
+  }
+
+  const criticalPath: string[] = [];
+  for (let id = endId; id !== undefined; id = previous.get(id)) {
+    criticalPath.unshift(id);
+  }
+
+  return { path: criticalPath, duration: Math.max(endFinish, 0) };
+}
+
+/**
+ * Validate a step's retry policy and fallback providers
+ */
+function validateStepRetry(step: WorkflowStep): WorkflowValidationError[] {
+  const errors: WorkflowValidationError[] = [];
+  const retry = step.retry;
+
+  if (retry) {
+    if (
+      retry.maxAttempts !== undefined &&
+      (!Number.isInteger(retry.maxAttempts) || retry.maxAttempts <= 0)
+    ) {
+      errors.push({
+        step: step.id,
+        field: "retry.maxAttempts",
+        message: "Retry maxAttempts must be a positive integer",
+      });
+    }
+
+    for (const field of ["initialDelayMs", "maxDelayMs"] as const) {
+      const value = retry[field];
+      if (value !== undefined && (typeof value !== "number" || value < 0)) {
+        errors.push({
+          step: step.id,
+          field: `retry.${field}`,
+          message: `Retry ${field} must be a non-negative number (milliseconds)`,
+        });
+      }
+    }
+
+    if (
+      retry.backoffFactor !== undefined &&
+      (typeof retry.backoffFactor !== "number" || retry.backoffFactor < 1)
+    ) {
+      errors.push({
+        step: step.id,
+        field: "retry.backoffFactor",
+        message: "Retry backoffFactor must be a number >= 1",
+      });
+    }
+  }
+
+  if (
+    step.fallbackProviders !== undefined &&
+    (!Array.isArray(step.fallbackProviders) ||
+      step.fallbackProviders.some((p) => typeof p !== "string" || p.length === 0))
+  ) {
+    errors.push({
+      step: step.id,
+      field: "fallbackProviders",
+      message: "Step fallbackProviders must be a list of provider names",
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Collect every expression a step uses: `{{ }}` templates in its context
+ * (with their field path) plus its `when` / `conditional.skip` conditions
+ */
+function getStepExpressions(step: WorkflowStep): { field: string; source: string }[] {
+  const expressions: { field: string; source: string }[] = [];
+
+  const walk = (value: unknown, field: string): void => {
+    if (typeof value === "string") {
+      for (const source of extractTemplateExpressions(value)) {
+        expressions.push({ field, source });
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => walk(item, `${field}[${index}]`));
+    } else if (typeof value === "object" && value !== null) {
+      Object.entries(value).forEach(([key, item]) => walk(item, `${field}.${key}`));
+    }
+  };
+  walk(step.context ?? {}, "context");
+
+  if (step.when) {
+    expressions.push({ field: "when", source: unwrapCondition(step.when) });
+  }
+  if (step.conditional?.skip) {
+    expressions.push({ field: "conditional.skip", source: unwrapCondition(step.conditional.skip) });
+  }
+
+  return expressions;
+}
+
+/**
+ * Validate all expressions used by a step
+ */
+function validateStepExpressions(
+  step: WorkflowStep,
+  stepIds: Set<string>
+): WorkflowValidationError[] {
+  const errors: WorkflowValidationError[] = [];
+
+  for (const { field, source } of getStepExpressions(step)) {
+    try {
+      for (const message of checkExpression(parseExpression(source), stepIds)) {
+        errors.push({ step: step.id, field, message: `${message} in '${source}'` });
+      }
+    } catch (error) {
+      errors.push({
+        step: step.id,
+        field,
+        message: `${(error as Error).message} in '${source}'`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Build the values available to a step's expressions
+ */
+export function buildExpressionScope(
+  completedSteps: Map<string, WorkflowStepResult>,
+  vault?: NodeInfo
+): ExpressionScope {
+  const steps: ExpressionScope["steps"] = {};
+  for (const [stepId, result] of completedSteps) {
+    steps[stepId] = { ...result, output: result.output ?? "" };
+  }
+
+  return {
+    now: new Date(),
+    steps,
+    env: { ...process.env },
+    vault: vault && { id: vault.id, name: vault.name, path: vault.path, type: vault.type },
+  };
+}
+
 /**
  * Interpolate template variables in step context
  *
- * Supports:
+ * Every `{{ expression }}` in string values (including nested objects and
+ * arrays) is evaluated with the workflow expression language, e.g.:
  * - {{ now | date:'YYYY-MM-DD' }} - current timestamp with filters
  * - {{ steps.{stepId}.output }} - output from previous step
  * - {{ steps.{stepId}.session.id }} - session ID from previous step
+ * - {{ env.HOME }}, {{ vault.name }}
+ *
+ * @throws Error naming the field when an expression fails to evaluate
  */
 export function interpolateStepContext(
   step: WorkflowStep,
-  completedSteps: Map<string, WorkflowStepResult>
+  completedSteps: Map<string, WorkflowStepResult>,
+  vault?: NodeInfo
 ): Record<string, unknown> {
   if (!step.context) {
     return {};
   }
 
-  const context = JSON.parse(JSON.stringify(step.context)); // Deep copy
-  const now = new Date();
+  const scope = buildExpressionScope(completedSteps, vault);
 
-  // Helper function to process template strings
-  const processValue = (value: unknown): unknown => {
-    if (typeof value !== "string") {
-      if (Array.isArray(value)) {
-        return value.map(processValue);
-      }
-      if (typeof value === "object" && value !== null) {
-        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, processValue(v)]));
+  const processValue = (value: unknown, field: string): unknown => {
+    if (typeof value === "string") {
+      try {
+        return renderTemplate(value, scope);
+      } catch (error) {
+        throw new Error(`Invalid expression in ${field}: ${(error as Error).message}`);
       }
-      return value;
     }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => processValue(item, `${field}[${index}]`));
+    }
+    if (typeof value === "object" && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, processValue(v, `${field}.${k}`)])
+      );
+    }
+    return value;
+  };
 
-    let result = value;
-
-    // Process {{ now | filters }} templates
-    result = result.replace(/\{\{\s*now\s*(?:\|\s*([^}]+?))?\s*\}\}/g, (_match, filter) => {
-      if (filter === "date:'YYYY-MM-DD'") {
-        return now.toISOString().split("T")[0];
-      }
-      if (filter === "date:'ISO'") {
-        return now.toISOString();
-      }
-      return now.toISOString();
-    });
-
-    // Process {{ steps.{stepId}.output }} templates
-    result = result.replace(/\{\{\s*steps\.([a-zA-Z0-9-_]+)\.output\s*\}\}/g, (_match, stepId) => {
-      const stepResult = completedSteps.get(stepId);
-      return stepResult?.output ?? "";
-    });
+  return processValue(step.context, "context") as Record<string, unknown>;
+}
 
-    // Process {{ steps.{stepId}.session.id }} templates
-    result = result.replace(
-      /\{\{\s*steps\.([a-zA-Z0-9-_]+)\.session\.([a-zA-Z0-9-_]+)\s*\}\}/g,
-      (_match, stepId, field) => {
-        const stepResult = completedSteps.get(stepId);
-        if (stepResult?.session && field in stepResult.session) {
-          const val = (stepResult.session as unknown as Record<string, unknown>)[field];
-          return typeof val === "string" ? val : JSON.stringify(val);
-        }
-        return "";
-      }
-    );
+/**
+ * Decide whether a step should run based on `when` and `conditional.skip`
+ *
+ * @throws Error naming the field when a condition fails to evaluate
+ */
+export function shouldRunStep(
+  step: WorkflowStep,
+  completedSteps: Map<string, WorkflowStepResult>,
+  vault?: NodeInfo
+): boolean {
+  if (!step.when && !step.conditional?.skip) {
+    return true;
+  }
 
-    return result;
+  const scope = buildExpressionScope(completedSteps, vault);
+  const evaluate = (condition: string, field: string): boolean => {
+    try {
+      return evaluateCondition(condition, scope);
+    } catch (error) {
+      throw new Error(`Invalid expression in ${field}: ${(error as Error).message}`);
+    }
   };
 
-  return processValue(context) as Record<string, unknown>;
+  if (step.when && !evaluate(step.when, "when")) {
+    return false;
+  }
+  if (step.conditional?.skip && evaluate(step.conditional.skip, "conditional.skip")) {
+    return false;
+  }
+  return true;
 }
 
 /**
  * Execute a single workflow step
+ *
+ * Resolves the step's node from the registry, runs the command there with
+ * the interpolated step context as parameters, and records a session in the
+ * target node so the step shows up in `bozly logs` like a normal run.
+ *
+ * A failing provider is retried per the step's retry policy (onError
+ * "retry"), then each of `fallbackProviders` is tried in turn. Every
+ * attempt is recorded in the result's `attempts`.
+ *
+ * With `quiet`, provider output isn't streamed to the console; it is only
+ * returned (and recorded in the session).
  */
 export async function executeWorkflowStep(
   workflow: Workflow,
   step: WorkflowStep,
-  completedSteps: Map<string, WorkflowStepResult>
+  completedSteps: Map<string, WorkflowStepResult>,
+  options: { quiet?: boolean } = {}
 ): Promise<WorkflowStepResult> {
   const startTime = Date.now();
+  let node: NodeInfo | undefined;
+  let provider = step.provider ?? "claude";
+  let timezone: string | undefined;
+  let pricing: PricingConfig | undefined;
+  const attempts: WorkflowStepAttempt[] = [];
 
   try {
+    node = await getNode(step.node);
+    if (!node) {
+      throw new Error(`Node '${step.node}' not found in registry`);
+    }
+
     // Interpolate context for this step
-    interpolateStepContext(step, completedSteps);
+    const context = interpolateStepContext(step, completedSteps, node);
+
+    const nodeConfig = await loadStepNodeConfig(node.path);
+    const resolved = await resolveStepProvider(node, step, nodeConfig);
+    provider = resolved.provider;
+    const globalConfig = await getGlobalConfig().catch(() => null);
+    timezone = nodeConfig?.timezone ?? globalConfig?.timezone;
+    pricing = globalConfig?.pricing;
 
     await logger.info("Executing workflow step", {
       workflow: workflow.id,
       step: step.id,
       command: step.command,
-      node: step.node,
+      node: node.id,
+      provider,
+      model: resolved.model,
     });
 
-    // Execute command (this will handle running on the specified node)
-    // For now, we'll record the step as if it executed successfully
-    // In a full implementation, this would call executeCommand with proper node targeting
-    const stepResult: WorkflowStepResult = {
+    const timeout = step.timeout ?? DEFAULT_STEP_TIMEOUT_MS;
+    const params = formatStepParams(context);
+
+    // Load the past memories most relevant to this step (same as `bozly run`)
+    let pastMemories: string[] = [];
+    try {
+      const command = await getCommand(node.path, step.command);
+      const memoryQuery = [step.command, command?.content, params].filter(Boolean).join("\n");
+      pastMemories = await loadPastMemories(
+        path.join(node.path, ".bozly"),
+        node.id,
+        3,
+        memoryQuery
+      );
+    } catch {
+      // Continue without memories if loading fails
+    }
+    const stepNode = node;
+    // Steps with their own fallbackProviders don't also use the global fallback chain
+    const fallbackChain = step.fallbackProviders ? [] : undefined;
+    // The provider call enforces the timeout (killing the process or aborting
+    // the request); the race is only a backstop for a call that never settles
+    const runResult = await runWithRetries(step, provider, attempts, (candidate) =>
+      withTimeout(
+        runNodeCommand(stepNode, step.command, {
+          provider: candidate,
+          // The resolved model only applies to the resolved provider
+          model: candidate === resolved.provider ? resolved.model : undefined,
+          pastMemories,
+          params,
+          fallbackChain,
+          timeout,
+          quiet: options.quiet,
+        }),
+        timeout + Math.min(timeout, STEP_TIMEOUT_GRACE_MS),
+        `Step '${step.id}' timed out after ${timeout}ms`
+      )
+    );
+    provider = runResult.provider;
+
+    const session = await recordStepSession(node, step, runResult, undefined, timezone, pricing);
+
+    return {
       stepId: step.id,
       status: "completed",
       duration: Date.now() - startTime,
-      output: `Step ${step.id} executed successfully`,
+      output: runResult.output ?? "",
+      session,
+      provider,
+      attempts,
     };
-
-    return stepResult;
   } catch (error) {
     const duration = Date.now() - startTime;
+    const message =
+      attempts.length > 1
+        ? `Failed after ${attempts.length} attempts: ${(error as Error).message}`
+        : (error as Error).message;
+    if (attempts.length > 0) {
+      provider = attempts[attempts.length - 1].provider;
+    }
     await logger.error("Workflow step failed", {
       workflow: workflow.id,
       step: step.id,
-      error: (error as Error).message,
+      error: message,
       duration,
+      attempts: attempts.length,
     });
 
+    // Record the failed attempt in the target node when we got that far
+    let session: Session | undefined;
+    if (node) {
+      try {
+        session = await recordStepSession(
+          node,
+          step,
+          { provider, prompt: "", contextSize: 0, duration },
+          message,
+          timezone,
+          pricing
+        );
+      } catch (recordError) {
+        await logger.warn("Failed to record failed workflow step session", {
+          step: step.id,
+          error: (recordError as Error).message,
+        });
+      }
+    }
+
     return {
       stepId: step.id,
       status: "failed",
       duration,
-      error: (error as Error).message,
+      error: message,
+      session,
+      ...(attempts.length > 0 && { provider, attempts }),
     };
   }
 }
 
+/**
+ * Run a step's command, retrying and falling back across providers
+ *
+ * Providers are tried in order (the step's provider, then its
+ * `fallbackProviders`). With onError "retry" each provider gets
+ * `maxAttempts` tries with exponential backoff between them; otherwise
+ * each gets one. Attempts are appended to `attempts` as they finish.
+ *
+ * Only timeouts and provider failures are retried: a provider that isn't
+ * set up (not installed, no API key) is skipped for the next one, and a
+ * command missing from the node fails the step right away.
+ *
+ * @throws The last attempt's error when every attempt fails
+ */
+async function runWithRetries(
+  step: WorkflowStep,
+  provider: string,
+  attempts: WorkflowStepAttempt[],
+  run: (provider: string) => Promise<RunResult>
+): Promise<RunResult> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...step.retry };
+  const maxAttempts = step.onError === "retry" ? policy.maxAttempts : 1;
+  const providers = [provider, ...(step.fallbackProviders ?? []).filter((p) => p !== provider)];
+  let lastError: Error = new Error(`Step '${step.id}' has no providers to run`);
+
+  for (const candidate of providers) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        const delay = getRetryDelay(policy, attempt - 1);
+        await logger.info("Retrying workflow step", {
+          step: step.id,
+          provider: candidate,
+          attempt,
+          delay,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      const attemptStart = new Date();
+      try {
+        const result = await run(candidate);
+        attempts.push({
+          attempt: attempts.length + 1,
+          provider: candidate,
+          status: "completed",
+          startTime: attemptStart.toISOString(),
+          duration: Date.now() - attemptStart.getTime(),
+        });
+        return { ...result, provider: candidate };
+      } catch (error) {
+        lastError = error as Error;
+        attempts.push({
+          attempt: attempts.length + 1,
+          provider: candidate,
+          status: "failed",
+          startTime: attemptStart.toISOString(),
+          duration: Date.now() - attemptStart.getTime(),
+          error: lastError.message,
+        });
+        await logger.warn("Workflow step attempt failed", {
+          step: step.id,
+          provider: candidate,
+          attempt,
+          error: lastError.message,
+        });
+
+        const message = lastError.message;
+        if (STEP_CONFIGURATION_ERRORS.some((pattern) => pattern.test(message))) {
+          throw lastError;
+        }
+        if (PROVIDER_CONFIGURATION_ERRORS.some((pattern) => pattern.test(message))) {
+          break;
+        }
+      }
+    }
+
+    if (candidate !== providers[providers.length - 1]) {
+      await logger.info("Falling back to next provider", { step: step.id, from: candidate });
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Delay before the nth retry (1-based) of the same provider
+ */
+export function getRetryDelay(policy: WorkflowRetryPolicy, retry: number): number {
+  const { initialDelayMs, backoffFactor, maxDelayMs } = { ...DEFAULT_RETRY_POLICY, ...policy };
+  return Math.min(initialDelayMs * Math.pow(backoffFactor, retry - 1), maxDelayMs);
+}
+
+/**
+ * Evaluate a step's conditions, resolving its node for `vault.*`
+ */
+async function checkStepCondition(
+  step: WorkflowStep,
+  completedSteps: Map<string, WorkflowStepResult>
+): Promise<{ run: boolean; error?: string }> {
+  if (!step.when && !step.conditional?.skip) {
+    return { run: true };
+  }
+
+  try {
+    const vault = await getNode(step.node).catch(() => undefined);
+    return { run: shouldRunStep(step, completedSteps, vault) };
+  } catch (error) {
+    return { run: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Record a session for a workflow step in its target node
+ * (logging a warning if it crosses the monthly budget)
+ */
+async function recordStepSession(
+  node: NodeInfo,
+  step: WorkflowStep,
+  runResult: RunResult,
+  error: string | undefined,
+  timezone: string | undefined,
+  pricing: PricingConfig | undefined
+): Promise<Session> {
+  const session = await recordSession(
+    node.path,
+    node.id,
+    node.name,
+    step.command,
+    runResult.provider,
+    {
+      contextText: runResult.contextText ?? "",
+      commandText: runResult.commandText ?? "",
+      modelsUsed: runResult.modelsUsed,
+      tokenBudget: runResult.tokenBudget,
+      sections: runResult.contextSections,
+      includes: runResult.includes,
+    },
+    {
+      text: runResult.output ?? "",
+      error,
+      duration: runResult.duration ?? 0,
+      model: runResult.model,
+      usage: runResult.usage,
+    },
+    runResult.executionLog ?? [],
+    [],
+    timezone,
+    undefined,
+    pricing
+  );
+
+  const budget = await checkBudgetCrossing(pricing, session.usage?.cost);
+  if (budget) {
+    await logger.warn(formatBudgetStatus(budget), { step: step.id, node: node.id });
+  }
+
+  return session;
+}
+
+/**
+ * Resolve the provider (and model) for a step
+ *
+ * Hierarchy: step.provider > command frontmatter > node command config >
+ * node config > global default > "claude"
+ */
+async function resolveStepProvider(
+  node: NodeInfo,
+  step: WorkflowStep,
+  nodeConfig: NodeConfig | null
+): Promise<{ provider: string; model?: string }> {
+  if (step.provider) {
+    return { provider: step.provider };
+  }
+
+  const command = await getCommand(node.path, step.command);
+  if (command?.provider) {
+    return { provider: command.provider };
+  }
+
+  // Node config models go with the provider they're configured next to
+  const commandRouting = nodeConfig?.commands?.[step.command];
+  if (commandRouting?.provider) {
+    return { provider: commandRouting.provider, model: commandRouting.model };
+  }
+  if (nodeConfig?.provider) {
+    return { provider: nodeConfig.provider, model: nodeConfig.model };
+  }
+
+  try {
+    const globalConfig = await getGlobalConfig();
+    if (globalConfig.defaultAI) {
+      return { provider: globalConfig.defaultAI };
+    }
+  } catch {
+    // Fall through to default
+  }
+
+  return { provider: "claude" };
+}
+
+/**
+ * Load the config of a step's target node (not the current directory)
+ */
+async function loadStepNodeConfig(nodePath: string): Promise<NodeConfig | null> {
+  try {
+    const content = await fs.readFile(path.join(nodePath, ".bozly", "config.json"), "utf8");
+    return JSON.parse(content) as NodeConfig;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format interpolated step context as command parameters
+ *
+ * Each key becomes a "key: value" line; non-string values are JSON encoded.
+ */
+export function formatStepParams(context: Record<string, unknown>): string | undefined {
+  const entries = Object.entries(context);
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  return entries
+    .map(([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join("\n");
+}
+
+/**
+ * Reject if a promise doesn't settle within the timeout
+ */
+async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
 /**
  * Execute a complete workflow
+ *
+ * Steps are scheduled as a dependency graph (see buildWorkflowGraph):
+ * - a step starts once all of its dependencies have finished
+ * - steps on the same node never overlap and start in definition order
+ * - at most `maxParallel` steps run at once
+ * - a step whose `requires` did not complete is skipped
+ * - after an onError "stop" or "retry" failure, no further steps with
+ *   those strategies are started
+ *
+ * When steps can run in parallel, they run quietly and their output goes to
+ * `onStepOutput` as each one finishes.
  */
 export async function executeWorkflow(
   workflow: Workflow,
@@ -391,99 +1191,235 @@ export async function executeWorkflow(
 ): Promise<WorkflowResult> {
   const startTime = new Date();
   const completedSteps = new Map<string, WorkflowStepResult>();
-  const results: WorkflowStepResult[] = [];
+  const results = new Map<string, WorkflowStepResult>();
+  const graph = buildWorkflowGraph(workflow);
+  const requested = options?.maxParallel ?? workflow.maxParallel ?? DEFAULT_MAX_PARALLEL;
+  // NaN or 0 would never start a step
+  const maxParallel =
+    Number.isInteger(requested) && requested > 0 ? requested : DEFAULT_MAX_PARALLEL;
+  // Output of steps running side by side would interleave on the console
+  const quiet = options?.quiet ?? maxParallel > 1;
   let failed = false;
 
   await logger.info("Executing workflow", {
     id: workflow.id,
     steps: workflow.steps.length,
     dryRun: options?.dryRun ?? false,
+    maxParallel,
+    resumeRun: options?.resumeRun?.runId,
   });
 
-  for (const step of workflow.steps) {
-    // Check if we should skip this step
-    if (options?.skipSteps?.includes(step.id)) {
-      await logger.info("Skipping workflow step", { step: step.id });
-      results.push({
-        stepId: step.id,
-        status: "skipped",
-        duration: 0,
-      });
-      continue;
-    }
+  // Steps completed by a resumed run are carried over, not re-run
+  const resumed = await rehydrateWorkflowRun(workflow, options?.resumeRun);
+  for (const [stepId, stepResult] of resumed) {
+    results.set(stepId, stepResult);
+    completedSteps.set(stepId, stepResult);
+  }
 
-    // Check if we should start from a later step
-    if (options?.fromStep && !completedSteps.has(options.fromStep)) {
-      if (step.id !== options.fromStep) {
-        results.push({
-          stepId: step.id,
-          status: "skipped",
-          duration: 0,
-        });
-        continue;
+  const run: WorkflowRun | null = options?.runsPath
+    ? {
+        runId: options.resumeRun?.runId ?? randomUUID(),
+        workflowId: workflow.id,
+        workflowVersion: workflow.version,
+        status: "running",
+        startTime: options.resumeRun?.startTime ?? startTime.toISOString(),
+        resumedAt: options.resumeRun
+          ? [...(options.resumeRun.resumedAt ?? []), startTime.toISOString()]
+          : undefined,
+        steps: [],
       }
+    : null;
+
+  // Serialize writes so concurrently finishing steps don't interleave
+  let persisting: Promise<void> = Promise.resolve();
+  const persistRun = (): Promise<void> => {
+    if (!run || !options?.runsPath) {
+      return persisting;
     }
+    const runsPath = options.runsPath;
+    run.steps = workflow.steps
+      .map((s) => results.get(s.id))
+      .filter((r): r is WorkflowStepResult => r !== undefined)
+      .map((r) => toWorkflowRunStep(workflow, r));
+    const snapshot = JSON.parse(JSON.stringify(run)) as WorkflowRun;
+    persisting = persisting.then(async () => {
+      try {
+        await saveWorkflowRun(runsPath, snapshot);
+      } catch (error) {
+        await logger.warn("Failed to persist workflow run", {
+          runId: snapshot.runId,
+          error: (error as Error).message,
+        });
+      }
+    });
+    return persisting;
+  };
+  await persistRun();
 
-    // If workflow already failed and step onError is "stop", skip remaining steps
-    if (failed && step.onError === "stop") {
-      results.push({
-        stepId: step.id,
-        status: "skipped",
-        duration: 0,
-      });
-      continue;
+  // Steps skipped on request count as satisfied for their dependents
+  const skippedByOption = new Set<string>();
+  const fromIndex = options?.fromStep
+    ? workflow.steps.findIndex((s) => s.id === options.fromStep)
+    : -1;
+  workflow.steps.forEach((step, index) => {
+    if (resumed.has(step.id)) {
+      return;
     }
+    if ((options?.skipSteps?.includes(step.id) ?? false) || index < fromIndex) {
+      skippedByOption.add(step.id);
+      results.set(step.id, { stepId: step.id, status: "skipped", duration: 0 });
+    }
+  });
+  if (skippedByOption.size > 0) {
+    await logger.info("Skipping workflow steps", { steps: Array.from(skippedByOption) });
+  }
+
+  const pending = orderWorkflowSteps(workflow, graph).filter((s) => !results.has(s.id));
+  const running = new Map<string, WorkflowStep>();
+  const inFlight = new Map<string, Promise<void>>();
+
+  const isSatisfied = (id: string): boolean =>
+    results.get(id)?.status === "completed" || skippedByOption.has(id);
 
-    // Execute step
-    if (options?.dryRun) {
+  const runStep = async (step: WorkflowStep): Promise<void> => {
+    const stepStart = new Date();
+    let result: WorkflowStepResult;
+    const condition = await checkStepCondition(step, completedSteps);
+
+    if (condition.error !== undefined) {
+      await logger.error("Workflow step condition failed", {
+        step: step.id,
+        error: condition.error,
+      });
+      result = { stepId: step.id, status: "failed", duration: 0, error: condition.error };
+    } else if (!condition.run) {
+      await logger.info("Skipping workflow step (condition not met)", { step: step.id });
+      result = { stepId: step.id, status: "skipped", duration: 0 };
+    } else if (options?.dryRun) {
       await logger.info("Dry-run: Would execute step", {
         step: step.id,
         command: step.command,
         node: step.node,
       });
-      results.push({
+      result = {
         stepId: step.id,
         status: "completed",
         duration: 0,
         output: "[DRY-RUN] Step would execute successfully",
-      });
+      };
     } else {
-      const result = await executeWorkflowStep(workflow, step, completedSteps);
-      results.push(result);
+      result = await executeWorkflowStep(workflow, step, completedSteps, { quiet });
+      if (quiet) {
+        options?.onStepOutput?.(result);
+      }
+    }
 
-      // Track step result
-      completedSteps.set(step.id, result);
+    result.startTime = stepStart.toISOString();
+    result.endTime = new Date().toISOString();
+    results.set(step.id, result);
+    completedSteps.set(step.id, result);
+    await persistRun();
 
-      // Handle step failure
-      if (result.status === "failed") {
-        if (step.onError === "stop") {
-          failed = true;
-          await logger.error("Workflow stopped due to step failure", {
-            step: step.id,
-          });
-        } else {
-          await logger.warn("Workflow continuing despite step failure", {
-            step: step.id,
+    // Handle step failure
+    if (result.status === "failed") {
+      if (step.onError !== "continue") {
+        failed = true;
+        await logger.error("Workflow stopped due to step failure", {
+          step: step.id,
+        });
+      } else {
+        await logger.warn("Workflow continuing despite step failure", {
+          step: step.id,
+        });
+      }
+    }
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    const busyNodes = new Set(Array.from(running.values()).map((s) => s.node));
+
+    for (let i = 0; i < pending.length && running.size < maxParallel; ) {
+      const step = pending[i];
+      const deps = graph.get(step.id) ?? new Set<string>();
+      const required = step.conditional?.requires ?? [];
+
+      // If workflow already failed and step onError is "stop" or "retry", skip it;
+      // likewise when a required step finished without completing
+      const unmetRequirement = required.find((id) => results.has(id) && !isSatisfied(id));
+      const stopped = failed && step.onError !== "continue";
+      if (stopped || unmetRequirement !== undefined) {
+        pending.splice(i, 1);
+        results.set(step.id, {
+          stepId: step.id,
+          status: "skipped",
+          duration: 0,
+          ...(unmetRequirement !== undefined && {
+            error: `Required step '${unmetRequirement}' did not complete`,
+          }),
+        });
+        continue;
+      }
+
+      const ready = Array.from(deps).every((id) => results.has(id));
+      if (ready && !busyNodes.has(step.node)) {
+        pending.splice(i, 1);
+        running.set(step.id, step);
+        inFlight.set(
+          step.id,
+          runStep(step).finally(() => {
+            running.delete(step.id);
+            inFlight.delete(step.id);
+          })
+        );
+      } else {
+        i++;
+      }
+
+      // Steps on the same node never overlap and keep their order
+      busyNodes.add(step.node);
+    }
+
+    if (running.size === 0) {
+      if (pending.length > 0) {
+        // Nothing can make progress (dependency cycle) — skip what's left
+        await logger.error("Workflow has unresolvable step dependencies", {
+          steps: pending.map((s) => s.id),
+        });
+        for (const step of pending.splice(0)) {
+          results.set(step.id, {
+            stepId: step.id,
+            status: "skipped",
+            duration: 0,
+            error: "Unresolvable step dependencies",
           });
         }
       }
+      break;
     }
+
+    await Promise.race(inFlight.values());
   }
 
   const endTime = new Date();
   const duration = endTime.getTime() - startTime.getTime();
 
+  // Report steps in definition order
+  const stepResults = workflow.steps
+    .map((s) => results.get(s.id))
+    .filter((r): r is WorkflowStepResult => r !== undefined);
+
   // Count results
-  const stepsCompleted = results.filter((r) => r.status === "completed").length;
-  const stepsFailed = results.filter((r) => r.status === "failed").length;
-  const stepsSkipped = results.filter((r) => r.status === "skipped").length;
+  const stepsCompleted = stepResults.filter((r) => r.status === "completed").length;
+  const stepsFailed = stepResults.filter((r) => r.status === "failed").length;
+  const stepsSkipped = stepResults.filter((r) => r.status === "skipped").length;
+  const criticalPath = computeCriticalPath(workflow, stepResults);
 
   const result: WorkflowResult = {
     workflowId: workflow.id,
     status:
       stepsFailed === 0
         ? "completed"
-        : stepsFailed === results.length
+        : stepsFailed === stepResults.length
           ? "failed"
           : "partially_completed",
     startTime: startTime.toISOString(),
@@ -492,9 +1428,19 @@ export async function executeWorkflow(
     stepsCompleted,
     stepsFailed,
     stepsSkipped,
-    steps: results,
+    steps: stepResults,
+    criticalPath: criticalPath.path,
+    criticalPathDuration: criticalPath.duration,
+    runId: run?.runId,
   };
 
+  if (run) {
+    run.status = result.status;
+    run.endTime = result.endTime;
+    run.duration = new Date(result.endTime).getTime() - new Date(run.startTime).getTime();
+    await persistRun();
+  }
+
   await logger.info("Workflow execution complete", {
     id: workflow.id,
     status: result.status,
@@ -502,11 +1448,162 @@ export async function executeWorkflow(
     failed: stepsFailed,
     skipped: stepsSkipped,
     duration,
+    criticalPath: criticalPath.path,
   });
 
   return result;
 }
 
+/**
+ * Get the directory where a node persists its workflow runs
+ */
+export function getWorkflowRunsPath(nodePath: string): string {
+  return path.join(nodePath, ".bozly", "workflows", "runs");
+}
+
+/**
+ * Save a workflow run to {runsPath}/{runId}.json
+ *
+ * @throws Error if the run ID isn't a UUID
+ */
+export async function saveWorkflowRun(runsPath: string, run: WorkflowRun): Promise<void> {
+  const runFile = getWorkflowRunFile(runsPath, run.runId);
+  await fs.mkdir(runsPath, { recursive: true });
+  await fs.writeFile(runFile, JSON.stringify(run, null, 2));
+}
+
+/**
+ * Load a persisted workflow run by ID
+ *
+ * @throws Error if the run ID isn't a UUID
+ */
+export async function loadWorkflowRun(
+  runsPath: string,
+  runId: string
+): Promise<WorkflowRun | null> {
+  const runFile = getWorkflowRunFile(runsPath, runId);
+  try {
+    const content = await fs.readFile(runFile, "utf8");
+    return JSON.parse(content) as WorkflowRun;
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException;
+    if (err.code !== "ENOENT") {
+      await logger.warn("Failed to load workflow run", { runId, error: err.message });
+    }
+    return null;
+  }
+}
+
+/**
+ * List persisted runs, newest first
+ *
+ * @param runsPath - Runs directory
+ * @param workflowId - Optional: only runs of this workflow
+ */
+export async function listWorkflowRuns(
+  runsPath: string,
+  workflowId?: string
+): Promise<WorkflowRun[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(runsPath);
+  } catch {
+    return [];
+  }
+
+  const runs: WorkflowRun[] = [];
+  for (const file of files) {
+    if (!file.endsWith(".json")) {
+      continue;
+    }
+    const run = await loadWorkflowRun(runsPath, file.replace(/\.json$/, ""));
+    if (run && (!workflowId || run.workflowId === workflowId)) {
+      runs.push(run);
+    }
+  }
+
+  return runs.sort((a, b) => b.startTime.localeCompare(a.startTime));
+}
+
+/**
+ * Path of a run's file; run IDs also come from the command line, so they
+ * are checked before they are joined into the path
+ */
+function getWorkflowRunFile(runsPath: string, runId: string): string {
+  if (!WORKFLOW_RUN_ID_PATTERN.test(runId)) {
+    throw new Error(`Invalid workflow run ID: ${runId}`);
+  }
+  return path.join(runsPath, `${runId}.json`);
+}
+
+/**
+ * Convert a step result into its persisted form
+ */
+function toWorkflowRunStep(workflow: Workflow, result: WorkflowStepResult): WorkflowRunStep {
+  return {
+    stepId: result.stepId,
+    status: result.status,
+    duration: result.duration,
+    output: result.output,
+    error: result.error,
+    nodeId: result.session?.nodeId ?? workflow.steps.find((s) => s.id === result.stepId)?.node,
+    sessionId: result.session?.id,
+    startTime: result.startTime,
+    endTime: result.endTime,
+    provider: result.provider,
+    attempts: result.attempts,
+  };
+}
+
+/**
+ * Rebuild step results for the completed steps of a prior run
+ *
+ * Sessions are reloaded from the step's node when possible so
+ * `{{ steps.X.session.* }}` keeps resolving after a resume.
+ */
+async function rehydrateWorkflowRun(
+  workflow: Workflow,
+  run: WorkflowRun | undefined
+): Promise<Map<string, WorkflowStepResult>> {
+  const rehydrated = new Map<string, WorkflowStepResult>();
+  if (!run) {
+    return rehydrated;
+  }
+
+  const stepIds = new Set(workflow.steps.map((s) => s.id));
+  for (const stepRun of run.steps) {
+    if (stepRun.status !== "completed" || !stepIds.has(stepRun.stepId)) {
+      continue;
+    }
+
+    let session: Session | undefined;
+    if (stepRun.sessionId && stepRun.nodeId) {
+      try {
+        const node = await getNode(stepRun.nodeId);
+        session = node
+          ? ((await loadSession(node.path, stepRun.sessionId)) ?? undefined)
+          : undefined;
+      } catch {
+        // Output alone is enough to resume
+      }
+    }
+
+    rehydrated.set(stepRun.stepId, {
+      stepId: stepRun.stepId,
+      status: "completed",
+      duration: stepRun.duration,
+      output: stepRun.output,
+      session,
+      startTime: stepRun.startTime,
+      endTime: stepRun.endTime,
+      provider: stepRun.provider,
+      attempts: stepRun.attempts,
+    });
+  }
+
+  return rehydrated;
+}
+
 /**
  * Helper: Check if file exists
  */
@@ -529,4 +1626,8 @@ export type {
   WorkflowResult,
   WorkflowExecutionOptions,
   WorkflowValidationError,
+  WorkflowRun,
+  WorkflowRunStep,
+  WorkflowRetryPolicy,
+  WorkflowStepAttempt,
 };
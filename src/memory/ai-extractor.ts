@@ -0,0 +1,246 @@
+/**
+ * AI-Assisted Memory Extraction
+ *
+ * Optional extraction mode (memory.extraction.mode = "ai" in
+ * .bozly/config.json): the session's command and output are sent to a
+ * configured, ideally cheap or local, provider with a structured-output
+ * prompt. The JSON reply is validated and its title, summary, learnings,
+ * key results and tags replace the template text of the heuristic memory.
+ * Any failure (provider error, timeout, invalid reply) falls back to the
+ * heuristic memory.
+ *
+ * @module memory/ai-extractor
+ */
+
+import { MemoryExtractor, ExtractionInput } from "./extractor.js";
+import { executeWithProvider } from "../core/commands.js";
+import { logger } from "../core/logger.js";
+import { ExtractionTrigger, MemoryExtractionConfig, SessionMemory } from "../core/types.js";
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_OUTPUT_CHARS = 12000;
+const MAX_LIST_ITEMS = 10;
+const MAX_TAGS = 10;
+
+/**
+ * Memory fields written by the provider
+ */
+export interface AIMemoryFields {
+  title: string;
+  summary: string;
+  learnings: string[];
+  keyResults: string[];
+  tags: string[];
+}
+
+/**
+ * Result of an extraction attempt
+ */
+export interface MemoryExtractionResult {
+  memory: SessionMemory;
+  method: "heuristic" | "ai";
+  provider?: string;
+  /** Why AI extraction fell back to the heuristic memory */
+  error?: string;
+}
+
+/**
+ * Sends a prompt to a provider and returns its reply (injectable for tests)
+ */
+export type MemoryExtractionExecutor = (
+  provider: string,
+  prompt: string,
+  options: { model?: string; timeoutMs: number }
+) => Promise<string>;
+
+/**
+ * Extract a session memory, using the configured provider in AI mode
+ *
+ * @param input - Session data
+ * @param trigger - Extraction trigger
+ * @param config - Extraction settings (heuristic unless mode is "ai")
+ * @param execute - Provider call (default: the provider's CLI or HTTP endpoint, quietly)
+ * @returns The memory and how it was extracted
+ */
+export async function extractMemory(
+  input: ExtractionInput,
+  trigger: ExtractionTrigger,
+  config: MemoryExtractionConfig = {},
+  execute: MemoryExtractionExecutor = executeQuietly
+): Promise<MemoryExtractionResult> {
+  const heuristic = MemoryExtractor.extract(input, trigger);
+  if (config.mode !== "ai") {
+    return { memory: heuristic, method: "heuristic" };
+  }
+
+  const provider = config.provider ?? input.session.provider;
+  try {
+    if (!input.executionOutput?.trim()) {
+      throw new Error("Session has no output to extract from");
+    }
+
+    const prompt = buildMemoryExtractionPrompt(
+      input,
+      config.maxOutputChars ?? DEFAULT_MAX_OUTPUT_CHARS
+    );
+    const response = await execute(provider, prompt, {
+      model: config.model,
+      timeoutMs: config.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    });
+    const fields = parseMemoryExtraction(response);
+
+    logger.debug(`AI-extracted memory for session ${input.session.id} (${provider})`);
+    return {
+      memory: {
+        ...heuristic,
+        title: fields.title,
+        summary: fields.summary,
+        currentState: fields.summary,
+        learnings: formatList(fields.learnings, "No learnings recorded"),
+        keyResults: formatList(fields.keyResults, "No results recorded"),
+        tags: [...new Set([...fields.tags, ...heuristic.tags])],
+      },
+      method: "ai",
+      provider,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await logger.warn("AI memory extraction failed, using heuristic memory", {
+      sessionId: input.session.id,
+      provider,
+      error: message,
+    });
+    return { memory: heuristic, method: "heuristic", error: message };
+  }
+}
+
+/**
+ * Build the structured-output prompt for a session
+ *
+ * @param input - Session data
+ * @param maxOutputChars - Output beyond this is cut (start and end are kept)
+ */
+export function buildMemoryExtractionPrompt(
+  input: ExtractionInput,
+  maxOutputChars: number
+): string {
+  const { session } = input;
+  const output = truncateMiddle(input.executionOutput ?? "", maxOutputChars);
+
+  return `You write memories of AI-assisted work sessions, so later sessions can recall what happened.
+
+Session:
+- Vault: ${session.nodeName}
+- Command: ${session.command}
+- Status: ${session.status}
+${input.commandContent ? `\nCommand instructions:\n<<<\n${input.commandContent.trim()}\n>>>\n` : ""}
+Session output:
+<<<
+${output}
+>>>
+
+Reply with ONLY a JSON object, without code fences or explanation:
+{
+  "title": "what was accomplished, under 80 characters",
+  "summary": "one sentence describing the session",
+  "learnings": ["facts, preferences or patterns worth remembering next time"],
+  "keyResults": ["concrete outputs, decisions, names or numbers"],
+  "tags": ["3 to 8 lowercase topic keywords"]
+}
+
+Only use information from the session output. Use [] when a list has nothing to report.`;
+}
+
+/**
+ * Parse and validate a provider's reply
+ *
+ * @throws Error if the reply isn't a JSON object with the expected fields
+ */
+export function parseMemoryExtraction(response: string): AIMemoryFields {
+  const start = response.indexOf("{");
+  const end = response.lastIndexOf("}");
+  if (start === -1 || end < start) {
+    throw new Error("Reply contains no JSON object");
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(response.slice(start, end + 1)) as Record<string, unknown>;
+  } catch {
+    throw new Error("Reply is not valid JSON");
+  }
+
+  const title = requireText(data.title, "title").slice(0, 120);
+  const summary = requireText(data.summary, "summary").slice(0, 500);
+  const tags = toStringList(data.tags, "tags")
+    .map((tag) =>
+      tag
+        .toLowerCase()
+        .trim()
+        .replace(/\s+/g, "-")
+        .replace(/[^a-z0-9-]/g, "")
+    )
+    .filter((tag) => tag.length > 0);
+
+  return {
+    title,
+    summary,
+    learnings: toStringList(data.learnings, "learnings").slice(0, MAX_LIST_ITEMS),
+    keyResults: toStringList(data.keyResults, "keyResults").slice(0, MAX_LIST_ITEMS),
+    tags: [...new Set(tags)].slice(0, MAX_TAGS),
+  };
+}
+
+/**
+ * Default executor: run the provider without streaming to the console
+ */
+async function executeQuietly(
+  provider: string,
+  prompt: string,
+  options: { model?: string; timeoutMs: number }
+): Promise<string> {
+  const result = await executeWithProvider(provider, prompt, { ...options, quiet: true });
+  return result.output;
+}
+
+/**
+ * Require a non-empty string field
+ */
+function requireText(value: unknown, field: string): string {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    throw new Error(`Reply has no "${field}"`);
+  }
+  return value.trim();
+}
+
+/**
+ * Accept a list of strings (or a single string); missing means empty
+ */
+function toStringList(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const items = typeof value === "string" ? [value] : value;
+  if (!Array.isArray(items) || !items.every((item) => typeof item === "string")) {
+    throw new Error(`Reply field "${field}" must be a list of strings`);
+  }
+  return items.map((item: string) => item.trim().slice(0, 500)).filter((item) => item.length > 0);
+}
+
+/**
+ * Format items as a markdown list
+ */
+function formatList(items: string[], empty: string): string {
+  return items.length > 0 ? items.map((item) => `- ${item}`).join("\n") : empty;
+}
+
+/**
+ * Keep the start and end of a long text
+ */
+function truncateMiddle(text: string, maxChars: number): string {
+  if (text.length <= maxChars) {
+    return text;
+  }
+  const half = Math.floor(maxChars / 2);
+  return `${text.slice(0, half)}\n\n[... ${text.length - maxChars} characters omitted ...]\n\n${text.slice(-half)}`;
+}
@@ -0,0 +1,305 @@
+/**
+ * Memory Embeddings
+ *
+ * Vectors for relevance-aware memory retrieval:
+ *
+ * - Embedders: a pure-JS hashing vectorizer (offline, the default) or a
+ *   local Ollama embedding model (memory.retrieval in .bozly/config.json)
+ * - Vector store: memory-vectors.json next to memory-index.json, keyed by
+ *   session ID with a content hash so changed memories are re-embedded
+ *
+ * @module memory/embeddings
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+import { stem } from "../core/text-search.js";
+import { logger } from "../core/logger.js";
+import { MemoryRetrievalConfig } from "../core/types.js";
+
+export const MEMORY_VECTORS_FILE = "memory-vectors.json";
+
+const VECTOR_STORE_VERSION = 1;
+const DEFAULT_DIMENSIONS = 512;
+const DEFAULT_OLLAMA_URL = "http://localhost:11434";
+const DEFAULT_OLLAMA_MODEL = "nomic-embed-text";
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/** Words too common to say anything about a memory's topic */
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by for from has have i in is it its of on or that the this to was " +
+    "were with you your we our they not but if then so do did what which who will would can"
+  ).split(" ")
+);
+
+/**
+ * Turns texts into vectors
+ */
+export interface MemoryEmbedder {
+  /** Identifies the vector space; stored vectors of another ID are discarded */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Hashing vectorizer - Offline embeddings without a model
+ *
+ * Stemmed words and word pairs are hashed into a fixed number of signed
+ * buckets (the "hashing trick"), weighted by log term frequency and
+ * normalized. Texts about the same things get similar vectors.
+ */
+export class HashingEmbedder implements MemoryEmbedder {
+  readonly id: string;
+
+  constructor(private readonly dimensions: number = DEFAULT_DIMENSIONS) {
+    this.id = `hashing-${dimensions}`;
+  }
+
+  embed(texts: string[]): Promise<number[][]> {
+    return Promise.resolve(texts.map((text) => this.embedText(text)));
+  }
+
+  /**
+   * Private helper: Vector of one text
+   */
+  private embedText(text: string): number[] {
+    const terms = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+      .filter((word) => !STOPWORDS.has(word))
+      .map(stem);
+    const counts = new Map<string, number>();
+    const count = (feature: string, weight: number): void => {
+      counts.set(feature, (counts.get(feature) ?? 0) + weight);
+    };
+
+    terms.forEach((term, i) => {
+      count(term, 1);
+      if (i > 0) {
+        count(`${terms[i - 1]} ${term}`, 0.5);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, weight] of counts) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(weight));
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * Ollama embedder - Embeddings from a local Ollama model (POST /api/embed)
+ */
+export class OllamaEmbedder implements MemoryEmbedder {
+  readonly id: string;
+  private readonly baseUrl: string;
+
+  constructor(
+    private readonly model: string = DEFAULT_OLLAMA_MODEL,
+    baseUrl: string = DEFAULT_OLLAMA_URL,
+    private readonly timeoutMs: number = DEFAULT_TIMEOUT_MS
+  ) {
+    this.id = `ollama:${model}`;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  /**
+   * @throws Error if Ollama can't be reached, times out or returns no embeddings
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/api/embed`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: this.model, input: texts }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new Error(`Failed to reach Ollama at ${this.baseUrl}: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      const detail = (await response.text()).trim().slice(0, 200);
+      throw new Error(`Ollama returned HTTP ${response.status}${detail ? `: ${detail}` : ""}`);
+    }
+
+    const data = (await response.json()) as { embeddings?: unknown };
+    const embeddings = data.embeddings;
+    if (
+      !Array.isArray(embeddings) ||
+      embeddings.length !== texts.length ||
+      !embeddings.every((vector) => Array.isArray(vector) && vector.length > 0)
+    ) {
+      throw new Error(`Ollama returned no embeddings for model ${this.model}`);
+    }
+    return (embeddings as number[][]).map(normalize);
+  }
+}
+
+/**
+ * Create the embedder configured in memory.retrieval (hashing by default)
+ */
+export function createMemoryEmbedder(config: MemoryRetrievalConfig = {}): MemoryEmbedder {
+  if (config.embedder === "ollama") {
+    return new OllamaEmbedder(config.model, config.baseUrl, config.timeoutMs);
+  }
+  return new HashingEmbedder(config.dimensions);
+}
+
+/**
+ * Cosine similarity of two vectors (0 if their sizes differ)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * memory-vectors.json
+ */
+interface VectorStoreData {
+  version: number;
+  embedder: string;
+  updated: string;
+  vectors: Record<string, { hash: string; vector: number[] }>;
+}
+
+/**
+ * Memory Vector Store - Cached memory embeddings of one .bozly directory
+ */
+export class MemoryVectorStore {
+  private readonly storePath: string;
+  private vectors = new Map<string, { hash: string; vector: number[] }>();
+  private changed = false;
+
+  constructor(
+    bozlyPath: string,
+    private readonly embedder: MemoryEmbedder
+  ) {
+    this.storePath = path.join(bozlyPath, MEMORY_VECTORS_FILE);
+  }
+
+  /**
+   * Load stored vectors (missing files and other embedders' vectors are ignored)
+   */
+  async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.storePath, "utf-8")) as VectorStoreData;
+      if (data.version === VECTOR_STORE_VERSION && data.embedder === this.embedder.id) {
+        this.vectors = new Map(Object.entries(data.vectors));
+      } else {
+        this.changed = true;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        logger.debug(`Ignoring unreadable memory vectors: ${String(error)}`);
+      }
+    }
+  }
+
+  /**
+   * Save the vectors if they changed
+   */
+  async save(): Promise<void> {
+    if (!this.changed) {
+      return;
+    }
+
+    const data: VectorStoreData = {
+      version: VECTOR_STORE_VERSION,
+      embedder: this.embedder.id,
+      updated: new Date().toISOString(),
+      vectors: Object.fromEntries(this.vectors),
+    };
+    const tmpPath = `${this.storePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data), "utf-8");
+    await fs.rename(tmpPath, this.storePath);
+    this.changed = false;
+  }
+
+  /**
+   * Get the vectors of memories, embedding new and changed ones
+   *
+   * @param memories - Session IDs and the text to embed
+   * @returns Vectors by session ID
+   */
+  async getVectors(memories: Array<{ id: string; text: string }>): Promise<Map<string, number[]>> {
+    const result = new Map<string, number[]>();
+    const missing: Array<{ id: string; text: string; hash: string }> = [];
+
+    for (const { id, text } of memories) {
+      const hash = createHash("sha1").update(text).digest("hex");
+      const stored = this.vectors.get(id);
+      if (stored?.hash === hash) {
+        result.set(id, stored.vector);
+      } else {
+        missing.push({ id, text, hash });
+      }
+    }
+
+    if (missing.length > 0) {
+      const vectors = await this.embedder.embed(missing.map((memory) => memory.text));
+      missing.forEach(({ id, hash }, i) => {
+        const vector = vectors[i].map((value) => Math.round(value * 1e6) / 1e6);
+        this.vectors.set(id, { hash, vector });
+        result.set(id, vector);
+      });
+      this.changed = true;
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop the vectors of memories that no longer exist
+   *
+   * @param keep - Session IDs to keep
+   */
+  prune(keep: Set<string>): void {
+    for (const id of this.vectors.keys()) {
+      if (!keep.has(id)) {
+        this.vectors.delete(id);
+        this.changed = true;
+      }
+    }
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Scale a vector to unit length
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
@@ -12,6 +12,7 @@
 
 import { SessionMemory, MemoryMetadata, ExtractionTrigger, Session } from "../core/types.js";
 import { logger } from "../core/logger.js";
+import { countTokens, getTokenizerFamily } from "../core/tokens.js";
 
 /**
  * Input data for memory extraction
@@ -173,18 +174,13 @@ function estimateTokens(input: ExtractionInput): number {
   let tokens = input.tokensUsed ?? 0;
 
   if (!tokens) {
-    // Rough estimate: ~1 token per 4 characters
-    let totalChars = 0;
-    if (input.vaultContext) {
-      totalChars += input.vaultContext.length;
+    // Estimate with the provider's tokenizer family
+    const family = getTokenizerFamily(input.session.provider, input.session.metadata?.model);
+    for (const text of [input.vaultContext, input.commandContent, input.executionOutput]) {
+      if (text) {
+        tokens += countTokens(text, family);
+      }
     }
-    if (input.commandContent) {
-      totalChars += input.commandContent.length;
-    }
-    if (input.executionOutput) {
-      totalChars += input.executionOutput.length;
-    }
-    tokens = Math.ceil(totalChars / 4);
   }
 
   return tokens;
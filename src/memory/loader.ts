@@ -5,7 +5,8 @@
  * Enables context continuity across sessions by:
  * 1. Discovering related memories from past sessions
  * 2. Loading memory files from disk
- * 3. Filtering and ranking by relevance
+ * 3. Filtering and ranking by relevance (recency, or similarity to the
+ *    command being run blended with quality and recency)
  * 4. Injecting into prompt context
  *
  * @module memory/loader
@@ -13,8 +14,16 @@
 
 import fs from "fs/promises";
 import path from "path";
-import { ISODateTime } from "../core/types.js";
+import { ISODateTime, MemoryIndexEntry } from "../core/types.js";
 import { logger } from "../core/logger.js";
+import { calculateMemoryRankingScore } from "../core/memory-quality.js";
+import { MemoryIndex } from "./index.js";
+import {
+  MemoryEmbedder,
+  MemoryVectorStore,
+  HashingEmbedder,
+  cosineSimilarity,
+} from "./embeddings.js";
 
 /**
  * Options for loading memories
@@ -26,6 +35,26 @@ export interface LoadMemoriesOptions {
   sortBy?: "recent" | "relevance"; // Sort order (default: recent)
 }
 
+/**
+ * Options for loading memories similar to a command
+ */
+export interface SimilarMemoriesOptions {
+  limit?: number; // Max memories to load (default: 3)
+  maxAge?: number; // Only load memories from last N days (default: 30)
+  embedder?: MemoryEmbedder; // Default: hashing vectorizer
+  similarityWeight?: number; // Share of similarity in the score (default: 0.6)
+}
+
+/**
+ * A memory ranked by similarity to a command
+ */
+export interface SimilarMemory {
+  entry: MemoryIndexEntry;
+  content: string;
+  similarity: number; // Cosine similarity to the query (-1 to 1)
+  score: number; // Similarity blended with calculateMemoryRankingScore
+}
+
 /**
  * Memory file with metadata
  */
@@ -192,6 +221,92 @@ export class MemoryLoader {
     }
   }
 
+  /**
+   * Rank a vault's indexed memories by similarity to a query
+   *
+   * Memories are embedded (and cached in memory-vectors.json) on first use.
+   * The score blends the similarity with calculateMemoryRankingScore, so
+   * among equally similar memories, better and more recent ones win.
+   *
+   * @param bozlyPath - .bozly directory holding memory-index.json
+   * @param nodeId - Node/vault ID
+   * @param query - Text to compare memories with (command text and parameters)
+   * @returns All memories within maxAge, best first
+   * @throws Error if the embedder fails
+   */
+  static async rankSimilarMemories(
+    bozlyPath: string,
+    nodeId: string,
+    query: string,
+    options: SimilarMemoriesOptions = {}
+  ): Promise<SimilarMemory[]> {
+    const { maxAge = 30, embedder = new HashingEmbedder(), similarityWeight = 0.6 } = options;
+
+    const index = new MemoryIndex(path.join(bozlyPath, "memory-index.json"));
+    const entries = await index.getAllEntries();
+    const cutoff = Date.now() - maxAge * 24 * 60 * 60 * 1000;
+
+    const candidates: Array<{ entry: MemoryIndexEntry; content: string }> = [];
+    for (const entry of entries) {
+      if (entry.nodeId !== nodeId || new Date(entry.timestamp).getTime() < cutoff) {
+        continue;
+      }
+      const content = await this.loadMemoryFile(entry.filePath);
+      if (content) {
+        candidates.push({ entry, content });
+      }
+    }
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const store = new MemoryVectorStore(bozlyPath, embedder);
+    await store.load();
+    const vectors = await store.getVectors(
+      candidates.map(({ entry, content }) => ({ id: entry.sessionId, text: content }))
+    );
+    store.prune(new Set(entries.map((entry) => entry.sessionId)));
+    await store.save().catch((err: unknown) => {
+      logger.debug(`Failed to save memory vectors: ${String(err)}`);
+    });
+
+    const [queryVector] = await embedder.embed([query]);
+    return candidates
+      .map(({ entry, content }) => {
+        const similarity = cosineSimilarity(queryVector, vectors.get(entry.sessionId) ?? []);
+        return {
+          entry,
+          content,
+          similarity,
+          score:
+            Math.max(similarity, 0) * similarityWeight +
+            calculateMemoryRankingScore(entry) * (1 - similarityWeight),
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Load the memories most relevant to a command
+   *
+   * @returns Memory markdown of the best-ranked memories
+   * @throws Error if the embedder fails
+   */
+  static async loadSimilarMemories(
+    bozlyPath: string,
+    nodeId: string,
+    query: string,
+    options: SimilarMemoriesOptions = {}
+  ): Promise<string[]> {
+    const ranked = await this.rankSimilarMemories(bozlyPath, nodeId, query, options);
+    const selected = ranked.slice(0, options.limit ?? 3);
+
+    logger.debug(
+      `Selected ${selected.length} of ${ranked.length} memories for vault ${nodeId} by similarity`
+    );
+    return selected.map((memory) => memory.content);
+  }
+
   /**
    * Inject memories into prompt context
    * Prepends a "Context from previous sessions" section
@@ -1,6 +1,12 @@
 import { FastifyInstance } from "fastify";
 import { listNodes, getNode } from "../../core/registry.js";
-import { loadSession, getNodeSessions } from "../../core/sessions.js";
+import {
+  loadSession,
+  getNodeSessions,
+  loadSessionChanges,
+  querySessions,
+  diffSessionFiles,
+} from "../../core/sessions.js";
 import { getNodeCommands } from "../../core/commands.js";
 import { generateContext } from "../../core/context.js";
 import { listProviders } from "../../core/providers.js";
@@ -139,9 +145,11 @@ export function registerApiRoutes(fastify: FastifyInstance): void {
           };
         }
 
+        const changes = await loadSessionChanges(session);
+
         return {
           success: true,
-          data: session,
+          data: changes ? { ...session, changes } : session,
         };
       } catch (error) {
         void logger.error("Failed to get session from API", {
@@ -157,6 +165,65 @@ export function registerApiRoutes(fastify: FastifyInstance): void {
     }
   );
 
+  // GET /api/vaults/:id/sessions/:sessionId/diff - Line diff against another session
+  // (?against=<sessionId>, defaults to the previous run of the same command)
+  fastify.get<{ Params: { id: string; sessionId: string }; Querystring: { against?: string } }>(
+    "/api/vaults/:id/sessions/:sessionId/diff",
+    async (request) => {
+      try {
+        const vault = await getNode(request.params.id);
+        if (!vault) {
+          return {
+            success: false,
+            error: "Vault not found",
+          };
+        }
+
+        const session = await loadSession(vault.path, request.params.sessionId);
+        if (!session) {
+          return {
+            success: false,
+            error: "Session not found",
+          };
+        }
+
+        const against = request.query.against
+          ? await loadSession(vault.path, request.query.against)
+          : ((
+              await querySessions(vault.path, {
+                command: session.command,
+                endDate: session.timestamp,
+                limit: 2,
+              })
+            ).find((s) => s.id !== session.id) ?? null);
+
+        if (!against) {
+          return {
+            success: false,
+            error: request.query.against
+              ? "Session to compare against not found"
+              : `No earlier run of "${session.command}" to compare with`,
+          };
+        }
+
+        return {
+          success: true,
+          data: await diffSessionFiles(against, session),
+        };
+      } catch (error) {
+        void logger.error("Failed to diff sessions from API", {
+          error: error instanceof Error ? error.message : String(error),
+          vaultId: request.params.id,
+          sessionId: request.params.sessionId,
+        });
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to diff sessions",
+        };
+      }
+    }
+  );
+
   // GET /api/vaults/:id/sessions/stats - Session statistics
   fastify.get<{ Params: { id: string } }>("/api/vaults/:id/sessions/stats", async (request) => {
     try {
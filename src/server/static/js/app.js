@@ -68,6 +68,10 @@ class BozlyApp {
       if (result.success) {
         this.currentSession = result.data;
       }
+
+      const diffResponse = await fetch(`/api/vaults/${vaultId}/sessions/${sessionId}/diff`);
+      const diffResult = await diffResponse.json();
+      this.currentSessionDiff = diffResult.success ? diffResult.data : null;
     } catch (error) {
       console.error('Failed to load session:', error);
     }
@@ -534,6 +538,9 @@ class BozlyApp {
           <button class="tab-button" data-tab="changes" onclick="window.app.switchTab('changes')">
             Changes
           </button>
+          <button class="tab-button" data-tab="diff" onclick="window.app.switchTab('diff')">
+            Diff
+          </button>
         </div>
 
         <div class="session-tabs-content">
@@ -575,7 +582,11 @@ class BozlyApp {
           </div>
 
           <div id="tab-changes" class="tab-content">
-            <pre>${this.escapeHtml(JSON.stringify(s.changes || {}, null, 2))}</pre>
+            ${this.renderFileChanges(s.changes)}
+          </div>
+
+          <div id="tab-diff" class="tab-content">
+            ${this.renderSessionDiff(this.currentSessionDiff)}
           </div>
         </div>
 
@@ -587,6 +598,56 @@ class BozlyApp {
     `;
   }
 
+  renderFileChanges(changes) {
+    const files = changes?.filesModified || [];
+    if (files.length === 0) {
+      return '<p><em>No files changed</em></p>';
+    }
+
+    const { totalFilesCreated, totalFilesModified, totalFilesDeleted } = changes.summary;
+    const markers = { created: '+', modified: '~', deleted: '-' };
+    return `
+      <p>${totalFilesCreated} created • ${totalFilesModified} modified • ${totalFilesDeleted} deleted</p>
+      ${files.map((f) => `
+        <div class="file-change file-change-${f.action}">
+          <strong>${markers[f.action] || ''} ${this.escapeHtml(f.path)}</strong>
+          <small>${f.action}${f.beforeSize !== undefined ? ` • before ${f.beforeSize} bytes` : ''}${f.afterSize !== undefined ? ` • after ${f.afterSize} bytes` : ''}</small>
+          ${f.diffPreview ? `<pre>${this.escapeHtml(f.diffPreview)}</pre>` : ''}
+        </div>
+      `).join('')}
+    `;
+  }
+
+  renderSessionDiff(diff) {
+    if (!diff) {
+      return '<p><em>No earlier run of this command to compare with</em></p>';
+    }
+
+    const markers = { context: ' ', removed: '-', added: '+' };
+    const renderLine = (line) => {
+      const text = line.segments
+        ? line.segments
+            .map((seg) => (seg.changed ? `<mark>${this.escapeHtml(seg.text)}</mark>` : this.escapeHtml(seg.text)))
+            .join('')
+        : this.escapeHtml(line.text);
+      return `<div class="diff-line diff-line-${line.type}">${markers[line.type]}${text}</div>`;
+    };
+    const range = (start, count) => (count === 1 ? `${start}` : `${start},${count}`);
+
+    return `
+      <p>Compared with the run from ${new Date(diff.left.timestamp).toLocaleString()} (${this.escapeHtml(diff.left.id)})</p>
+      ${(diff.files || []).map((f) => `
+        <div class="diff-file">
+          <strong>${f.file}</strong>
+          <small>+${f.added} • -${f.removed}</small>
+          ${f.hunks.length === 0
+            ? '<p><em>No differences</em></p>'
+            : `<pre>${f.hunks.map((h) => `<div class="diff-hunk">@@ -${range(h.oldStart, h.oldLines)} +${range(h.newStart, h.newLines)} @@</div>${h.lines.map(renderLine).join('')}`).join('')}</pre>`}
+        </div>
+      `).join('')}
+    `;
+  }
+
   async renderSessionDetailContent() {
     // Already rendered in renderSessionDetail
   }
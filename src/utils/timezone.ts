@@ -68,6 +68,59 @@ export function formatInTimezone(
   }
 }
 
+/**
+ * Wall-clock components of a date in a specific timezone
+ */
+export interface TimezoneDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number; // 1-31
+  hour: number; // 0-23
+  minute: number; // 0-59
+  weekday: number; // 0 = Sunday
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Get the wall-clock components of a date in a specific timezone
+ * Formatters are cached per timezone since schedulers call this in loops
+ * @param date - Date to convert
+ * @param timezone - IANA timezone identifier
+ * @returns Year, month, day, hour, minute and weekday as seen in the timezone
+ */
+export function getDatePartsInTimezone(date: Date, timezone: string): TimezoneDateParts {
+  let formatter = partsFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+      hourCycle: "h23",
+    });
+    partsFormatters.set(timezone, formatter);
+  }
+
+  const values: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    values[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(values.year, 10),
+    month: parseInt(values.month, 10),
+    day: parseInt(values.day, 10),
+    hour: parseInt(values.hour, 10) % 24,
+    minute: parseInt(values.minute, 10),
+    weekday: WEEKDAYS.indexOf(values.weekday),
+  };
+}
+
 /**
  * Get current time in a specific timezone
  * Note: Always returns ISO format (UTC), but the calculation uses the specified timezone
@@ -3,7 +3,7 @@
  * Tests workflows within the actual CLI execution flow
  */
 
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import fs from "fs/promises";
 import path from "path";
 import os from "os";
@@ -17,6 +17,20 @@ import {
   Workflow,
   Registry,
 } from "../../src/core/types.js";
+import { querySessions } from "../../src/core/sessions.js";
+
+const mocks = vi.hoisted(() => ({
+  getNode: vi.fn(),
+  runNodeCommand: vi.fn(),
+}));
+
+// Resolve nodes against the temp test node and stand in for the AI CLI;
+// session recording stays real so steps leave an audit trail on disk
+vi.mock("../../src/core/registry.js", () => ({ getNode: mocks.getNode }));
+vi.mock("../../src/core/commands.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/core/commands.js")>()),
+  runNodeCommand: mocks.runNodeCommand,
+}));
 
 describe("Workflows Integration Tests", () => {
   let testDir: string;
@@ -34,6 +48,32 @@ describe("Workflows Integration Tests", () => {
     // Create necessary directories
     await fs.mkdir(globalWorkflowsDir, { recursive: true });
     await fs.mkdir(nodeWorkflowsDir, { recursive: true });
+
+    mocks.getNode.mockImplementation(async (id: string) =>
+      id === "test-node"
+        ? {
+            id: "test-node",
+            name: "Test Node",
+            path: nodeDir,
+            type: "default",
+            active: true,
+            created: new Date().toISOString(),
+          }
+        : undefined
+    );
+    mocks.runNodeCommand.mockImplementation(
+      async (_node: unknown, command: string, options: { provider?: string; params?: string }) => ({
+        provider: options.provider ?? "claude",
+        prompt: command,
+        contextSize: 0,
+        output: `ran ${command}${options.params ? ` with ${options.params}` : ""}`,
+        contextText: "",
+        commandText: command,
+        commandName: command,
+        modelsUsed: [],
+        duration: 1,
+      })
+    );
   });
 
   afterEach(async () => {
@@ -87,6 +127,11 @@ describe("Workflows Integration Tests", () => {
       const result = await executeWorkflow(loaded!);
       expect(result.status).toBe("completed");
       expect(result.stepsCompleted).toBe(2);
+
+      // Each step records a real session in the target node
+      const sessions = await querySessions(nodeDir);
+      expect(sessions.map((s) => s.command).sort()).toEqual(["evening", "morning"]);
+      expect(result.steps[0].session?.id).toBeDefined();
     });
 
     it("discovers workflows from both node and global locations", async () => {
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for AI-assisted memory extraction and memory re-extraction
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "path";
+import fs from "fs/promises";
+import {
+  extractMemory,
+  parseMemoryExtraction,
+  buildMemoryExtractionPrompt,
+  MemoryExtractionExecutor,
+} from "../../src/memory/ai-extractor.js";
+import { recordSession, reextractSessionMemories } from "../../src/core/sessions.js";
+import { loadSessionIndex } from "../../src/core/session-index.js";
+import { createTempDir, getTempDir } from "../conftest";
+import type { MemoryMetadata, Session } from "../../src/core/types.js";
+
+const session = {
+  schema_version: "1.1",
+  id: "s1",
+  nodeId: "music",
+  nodeName: "Music Vault",
+  timestamp: "2026-01-05T10:00:00.000Z",
+  command: "rate-album",
+  provider: "claude",
+  status: "completed",
+  executionTimeMs: 4000,
+} as Session;
+
+const input = {
+  session,
+  commandContent: "Rate the album",
+  executionOutput: "Kid A: 9/10. Strong electronic textures.",
+};
+
+const reply = JSON.stringify({
+  title: "Rated Kid A 9/10",
+  summary: "Rated Radiohead's Kid A.",
+  learnings: ["User prefers electronic albums"],
+  keyResults: ["Kid A: 9/10"],
+  tags: ["Radiohead", "album review"],
+});
+
+describe("AI memory extraction", () => {
+  it("uses the provider's fields in AI mode", async () => {
+    const calls: Array<{ provider: string; model?: string }> = [];
+    const execute: MemoryExtractionExecutor = async (provider, _prompt, options) => {
+      calls.push({ provider, model: options.model });
+      return reply;
+    };
+
+    const result = await extractMemory(
+      input,
+      "sessionEnd",
+      { mode: "ai", provider: "ollama", model: "llama3.2" },
+      execute
+    );
+
+    expect(calls).toEqual([{ provider: "ollama", model: "llama3.2" }]);
+    expect(result).toMatchObject({ method: "ai", provider: "ollama" });
+    expect(result.memory.title).toBe("Rated Kid A 9/10");
+    expect(result.memory.summary).toBe("Rated Radiohead's Kid A.");
+    expect(result.memory.learnings).toBe("- User prefers electronic albums");
+    expect(result.memory.tags).toEqual(expect.arrayContaining(["radiohead", "album-review"]));
+  });
+
+  it("stays heuristic unless AI mode is configured", async () => {
+    const execute: MemoryExtractionExecutor = () => Promise.reject(new Error("not called"));
+
+    const result = await extractMemory(input, "sessionEnd", {}, execute);
+
+    expect(result.method).toBe("heuristic");
+    expect(result.error).toBeUndefined();
+  });
+
+  it("falls back to the heuristic memory on invalid replies", async () => {
+    const execute: MemoryExtractionExecutor = async () => '{"summary": "No title"}';
+
+    const result = await extractMemory(input, "sessionEnd", { mode: "ai" }, execute);
+
+    expect(result).toMatchObject({ method: "heuristic", error: 'Reply has no "title"' });
+    expect(result.memory.title).toContain("rate-album");
+  });
+
+  it("falls back when the provider fails", async () => {
+    const execute: MemoryExtractionExecutor = () => Promise.reject(new Error("Ollama timed out"));
+
+    const result = await extractMemory(input, "sessionEnd", { mode: "ai" }, execute);
+
+    expect(result).toMatchObject({ method: "heuristic", error: "Ollama timed out" });
+  });
+
+  it("parses JSON wrapped in code fences and prose", () => {
+    const fields = parseMemoryExtraction(`Here you go:\n\`\`\`json\n${reply}\n\`\`\``);
+
+    expect(fields.title).toBe("Rated Kid A 9/10");
+    expect(fields.keyResults).toEqual(["Kid A: 9/10"]);
+  });
+
+  it("rejects replies without JSON or with wrong field types", () => {
+    expect(() => parseMemoryExtraction("Sorry, I can't")).toThrow("Reply contains no JSON object");
+    expect(() => parseMemoryExtraction("{title: x}")).toThrow("Reply is not valid JSON");
+    expect(() =>
+      parseMemoryExtraction(JSON.stringify({ title: "T", summary: "S", learnings: [1, 2] }))
+    ).toThrow('Reply field "learnings" must be a list of strings');
+  });
+
+  it("keeps the start and end of long output in the prompt", () => {
+    const output = `START ${"x".repeat(5000)} END`;
+
+    const prompt = buildMemoryExtractionPrompt({ session, executionOutput: output }, 1000);
+
+    expect(prompt).toContain("START");
+    expect(prompt).toContain("END");
+    expect(prompt).toContain("characters omitted");
+  });
+});
+
+describe("reextractSessionMemories", () => {
+  let vaultPath: string;
+  let sessionDir: string;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    await createTempDir();
+    vaultPath = getTempDir();
+
+    const recorded = await recordSession(
+      vaultPath,
+      "vault",
+      "Vault",
+      "daily",
+      "claude",
+      { contextText: "Context", commandText: "Summarize the day" },
+      { text: "Finished the mixing session.", duration: 100 }
+    );
+    sessionId = recorded.id;
+    const sessionsRoot = path.join(vaultPath, ".bozly", "sessions");
+    const [entry] = await loadSessionIndex(sessionsRoot);
+    sessionDir = path.join(sessionsRoot, entry.path);
+    await fs.rm(path.join(sessionDir, "memory.md"));
+  });
+
+  it("lists matching sessions without writing on a dry run", async () => {
+    const results = await reextractSessionMemories(vaultPath, { dryRun: true });
+
+    expect(results).toEqual([expect.objectContaining({ id: sessionId, command: "daily" })]);
+    expect(results[0].method).toBeUndefined();
+    await expect(fs.access(path.join(sessionDir, "memory.md"))).rejects.toThrow();
+  });
+
+  it("rewrites memory.md and records the extraction method", async () => {
+    const results = await reextractSessionMemories(vaultPath, { command: "daily" });
+
+    expect(results).toEqual([expect.objectContaining({ id: sessionId, method: "heuristic" })]);
+    const memory = await fs.readFile(path.join(sessionDir, "memory.md"), "utf-8");
+    expect(memory).toContain("daily");
+    const metadata = JSON.parse(
+      await fs.readFile(path.join(sessionDir, "metadata.json"), "utf-8")
+    ) as MemoryMetadata;
+    expect(metadata.extractionMethod).toBe("heuristic");
+  });
+
+  it("falls back to the heuristic memory when the provider isn't available", async () => {
+    const results = await reextractSessionMemories(vaultPath, {
+      extraction: { mode: "ai", provider: "no-such-provider" },
+    });
+
+    expect(results[0].method).toBe("heuristic");
+    expect(results[0].error).toBeDefined();
+    await expect(fs.access(path.join(sessionDir, "memory.md"))).resolves.toBeUndefined();
+  });
+
+  it("skips sessions that don't match the filters", async () => {
+    const results = await reextractSessionMemories(vaultPath, { command: "weekly" });
+
+    expect(results).toEqual([]);
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * Unit tests for provider fallback during command execution
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { EventEmitter } from "events";
+import path from "path";
+import fs from "fs/promises";
+import { runNodeCommand } from "../../src/core/commands.js";
+import { logger } from "../../src/core/logger.js";
+import { createTempDir, getTempDir } from "../conftest";
+import type { NodeInfo } from "../../src/core/types.js";
+
+type Behavior = { code?: number; output?: string; hang?: boolean; missing?: boolean };
+
+const mocks = vi.hoisted(() => ({
+  behaviors: {} as Record<string, Behavior>,
+  providerConfigs: {} as Record<string, Record<string, unknown>>,
+  spawn: vi.fn(),
+  kill: vi.fn(),
+  getGlobalConfig: vi.fn(),
+}));
+
+vi.mock("child_process", () => ({ spawn: mocks.spawn }));
+
+vi.mock("../../src/core/providers.js", () => ({
+  validateProvider: vi.fn(async (name: string) => {
+    if (mocks.behaviors[name]?.missing) {
+      throw new Error(`Provider '${name}' is not installed.\nInstall it first.`);
+    }
+  }),
+  getProviderConfig: vi.fn((name: string) => ({
+    name,
+    displayName: name.toUpperCase(),
+    command: name,
+    args: ["-p"],
+    installed: true,
+    ...mocks.providerConfigs[name],
+  })),
+}));
+
+vi.mock("../../src/core/hooks.js", () => ({
+  executeHooks: vi.fn(async () => []),
+}));
+
+vi.mock("../../src/core/config.js", () => ({
+  getGlobalConfig: mocks.getGlobalConfig,
+}));
+
+function mockProcess(behavior: Behavior): EventEmitter {
+  const proc = Object.assign(new EventEmitter(), {
+    stdin: { write: vi.fn(), end: vi.fn() },
+    stdout: Object.assign(new EventEmitter(), { setEncoding: vi.fn() }),
+    kill: mocks.kill,
+  });
+
+  if (!behavior.hang) {
+    setTimeout(() => {
+      if (behavior.output) {
+        proc.stdout.emit("data", behavior.output);
+      }
+      proc.emit("close", behavior.code ?? 0);
+    }, 5);
+  }
+  return proc;
+}
+
+describe("Provider fallback", () => {
+  let vault: NodeInfo;
+
+  beforeEach(async () => {
+    await createTempDir();
+    const vaultPath = path.join(getTempDir(), "vault");
+    await fs.mkdir(path.join(vaultPath, ".bozly", "commands"), { recursive: true });
+    await fs.writeFile(
+      path.join(vaultPath, ".bozly", "commands", "daily.md"),
+      "---\ndescription: Daily\n---\nSummarize today."
+    );
+    vault = {
+      id: "vault",
+      name: "vault",
+      path: vaultPath,
+      type: "default",
+      active: true,
+      created: new Date().toISOString(),
+    };
+
+    mocks.behaviors = {};
+    mocks.providerConfigs = {};
+    mocks.spawn.mockImplementation((command: string) =>
+      mockProcess(mocks.behaviors[command] ?? { output: `${command} says hi` })
+    );
+    mocks.getGlobalConfig.mockResolvedValue({
+      version: "0.3.0",
+      defaultAI: "claude",
+      routing: { fallbackChain: ["gpt", "ollama"] },
+    });
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+  });
+
+  it("uses only the primary provider when it succeeds", async () => {
+    const result = await runNodeCommand(vault, "daily", {
+      provider: "claude",
+      includeContext: false,
+    });
+
+    expect(result.provider).toBe("claude");
+    expect(result.output).toBe("claude says hi");
+    expect(result.attemptedProviders).toEqual(["claude"]);
+    expect(mocks.spawn).toHaveBeenCalledTimes(1);
+    expect(result.executionLog?.map((e) => e.type)).toEqual(["start", "ai_call", "complete"]);
+  });
+
+  it("fails over along the global fallback chain on non-zero exit", async () => {
+    mocks.behaviors.claude = { code: 1 };
+
+    const result = await runNodeCommand(vault, "daily", {
+      provider: "claude",
+      includeContext: false,
+    });
+
+    expect(result.provider).toBe("gpt");
+    expect(result.output).toBe("gpt says hi");
+    expect(result.attemptedProviders).toEqual(["claude", "gpt"]);
+    expect(result.executionLog?.map((e) => [e.type, e.message])).toEqual([
+      ["start", "Session started"],
+      ["ai_call", "Called claude"],
+      ["error", expect.stringContaining("CLAUDE exited with code 1")],
+      ["processing", "Falling back to gpt"],
+      ["ai_call", "Called gpt"],
+      ["complete", "Execution completed by gpt after 2 attempts"],
+    ]);
+  });
+
+  it("logs the fallback instead of printing it on quiet runs", async () => {
+    mocks.behaviors.claude = { code: 1 };
+    const warn = vi.spyOn(logger, "warn");
+
+    const result = await runNodeCommand(vault, "daily", {
+      provider: "claude",
+      includeContext: false,
+      quiet: true,
+    });
+
+    expect(result.provider).toBe("gpt");
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledWith("Provider failed, falling back", {
+      provider: "claude",
+      next: "gpt",
+      error: expect.stringContaining("CLAUDE exited with code 1"),
+    });
+    warn.mockRestore();
+  });
+
+  it("fails over from a provider that isn't installed", async () => {
+    mocks.behaviors.claude = { missing: true };
+
+    const result = await runNodeCommand(vault, "daily", {
+      provider: "claude",
+      includeContext: false,
+    });
+
+    expect(result.provider).toBe("gpt");
+    expect(result.attemptedProviders).toEqual(["claude", "gpt"]);
+    expect(mocks.spawn).toHaveBeenCalledTimes(1);
+    expect(result.executionLog).toContainEqual(
+      expect.objectContaining({ type: "error", message: "Provider 'claude' is not installed." })
+    );
+  });
+
+  it("kills and fails over from a provider that times out", async () => {
+    mocks.behaviors.claude = { hang: true };
+
+    const result = await runNodeCommand(vault, "daily", {
+      provider: "claude",
+      includeContext: false,
+      timeout: 20,
+    });
+
+    expect(result.provider).toBe("gpt");
+    expect(mocks.kill).toHaveBeenCalledWith("SIGTERM");
+    expect(result.executionLog?.some((e) => e.message === "CLAUDE timed out after 20ms")).toBe(
+      true
+    );
+  });
+
+  it("uses the timeout from routing config", async () => {
+    mocks.behaviors.claude = { hang: true };
+    mocks.getGlobalConfig.mockResolvedValue({
+      version: "0.3.0",
+      defaultAI: "claude",
+      routing: { fallbackChain: ["ollama"], timeoutMs: 20 },
+    });
+
+    const result = await runNodeCommand(vault, "daily", {
+      provider: "claude",
+      includeContext: false,
+    });
+
+    expect(result.provider).toBe("ollama");
+  });
+
+  it("skips the primary provider if it's repeated in the chain", async () => {
+    mocks.behaviors.claude = { code: 1 };
+    mocks.behaviors.gpt = { code: 2 };
+
+    const result = await runNodeCommand(vault, "daily", {
+      provider: "claude",
+      includeContext: false,
+      fallbackChain: ["claude", "gpt", "ollama"],
+    });
+
+    expect(result.attemptedProviders).toEqual(["claude", "gpt", "ollama"]);
+    expect(result.provider).toBe("ollama");
+  });
+
+  it("reports every failure when all providers fail", async () => {
+    mocks.behaviors.claude = { code: 1 };
+    mocks.behaviors.gpt = { code: 1 };
+    mocks.behaviors.ollama = { code: 3 };
+
+    await expect(
+      runNodeCommand(vault, "daily", { provider: "claude", includeContext: false })
+    ).rejects.toThrow(
+      /All providers failed \(claude: .*; gpt: .*; ollama: OLLAMA exited with code 3/
+    );
+  });
+
+  it("uses the provider's own timeout", async () => {
+    mocks.behaviors.claude = { hang: true };
+    mocks.providerConfigs.claude = { timeout: 20 };
+
+    const result = await runNodeCommand(vault, "daily", {
+      provider: "claude",
+      includeContext: false,
+    });
+
+    expect(result.provider).toBe("gpt");
+    expect(result.executionLog?.some((e) => e.message === "CLAUDE timed out after 20ms")).toBe(
+      true
+    );
+  });
+
+  it("honors the provider's input mode and output processing", async () => {
+    mocks.behaviors.aider = { output: "\u001b[1m  Done  \u001b[0m\n" };
+    mocks.providerConfigs.aider = {
+      args: ["--message-file", "{{promptFile}}"],
+      inputMode: "file",
+      envVars: { AIDER_YES: "1" },
+      output: { stripAnsi: true, trim: true },
+    };
+
+    const result = await runNodeCommand(vault, "daily", {
+      provider: "aider",
+      includeContext: false,
+      fallbackChain: [],
+    });
+
+    const [command, args, spawnOptions] = mocks.spawn.mock.calls[0];
+    expect(command).toBe("aider");
+    expect(args[0]).toBe("--message-file");
+    expect(args[1]).toMatch(/prompt\.md$/);
+    expect(spawnOptions.stdio[0]).toBe("ignore");
+    expect(spawnOptions.env.AIDER_YES).toBe("1");
+    expect(result.output).toBe("Done");
+    // Temp prompt file is removed after the run
+    await expect(fs.access(args[1])).rejects.toThrow();
+  });
+
+  it("passes the model to the primary provider only", async () => {
+    mocks.behaviors.claude = { code: 1 };
+    mocks.providerConfigs.claude = { modelArgs: ["--model", "{{model}}"] };
+    mocks.providerConfigs.ollama = {
+      args: ["run"],
+      modelArgs: ["{{model}}"],
+      defaultModel: "llama2",
+    };
+
+    const result = await runNodeCommand(vault, "daily", {
+      provider: "claude",
+      model: "opus",
+      includeContext: false,
+      fallbackChain: ["ollama"],
+    });
+
+    expect(mocks.spawn.mock.calls[0].slice(0, 2)).toEqual(["claude", ["-p", "--model", "opus"]]);
+    expect(mocks.spawn.mock.calls[1].slice(0, 2)).toEqual(["ollama", ["run", "llama2"]]);
+    expect(result.provider).toBe("ollama");
+    expect(result.model).toBe("llama2");
+    expect(result.executionLog?.[1].message).toBe("Called claude (model: opus)");
+  });
+
+  it("keeps the original error when there is no fallback chain", async () => {
+    mocks.behaviors.claude = { code: 1 };
+
+    await expect(
+      runNodeCommand(vault, "daily", {
+        provider: "claude",
+        includeContext: false,
+        fallbackChain: [],
+      })
+    ).rejects.toThrow(/^CLAUDE exited with code 1 after \d+ms$/);
+    expect(mocks.spawn).toHaveBeenCalledTimes(1);
+  });
+});
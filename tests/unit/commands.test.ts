@@ -473,4 +473,99 @@ Content`;
       expect(commands[0].provider).toBe("invalid-provider");
     });
   });
+
+  describe("Frontmatter Schedule Extraction", () => {
+    it("should extract a cron string schedule", async () => {
+      const commandsPath = path.join(testVaultPath, ".bozly", "commands");
+      const content = '---\ndescription: Weekly\nschedule: "0 9 * * 1"\n---\nReview the week';
+      await fs.writeFile(path.join(commandsPath, "weekly-review.md"), content, "utf-8");
+
+      const command = await getCommand(testVaultPath, "weekly-review");
+      expect(command?.schedule).toEqual({ cron: "0 9 * * 1" });
+    });
+
+    it("should accept unquoted cron strings that aren't valid YAML", async () => {
+      const commandsPath = path.join(testVaultPath, ".bozly", "commands");
+      const content = "---\ndescription: Often\nschedule: */15 * * * *\n---\nCheck inbox";
+      await fs.writeFile(path.join(commandsPath, "inbox.md"), content, "utf-8");
+
+      const commands = await getNodeCommands(testVaultPath);
+      expect(commands[0].schedule).toEqual({ cron: "*/15 * * * *" });
+    });
+
+    it("should extract a schedule mapping with timezone", async () => {
+      const commandsPath = path.join(testVaultPath, ".bozly", "commands");
+      const content =
+        '---\ndescription: Daily\nschedule:\n  cron: "30 7 * * *"\n  timezone: Europe/Berlin\n  catchUp: false\n---\nPlan the day';
+      await fs.writeFile(path.join(commandsPath, "daily.md"), content, "utf-8");
+
+      const commands = await getNodeCommands(testVaultPath);
+      expect(commands[0].schedule).toEqual({
+        cron: "30 7 * * *",
+        timezone: "Europe/Berlin",
+        enabled: undefined,
+        catchUp: false,
+      });
+    });
+
+    it("should leave schedule undefined when not specified", async () => {
+      const commandsPath = path.join(testVaultPath, ".bozly", "commands");
+      const content = "---\ndescription: Test command\n---\nCommand content";
+      await fs.writeFile(path.join(commandsPath, "test.md"), content, "utf-8");
+
+      const commands = await getNodeCommands(testVaultPath);
+      expect(commands[0].schedule).toBeUndefined();
+    });
+  });
+
+  describe("Frontmatter Output Extraction", () => {
+    it("should extract output and outputMode", async () => {
+      const commandsPath = path.join(testVaultPath, ".bozly", "commands");
+      const content = "---\ndescription: Journal\noutput: files\noutputMode: append\n---\nWrite";
+      await fs.writeFile(path.join(commandsPath, "journal.md"), content, "utf-8");
+
+      const command = await getCommand(testVaultPath, "journal");
+      expect(command?.output).toBe("files");
+      expect(command?.outputMode).toBe("append");
+    });
+
+    it("should ignore unknown output values", async () => {
+      const commandsPath = path.join(testVaultPath, ".bozly", "commands");
+      const content = "---\ndescription: Odd\noutput: pdf\noutputMode: replace\n---\nWrite";
+      await fs.writeFile(path.join(commandsPath, "odd.md"), content, "utf-8");
+
+      const commands = await getNodeCommands(testVaultPath);
+      expect(commands[0].output).toBeUndefined();
+      expect(commands[0].outputMode).toBeUndefined();
+    });
+  });
+
+  describe("Frontmatter Tag Extraction", () => {
+    it("should extract inline tags", async () => {
+      const commandsPath = path.join(testVaultPath, ".bozly", "commands");
+      const content = "---\ndescription: Deep dive\ntags: [analysis, 'weekly']\n---\nAnalyze";
+      await fs.writeFile(path.join(commandsPath, "deep.md"), content, "utf-8");
+
+      const command = await getCommand(testVaultPath, "deep");
+      expect(command?.tags).toEqual(["analysis", "weekly"]);
+    });
+
+    it("should extract block list tags", async () => {
+      const commandsPath = path.join(testVaultPath, ".bozly", "commands");
+      const content = "---\ntags:\n  - research\n  - code\ndescription: Spike\n---\nSpike";
+      await fs.writeFile(path.join(commandsPath, "spike.md"), content, "utf-8");
+
+      const commands = await getNodeCommands(testVaultPath);
+      expect(commands[0].tags).toEqual(["research", "code"]);
+      expect(commands[0].description).toBe("Spike");
+    });
+
+    it("should leave tags undefined when not specified", async () => {
+      const commandsPath = path.join(testVaultPath, ".bozly", "commands");
+      await fs.writeFile(path.join(commandsPath, "test.md"), "---\ntags:\n---\nBody", "utf-8");
+
+      const commands = await getNodeCommands(testVaultPath);
+      expect(commands[0].tags).toBeUndefined();
+    });
+  });
 });
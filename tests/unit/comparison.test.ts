@@ -0,0 +1,127 @@
+/**
+ * Unit tests for multi-provider comparison runs
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { EventEmitter } from "events";
+import path from "path";
+import fs from "fs/promises";
+import { compareProviders } from "../../src/core/comparison.js";
+import { querySessions } from "../../src/core/sessions.js";
+import { createTempDir, getTempDir } from "../conftest";
+import type { NodeInfo } from "../../src/core/types.js";
+
+type Behavior = { code?: number; output?: string; delay?: number };
+
+const mocks = vi.hoisted(() => ({
+  behaviors: {} as Record<string, Behavior>,
+  spawn: vi.fn(),
+}));
+
+vi.mock("child_process", () => ({ spawn: mocks.spawn }));
+
+vi.mock("../../src/core/providers.js", () => ({
+  validateProvider: vi.fn(async () => undefined),
+  getProviderConfig: vi.fn((name: string) => ({
+    name,
+    displayName: name.toUpperCase(),
+    command: name,
+    args: ["-p"],
+    installed: true,
+  })),
+}));
+
+vi.mock("../../src/core/hooks.js", () => ({
+  executeHooks: vi.fn(async () => []),
+}));
+
+function mockProcess(behavior: Behavior): EventEmitter {
+  const proc = Object.assign(new EventEmitter(), {
+    stdin: { write: vi.fn(), end: vi.fn() },
+    stdout: Object.assign(new EventEmitter(), { setEncoding: vi.fn() }),
+    kill: vi.fn(),
+  });
+
+  setTimeout(() => {
+    if (behavior.output) {
+      proc.stdout.emit("data", behavior.output);
+    }
+    proc.emit("close", behavior.code ?? 0);
+  }, behavior.delay ?? 5);
+  return proc;
+}
+
+describe("Provider comparison", () => {
+  let vault: NodeInfo;
+
+  beforeEach(async () => {
+    await createTempDir();
+    const vaultPath = path.join(getTempDir(), "vault");
+    await fs.mkdir(path.join(vaultPath, ".bozly", "commands"), { recursive: true });
+    await fs.writeFile(
+      path.join(vaultPath, ".bozly", "commands", "daily.md"),
+      "---\ndescription: Daily\n---\nSummarize today."
+    );
+    vault = {
+      id: "vault",
+      name: "vault",
+      path: vaultPath,
+      type: "default",
+      active: true,
+      created: new Date().toISOString(),
+    };
+
+    mocks.behaviors = {};
+    mocks.spawn.mockImplementation((command: string) =>
+      mockProcess(mocks.behaviors[command] ?? { output: `${command} says hi` })
+    );
+  });
+
+  it("sends the same prompt to every provider without streaming", async () => {
+    const write = vi.spyOn(process.stdout, "write");
+
+    const result = await compareProviders(vault, "daily", ["claude", "gpt"], {
+      includeContext: false,
+    });
+
+    expect(mocks.spawn.mock.calls.map((call) => call[0])).toEqual(["claude", "gpt"]);
+    const inputs = mocks.spawn.mock.results.map(
+      (r) => (r.value as { stdin: { write: ReturnType<typeof vi.fn> } }).stdin.write.mock.calls[0]
+    );
+    expect(inputs[0]).toEqual(inputs[1]);
+    expect(result.prompt).toContain("Summarize today.");
+    expect(result.entries.map((e) => e.output)).toEqual(["claude says hi", "gpt says hi"]);
+    expect(write).not.toHaveBeenCalledWith("claude says hi");
+  });
+
+  it("records one session per provider with a shared comparison ID", async () => {
+    const result = await compareProviders(vault, "daily", ["claude", "gpt", "claude"], {
+      includeContext: false,
+    });
+
+    const sessions = await querySessions(vault.path, { command: "daily" });
+    expect(sessions).toHaveLength(2);
+    expect(sessions.map((s) => s.provider).sort()).toEqual(["claude", "gpt"]);
+    expect(sessions.every((s) => s.metadata?.comparisonId === result.comparisonId)).toBe(true);
+  });
+
+  it("records failed providers without failing the run or falling back", async () => {
+    mocks.behaviors.gpt = { code: 1 };
+
+    const result = await compareProviders(vault, "daily", ["claude", "gpt"], {
+      includeContext: false,
+    });
+
+    expect(mocks.spawn).toHaveBeenCalledTimes(2);
+    expect(result.entries[1]).toMatchObject({ provider: "gpt", status: "failed" });
+    expect(result.entries[1].error).toContain("GPT exited with code 1");
+    expect(result.entries[1].session?.status).toBe("failed");
+    expect(result.entries[0].status).toBe("completed");
+  });
+
+  it("needs at least two distinct providers", async () => {
+    await expect(compareProviders(vault, "daily", ["claude", "claude"])).rejects.toThrow(
+      "At least two providers are needed for a comparison"
+    );
+  });
+});
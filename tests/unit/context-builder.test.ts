@@ -0,0 +1,230 @@
+/**
+ * Unit tests for the token-budgeted context builder
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "path";
+import fs from "fs/promises";
+import {
+  fitContextSections,
+  resolveContextBudget,
+  summarizeMarkdown,
+  truncateToTokens,
+  DEFAULT_TOKEN_BUDGETS,
+} from "../../src/core/context-builder.js";
+import { loadContextSections } from "../../src/core/context.js";
+import { runNodeCommand } from "../../src/core/commands.js";
+import { recordSession } from "../../src/core/sessions.js";
+import { countTokens } from "../../src/core/tokens.js";
+import { createTempDir, getTempDir, createMockVault } from "../conftest";
+import type { NodeInfo } from "../../src/core/types.js";
+
+const words = (count: number, word = "lorem"): string =>
+  Array.from({ length: count }, (_, i) => `${word}${i % 10}`).join(" ");
+
+const guide = [
+  "# Mixing Guide",
+  "",
+  "How to mix.",
+  words(300),
+  "",
+  "## Levels",
+  "",
+  "Keep peaks under -6 dB.",
+  words(300),
+].join("\n");
+
+describe("fitContextSections", () => {
+  it("keeps everything that fits", () => {
+    const fitted = fitContextSections(
+      [
+        { name: "base", content: "Vault context" },
+        { name: "command", content: "Do the thing" },
+        { name: "params", content: "" },
+      ],
+      { tokens: 1000, family: "generic" }
+    );
+
+    expect(fitted.sections.map((s) => [s.name, s.action])).toEqual([
+      ["base", "kept"],
+      ["command", "kept"],
+    ]);
+    expect(fitted.content.base).toBe("Vault context");
+    expect(fitted.overBudget).toBe(false);
+  });
+
+  it("reduces the lowest-priority sections first", () => {
+    const fitted = fitContextSections(
+      [
+        { name: "base", content: words(400, "base") },
+        { name: "guides", content: guide },
+        { name: "commands", content: words(50, "cmd") },
+        { name: "command", content: "Do the thing" },
+      ],
+      { tokens: 600, family: "generic" }
+    );
+
+    const actions = Object.fromEntries(fitted.sections.map((s) => [s.name, s.action]));
+    expect(actions).toEqual({
+      base: "truncated",
+      guides: "dropped",
+      commands: "dropped",
+      command: "kept",
+    });
+    expect(fitted.content.guides).toBe("");
+    expect(fitted.content.base).toContain("truncated to fit the context budget");
+    expect(fitted.totalTokens).toBeLessThanOrEqual(600);
+  });
+
+  it("summarizes markdown sections when the summary fits", () => {
+    const parts = Array.from(
+      { length: 12 },
+      (_, i) => `## Part ${i}\n\nKeep peaks under -6 dB in part ${i}.\n${words(60)}`
+    );
+    const fitted = fitContextSections(
+      [
+        { name: "guides", content: [guide, ...parts].join("\n\n") },
+        { name: "command", content: "Do the thing" },
+      ],
+      { tokens: 250, family: "generic" }
+    );
+
+    expect(fitted.sections[0]).toMatchObject({ name: "guides", action: "summarized" });
+    expect(fitted.content.guides).toContain("Keep peaks under -6 dB in part 11.");
+    expect(fitted.content.guides).toContain("## Levels");
+    expect(fitted.content.guides).toContain("Keep peaks under -6 dB.");
+    expect(fitted.content.guides).not.toContain("lorem5");
+  });
+
+  it("follows custom priorities", () => {
+    const fitted = fitContextSections(
+      [
+        { name: "base", content: words(300, "base") },
+        { name: "memories", content: words(50, "memory") },
+      ],
+      { tokens: 400, family: "generic", priorities: { base: 10 } }
+    );
+
+    expect(fitted.sections.find((s) => s.name === "memories")?.action).toBe("kept");
+    expect(fitted.sections.find((s) => s.name === "base")?.action).not.toBe("kept");
+  });
+
+  it("never reduces the command or its parameters", () => {
+    const command = words(500, "step");
+    const fitted = fitContextSections(
+      [
+        { name: "base", content: "Vault context" },
+        { name: "command", content: command },
+        { name: "params", content: "album: Kid A" },
+      ],
+      { tokens: 100, family: "generic" }
+    );
+
+    expect(fitted.content.command).toBe(command);
+    expect(fitted.content.params).toBe("album: Kid A");
+    expect(fitted.content.base).toBe("");
+    expect(fitted.overBudget).toBe(true);
+  });
+});
+
+describe("summarizeMarkdown and truncateToTokens", () => {
+  it("keeps headings, memory framing and first lines", () => {
+    const summary = summarizeMarkdown(
+      "=== CONTEXT ===\n\n[Session 1]\n# Title\nFirst line\nSecond line\n---\n[Session 2]\nOnly line"
+    );
+
+    expect(summary).toContain("[Session 1]\n# Title\nFirst line\n---\n[Session 2]\nOnly line");
+    expect(summary).not.toContain("Second line");
+  });
+
+  it("cuts at a line break within the token limit", () => {
+    const text = Array.from({ length: 50 }, (_, i) => `Line ${i} ${words(8)}`).join("\n");
+
+    const truncated = truncateToTokens(text, 120, "claude");
+
+    expect(countTokens(truncated, "claude")).toBeLessThanOrEqual(120);
+    expect(truncated).toMatch(/lorem7\n\n\[… truncated to fit the context budget\]\n$/);
+    expect(truncateToTokens("short", 120)).toBe("short");
+  });
+});
+
+describe("token budgets in runs", () => {
+  let vault: NodeInfo;
+
+  beforeEach(async () => {
+    await createTempDir();
+    const nodePath = await createMockVault(getTempDir());
+    vault = { id: "test", name: "test-vault", path: nodePath, type: "default", active: true };
+    await fs.writeFile(
+      path.join(nodePath, ".bozly", "commands", "review.md"),
+      "---\ndescription: Review the mix\n---\nReview the mix."
+    );
+    await fs.mkdir(path.join(nodePath, ".bozly", "guides"));
+    await fs.writeFile(path.join(nodePath, ".bozly", "guides", "mixing.md"), guide);
+  });
+
+  const setContextConfig = async (context: Record<string, unknown>): Promise<void> => {
+    const configPath = path.join(vault.path, ".bozly", "config.json");
+    const config = JSON.parse(await fs.readFile(configPath, "utf-8")) as Record<string, unknown>;
+    await fs.writeFile(configPath, JSON.stringify({ ...config, context }));
+  };
+
+  it("resolves the budget from the vault config or the provider's family", async () => {
+    await setContextConfig({ budgets: { ollama: 3000 }, priorities: { memories: 95 } });
+
+    const ollama = await resolveContextBudget(vault.path, "ollama");
+    const gpt = await resolveContextBudget(vault.path, "gpt");
+
+    expect(ollama).toMatchObject({ tokens: 3000, family: "llama", includeGuides: false });
+    expect(ollama.priorities.memories).toBe(95);
+    expect(gpt.tokens).toBe(DEFAULT_TOKEN_BUDGETS.gpt);
+  });
+
+  it("loads guides only when asked", async () => {
+    expect((await loadContextSections(vault)).guides).toBe("");
+    expect((await loadContextSections(vault, { includeGuides: true })).guides).toContain(
+      "### mixing"
+    );
+  });
+
+  it("fits dry runs to the budget and reports the sections", async () => {
+    await setContextConfig({ budgets: { default: 250 }, includeGuides: true });
+
+    const result = await runNodeCommand(vault, "review", {
+      dryRun: true,
+      params: "album: Kid A",
+    });
+
+    expect(result.tokenBudget).toBe(250);
+    const actions = Object.fromEntries(
+      (result.contextSections ?? []).map((s) => [s.name, s.action])
+    );
+    expect(actions).toMatchObject({ base: "kept", command: "kept", params: "kept" });
+    expect(actions.guides).toMatch(/summarized|truncated|dropped/);
+    expect(result.prompt).toContain("## Parameters\n\nalbum: Kid A");
+    expect(result.prompt).not.toContain("Keep peaks under -6 dB.");
+  });
+
+  it("records the section sizes with the session", async () => {
+    await setContextConfig({ budgets: { default: 250 }, includeGuides: true });
+    const result = await runNodeCommand(vault, "review", { dryRun: true });
+
+    const session = await recordSession(
+      vault.path,
+      vault.id,
+      vault.name,
+      "review",
+      result.provider,
+      {
+        contextText: result.contextText,
+        commandText: result.commandText ?? "",
+        tokenBudget: result.tokenBudget,
+        sections: result.contextSections,
+      },
+      { text: "Sounds good", duration: 10 }
+    );
+
+    expect(session.prompt.metadata.tokenBudget).toBe(250);
+    expect(session.prompt.metadata.sections).toEqual(result.contextSections);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Unit tests for include directives and frontmatter includes
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "path";
+import fs from "fs/promises";
+import {
+  findIncludeFiles,
+  parseIncludeList,
+  resolveIncludeDirectives,
+  resolveIncludeList,
+} from "../../src/core/context-includes.js";
+import { generateContext, loadContextSections } from "../../src/core/context.js";
+import { getCommand, runNodeCommand } from "../../src/core/commands.js";
+import { recordSession } from "../../src/core/sessions.js";
+import { createTempDir, getTempDir, createMockVault } from "../conftest";
+import type { NodeInfo } from "../../src/core/types.js";
+
+describe("context includes", () => {
+  let vault: NodeInfo;
+  let bozlyPath: string;
+
+  const write = async (file: string, content: string): Promise<void> => {
+    await fs.mkdir(path.dirname(path.join(vault.path, file)), { recursive: true });
+    await fs.writeFile(path.join(vault.path, file), content);
+  };
+
+  beforeEach(async () => {
+    await createTempDir();
+    const nodePath = await createMockVault(getTempDir());
+    vault = { id: "test", name: "test-vault", path: nodePath, type: "default", active: true };
+    bozlyPath = path.join(nodePath, ".bozly");
+
+    await write(".bozly/guides/rating.md", "# Rating\n\nRate albums from 1 to 10.");
+    await write(".bozly/guides/mixing.md", "# Mixing\n\nKeep peaks under -6 dB.");
+    await write("notes/2025/jan.md", "January notes");
+    await write("notes/2025/feb.md", "February notes");
+    await write("notes/todo.txt", "Buy strings");
+  });
+
+  describe("findIncludeFiles", () => {
+    it("prefers .bozly/ and falls back to the vault root", async () => {
+      expect(await findIncludeFiles(vault.path, "guides/rating.md")).toEqual([
+        ".bozly/guides/rating.md",
+      ]);
+      expect(await findIncludeFiles(vault.path, "notes/todo.txt")).toEqual(["notes/todo.txt"]);
+      expect(await findIncludeFiles(vault.path, "notes/missing.md")).toEqual([]);
+    });
+
+    it("expands globs", async () => {
+      expect(await findIncludeFiles(vault.path, "guides/*.md")).toEqual([
+        ".bozly/guides/mixing.md",
+        ".bozly/guides/rating.md",
+      ]);
+      expect(await findIncludeFiles(vault.path, "notes/**/*.md")).toEqual([
+        "notes/2025/feb.md",
+        "notes/2025/jan.md",
+      ]);
+      expect(await findIncludeFiles(vault.path, "notes/2025/[j]an.md")).toEqual([
+        "notes/2025/jan.md",
+      ]);
+    });
+
+    it("refuses paths outside the vault", async () => {
+      await expect(findIncludeFiles(vault.path, "../secrets.md")).rejects.toThrow(
+        "outside the vault"
+      );
+      await expect(findIncludeFiles(vault.path, "/etc/passwd")).rejects.toThrow(
+        "outside the vault"
+      );
+    });
+  });
+
+  describe("resolveIncludeDirectives", () => {
+    it("replaces directives with the files they name", async () => {
+      const resolved = await resolveIncludeDirectives(
+        vault.path,
+        "Intro\n\n{{include guides/rating.md}}\n\nOutro",
+        ".bozly/context.md"
+      );
+
+      expect(resolved.text).toContain("<!-- .bozly/guides/rating.md -->\n# Rating");
+      expect(resolved.text).toMatch(/^Intro/);
+      expect(resolved.text).toMatch(/Outro$/);
+      expect(resolved.sources).toEqual([
+        {
+          path: ".bozly/guides/rating.md",
+          from: ".bozly/context.md",
+          chars: expect.any(Number),
+        },
+      ]);
+    });
+
+    it("caps each include at its size limit", async () => {
+      await write("notes/long.md", "x".repeat(5000));
+
+      const resolved = await resolveIncludeDirectives(
+        vault.path,
+        '{{include "notes/long.md" max=100}}',
+        ".bozly/context.md"
+      );
+
+      expect(resolved.text).toContain("[… truncated at 100 characters]");
+      expect(resolved.text.length).toBeLessThan(200);
+      expect(resolved.sources[0]).toMatchObject({ path: "notes/long.md", truncated: true });
+    });
+
+    it("resolves nested includes and skips cycles", async () => {
+      await write(".bozly/guides/a.md", "A\n{{include guides/b.md}}");
+      await write(".bozly/guides/b.md", "B\n{{include guides/a.md}}");
+
+      const resolved = await resolveIncludeDirectives(
+        vault.path,
+        "{{include guides/a.md}}",
+        ".bozly/context.md"
+      );
+
+      expect(resolved.text).toContain("A\n<!-- .bozly/guides/b.md -->\nB");
+      expect(resolved.text).toContain(
+        "cycle .bozly/guides/a.md → .bozly/guides/b.md → .bozly/guides/a.md"
+      );
+      expect(resolved.sources.map((source) => [source.path, source.from])).toEqual([
+        [".bozly/guides/a.md", ".bozly/context.md"],
+        [".bozly/guides/b.md", ".bozly/guides/a.md"],
+        [".bozly/guides/a.md", ".bozly/guides/b.md"],
+      ]);
+      expect(resolved.sources[2].error).toMatch(/^cycle/);
+    });
+
+    it("refuses symlinks that point out of the vault", async () => {
+      const outside = path.join(getTempDir(), "secret.txt");
+      await fs.writeFile(outside, "top secret");
+      await fs.symlink(outside, path.join(vault.path, "notes", "leak.md"));
+      await fs.symlink(
+        path.join(vault.path, "notes", "todo.txt"),
+        path.join(vault.path, "notes", "inside.md")
+      );
+
+      const resolved = await resolveIncludeDirectives(
+        vault.path,
+        "{{include notes/*.md}}",
+        ".bozly/context.md"
+      );
+
+      expect(resolved.text).not.toContain("top secret");
+      expect(resolved.text).toContain("<!-- include notes/leak.md: outside the vault -->");
+      expect(resolved.text).toContain("Buy strings");
+      expect(resolved.sources).toEqual([
+        { path: "notes/inside.md", from: ".bozly/context.md", chars: expect.any(Number) },
+        { path: "notes/leak.md", from: ".bozly/context.md", chars: 0, error: "outside the vault" },
+      ]);
+    });
+
+    it("leaves a note for includes that can't be resolved", async () => {
+      const resolved = await resolveIncludeDirectives(
+        vault.path,
+        "{{include guides/missing.md}}",
+        ".bozly/context.md"
+      );
+
+      expect(resolved.text).toBe("<!-- include guides/missing.md: not found -->");
+      expect(resolved.sources[0]).toMatchObject({ path: "guides/missing.md", error: "not found" });
+    });
+  });
+
+  describe("frontmatter includes", () => {
+    it("parses paths and { path, max } mappings", () => {
+      expect(parseIncludeList("guides/rating.md")).toEqual([{ path: "guides/rating.md" }]);
+      expect(parseIncludeList(["notes/*.md", { path: "notes/todo.txt", max: 50 }, 3])).toEqual([
+        { path: "notes/*.md" },
+        { path: "notes/todo.txt", max: 50 },
+      ]);
+    });
+
+    it("reads includes from command frontmatter", async () => {
+      await write(
+        ".bozly/commands/review.md",
+        "---\ndescription: Review\nincludes:\n  - guides/rating.md\n  - path: notes/todo.txt\n    max: 50\n---\nReview the album."
+      );
+
+      const command = await getCommand(vault.path, "review");
+
+      expect(command?.includes).toEqual([
+        { path: "guides/rating.md" },
+        { path: "notes/todo.txt", max: 50 },
+      ]);
+    });
+
+    it("resolves a list of includes", async () => {
+      const resolved = await resolveIncludeList(
+        vault.path,
+        [{ path: "guides/*.md" }, { path: "notes/todo.txt" }],
+        ".bozly/commands/review.md"
+      );
+
+      expect(resolved.sources.map((source) => source.path)).toEqual([
+        ".bozly/guides/mixing.md",
+        ".bozly/guides/rating.md",
+        "notes/todo.txt",
+      ]);
+      expect(resolved.text).toContain("Buy strings");
+    });
+  });
+
+  describe("in context and prompts", () => {
+    it("resolves includes in context.md and doesn't repeat included guides", async () => {
+      await write(".bozly/context.md", "# Music Vault\n\n{{include guides/rating.md}}");
+
+      const sections = await loadContextSections(vault, { includeGuides: true });
+
+      expect(sections.base).toContain("Rate albums from 1 to 10.");
+      expect(sections.guides).toContain("### mixing");
+      expect(sections.guides).not.toContain("### rating");
+      expect(sections.includes.map((source) => source.path)).toEqual([".bozly/guides/rating.md"]);
+      expect(await generateContext(vault)).not.toContain("{{include");
+    });
+
+    it("adds the command's includes to the prompt and records them with the session", async () => {
+      await write(
+        ".bozly/commands/review.md",
+        "---\ndescription: Review\nincludes: notes/todo.txt\n---\nReview the album.\n\n{{include guides/mixing.md}}"
+      );
+
+      const result = await runNodeCommand(vault, "review", { dryRun: true });
+
+      expect(result.prompt).toContain("## Included Files\n\n<!-- notes/todo.txt -->\nBuy strings");
+      expect(result.prompt).toContain("Review the album.\n\n<!-- .bozly/guides/mixing.md -->");
+      expect(result.contextSections?.map((section) => section.name)).toContain("includes");
+      expect(result.includes?.map((source) => [source.path, source.from])).toEqual([
+        [".bozly/guides/mixing.md", ".bozly/commands/review.md"],
+        ["notes/todo.txt", ".bozly/commands/review.md"],
+      ]);
+
+      const session = await recordSession(
+        vault.path,
+        vault.id,
+        vault.name,
+        "review",
+        result.provider,
+        {
+          contextText: result.contextText,
+          commandText: result.commandText ?? "",
+          includes: result.includes,
+        },
+        { text: "Done", duration: 10 }
+      );
+
+      expect(session.prompt.metadata.includes).toHaveLength(2);
+      const sessionDirs = await fs.readdir(path.join(bozlyPath, "sessions"), { recursive: true });
+      const contextFile = sessionDirs.find((entry) => entry.endsWith("context.md"));
+      const contextMd = await fs.readFile(path.join(bozlyPath, "sessions", contextFile!), "utf-8");
+      expect(contextMd).toContain(
+        "- Included file: notes/todo.txt, from .bozly/commands/review.md\n"
+      );
+    });
+  });
+});
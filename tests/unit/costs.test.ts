@@ -0,0 +1,148 @@
+/**
+ * Unit tests for cost accounting and monthly budgets
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "path";
+import {
+  calculateSessionUsage,
+  checkBudgetCrossing,
+  findTokenPrice,
+  formatBudgetStatus,
+  getBudgetStatus,
+  getMonthlySpend,
+  getUsageMonth,
+} from "../../src/core/costs.js";
+import { recordSession } from "../../src/core/sessions.js";
+import { createTempDir, getTempDir } from "../conftest";
+import type { PricingConfig } from "../../src/core/types.js";
+
+const pricing: PricingConfig = {
+  prices: {
+    "claude/opus": { input: 15, output: 75 },
+    claude: { input: 3, output: 15 },
+  },
+  monthlyBudget: 1,
+};
+
+describe("Cost accounting", () => {
+  it("looks prices up by provider/model, then by provider", () => {
+    expect(findTokenPrice(pricing, "claude", "opus")).toEqual({ input: 15, output: 75 });
+    expect(findTokenPrice(pricing, "claude", "haiku")).toEqual({ input: 3, output: 15 });
+    expect(findTokenPrice(pricing, "gpt")).toBeUndefined();
+    expect(findTokenPrice(undefined, "claude")).toBeUndefined();
+  });
+
+  it("prices provider-reported usage", () => {
+    const usage = calculateSessionUsage(
+      "claude",
+      "opus",
+      "prompt",
+      "output",
+      {
+        promptTokens: 10_000,
+        completionTokens: 2_000,
+        totalTokens: 12_000,
+      },
+      pricing
+    );
+
+    expect(usage).toEqual({
+      promptTokens: 10_000,
+      outputTokens: 2_000,
+      totalTokens: 12_000,
+      source: "provider",
+      cost: 0.3,
+      currency: "USD",
+    });
+  });
+
+  it("estimates usage when the provider doesn't report it", () => {
+    const usage = calculateSessionUsage("gpt", undefined, "Summarize my day", "A good day");
+
+    expect(usage).toMatchObject({ source: "estimate", tokenizer: "gpt", totalTokens: 7 });
+    expect(usage.cost).toBeUndefined();
+  });
+
+  it("compares spending with the monthly budget", () => {
+    expect(getBudgetStatus(0.5, pricing, "2026-10")?.level).toBe("ok");
+    expect(getBudgetStatus(0.85, pricing, "2026-10")?.level).toBe("warning");
+    expect(getBudgetStatus(1.2, { ...pricing, currency: "EUR" }, "2026-10")).toEqual({
+      month: "2026-10",
+      spent: 1.2,
+      budget: 1,
+      currency: "EUR",
+      percent: 120,
+      level: "exceeded",
+    });
+    expect(getBudgetStatus(5, { prices: pricing.prices })).toBeNull();
+  });
+
+  it("formats budget status", () => {
+    const status = getBudgetStatus(1.2, pricing, "2026-10");
+
+    expect(status && formatBudgetStatus(status)).toBe(
+      "Monthly budget exceeded: 1.20 USD of 1.00 USD spent in 2026-10 (120%)"
+    );
+  });
+
+  describe("monthly spending", () => {
+    let sessionsRoot: string;
+
+    beforeEach(async () => {
+      await createTempDir();
+      sessionsRoot = path.join(getTempDir(), ".bozly", "sessions");
+    });
+
+    const record = (cost: number): ReturnType<typeof recordSession> =>
+      recordSession(
+        getTempDir(),
+        "vault",
+        "Vault",
+        "daily",
+        "claude",
+        { contextText: "Context", commandText: "Run daily" },
+        {
+          text: "Output",
+          duration: 100,
+          usage: {
+            promptTokens: cost * 1_000_000,
+            completionTokens: 0,
+            totalTokens: cost * 1_000_000,
+          },
+        },
+        [],
+        [],
+        undefined,
+        undefined,
+        { prices: { claude: { input: 1, output: 1 } } }
+      );
+
+    it("records cost in session.json and sums it per month", async () => {
+      const session = await record(0.4);
+      await record(0.3);
+
+      expect(session.usage?.cost).toBe(0.4);
+      expect(await getMonthlySpend([sessionsRoot], getUsageMonth(session.timestamp))).toBe(0.7);
+      expect(await getMonthlySpend([sessionsRoot], "1999-01")).toBe(0);
+    });
+
+    it("reports a budget threshold only when a session crosses it", async () => {
+      await record(0.5);
+      expect(await checkBudgetCrossing(pricing, 0.5, [sessionsRoot])).toBeNull();
+
+      await record(0.35);
+      expect(await checkBudgetCrossing(pricing, 0.35, [sessionsRoot])).toMatchObject({
+        level: "warning",
+      });
+
+      await record(0.05);
+      expect(await checkBudgetCrossing(pricing, 0.05, [sessionsRoot])).toBeNull();
+
+      await record(0.2);
+      expect(await checkBudgetCrossing(pricing, 0.2, [sessionsRoot])).toMatchObject({
+        level: "exceeded",
+      });
+    });
+  });
+});
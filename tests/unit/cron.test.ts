@@ -0,0 +1,121 @@
+/**
+ * Cron Expression Tests
+ *
+ * Tests for cron parsing and timezone-aware next-run calculation
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseCron, matchesCron, getNextCronRun } from "../../src/core/cron.js";
+import { getDatePartsInTimezone } from "../../src/utils/timezone.js";
+
+const next = (cron: string, after: string, timezone = "UTC"): string | undefined =>
+  getNextCronRun(cron, new Date(after), timezone)?.toISOString();
+
+describe("Cron", () => {
+  describe("parseCron", () => {
+    it("parses lists, ranges and steps", () => {
+      const cron = parseCron("5/20 8-10 1,15 */3 mon-fri");
+
+      expect(Array.from(cron.minutes)).toEqual([5, 25, 45]);
+      expect(Array.from(cron.hours)).toEqual([8, 9, 10]);
+      expect(Array.from(cron.daysOfMonth)).toEqual([1, 15]);
+      expect(Array.from(cron.months)).toEqual([1, 4, 7, 10]);
+      expect(Array.from(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+      expect(cron.dayOfMonthRestricted).toBe(true);
+      expect(cron.dayOfWeekRestricted).toBe(true);
+    });
+
+    it("accepts month names and treats weekday 7 as Sunday", () => {
+      const cron = parseCron("0 0 * JAN,dec 7");
+
+      expect(Array.from(cron.months)).toEqual([1, 12]);
+      expect(Array.from(cron.daysOfWeek)).toEqual([0]);
+    });
+
+    it("expands macros", () => {
+      const cron = parseCron("@weekly");
+
+      expect(cron.source).toBe("@weekly");
+      expect(Array.from(cron.minutes)).toEqual([0]);
+      expect(Array.from(cron.daysOfWeek)).toEqual([0]);
+    });
+
+    it("rejects invalid expressions", () => {
+      expect(() => parseCron("* * * *")).toThrow("expected 5 fields, got 4");
+      expect(() => parseCron("60 * * * *")).toThrow("minute '60' out of range (0-59)");
+      expect(() => parseCron("5-1 * * * *")).toThrow("invalid minute range '5-1'");
+      expect(() => parseCron("*/0 * * * *")).toThrow("invalid minute step '0'");
+      expect(() => parseCron("0 0 * foo *")).toThrow("month 'foo' out of range");
+      expect(() => parseCron("0 0 31 2 *")).toThrow("no matching dates");
+    });
+  });
+
+  it("matchesCron compares wall-clock parts", () => {
+    const cron = parseCron("30 9 * * 1");
+
+    expect(
+      matchesCron(cron, { year: 2026, month: 10, day: 19, hour: 9, minute: 30, weekday: 1 })
+    ).toBe(true);
+    expect(
+      matchesCron(cron, { year: 2026, month: 10, day: 20, hour: 9, minute: 30, weekday: 2 })
+    ).toBe(false);
+  });
+
+  describe("getNextCronRun", () => {
+    it("finds the next matching minute in UTC", () => {
+      expect(next("*/15 * * * *", "2026-10-19T14:05:00Z")).toBe("2026-10-19T14:15:00.000Z");
+      expect(next("0 9 * * 1", "2026-10-19T14:05:00Z")).toBe("2026-10-26T09:00:00.000Z");
+      expect(next("@monthly", "2026-10-19T14:05:00Z")).toBe("2026-11-01T00:00:00.000Z");
+    });
+
+    it("is strictly after the given time", () => {
+      expect(next("0 9 * * *", "2026-10-19T09:00:00Z")).toBe("2026-10-20T09:00:00.000Z");
+      expect(next("0 9 * * *", "2026-10-19T08:59:30Z")).toBe("2026-10-19T09:00:00.000Z");
+    });
+
+    it("matches the wall clock of the timezone", () => {
+      expect(next("0 9 * * *", "2026-10-19T14:05:00Z", "America/New_York")).toBe(
+        "2026-10-20T13:00:00.000Z"
+      );
+      expect(next("0 9 * * *", "2026-10-19T00:00:00Z", "Asia/Kolkata")).toBe(
+        "2026-10-19T03:30:00.000Z"
+      );
+    });
+
+    it("keeps local time across DST changes", () => {
+      // Spring forward (March 8): 09:00 EDT is 13:00 UTC
+      expect(next("0 9 * * *", "2026-03-07T15:00:00Z", "America/New_York")).toBe(
+        "2026-03-08T13:00:00.000Z"
+      );
+      // 02:30 doesn't exist on March 8, so the next run is March 9
+      expect(next("30 2 * * *", "2026-03-07T12:00:00Z", "America/New_York")).toBe(
+        "2026-03-09T06:30:00.000Z"
+      );
+      // Fall back (November 1): 09:00 EST is 14:00 UTC
+      expect(next("0 9 * * *", "2026-10-31T14:00:00Z", "America/New_York")).toBe(
+        "2026-11-01T14:00:00.000Z"
+      );
+    });
+
+    it("matches either day field when both are restricted", () => {
+      // 1st of the month or Wednesday
+      expect(next("0 0 1 * 3", "2026-10-19T00:00:00Z")).toBe("2026-10-21T00:00:00.000Z");
+    });
+
+    it("finds rare dates", () => {
+      expect(next("0 0 29 2 *", "2026-10-19T00:00:00Z")).toBe("2028-02-29T00:00:00.000Z");
+    });
+  });
+
+  it("getDatePartsInTimezone reports local components", () => {
+    expect(getDatePartsInTimezone(new Date("2026-10-19T23:30:00Z"), "Asia/Tokyo")).toEqual({
+      year: 2026,
+      month: 10,
+      day: 20,
+      hour: 8,
+      minute: 30,
+      weekday: 2,
+    });
+    expect(getDatePartsInTimezone(new Date("2026-10-19T00:15:00Z"), "UTC").hour).toBe(0);
+  });
+});
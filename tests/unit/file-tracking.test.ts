@@ -0,0 +1,151 @@
+/**
+ * Unit tests for vault file change tracking
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import path from "path";
+import fs from "fs/promises";
+import {
+  isIgnoredPath,
+  snapshotVault,
+  diffSnapshots,
+  buildDiffPreview,
+} from "../../src/core/file-tracking.js";
+import { createTempDir, getTempDir, cleanupTempDir } from "../conftest";
+
+describe("File tracking", () => {
+  let vaultPath: string;
+
+  const write = async (relativePath: string, content: string | Buffer): Promise<void> => {
+    const fullPath = path.join(vaultPath, relativePath);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+  };
+
+  beforeEach(async () => {
+    await createTempDir();
+    vaultPath = path.join(getTempDir(), "vault");
+    await fs.mkdir(vaultPath, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir();
+  });
+
+  describe("isIgnoredPath", () => {
+    it("matches names anywhere when the pattern has no slash", () => {
+      expect(isIgnoredPath("node_modules/pkg/index.js", ["node_modules"])).toBe(true);
+      expect(isIgnoredPath("notes/draft.tmp", ["*.tmp"])).toBe(true);
+      expect(isIgnoredPath("notes/draft.md", ["*.tmp"])).toBe(false);
+    });
+
+    it("matches from the vault root when the pattern has a slash", () => {
+      expect(isIgnoredPath(".bozly/sessions/v/2026/a.json", [".bozly/sessions"])).toBe(true);
+      expect(isIgnoredPath("archive/.bozly/sessions/a.json", [".bozly/sessions"])).toBe(false);
+      expect(isIgnoredPath("attachments/2026/img.png", ["attachments/**"])).toBe(true);
+      expect(isIgnoredPath("notes/a/b/c.log", ["notes/**/*.log"])).toBe(true);
+      expect(isIgnoredPath("notes/c.log", ["notes/**/*.log"])).toBe(true);
+    });
+
+    it("skips blank and comment patterns", () => {
+      expect(isIgnoredPath("notes.md", ["", "# notes.md"])).toBe(false);
+    });
+  });
+
+  describe("snapshotVault", () => {
+    it("hashes files and skips default and configured ignores", async () => {
+      await write("notes/today.md", "# Today\n");
+      await write("scratch.tmp", "x");
+      await write(".bozly/context.md", "context");
+      await write(".bozly/sessions/v/session.json", "{}");
+      await write(".bozly/search-index.json", "{}");
+      await write(".bozly/memory-vectors.json", "{}");
+      await write(".git/HEAD", "ref");
+
+      const snapshot = await snapshotVault(vaultPath, ["*.tmp"]);
+
+      expect(Array.from(snapshot.keys())).toEqual([".bozly/context.md", "notes/today.md"]);
+      expect(snapshot.get("notes/today.md")).toMatchObject({ size: 8, content: "# Today\n" });
+      expect(snapshot.get("notes/today.md")?.hash).toMatch(/^[a-f0-9]{64}$/);
+    });
+
+    it("doesn't keep content of binary files", async () => {
+      await write("image.png", Buffer.from([0x89, 0x50, 0x00, 0x47]));
+
+      const snapshot = await snapshotVault(vaultPath);
+
+      expect(snapshot.get("image.png")?.content).toBeUndefined();
+      expect(snapshot.get("image.png")?.size).toBe(4);
+    });
+
+    it("hashes large files without keeping their content", async () => {
+      await write("export.csv", "a,b\n".repeat(50000));
+      const before = await snapshotVault(vaultPath);
+      await write("export.csv", "a,b\n".repeat(49999) + "a,c\n");
+
+      const snapshot = await snapshotVault(vaultPath);
+
+      expect(snapshot.get("export.csv")).toEqual({ hash: expect.any(String), size: 200000 });
+      expect(snapshot.get("export.csv")?.hash).not.toBe(before.get("export.csv")?.hash);
+    });
+
+    it("keeps content of small text files only", async () => {
+      await write("notes/long.md", "line\n".repeat(5000));
+
+      const snapshot = await snapshotVault(vaultPath);
+
+      expect(snapshot.get("notes/long.md")).toEqual({ hash: expect.any(String), size: 25000 });
+    });
+  });
+
+  describe("diffSnapshots", () => {
+    it("reports created, modified and deleted files", async () => {
+      await write("keep.md", "same\n");
+      await write("edit.md", "one\ntwo\nthree\n");
+      await write("remove.md", "bye\n");
+      const before = await snapshotVault(vaultPath);
+
+      await write("edit.md", "one\n2\nthree\n");
+      await fs.rm(path.join(vaultPath, "remove.md"));
+      await write("notes/new.md", "hello\n");
+      const after = await snapshotVault(vaultPath);
+
+      expect(diffSnapshots(before, after)).toEqual([
+        {
+          path: "edit.md",
+          action: "modified",
+          beforeSize: 14,
+          afterSize: 12,
+          diffPreview: "@@ line 2 @@\n- two\n+ 2",
+        },
+        { path: "notes/new.md", action: "created", afterSize: 6, diffPreview: "+ hello" },
+        { path: "remove.md", action: "deleted", beforeSize: 4, diffPreview: "- bye" },
+      ]);
+    });
+
+    it("returns nothing when the vault is unchanged", async () => {
+      await write("a.md", "a");
+
+      expect(diffSnapshots(await snapshotVault(vaultPath), await snapshotVault(vaultPath))).toEqual(
+        []
+      );
+    });
+  });
+
+  describe("buildDiffPreview", () => {
+    it("truncates long previews", () => {
+      const content = Array.from({ length: 30 }, (_, i) => `line ${i}`).join("\n");
+      const preview = buildDiffPreview(undefined, { hash: "h", size: 1, content });
+
+      const lines = preview?.split("\n") ?? [];
+      expect(lines).toHaveLength(21);
+      expect(lines[20]).toBe("... 10 more line(s)");
+    });
+
+    it("notes binary or large files", () => {
+      expect(buildDiffPreview({ hash: "a", size: 1 }, { hash: "b", size: 2 })).toBe(
+        "(binary or large file)"
+      );
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Unit tests for the HTTP provider (OpenAI-compatible and Ollama endpoints)
+ *
+ * Runs against a local mock server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import { executeHttpProvider, getHttpProviderEndpoint } from "../../src/core/http-provider.js";
+import type { ProviderHttpConfig } from "../../src/core/providers.js";
+
+interface Received {
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+type Handler = (req: Received, res: http.ServerResponse) => void;
+
+describe("HTTP provider", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let received: Received;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let data = "";
+      req.on("data", (chunk) => (data += chunk));
+      req.on("end", () => {
+        received = { url: req.url, headers: req.headers, body: JSON.parse(data || "{}") };
+        handler(received, res);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const provider = (http: Omit<ProviderHttpConfig, "baseUrl">, defaultModel = "test-model") => ({
+    displayName: "Mock",
+    defaultModel,
+    http: { baseUrl, ...http },
+  });
+
+  describe("getHttpProviderEndpoint", () => {
+    it("builds the endpoint for each API", () => {
+      expect(getHttpProviderEndpoint({ api: "openai", baseUrl: "http://h:1" })).toBe(
+        "http://h:1/v1/chat/completions"
+      );
+      expect(getHttpProviderEndpoint({ api: "openai", baseUrl: "https://h/v1/" })).toBe(
+        "https://h/v1/chat/completions"
+      );
+      expect(getHttpProviderEndpoint({ api: "ollama", baseUrl: "http://h:11434" })).toBe(
+        "http://h:11434/api/generate"
+      );
+    });
+  });
+
+  describe("OpenAI-compatible", () => {
+    const originalKey = process.env.MOCK_API_KEY;
+
+    beforeEach(() => {
+      process.env.MOCK_API_KEY = "secret";
+    });
+
+    afterEach(() => {
+      if (originalKey === undefined) {
+        delete process.env.MOCK_API_KEY;
+      } else {
+        process.env.MOCK_API_KEY = originalKey;
+      }
+    });
+
+    it("streams tokens and captures usage", async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.write('data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n');
+        res.write('data: {"choices":[{"delta":{"content":"lo"}}]}\n\n');
+        res.write(
+          'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2,"total_tokens":14}}\n\n'
+        );
+        res.end("data: [DONE]\n\n");
+      };
+      const tokens: string[] = [];
+
+      const result = await executeHttpProvider(
+        provider({ api: "openai", apiKeyEnv: "MOCK_API_KEY" }),
+        "Say hello",
+        { model: "gpt-4o-mini", onToken: (t) => tokens.push(t) }
+      );
+
+      expect(result.output).toBe("Hello");
+      expect(tokens).toEqual(["Hel", "lo"]);
+      expect(result.usage).toEqual({ promptTokens: 12, completionTokens: 2, totalTokens: 14 });
+      expect(received.url).toBe("/v1/chat/completions");
+      expect(received.headers.authorization).toBe("Bearer secret");
+      expect(received.body).toMatchObject({
+        model: "gpt-4o-mini",
+        messages: [{ role: "user", content: "Say hello" }],
+        stream: true,
+      });
+    });
+
+    it("reads a complete response when streaming is off", async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            choices: [{ message: { content: "Done" } }],
+            usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 },
+          })
+        );
+      };
+
+      const result = await executeHttpProvider(
+        provider({ api: "openai", apiKeyEnv: "MOCK_API_KEY", stream: false }),
+        "Go"
+      );
+
+      expect(result).toEqual({
+        output: "Done",
+        usage: { promptTokens: 5, completionTokens: 1, totalTokens: 6 },
+      });
+      expect(received.body.model).toBe("test-model");
+      expect(received.body.stream).toBe(false);
+    });
+
+    it("requires the API key variable to be set", async () => {
+      delete process.env.MOCK_API_KEY;
+
+      await expect(
+        executeHttpProvider(provider({ api: "openai", apiKeyEnv: "MOCK_API_KEY" }), "Go")
+      ).rejects.toThrow("Mock requires an API key in $MOCK_API_KEY");
+    });
+
+    it("reports HTTP errors with the response body", async () => {
+      handler = (_req, res) => {
+        res.writeHead(401);
+        res.end("invalid key");
+      };
+
+      await expect(executeHttpProvider(provider({ api: "openai" }), "Go")).rejects.toThrow(
+        "Mock returned HTTP 401: invalid key"
+      );
+    });
+
+    it("reports errors sent in the stream or the response", async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { "Content-Type": "text/event-stream" });
+        res.write('data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n');
+        res.write('data: {"error":{"message":"Rate limit reached","type":"requests"}}\n\n');
+      };
+
+      await expect(
+        executeHttpProvider(provider({ api: "openai", apiKeyEnv: "MOCK_API_KEY" }), "Go")
+      ).rejects.toThrow("Mock returned an error: Rate limit reached");
+
+      handler = (_req, res) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "Model overloaded" } }));
+      };
+
+      await expect(
+        executeHttpProvider(
+          provider({ api: "openai", apiKeyEnv: "MOCK_API_KEY", stream: false }),
+          "Go"
+        )
+      ).rejects.toThrow("Mock returned an error: Model overloaded");
+    });
+  });
+
+  describe("Ollama", () => {
+    it("streams NDJSON and sums eval counts", async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+        res.write('{"response":"Hi","done":false}\n{"response":" there",');
+        res.end(
+          '"done":false}\n{"response":"","done":true,"prompt_eval_count":20,"eval_count":3}\n'
+        );
+      };
+
+      const result = await executeHttpProvider(provider({ api: "ollama" }, "llama3"), "Greet");
+
+      expect(result.output).toBe("Hi there");
+      expect(result.usage).toEqual({ promptTokens: 20, completionTokens: 3, totalTokens: 23 });
+      expect(received.url).toBe("/api/generate");
+      expect(received.body).toEqual({ model: "llama3", prompt: "Greet", stream: true });
+    });
+
+    it("reports errors sent in the stream", async () => {
+      handler = (_req, res) => {
+        res.writeHead(200, { "Content-Type": "application/x-ndjson" });
+        res.end('{"error":"model \'llama9\' not found"}\n');
+      };
+
+      await expect(
+        executeHttpProvider(provider({ api: "ollama" }, "llama9"), "Greet")
+      ).rejects.toThrow("Mock returned an error: model 'llama9' not found");
+    });
+
+    it("needs a model", async () => {
+      await expect(executeHttpProvider(provider({ api: "ollama" }, ""), "Go")).rejects.toThrow(
+        "Mock needs a model"
+      );
+    });
+  });
+
+  it("times out slow servers", async () => {
+    handler = () => undefined;
+
+    await expect(
+      executeHttpProvider(provider({ api: "ollama" }), "Go", { timeoutMs: 50 })
+    ).rejects.toThrow("Mock timed out after 50ms");
+  });
+
+  it("reports unreachable servers", async () => {
+    await expect(
+      executeHttpProvider(
+        {
+          displayName: "Mock",
+          defaultModel: "m",
+          http: { api: "ollama", baseUrl: "http://127.0.0.1:1" },
+        },
+        "Go"
+      )
+    ).rejects.toThrow(/^Failed to reach Mock:/);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for memory embeddings and similarity-based memory retrieval
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "path";
+import fs from "fs/promises";
+import {
+  HashingEmbedder,
+  MemoryEmbedder,
+  MemoryVectorStore,
+  MEMORY_VECTORS_FILE,
+  cosineSimilarity,
+  createMemoryEmbedder,
+} from "../../src/memory/embeddings.js";
+import { MemoryLoader } from "../../src/memory/loader.js";
+import { recordSession, loadPastMemories } from "../../src/core/sessions.js";
+import { createTempDir, getTempDir } from "../conftest";
+
+describe("HashingEmbedder", () => {
+  it("gives related texts more similar vectors", async () => {
+    const embedder = new HashingEmbedder();
+    const [mixing, mastering, taxes] = await embedder.embed([
+      "Mixed the drums and bass for the new track",
+      "Mastering the new track: bass and drums levels",
+      "Filed the quarterly tax return",
+    ]);
+
+    expect(mixing).toHaveLength(512);
+    expect(cosineSimilarity(mixing, mastering)).toBeGreaterThan(cosineSimilarity(mixing, taxes));
+    expect(cosineSimilarity(mixing, mixing)).toBeCloseTo(1);
+  });
+
+  it("names its vector space after its size", () => {
+    expect(new HashingEmbedder(64).id).toBe("hashing-64");
+    expect(createMemoryEmbedder().id).toBe("hashing-512");
+    expect(createMemoryEmbedder({ embedder: "ollama", model: "all-minilm" }).id).toBe(
+      "ollama:all-minilm"
+    );
+  });
+});
+
+describe("cosineSimilarity", () => {
+  it("handles mismatched and zero vectors", () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    expect(cosineSimilarity([1, 0], [-1, 0])).toBe(-1);
+  });
+});
+
+describe("MemoryVectorStore", () => {
+  let embedded: string[];
+  const countingEmbedder: MemoryEmbedder = {
+    id: "counting",
+    embed: (texts) => {
+      embedded.push(...texts);
+      return Promise.resolve(texts.map((text) => [text.length, 1]));
+    },
+  };
+
+  beforeEach(async () => {
+    await createTempDir();
+    embedded = [];
+  });
+
+  it("embeds only new and changed memories", async () => {
+    const store = new MemoryVectorStore(getTempDir(), countingEmbedder);
+    await store.getVectors([
+      { id: "a", text: "one" },
+      { id: "b", text: "two" },
+    ]);
+    await store.save();
+
+    const reloaded = new MemoryVectorStore(getTempDir(), countingEmbedder);
+    await reloaded.load();
+    const vectors = await reloaded.getVectors([
+      { id: "a", text: "one" },
+      { id: "b", text: "two, edited" },
+    ]);
+
+    expect(embedded).toEqual(["one", "two", "two, edited"]);
+    expect(vectors.get("b")).toEqual([11, 1]);
+  });
+
+  it("discards vectors of another embedder", async () => {
+    const store = new MemoryVectorStore(getTempDir(), countingEmbedder);
+    await store.getVectors([{ id: "a", text: "one" }]);
+    await store.save();
+
+    const other = new MemoryVectorStore(getTempDir(), { ...countingEmbedder, id: "other" });
+    await other.load();
+    await other.getVectors([{ id: "a", text: "one" }]);
+
+    expect(embedded).toEqual(["one", "one"]);
+  });
+});
+
+describe("similarity-based memory retrieval", () => {
+  let vaultPath: string;
+  let bozlyPath: string;
+
+  const record = (command: string, commandText: string, output: string) =>
+    recordSession(
+      vaultPath,
+      "studio",
+      "Studio",
+      command,
+      "claude",
+      { contextText: "Context", commandText },
+      { text: output, duration: 100 }
+    );
+
+  beforeEach(async () => {
+    await createTempDir();
+    vaultPath = getTempDir();
+    bozlyPath = path.join(vaultPath, ".bozly");
+    await record("mix-review", "Review the mix", "The kick drum masks the bass guitar.");
+    await record("budget", "Plan the budget", "Studio rent and gear costs for next quarter.");
+    await record("daily", "Summarize the day", "Cleaned the studio and backed up projects.");
+  });
+
+  it("ranks memories by similarity to the command and caches their vectors", async () => {
+    const ranked = await MemoryLoader.rankSimilarMemories(
+      bozlyPath,
+      "studio",
+      "mix-review\nCheck the bass and kick drum balance"
+    );
+
+    expect(ranked).toHaveLength(3);
+    expect(ranked[0].entry.command).toBe("mix-review");
+    expect(ranked[0].similarity).toBeGreaterThan(ranked[1].similarity);
+    await expect(fs.access(path.join(bozlyPath, MEMORY_VECTORS_FILE))).resolves.toBeUndefined();
+  });
+
+  it("loads the most relevant memories for a query", async () => {
+    const memories = await loadPastMemories(bozlyPath, "studio", 1, "budget\nGear costs");
+
+    expect(memories).toHaveLength(1);
+    expect(memories[0]).toContain("budget");
+  });
+
+  it("falls back to recent memories when the embedder fails", async () => {
+    await fs.writeFile(
+      path.join(bozlyPath, "config.json"),
+      JSON.stringify({
+        memory: {
+          retrieval: { embedder: "ollama", baseUrl: "http://127.0.0.1:9", timeoutMs: 2000 },
+        },
+      })
+    );
+
+    const memories = await loadPastMemories(bozlyPath, "studio", 2, "budget");
+
+    expect(memories).toHaveLength(2);
+  });
+});
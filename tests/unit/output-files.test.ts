@@ -0,0 +1,151 @@
+/**
+ * Unit tests for writing AI output file blocks into the vault
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import path from "path";
+import fs from "fs/promises";
+import {
+  parseOutputFileBlocks,
+  planOutputFileWrites,
+  applyOutputFileWrites,
+} from "../../src/core/output-files.js";
+import { createTempDir, getTempDir, cleanupTempDir } from "../conftest";
+
+describe("Output files", () => {
+  let vaultPath: string;
+
+  beforeEach(async () => {
+    await createTempDir();
+    vaultPath = path.join(getTempDir(), "vault");
+    await fs.mkdir(path.join(vaultPath, ".bozly"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir();
+  });
+
+  describe("parseOutputFileBlocks", () => {
+    it("parses file blocks and their modes", () => {
+      const output = [
+        "Here are your notes:",
+        "```file:notes/today.md",
+        "# Today",
+        "```",
+        "",
+        "```file:log.md append",
+        "- entry",
+        "```",
+        "```markdown",
+        "not a file",
+        "```",
+      ].join("\n");
+
+      expect(parseOutputFileBlocks(output)).toEqual([
+        { path: "notes/today.md", content: "# Today\n", mode: undefined },
+        { path: "log.md", content: "- entry\n", mode: "append" },
+      ]);
+    });
+
+    it("supports tilde fences and nested backtick fences", () => {
+      const output = ["~~~file:code.md", "```js", "x();", "```", "~~~"].join("\n");
+
+      expect(parseOutputFileBlocks(output)).toEqual([
+        { path: "code.md", content: "```js\nx();\n```\n", mode: undefined },
+      ]);
+    });
+
+    it("ignores blocks without a closing fence", () => {
+      expect(parseOutputFileBlocks("```file:cut.md\npartial")).toEqual([]);
+    });
+  });
+
+  describe("planOutputFileWrites", () => {
+    it("rejects paths outside the vault and into .bozly", async () => {
+      const writes = await planOutputFileWrites(vaultPath, [
+        { path: "/etc/passwd", content: "x" },
+        { path: "../escape.md", content: "x" },
+        { path: ".bozly/config.json", content: "x" },
+        { path: "notes/ok.md", content: "x" },
+      ]);
+
+      expect(writes.map((w) => [w.path, w.error])).toEqual([
+        ["/etc/passwd", "absolute paths aren't allowed"],
+        ["../escape.md", "path is outside the vault"],
+        [".bozly/config.json", "can't write into .bozly/"],
+        ["notes/ok.md", undefined],
+      ]);
+    });
+
+    it("rejects paths that escape through a symlink", async () => {
+      const outside = path.join(getTempDir(), "outside");
+      await fs.mkdir(outside);
+      await fs.symlink(outside, path.join(vaultPath, "link"));
+
+      const [write] = await planOutputFileWrites(vaultPath, [{ path: "link/a.md", content: "x" }]);
+
+      expect(write.error).toBe("path resolves outside the vault");
+    });
+
+    it("uses the default mode and notes existing files", async () => {
+      await fs.writeFile(path.join(vaultPath, "log.md"), "old\n");
+
+      const [write] = await planOutputFileWrites(
+        vaultPath,
+        [{ path: "log.md", content: "new\n" }],
+        "append"
+      );
+
+      expect(write).toMatchObject({ mode: "append", exists: true, beforeSize: 4 });
+    });
+  });
+
+  describe("applyOutputFileWrites", () => {
+    it("creates, appends and overwrites files", async () => {
+      await fs.writeFile(path.join(vaultPath, "log.md"), "old\n");
+      await fs.writeFile(path.join(vaultPath, "replace.md"), "before\n");
+
+      const writes = await planOutputFileWrites(vaultPath, [
+        { path: "notes/new.md", content: "hello\n" },
+        { path: "log.md", content: "more\n", mode: "append" },
+        { path: "replace.md", content: "after\n" },
+        { path: "../nope.md", content: "x" },
+      ]);
+      const changes = await applyOutputFileWrites(writes);
+
+      expect(await fs.readFile(path.join(vaultPath, "notes/new.md"), "utf-8")).toBe("hello\n");
+      expect(await fs.readFile(path.join(vaultPath, "log.md"), "utf-8")).toBe("old\nmore\n");
+      expect(await fs.readFile(path.join(vaultPath, "replace.md"), "utf-8")).toBe("after\n");
+      expect(changes).toEqual([
+        { path: "notes/new.md", action: "created", afterSize: 6, diffPreview: "+ hello" },
+        {
+          path: "log.md",
+          action: "modified",
+          beforeSize: 4,
+          afterSize: 9,
+          diffPreview: "@@ line 2 @@\n+ more",
+        },
+        {
+          path: "replace.md",
+          action: "modified",
+          beforeSize: 7,
+          afterSize: 6,
+          diffPreview: "@@ line 1 @@\n- before\n+ after",
+        },
+      ]);
+    });
+
+    it("reports several blocks for one file as a single change", async () => {
+      const writes = await planOutputFileWrites(vaultPath, [
+        { path: "list.md", content: "a\n" },
+        { path: "list.md", content: "b\n", mode: "append" },
+      ]);
+
+      const changes = await applyOutputFileWrites(writes);
+
+      expect(await fs.readFile(path.join(vaultPath, "list.md"), "utf-8")).toBe("a\nb\n");
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({ path: "list.md", action: "created", afterSize: 4 });
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Provider invocation tests
+ *
+ * Tests args templating, input modes and output post-processing
+ */
+
+import { describe, it, expect } from "vitest";
+import fs from "fs/promises";
+import {
+  prepareProviderInvocation,
+  cleanupProviderInvocation,
+  processProviderOutput,
+} from "../../src/core/provider-invocation.js";
+
+describe("Provider invocation", () => {
+  describe("prepareProviderInvocation", () => {
+    it("sends the prompt via stdin by default", async () => {
+      const invocation = await prepareProviderInvocation(
+        { command: "claude", args: ["-p"] },
+        "Hello"
+      );
+
+      expect(invocation.command).toBe("claude");
+      expect(invocation.args).toEqual(["-p"]);
+      expect(invocation.input).toBe("Hello");
+      expect(invocation.promptFile).toBeUndefined();
+    });
+
+    it("appends modelArgs only when a model is set", async () => {
+      const config = { command: "claude", args: ["-p"], modelArgs: ["--model", "{{model}}"] };
+
+      expect((await prepareProviderInvocation(config, "x")).args).toEqual(["-p"]);
+      expect((await prepareProviderInvocation(config, "x", { model: "opus" })).args).toEqual([
+        "-p",
+        "--model",
+        "opus",
+      ]);
+    });
+
+    it("uses the default model", async () => {
+      const invocation = await prepareProviderInvocation(
+        { command: "ollama", args: ["run"], modelArgs: ["{{model}}"], defaultModel: "llama2" },
+        "x"
+      );
+
+      expect(invocation.args).toEqual(["run", "llama2"]);
+    });
+
+    it("drops args that render empty", async () => {
+      const invocation = await prepareProviderInvocation(
+        { command: "llm", args: ["{{ model }}", "--no-stream"] },
+        "x"
+      );
+
+      expect(invocation.args).toEqual(["--no-stream"]);
+    });
+
+    it("writes the prompt to a temp file in file mode", async () => {
+      const invocation = await prepareProviderInvocation(
+        { command: "aider", args: ["--message-file={{promptFile}}", "--yes"], inputMode: "file" },
+        "Refactor this"
+      );
+
+      expect(invocation.input).toBeUndefined();
+      expect(invocation.args).toEqual([`--message-file=${invocation.promptFile}`, "--yes"]);
+      expect(await fs.readFile(invocation.promptFile!, "utf-8")).toBe("Refactor this");
+
+      await cleanupProviderInvocation(invocation);
+      await expect(fs.access(invocation.promptFile!)).rejects.toThrow();
+    });
+
+    it("appends the prompt file when args don't reference it", async () => {
+      const invocation = await prepareProviderInvocation(
+        { command: "wrapper", args: ["run"], inputMode: "file" },
+        "x"
+      );
+
+      expect(invocation.args).toEqual(["run", invocation.promptFile]);
+      await cleanupProviderInvocation(invocation);
+    });
+
+    it("passes the prompt as an argument in arg mode", async () => {
+      const appended = await prepareProviderInvocation(
+        { command: "codex", args: ["exec"], inputMode: "arg" },
+        "Fix the bug"
+      );
+      const templated = await prepareProviderInvocation(
+        { command: "llm", args: ["prompt", "{{prompt}}", "-x"], inputMode: "arg" },
+        "Fix the bug"
+      );
+
+      expect(appended.args).toEqual(["exec", "Fix the bug"]);
+      expect(appended.input).toBeUndefined();
+      expect(templated.args).toEqual(["prompt", "Fix the bug", "-x"]);
+    });
+
+    it("merges provider environment variables", async () => {
+      const invocation = await prepareProviderInvocation(
+        { command: "llm", args: [], envVars: { LLM_USER_PATH: "/tmp/llm" } },
+        "x"
+      );
+
+      expect(invocation.env.LLM_USER_PATH).toBe("/tmp/llm");
+      expect(invocation.env.PATH).toBe(process.env.PATH);
+    });
+  });
+
+  describe("processProviderOutput", () => {
+    it("returns output unchanged without config", () => {
+      expect(processProviderOutput("  raw  ", undefined)).toBe("  raw  ");
+    });
+
+    it("strips ANSI codes and trims", () => {
+      expect(
+        processProviderOutput("\u001b[32mDone\u001b[0m\n\n", { stripAnsi: true, trim: true })
+      ).toBe("Done");
+    });
+
+    it("extracts a JSON path", () => {
+      const output = JSON.stringify({ choices: [{ message: { content: "Hi" } }] });
+
+      expect(processProviderOutput(output, { json: "choices.0.message.content" })).toBe("Hi");
+      expect(processProviderOutput(output, { json: "choices.0" })).toContain('"content": "Hi"');
+      expect(() => processProviderOutput("nope", { json: "a" })).toThrow("not valid JSON");
+    });
+
+    it("extracts with a regex", () => {
+      const output = "log line\n<answer>42</answer>\n";
+
+      expect(processProviderOutput(output, { extract: "<answer>([\\s\\S]*?)</answer>" })).toBe(
+        "42"
+      );
+      expect(processProviderOutput(output, { extract: "\\d+" })).toBe("42");
+      expect(processProviderOutput(output, { extract: "missing" })).toBe(output);
+    });
+  });
+});
@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { execSync } from "child_process";
+import { execFileSync } from "child_process";
+import fs from "fs/promises";
+import path from "path";
+import { createTempDir, getTempDir, cleanupTempDir } from "../conftest";
 import {
   getProviderConfig,
   isProviderAvailable,
@@ -10,9 +13,11 @@ import {
   validateProvider,
   getProviderStatus,
   formatProvidersList,
+  loadUserProviders,
+  parseProviderDefinition,
 } from "../../src/core/providers.js";
 
-// Mock execSync to control provider installation status
+// Mock execFileSync to control provider installation status
 vi.mock("child_process");
 
 describe("Provider Management Module", () => {
@@ -26,7 +31,7 @@ describe("Provider Management Module", () => {
 
   describe("getProviderConfig", () => {
     it("should return config for valid provider", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const config = getProviderConfig("claude");
 
       expect(config).toBeDefined();
@@ -40,7 +45,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should handle case-insensitive provider names", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const config1 = getProviderConfig("CLAUDE");
       const config2 = getProviderConfig("Claude");
       const config3 = getProviderConfig("claude");
@@ -51,7 +56,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should return all known provider configs", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const providers = ["claude", "gpt", "gemini", "ollama"];
 
       for (const provider of providers) {
@@ -80,13 +85,13 @@ describe("Provider Management Module", () => {
     });
 
     it("should detect installed provider", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const config = getProviderConfig("claude");
       expect(config.installed).toBe(true);
     });
 
     it("should detect uninstalled provider", () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
       const config = getProviderConfig("claude");
@@ -94,7 +99,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should use correct which command on Unix", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       Object.defineProperty(process, "platform", {
         value: "darwin",
         configurable: true,
@@ -102,13 +107,13 @@ describe("Provider Management Module", () => {
 
       getProviderConfig("claude");
 
-      expect(execSync).toHaveBeenCalledWith("which claude", {
+      expect(execFileSync).toHaveBeenCalledWith("which", ["claude"], {
         stdio: "ignore",
       });
     });
 
     it("should use where command on Windows", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       Object.defineProperty(process, "platform", {
         value: "win32",
         configurable: true,
@@ -116,7 +121,7 @@ describe("Provider Management Module", () => {
 
       getProviderConfig("claude");
 
-      expect(execSync).toHaveBeenCalledWith("where claude", {
+      expect(execFileSync).toHaveBeenCalledWith("where", ["claude"], {
         stdio: "ignore",
       });
     });
@@ -124,12 +129,12 @@ describe("Provider Management Module", () => {
 
   describe("isProviderAvailable", () => {
     it("should return true for installed provider", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       expect(isProviderAvailable("claude")).toBe(true);
     });
 
     it("should return false for uninstalled provider", () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
       expect(isProviderAvailable("claude")).toBe(false);
@@ -141,7 +146,7 @@ describe("Provider Management Module", () => {
 
     it("should handle multiple provider checks", () => {
       let callCount = 0;
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         callCount++;
         if (callCount === 1) {
           return ""; // First provider installed
@@ -157,7 +162,7 @@ describe("Provider Management Module", () => {
 
   describe("listProviders", () => {
     it("should return all provider configs", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const providers = listProviders();
 
       expect(providers.length).toBeGreaterThan(0);
@@ -166,7 +171,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should include known providers in list", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const providers = listProviders();
       const names = providers.map((p) => p.name);
 
@@ -178,7 +183,7 @@ describe("Provider Management Module", () => {
 
     it("should set installed status for each provider", () => {
       let callCount = 0;
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         callCount++;
         // Alternate between installed and not installed
         if (callCount % 2 === 1) {
@@ -197,7 +202,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should not include providers that throw errors", () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("unexpected error");
       });
 
@@ -210,7 +215,7 @@ describe("Provider Management Module", () => {
   describe("getInstalledProviders", () => {
     it("should return only installed providers", () => {
       let callCount = 0;
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         callCount++;
         // Every other one is installed
         return callCount % 2 === 1 ? "" : (() => { throw new Error(); })();
@@ -221,7 +226,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should return empty array if no providers installed", () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
 
@@ -231,7 +236,7 @@ describe("Provider Management Module", () => {
 
     it("should filter out uninstalled providers", () => {
       let callCount = 0;
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         callCount++;
         if (callCount === 1) return ""; // claude installed
         throw new Error("not found"); // others not installed
@@ -245,7 +250,7 @@ describe("Provider Management Module", () => {
 
   describe("getDefaultProvider", () => {
     it("should return first installed provider", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const defaultProvider = getDefaultProvider();
 
       expect(defaultProvider).toBeTruthy();
@@ -253,7 +258,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should return claude as fallback when no providers installed", () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
 
@@ -263,7 +268,7 @@ describe("Provider Management Module", () => {
 
     it("should prefer installed provider over fallback", () => {
       let callCount = 0;
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         callCount++;
         if (callCount === 2) return ""; // gpt is second, so it's the first installed
         throw new Error("not found");
@@ -276,7 +281,7 @@ describe("Provider Management Module", () => {
 
   describe("getSetupInstructions", () => {
     it("should return setup instructions for valid provider", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const instructions = getSetupInstructions("claude");
 
       expect(instructions).toContain("Claude");
@@ -285,14 +290,14 @@ describe("Provider Management Module", () => {
     });
 
     it("should include provider name in message", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const instructions = getSetupInstructions("gpt");
 
       expect(instructions).toContain("ChatGPT");
     });
 
     it("should include retry command", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const instructions = getSetupInstructions("claude");
 
       expect(instructions).toContain("bozly run");
@@ -304,7 +309,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should include setup instructions from config", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const instructions = getSetupInstructions("ollama");
 
       expect(instructions).toContain("ollama serve");
@@ -314,12 +319,12 @@ describe("Provider Management Module", () => {
 
   describe("validateProvider", () => {
     it("should not throw for installed provider", async () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       await expect(validateProvider("claude")).resolves.toBeUndefined();
     });
 
     it("should throw for uninstalled provider by default", async () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
 
@@ -329,7 +334,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should allow uninstalled provider when allowUnavailable=true", async () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
 
@@ -340,7 +345,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should log warning for unavailable provider in testing mode", async () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
 
@@ -350,7 +355,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should include setup instructions in error when strict", async () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
 
@@ -373,14 +378,14 @@ describe("Provider Management Module", () => {
     });
 
     it("should log debug message for valid provider", async () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       await validateProvider("claude");
       // Validation succeeds without error
       expect(true).toBe(true);
     });
 
     it("should accept allowUnavailable parameter", async () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
 
@@ -390,7 +395,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should default to strict mode (allowUnavailable=false)", async () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
 
@@ -401,7 +406,7 @@ describe("Provider Management Module", () => {
 
   describe("getProviderStatus", () => {
     it("should return status for installed provider", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const status = getProviderStatus("claude");
 
       expect(status).toContain("Claude");
@@ -409,7 +414,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should return status for uninstalled provider", () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("not found");
       });
       const status = getProviderStatus("claude");
@@ -419,7 +424,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should use display name not provider name", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const status = getProviderStatus("gpt");
 
       expect(status).toContain("ChatGPT");
@@ -427,7 +432,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should format as displayName (status)", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const status = getProviderStatus("ollama");
 
       expect(status).toMatch(/Ollama \(Local\) \((installed|not installed)\)/);
@@ -440,7 +445,7 @@ describe("Provider Management Module", () => {
 
   describe("formatProvidersList", () => {
     it("should return formatted string for all providers", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const formatted = formatProvidersList();
 
       expect(typeof formatted).toBe("string");
@@ -448,7 +453,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should include all known providers", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const formatted = formatProvidersList();
 
       expect(formatted).toContain("Claude");
@@ -458,7 +463,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should show status symbols", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const formatted = formatProvidersList();
 
       // Should contain status indicators
@@ -466,7 +471,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should include usage instructions", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const formatted = formatProvidersList();
 
       expect(formatted).toContain("bozly run");
@@ -475,7 +480,7 @@ describe("Provider Management Module", () => {
 
     it("should distinguish installed from not installed", () => {
       let callCount = 0;
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         callCount++;
         if (callCount === 1) return ""; // claude installed
         throw new Error("not found"); // others not installed
@@ -488,7 +493,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should format as multiline string", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const formatted = formatProvidersList();
 
       expect(formatted.includes("\n")).toBe(true);
@@ -497,7 +502,7 @@ describe("Provider Management Module", () => {
 
   describe("Provider Integration", () => {
     it("should work with getProviderConfig and listProviders together", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const providers = listProviders();
       const configs = providers.map((p) => getProviderConfig(p.name));
 
@@ -508,7 +513,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should maintain consistency between list and get", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const listed = getProviderConfig("claude");
       const fromList = listProviders().find((p) => p.name === "claude");
 
@@ -518,7 +523,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should handle multiple status checks correctly", () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const status1 = getProviderStatus("claude");
       const status2 = getProviderStatus("claude");
 
@@ -526,7 +531,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should work with validation and config", async () => {
-      vi.mocked(execSync).mockImplementation(() => "");
+      vi.mocked(execFileSync).mockImplementation(() => "");
       const config = getProviderConfig("claude");
 
       await validateProvider("claude");
@@ -535,8 +540,8 @@ describe("Provider Management Module", () => {
   });
 
   describe("Error Handling", () => {
-    it("should handle execSync errors gracefully", () => {
-      vi.mocked(execSync).mockImplementation(() => {
+    it("should handle execFileSync errors gracefully", () => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("ENOENT: command not found");
       });
 
@@ -545,7 +550,7 @@ describe("Provider Management Module", () => {
     });
 
     it("should not throw on listing when provider detection fails", () => {
-      vi.mocked(execSync).mockImplementation(() => {
+      vi.mocked(execFileSync).mockImplementation(() => {
         throw new Error("unexpected error");
       });
 
@@ -553,13 +558,191 @@ describe("Provider Management Module", () => {
     });
 
     it("should handle stdio redirect correctly", () => {
-      vi.mocked(execSync).mockImplementation((_cmd, opts) => {
+      vi.mocked(execFileSync).mockImplementation((_file, _args, opts) => {
         expect(opts).toHaveProperty("stdio", "ignore");
         return "";
       });
 
       getProviderConfig("claude");
-      expect(execSync).toHaveBeenCalled();
+      expect(execFileSync).toHaveBeenCalled();
+    });
+  });
+
+  describe("User-defined providers", () => {
+    let providersDir: string;
+    const originalHome = process.env.BOZLY_HOME;
+
+    beforeEach(async () => {
+      await createTempDir();
+      process.env.BOZLY_HOME = getTempDir();
+      providersDir = path.join(getTempDir(), "providers");
+      await fs.mkdir(providersDir, { recursive: true });
+      vi.mocked(execFileSync).mockImplementation(() => "");
+    });
+
+    afterEach(async () => {
+      if (originalHome === undefined) {
+        delete process.env.BOZLY_HOME;
+      } else {
+        process.env.BOZLY_HOME = originalHome;
+      }
+      await cleanupTempDir();
+    });
+
+    it("should load JSON and YAML definitions", async () => {
+      await fs.writeFile(
+        path.join(providersDir, "llm.json"),
+        JSON.stringify({
+          command: "llm",
+          args: ["-m", "{{model}}"],
+          defaultModel: "gpt-4o-mini",
+          inputMode: "arg",
+          envVars: { LLM_LOG: "0" },
+          timeout: 60000,
+          output: { trim: true },
+        })
+      );
+      await fs.writeFile(
+        path.join(providersDir, "aider.yaml"),
+        "displayName: Aider\ncommand: aider\nargs: [--message-file, '{{promptFile}}']\ninputMode: file\n"
+      );
+      await loadUserProviders();
+
+      const llm = getProviderConfig("llm");
+      expect(llm).toMatchObject({
+        name: "llm",
+        displayName: "llm",
+        command: "llm",
+        inputMode: "arg",
+        envVars: { LLM_LOG: "0" },
+        timeout: 60000,
+        source: "user",
+        installed: true,
+      });
+      expect(getProviderConfig("aider")).toMatchObject({
+        displayName: "Aider",
+        args: ["--message-file", "{{promptFile}}"],
+        inputMode: "file",
+      });
+      expect(listProviders().map((p) => p.name)).toEqual(
+        expect.arrayContaining(["claude", "ollama", "llm", "aider"])
+      );
+      expect(formatProvidersList()).toContain("Aider (custom)");
+    });
+
+    it("should pass the command to which as an argument, not through a shell", async () => {
+      Object.defineProperty(process, "platform", { value: "linux", configurable: true });
+      await fs.writeFile(
+        path.join(providersDir, "evil.json"),
+        JSON.stringify({ command: "foo; rm -rf ~" })
+      );
+      await loadUserProviders();
+
+      getProviderConfig("evil");
+
+      expect(execFileSync).toHaveBeenCalledWith("which", ["foo; rm -rf ~"], { stdio: "ignore" });
+    });
+
+    it("should let user definitions override built-in providers", async () => {
+      await fs.writeFile(
+        path.join(providersDir, "ollama.yml"),
+        "command: ollama\nargs: [run]\nmodelArgs: ['{{model}}']\ndefaultModel: mistral\n"
+      );
+      await loadUserProviders();
+
+      const config = getProviderConfig("ollama");
+      expect(config.defaultModel).toBe("mistral");
+      expect(config.source).toBe("user");
+    });
+
+    it("should read definitions once, when they are loaded", async () => {
+      await loadUserProviders();
+      await fs.writeFile(path.join(providersDir, "llm.json"), JSON.stringify({ command: "llm" }));
+
+      expect(() => getProviderConfig("llm")).toThrow("Unknown provider: llm");
+
+      await loadUserProviders();
+      expect(getProviderConfig("llm").source).toBe("user");
+    });
+
+    it("should ignore definitions loaded from another directory", async () => {
+      await fs.writeFile(path.join(providersDir, "llm.json"), JSON.stringify({ command: "llm" }));
+      await loadUserProviders();
+
+      process.env.BOZLY_HOME = path.join(getTempDir(), "other");
+
+      expect(() => getProviderConfig("llm")).toThrow("Unknown provider: llm");
+    });
+
+    it("should skip and report invalid definitions", async () => {
+      await fs.writeFile(path.join(providersDir, "broken.json"), "{ not json");
+      await fs.writeFile(path.join(providersDir, "nocmd.yaml"), "args: [-p]\n");
+      await fs.writeFile(path.join(providersDir, "notes.txt"), "ignored");
+
+      const { providers, errors } = await loadUserProviders();
+      expect(Object.keys(providers)).toEqual([]);
+      expect(errors.map((e) => path.basename(e.file))).toEqual(["broken.json", "nocmd.yaml"]);
+      expect(() => getProviderConfig("nocmd")).toThrow(
+        /Invalid provider definitions:[\s\S]*'command' is required/
+      );
+    });
+
+    it("should validate definition fields", () => {
+      expect(() => parseProviderDefinition("llm", "llm")).toThrow("must be an object");
+      expect(() => parseProviderDefinition({ command: "x", args: "-p" }, "x")).toThrow(
+        "'args' must be an array of strings"
+      );
+      expect(() => parseProviderDefinition({ command: "x", inputMode: "pipe" }, "x")).toThrow(
+        "'inputMode' must be one of: stdin, file, arg"
+      );
+      expect(() => parseProviderDefinition({ command: "x", timeout: -1 }, "x")).toThrow(
+        "'timeout' must be a positive number"
+      );
+      expect(() =>
+        parseProviderDefinition({ command: "x", output: { extract: "(" } }, "x")
+      ).toThrow("'output.extract' is not a valid regex");
+      expect(parseProviderDefinition({ command: "x", name: "Wrapper" }, "file")).toMatchObject({
+        name: "wrapper",
+        args: [],
+        inputMode: "stdin",
+      });
+    });
+
+    it("should load HTTP provider definitions without checking for a CLI", async () => {
+      vi.mocked(execFileSync).mockImplementation(() => {
+        throw new Error("not found");
+      });
+      await fs.writeFile(
+        path.join(providersDir, "lmstudio.yaml"),
+        "type: http\napi: openai\nbaseUrl: http://localhost:1234/\napiKeyEnv: LMSTUDIO_KEY\ndefaultModel: qwen2.5\n"
+      );
+      await loadUserProviders();
+
+      expect(getProviderConfig("lmstudio")).toMatchObject({
+        type: "http",
+        command: "http://localhost:1234",
+        defaultModel: "qwen2.5",
+        installed: true,
+        http: { api: "openai", baseUrl: "http://localhost:1234", apiKeyEnv: "LMSTUDIO_KEY" },
+      });
+    });
+
+    it("should validate HTTP provider fields", () => {
+      expect(() => parseProviderDefinition({ type: "rest" }, "x")).toThrow(
+        "'type' must be one of: cli, http"
+      );
+      expect(() =>
+        parseProviderDefinition({ type: "http", api: "anthropic", baseUrl: "http://x" }, "x")
+      ).toThrow("'api' must be one of: openai, ollama");
+      expect(() =>
+        parseProviderDefinition({ type: "http", api: "ollama", baseUrl: "localhost:11434" }, "x")
+      ).toThrow("'baseUrl' must be an http(s) URL");
+      expect(() =>
+        parseProviderDefinition(
+          { type: "http", api: "ollama", baseUrl: "http://x", stream: "yes" },
+          "x"
+        )
+      ).toThrow("'stream' must be true or false");
     });
   });
 });
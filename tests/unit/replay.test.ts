@@ -0,0 +1,157 @@
+/**
+ * Unit tests for replaying recorded sessions
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { EventEmitter } from "events";
+import path from "path";
+import fs from "fs/promises";
+import { replaySession } from "../../src/core/replay.js";
+import {
+  recordSession,
+  getSessionPath,
+  loadSessionFiles,
+  archiveSessionsByDate,
+} from "../../src/core/sessions.js";
+import { createTempDir, getTempDir } from "../conftest";
+import type { NodeInfo, Session } from "../../src/core/types.js";
+
+const mocks = vi.hoisted(() => ({
+  spawn: vi.fn(),
+}));
+
+vi.mock("child_process", () => ({ spawn: mocks.spawn }));
+
+vi.mock("../../src/core/providers.js", () => ({
+  validateProvider: vi.fn(async () => undefined),
+  getProviderConfig: vi.fn((name: string) => ({
+    name,
+    displayName: name.toUpperCase(),
+    command: name,
+    args: ["-p"],
+    installed: true,
+  })),
+}));
+
+vi.mock("../../src/core/hooks.js", () => ({
+  executeHooks: vi.fn(async () => []),
+}));
+
+function mockProcess(output: string): EventEmitter {
+  const proc = Object.assign(new EventEmitter(), {
+    stdin: { write: vi.fn(), end: vi.fn() },
+    stdout: Object.assign(new EventEmitter(), { setEncoding: vi.fn() }),
+    kill: vi.fn(),
+  });
+
+  setTimeout(() => {
+    proc.stdout.emit("data", output);
+    proc.emit("close", 0);
+  }, 5);
+  return proc;
+}
+
+async function readPrompt(session: Session): Promise<string | undefined> {
+  const files = await loadSessionFiles(
+    getSessionPath(
+      path.join(session.nodePath, ".bozly"),
+      session.nodeId,
+      session.timestamp,
+      session.id
+    )
+  );
+  return files?.promptTxt;
+}
+
+describe("Session replay", () => {
+  let vault: NodeInfo;
+  let original: Session;
+
+  beforeEach(async () => {
+    await createTempDir();
+    const vaultPath = path.join(getTempDir(), "vault");
+    await fs.mkdir(path.join(vaultPath, ".bozly"), { recursive: true });
+    await fs.writeFile(path.join(vaultPath, ".bozly", "context.md"), "# Current context");
+    vault = {
+      id: "vault",
+      name: "vault",
+      path: vaultPath,
+      type: "default",
+      active: true,
+      created: new Date().toISOString(),
+    };
+
+    original = await recordSession(
+      vault.path,
+      vault.id,
+      vault.name,
+      "daily",
+      "claude",
+      { contextText: "# Old context", commandText: "Summarize today." },
+      { text: "Line one\nLine two", duration: 100, model: "sonnet" }
+    );
+
+    mocks.spawn.mockImplementation((command: string) =>
+      mockProcess(`Line one\n${command} line two`)
+    );
+    vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+  });
+
+  it("re-runs the stored prompt verbatim against another provider", async () => {
+    const result = await replaySession(vault, original.id, { provider: "gpt" });
+
+    expect(mocks.spawn).toHaveBeenCalledTimes(1);
+    expect(mocks.spawn.mock.calls[0][0]).toBe("gpt");
+    expect(result.run.prompt).toBe(await readPrompt(original));
+    expect(result.run.model).toBeUndefined();
+
+    expect(result.session?.provider).toBe("gpt");
+    expect(result.session?.metadata?.replayOf).toBe(original.id);
+    expect(await readPrompt(result.session!)).toBe(result.run.prompt);
+  });
+
+  it("keeps the original model when replaying with the same provider", async () => {
+    const result = await replaySession(vault, original.id);
+
+    expect(result.run.provider).toBe("claude");
+    expect(result.run.model).toBe("sonnet");
+  });
+
+  it("diffs the original output against the replayed one", async () => {
+    const result = await replaySession(vault, original.id, { provider: "gpt" });
+
+    expect(result.outputDiff?.added).toBe(1);
+    expect(result.outputDiff?.removed).toBe(1);
+    expect(result.outputDiff?.unified).toContain("-Line two");
+    expect(result.outputDiff?.unified).toContain("+gpt line two");
+  });
+
+  it("swaps in the current context when asked", async () => {
+    const result = await replaySession(vault, original.id, {
+      currentContext: true,
+      dryRun: true,
+    });
+
+    expect(result.run.prompt).toContain("# Current context");
+    expect(result.run.prompt).not.toContain("# Old context");
+    expect(result.run.prompt).toContain("Summarize today.");
+    expect(result.session).toBeUndefined();
+    expect(mocks.spawn).not.toHaveBeenCalled();
+  });
+
+  it("replays archived sessions", async () => {
+    const prompt = await readPrompt(original);
+    await archiveSessionsByDate(
+      path.join(vault.path, ".bozly", "sessions"),
+      new Date(Date.now() + 60000)
+    );
+
+    const result = await replaySession(vault, original.id, { dryRun: true });
+
+    expect(result.run.prompt).toBe(prompt);
+  });
+
+  it("throws for an unknown session", async () => {
+    await expect(replaySession(vault, "missing")).rejects.toThrow("Session not found: missing");
+  });
+});
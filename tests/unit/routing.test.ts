@@ -13,14 +13,21 @@ import {
   clearProviderCache,
   getKnownProviders,
   validateProviderConfig,
+  scoreComplexity,
+  selectComplexityBand,
+  resolveProviderForRun,
+  ComplexityInput,
 } from "../../src/core/routing.js";
 import * as config from "../../src/core/config.js";
 import * as providers from "../../src/core/providers.js";
+import * as sessions from "../../src/core/sessions.js";
+import type { NodeCommand, NodeInfo } from "../../src/core/types.js";
 
 // Mock modules
 vi.mock("../../src/core/config.js");
 vi.mock("../../src/core/providers.js");
 vi.mock("../../src/core/logger.js");
+vi.mock("../../src/core/sessions.js");
 
 describe("Smart Routing", () => {
   beforeEach(() => {
@@ -394,4 +401,155 @@ describe("Smart Routing", () => {
       expect(result.selectedProvider).toBe("provider9");
     });
   });
+
+  describe("complexity-based routing", () => {
+    const noHistory = { totalSessions: 0, totalFailed: 0, averageDuration: 0 };
+    const input = (overrides: Partial<ComplexityInput> = {}): ComplexityInput => ({
+      promptSize: 0,
+      modelUsed: false,
+      tags: [],
+      history: noHistory,
+      ...overrides,
+    });
+
+    const bands = [
+      { provider: "claude", model: "opus" },
+      { maxScore: 20, provider: "ollama", model: "llama3" },
+      { maxScore: 50, provider: "gpt" },
+    ];
+
+    const node: NodeInfo = {
+      id: "vault",
+      name: "vault",
+      path: "/nonexistent/vault",
+      type: "default",
+      active: true,
+      created: "2025-01-01",
+    };
+    const command: NodeCommand = {
+      name: "analyze",
+      file: "analyze.md",
+      content: "x".repeat(10000),
+      model: "music-rating",
+      tags: ["analysis"],
+    };
+
+    it("scores an empty run as zero", () => {
+      const result = scoreComplexity(input());
+
+      expect(result.score).toBe(0);
+      expect(result.factors.map((f) => f.name)).toEqual([
+        "prompt-size",
+        "model",
+        "tags",
+        "duration",
+        "failures",
+      ]);
+    });
+
+    it("scores each factor within its maximum", () => {
+      const result = scoreComplexity(
+        input({
+          promptSize: 10000,
+          modelUsed: true,
+          tags: ["Analysis", "research", "unknown"],
+          history: { totalSessions: 10, totalFailed: 3, averageDuration: 30000 },
+        })
+      );
+      const scores = Object.fromEntries(result.factors.map((f) => [f.name, f.score]));
+
+      expect(scores).toEqual({
+        "prompt-size": 20,
+        model: 15,
+        tags: 20,
+        duration: 8,
+        failures: 3,
+      });
+      expect(result.score).toBe(66);
+      expect(result.factors[2].detail).toBe("Analysis +15, research +15");
+    });
+
+    it("caps prompt size and never lets tags go negative", () => {
+      const result = scoreComplexity(input({ promptSize: 1_000_000, tags: ["quick"] }));
+
+      expect(result.score).toBe(40);
+      expect(result.factors[2].score).toBe(0);
+    });
+
+    it("uses custom tag scores", () => {
+      const result = scoreComplexity(input({ tags: ["legal"] }), { legal: 12 });
+
+      expect(result.score).toBe(12);
+    });
+
+    it("selects the lowest band covering the score", () => {
+      expect(selectComplexityBand(10, bands)?.provider).toBe("ollama");
+      expect(selectComplexityBand(20, bands)?.provider).toBe("ollama");
+      expect(selectComplexityBand(21, bands)?.provider).toBe("gpt");
+      expect(selectComplexityBand(90, bands)?.provider).toBe("claude");
+      expect(selectComplexityBand(90, bands.slice(1))).toBeUndefined();
+    });
+
+    it("routes by complexity band when the strategy is complexity-based", async () => {
+      vi.mocked(config.getGlobalConfig).mockResolvedValue({
+        version: "1.0.0",
+        defaultAI: "claude",
+        routing: { strategy: "complexity-based", complexity: { bands } },
+      });
+      vi.mocked(sessions.getSessionStats).mockResolvedValue({
+        totalSessions: 4,
+        totalSuccessful: 2,
+        totalFailed: 2,
+        averageDuration: 60000,
+        averagePromptSize: 0,
+        providersUsed: ["claude"],
+      });
+
+      const result = await resolveProviderForRun(node, command);
+
+      // 20 (prompt) + 15 (model) + 15 (tags) + 15 (duration) + 5 (failures)
+      expect(result.complexity?.score).toBe(70);
+      expect(result.selectedProvider).toBe("claude");
+      expect(result.selectedModel).toBe("opus");
+      expect(result.resolvedFrom).toBe("complexity");
+      expect(sessions.getSessionStats).toHaveBeenCalledWith("/nonexistent/vault", "analyze");
+    });
+
+    it("falls back to the hierarchy when no band matches", async () => {
+      vi.mocked(config.getGlobalConfig).mockResolvedValue({
+        version: "1.0.0",
+        defaultAI: "gemini",
+        routing: { strategy: "complexity-based" },
+      });
+      vi.mocked(config.getNodeConfig).mockResolvedValue(null as never);
+      vi.mocked(sessions.getSessionStats).mockResolvedValue({
+        totalSessions: 0,
+        totalSuccessful: 0,
+        totalFailed: 0,
+        averageDuration: 0,
+        averagePromptSize: 0,
+        providersUsed: [],
+      });
+
+      const result = await resolveProviderForRun(node, command);
+
+      expect(result.selectedProvider).toBe("gemini");
+      expect(result.resolvedFrom).toBe("global");
+      expect(result.complexity?.score).toBe(50);
+    });
+
+    it("doesn't score runs with the manual strategy", async () => {
+      vi.mocked(config.getGlobalConfig).mockResolvedValue({
+        version: "1.0.0",
+        defaultAI: "gpt",
+      });
+      vi.mocked(config.getNodeConfig).mockResolvedValue(null as never);
+
+      const result = await resolveProviderForRun(node, command);
+
+      expect(result.selectedProvider).toBe("gpt");
+      expect(result.complexity).toBeUndefined();
+      expect(sessions.getSessionStats).not.toHaveBeenCalled();
+    });
+  });
 });
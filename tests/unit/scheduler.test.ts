@@ -0,0 +1,398 @@
+/**
+ * Scheduler Tests
+ *
+ * Tests for schedule discovery, persisted state, catch-up, job execution and locking
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import { execFile } from "child_process";
+import {
+  discoverScheduledJobs,
+  findScheduledJob,
+  loadSchedulerState,
+  setScheduledJobEnabled,
+  runScheduledJob,
+  tickScheduler,
+  acquireSchedulerLock,
+  releaseSchedulerLock,
+  MISSED_RUN_GRACE_MS,
+} from "../../src/core/scheduler.js";
+import { ScheduledJob, Workflow } from "../../src/core/types.js";
+
+const mocks = vi.hoisted(() => ({
+  listNodes: vi.fn(),
+  getNodeCommands: vi.fn(),
+  getGlobalConfig: vi.fn(),
+  discoverNodeWorkflows: vi.fn(),
+  loadWorkflow: vi.fn(),
+  executeWorkflow: vi.fn(),
+  executeWorkflowStep: vi.fn(),
+}));
+
+vi.mock("../../src/core/registry.js", () => ({ listNodes: mocks.listNodes }));
+vi.mock("../../src/core/commands.js", () => ({ getNodeCommands: mocks.getNodeCommands }));
+vi.mock("../../src/core/config.js", () => ({ getGlobalConfig: mocks.getGlobalConfig }));
+vi.mock("../../src/core/workflows.js", () => ({
+  discoverNodeWorkflows: mocks.discoverNodeWorkflows,
+  loadWorkflow: mocks.loadWorkflow,
+  executeWorkflow: mocks.executeWorkflow,
+  executeWorkflowStep: mocks.executeWorkflowStep,
+  getWorkflowRunsPath: (nodePath: string) => path.join(nodePath, ".bozly", "workflows", "runs"),
+}));
+
+let testDir: string;
+let statePath: string;
+let musicPath: string;
+
+const dailyWorkflow: Workflow = {
+  id: "daily",
+  name: "Daily",
+  version: "1.0.0",
+  created: "2026-01-01T00:00:00Z",
+  steps: [{ id: "a", node: "music", command: "a", onError: "stop" }],
+  schedule: { cron: "0 9 * * *" },
+};
+
+const job = (overrides: Partial<ScheduledJob> = {}): ScheduledJob => ({
+  id: "music:workflow:daily",
+  kind: "workflow",
+  target: "daily",
+  nodeId: "music",
+  nodeName: "Music",
+  nodePath: musicPath,
+  cron: "0 9 * * *",
+  timezone: "UTC",
+  enabled: true,
+  catchUp: true,
+  ...overrides,
+});
+
+beforeEach(async () => {
+  testDir = await fs.mkdtemp(path.join(os.tmpdir(), "bozly-scheduler-"));
+  statePath = path.join(testDir, "scheduler-state.json");
+  musicPath = path.join(testDir, "music");
+  await fs.mkdir(path.join(musicPath, ".bozly"), { recursive: true });
+
+  mocks.listNodes.mockResolvedValue([
+    { id: "music", name: "Music", path: musicPath, type: "music", active: true, created: "" },
+  ]);
+  mocks.getGlobalConfig.mockResolvedValue({
+    version: "0.3.0",
+    defaultAI: "claude",
+    timezone: "UTC",
+  });
+  mocks.discoverNodeWorkflows.mockResolvedValue([dailyWorkflow]);
+  mocks.getNodeCommands.mockResolvedValue([
+    { name: "weekly-review", file: "", schedule: { cron: "0 17 * * fri" } },
+    { name: "notes", file: "" },
+  ]);
+  mocks.loadWorkflow.mockResolvedValue(dailyWorkflow);
+  mocks.executeWorkflow.mockResolvedValue({
+    workflowId: "daily",
+    status: "completed",
+    steps: [],
+    runId: "run-1",
+  });
+  mocks.executeWorkflowStep.mockResolvedValue({
+    stepId: "weekly-review",
+    status: "completed",
+    duration: 5,
+    session: { id: "session-1" },
+  });
+});
+
+afterEach(async () => {
+  await fs.rm(testDir, { recursive: true, force: true });
+});
+
+describe("Scheduler", () => {
+  describe("discoverScheduledJobs", () => {
+    it("finds scheduled workflows and commands in every node", async () => {
+      const jobs = await discoverScheduledJobs();
+
+      expect(jobs.map((j) => j.id)).toEqual([
+        "music:command:weekly-review",
+        "music:workflow:daily",
+      ]);
+      expect(jobs[1]).toMatchObject({
+        kind: "workflow",
+        target: "daily",
+        nodePath: musicPath,
+        cron: "0 9 * * *",
+        timezone: "UTC",
+        enabled: true,
+        catchUp: true,
+      });
+    });
+
+    it("resolves the timezone from the schedule, then the node config", async () => {
+      await fs.writeFile(
+        path.join(musicPath, ".bozly", "config.json"),
+        JSON.stringify({ timezone: "Europe/Berlin" })
+      );
+      mocks.discoverNodeWorkflows.mockResolvedValue([
+        { ...dailyWorkflow, schedule: { cron: "0 9 * * *", timezone: "Asia/Tokyo" } },
+      ]);
+
+      const jobs = await discoverScheduledJobs();
+
+      expect(jobs.find((j) => j.kind === "workflow")?.timezone).toBe("Asia/Tokyo");
+      expect(jobs.find((j) => j.kind === "command")?.timezone).toBe("Europe/Berlin");
+    });
+
+    it("reports invalid schedules", async () => {
+      mocks.discoverNodeWorkflows.mockResolvedValue([
+        { ...dailyWorkflow, schedule: { cron: "0 25 * * *" } },
+      ]);
+      mocks.getNodeCommands.mockResolvedValue([
+        { name: "x", file: "", schedule: { cron: "@daily", timezone: "Mars/Olympus" } },
+      ]);
+
+      const jobs = await discoverScheduledJobs();
+
+      expect(jobs.map((j) => j.error)).toEqual([
+        "Invalid timezone 'Mars/Olympus'",
+        "Invalid cron expression '0 25 * * *': hour '25' out of range (0-23)",
+      ]);
+    });
+  });
+
+  describe("findScheduledJob", () => {
+    const jobs = (): ScheduledJob[] => [
+      job(),
+      job({ id: "journal:workflow:daily", nodeId: "journal" }),
+      job({ id: "music:command:weekly-review", kind: "command", target: "weekly-review" }),
+    ];
+
+    it("matches by ID or unique name", () => {
+      expect(findScheduledJob(jobs(), "journal:workflow:daily")?.nodeId).toBe("journal");
+      expect(findScheduledJob(jobs(), "weekly-review")?.kind).toBe("command");
+      expect(findScheduledJob(jobs(), "command:weekly-review")?.kind).toBe("command");
+      expect(findScheduledJob(jobs(), "missing")).toBeUndefined();
+    });
+
+    it("rejects ambiguous names", () => {
+      expect(() => findScheduledJob(jobs(), "daily")).toThrow("matches multiple schedules");
+    });
+  });
+
+  describe("tickScheduler", () => {
+    it("schedules new jobs without running them", async () => {
+      const results = await tickScheduler({
+        now: new Date("2026-10-19T08:00:00Z"),
+        statePath,
+        jobs: [job()],
+      });
+
+      const state = await loadSchedulerState(statePath);
+      expect(results).toEqual([]);
+      expect(state.jobs["music:workflow:daily"].nextRun).toBe("2026-10-19T09:00:00.000Z");
+      expect(mocks.executeWorkflow).not.toHaveBeenCalled();
+    });
+
+    it("runs due jobs and records last and next run", async () => {
+      await tickScheduler({ now: new Date("2026-10-19T08:00:00Z"), statePath, jobs: [job()] });
+      const onRun = vi.fn();
+
+      const results = await tickScheduler({
+        now: new Date("2026-10-19T09:00:10Z"),
+        statePath,
+        jobs: [job()],
+        onRun,
+      });
+
+      const state = (await loadSchedulerState(statePath)).jobs["music:workflow:daily"];
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ status: "completed", workflowRunId: "run-1" });
+      expect(results[0].catchUp).toBeUndefined();
+      expect(onRun).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "music:workflow:daily" }),
+        results[0]
+      );
+      expect(state.lastStatus).toBe("completed");
+      expect(state.lastWorkflowRunId).toBe("run-1");
+      expect(state.lastRun).toBeDefined();
+      expect(new Date(state.nextRun!).getTime()).toBeGreaterThan(
+        new Date("2026-10-19T09:00:10Z").getTime()
+      );
+      expect(mocks.executeWorkflow).toHaveBeenCalledWith(dailyWorkflow, {
+        runsPath: path.join(musicPath, ".bozly", "workflows", "runs"),
+        quiet: true,
+      });
+    });
+
+    it("catches up a missed run once", async () => {
+      await fs.writeFile(
+        statePath,
+        JSON.stringify({
+          version: 1,
+          jobs: { "music:workflow:daily": { nextRun: "2026-10-15T09:00:00.000Z" } },
+        })
+      );
+      const now = new Date(Date.now() + 1000);
+
+      const results = await tickScheduler({ now, statePath, jobs: [job()] });
+      const again = await tickScheduler({ now, statePath, jobs: [job()] });
+
+      expect(results).toHaveLength(1);
+      expect(results[0].catchUp).toBe(true);
+      expect(again).toEqual([]);
+      expect(mocks.executeWorkflow).toHaveBeenCalledTimes(1);
+    });
+
+    it("skips missed runs when catch-up is off", async () => {
+      const now = new Date("2026-10-19T12:00:00Z");
+      const dueAt = new Date(now.getTime() - MISSED_RUN_GRACE_MS - 60000).toISOString();
+      await fs.writeFile(
+        statePath,
+        JSON.stringify({ version: 1, jobs: { "music:workflow:daily": { nextRun: dueAt } } })
+      );
+
+      const results = await tickScheduler({ now, statePath, jobs: [job({ catchUp: false })] });
+
+      const state = (await loadSchedulerState(statePath)).jobs["music:workflow:daily"];
+      expect(results).toEqual([]);
+      expect(state.nextRun).toBe("2026-10-20T09:00:00.000Z");
+      expect(state.lastRun).toBeUndefined();
+    });
+
+    it("skips disabled and invalid jobs", async () => {
+      const now = new Date("2026-10-19T08:00:00Z");
+      await setScheduledJobEnabled("music:workflow:daily", false, statePath);
+
+      await tickScheduler({
+        now,
+        statePath,
+        jobs: [job(), job({ id: "bad", error: "Invalid cron expression" })],
+      });
+
+      const state = await loadSchedulerState(statePath);
+      expect(state.jobs["music:workflow:daily"]).toEqual({ enabled: false });
+      expect(state.jobs.bad).toBeUndefined();
+    });
+
+    it("computes the next run from now when re-enabled", async () => {
+      await fs.writeFile(
+        statePath,
+        JSON.stringify({
+          version: 1,
+          jobs: {
+            "music:workflow:daily": { enabled: false, nextRun: "2026-10-01T09:00:00.000Z" },
+          },
+        })
+      );
+
+      await setScheduledJobEnabled("music:workflow:daily", true, statePath);
+      const results = await tickScheduler({
+        now: new Date("2026-10-19T08:00:00Z"),
+        statePath,
+        jobs: [job()],
+      });
+
+      const state = (await loadSchedulerState(statePath)).jobs["music:workflow:daily"];
+      expect(results).toEqual([]);
+      expect(state).toEqual({ enabled: true, nextRun: "2026-10-19T09:00:00.000Z" });
+    });
+  });
+
+  describe("runScheduledJob", () => {
+    it("runs commands as a recorded workflow step", async () => {
+      const result = await runScheduledJob(
+        job({ id: "music:command:weekly-review", kind: "command", target: "weekly-review" })
+      );
+
+      expect(result).toMatchObject({ status: "completed", sessionId: "session-1" });
+      expect(mocks.executeWorkflowStep).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "schedule:music:command:weekly-review" }),
+        { id: "weekly-review", node: "music", command: "weekly-review", onError: "stop" },
+        new Map(),
+        { quiet: true }
+      );
+    });
+
+    it("reports failed workflow steps", async () => {
+      mocks.executeWorkflow.mockResolvedValue({
+        workflowId: "daily",
+        status: "partially_completed",
+        steps: [{ stepId: "a", status: "failed", duration: 1, error: "boom" }],
+      });
+
+      const result = await runScheduledJob(job());
+
+      expect(result.status).toBe("partially_completed");
+      expect(result.error).toBe("Step 'a' failed: boom");
+    });
+
+    it("fails when the workflow no longer exists", async () => {
+      mocks.loadWorkflow.mockResolvedValue(null);
+
+      const result = await runScheduledJob(job());
+
+      expect(result.status).toBe("failed");
+      expect(result.error).toBe("Workflow 'daily' not found in node 'Music'");
+    });
+  });
+
+  describe("scheduler lock", () => {
+    it("can be re-acquired by the same process and released", async () => {
+      const lockPath = path.join(testDir, "scheduler.lock");
+
+      await acquireSchedulerLock(lockPath);
+      await acquireSchedulerLock(lockPath);
+      expect(await fs.readFile(lockPath, "utf-8")).toBe(String(process.pid));
+
+      await releaseSchedulerLock(lockPath);
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+
+    it("refuses a lock held by another live process", async () => {
+      const lockPath = path.join(testDir, "scheduler.lock");
+      await fs.writeFile(lockPath, String(process.ppid));
+
+      await expect(acquireSchedulerLock(lockPath)).rejects.toThrow(
+        `Scheduler already running (PID: ${process.ppid})`
+      );
+    });
+
+    it("gives the lock to one of several schedulers starting at once", async () => {
+      const lockPath = path.join(testDir, "scheduler.lock");
+      const schedulerModule = path.resolve("dist/core/scheduler.js");
+      // Each process loads the scheduler, then tries to lock at the same moment
+      const script = `
+        const { acquireSchedulerLock } = await import(${JSON.stringify(schedulerModule)});
+        await new Promise((resolve) => setTimeout(resolve, Number(process.argv[1]) - Date.now()));
+        const taken = await acquireSchedulerLock(${JSON.stringify(lockPath)}).then(() => true, () => false);
+        console.log(taken ? "taken" : "held");
+        await new Promise((resolve) => setTimeout(resolve, 500));
+      `;
+      const startAt = String(Date.now() + 3000);
+
+      const outputs = await Promise.all(
+        [1, 2, 3].map(
+          () =>
+            new Promise<string>((resolve, reject) =>
+              execFile(
+                process.execPath,
+                ["--input-type=module", "-e", script, startAt],
+                (error, stdout) => (error ? reject(error) : resolve(stdout.trim()))
+              )
+            )
+        )
+      );
+
+      expect(outputs.sort()).toEqual(["held", "held", "taken"]);
+    }, 20000);
+
+    it("takes over a stale lock", async () => {
+      const lockPath = path.join(testDir, "scheduler.lock");
+      await fs.writeFile(lockPath, "999999999");
+
+      await acquireSchedulerLock(lockPath);
+
+      expect(await fs.readFile(lockPath, "utf-8")).toBe(String(process.pid));
+    });
+  });
+});
@@ -50,6 +50,24 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
     await cleanupTempDir();
   });
 
+  // Text queries go through the search index, so they need recorded sessions
+  async function recordSessions(
+    ...sessions: Array<{ nodeId?: string; command: string; provider?: string }>
+  ): Promise<void> {
+    for (const { nodeId = "node1", command, provider = "claude" } of sessions) {
+      await sessionsModule.recordSession(
+        bozlyPath,
+        nodeId,
+        nodeId,
+        command,
+        provider,
+        { contextText: "Context", commandText: `Run ${command}` },
+        { text: "Done", duration: 1000 }
+      );
+    }
+    searcher = new CrossNodeSearcher(path.join(bozlyPath, ".bozly"));
+  }
+
   // ============================================================================
   // Search All Tests
   // ============================================================================
@@ -60,19 +78,6 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
         text: "test",
       };
 
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
-
       const results = await searcher.searchAll(mockQuery);
 
       expect(results).toBeDefined();
@@ -87,19 +92,6 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
         searchIn: ["sessions"],
       };
 
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
-
       const results = await searcher.searchAll(mockQuery);
 
       expect(results.results.sessions).toBeDefined();
@@ -107,83 +99,26 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
     });
 
     it("should calculate correct total count", async () => {
-      const mockQuery: SearchQuery = {
-        text: "test",
-      };
+      await recordSessions({ command: "test-report" });
 
-      const mockSessions = [
-        {
-          id: "s1",
-          command: "test",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-      ];
-
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
-      );
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
-
-      const results = await searcher.searchAll(mockQuery);
+      const results = await searcher.searchAll({ text: "test" });
 
+      expect(results.counts.sessions).toBe(1);
       expect(results.counts.total).toBe(
         results.counts.sessions + results.counts.memories + results.counts.commands
       );
     });
 
     it("should group results by node when requested", async () => {
-      const mockQuery: SearchQuery = {
-        text: "test",
-      };
-
-      const mockSessions = [
-        {
-          id: "s1",
-          command: "test",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-      ];
-
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
+      await recordSessions(
+        { nodeId: "node1", command: "test" },
+        { nodeId: "node2", command: "test" }
       );
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
 
-      const results = await searcher.searchAll(mockQuery);
+      const results = await searcher.searchAll({ text: "test", searchIn: ["sessions"] });
 
-      expect(results.groupedByNode).toBeDefined();
+      expect(Object.keys(results.groupedByNode ?? {}).sort()).toEqual(["node1", "node2"]);
+      expect(results.groupedByNode?.node1.sessions).toHaveLength(1);
     });
 
     it("should set timestamp and queryTimeMs", async () => {
@@ -191,19 +126,6 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
         text: "test",
       };
 
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
-
       const results = await searcher.searchAll(mockQuery);
 
       expect(results.timestamp).toBeDefined();
@@ -328,42 +250,31 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
     });
 
     it("should filter sessions by text in command name", async () => {
-      const sessionsDir = path.join(bozlyPath, "sessions");
-      await fs.mkdir(sessionsDir, { recursive: true });
-
-      const mockSessions = [
-        {
-          id: "s1",
-          command: "daily-report",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-        {
-          id: "s2",
-          command: "analyze",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-      ];
+      // Text search goes through the vault's search index, so record real sessions
+      await sessionsModule.recordSession(
+        bozlyPath,
+        "node1",
+        "Node 1",
+        "daily-report",
+        "claude",
+        { contextText: "Context", commandText: "Report on the day" },
+        { text: "Done", duration: 1000 }
+      );
+      await sessionsModule.recordSession(
+        bozlyPath,
+        "node1",
+        "Node 1",
+        "analyze",
+        "claude",
+        { contextText: "Context", commandText: "Analyze the data" },
+        { text: "Done", duration: 1000 }
+      );
+      searcher = new CrossNodeSearcher(path.join(bozlyPath, ".bozly"));
 
       const mockQuery: SearchQuery = {
         text: "daily",
       };
 
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
-      );
-
       const results = await searcher.searchSessions(mockQuery);
 
       expect(results.length).toBe(1);
@@ -518,11 +429,6 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
         text: "nonexistent",
       };
 
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
       const results = await searcher.searchMemories(mockQuery);
 
       expect(Array.isArray(results)).toBe(true);
@@ -533,11 +439,6 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
         text: "important",
       };
 
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
       const results = await searcher.searchMemories(mockQuery);
 
       expect(Array.isArray(results)).toBe(true);
@@ -549,11 +450,6 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
         nodeId: "node1",
       };
 
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
       const results = await searcher.searchMemories(mockQuery);
 
       for (const result of results) {
@@ -569,11 +465,6 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
         command: "daily",
       };
 
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
       const results = await searcher.searchMemories(mockQuery);
 
       for (const result of results) {
@@ -593,11 +484,6 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
         endDate,
       };
 
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
       const results = await searcher.searchMemories(mockQuery);
 
       for (const result of results) {
@@ -616,11 +502,6 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
         text: "test",
       };
 
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
       const results = await searcher.searchMemories(mockQuery);
 
       if (results.length > 1) {
@@ -879,250 +760,58 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
 
   describe("getSearchStats - Search Statistics Aggregation", () => {
     it("should aggregate stats from all targets", async () => {
-      const mockQuery: SearchQuery = {
-        text: "test",
-      };
+      await recordSessions({ command: "test" });
 
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
+      const stats = await searcher.getSearchStats({ text: "test" });
 
-      const mockSessions = [
-        {
-          id: "s1",
-          command: "test",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-      ];
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
-      );
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
-
-      const stats = await searcher.getSearchStats(mockQuery);
-
-      expect(stats).toBeDefined();
-      expect(stats.totalResults).toBeGreaterThanOrEqual(0);
+      expect(stats.totalResults).toBeGreaterThanOrEqual(1);
       expect(stats.byType).toBeDefined();
       expect(stats.byNode).toBeDefined();
       expect(stats.byProvider).toBeDefined();
     });
 
     it("should count by type correctly", async () => {
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
+      await recordSessions({ command: "test" });
 
-      const mockQuery: SearchQuery = {
-        text: "test",
-      };
-
-      const mockSessions = [
-        {
-          id: "s1",
-          command: "test",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-      ];
+      const stats = await searcher.getSearchStats({ text: "test" });
 
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
+      expect(stats.byType.sessions).toBe(1);
+      expect(stats.byType.commands).toBe(0);
+      expect(stats.totalResults).toBe(
+        stats.byType.sessions + stats.byType.memories + stats.byType.commands
       );
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
-
-      const stats = await searcher.getSearchStats(mockQuery);
-
-      expect(stats.byType.sessions).toBeGreaterThanOrEqual(0);
-      expect(stats.byType.memories).toBeGreaterThanOrEqual(0);
-      expect(stats.byType.commands).toBeGreaterThanOrEqual(0);
     });
 
     it("should count by node correctly", async () => {
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
-      const mockQuery: SearchQuery = {
-        text: "test",
-      };
-
-      const mockSessions = [
-        {
-          id: "s1",
-          command: "test",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-        {
-          id: "s2",
-          command: "test",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-      ];
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
+      await recordSessions(
+        { nodeId: "node1", command: "test" },
+        { nodeId: "node1", command: "test" },
+        { nodeId: "node2", command: "test" }
       );
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
 
-      const stats = await searcher.getSearchStats(mockQuery);
+      const stats = await searcher.getSearchStats({ text: "test", searchIn: ["sessions"] });
 
-      expect(stats).toBeDefined();
-      expect(stats.byNode).toBeDefined();
-      if (stats.byNode.node1) {
-        expect(stats.byNode.node1).toBeGreaterThanOrEqual(2);
-      } else {
-        // Sessions may not be aggregated in stats if search doesn't find them
-        expect(stats.totalResults).toBeGreaterThanOrEqual(0);
-      }
+      expect(stats.byNode).toEqual({ node1: 2, node2: 1 });
     });
 
     it("should count by provider correctly", async () => {
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
-      const mockQuery: SearchQuery = {
-        text: "test",
-      };
-
-      const mockSessions = [
-        {
-          id: "s1",
-          command: "test",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-        {
-          id: "s2",
-          command: "test",
-          provider: "gpt",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-      ];
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
+      await recordSessions(
+        { command: "test", provider: "claude" },
+        { command: "test", provider: "gpt" }
       );
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
 
-      const stats = await searcher.getSearchStats(mockQuery);
+      const stats = await searcher.getSearchStats({ text: "test", searchIn: ["sessions"] });
 
-      expect(stats).toBeDefined();
-      expect(stats.byProvider).toBeDefined();
-      // Just verify the stats structure is valid
-      expect(Object.keys(stats.byProvider).length).toBeGreaterThanOrEqual(0);
+      expect(stats.byProvider).toEqual({ claude: 1, gpt: 1 });
     });
 
     it("should include date range in stats", async () => {
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
+      await recordSessions({ command: "test" }, { command: "test" });
 
-      const mockQuery: SearchQuery = {
-        text: "test",
-      };
+      const stats = await searcher.getSearchStats({ text: "test", searchIn: ["sessions"] });
 
-      const mockSessions = [
-        {
-          id: "s1",
-          command: "test",
-          provider: "claude",
-          status: "completed",
-          timestamp: "2025-06-15T10:00:00Z",
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-        {
-          id: "s2",
-          command: "test",
-          provider: "claude",
-          status: "completed",
-          timestamp: "2025-06-20T10:00:00Z",
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-      ];
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
-      );
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
-
-      const stats = await searcher.getSearchStats(mockQuery);
-
-      expect(stats).toBeDefined();
-      expect(stats.totalResults).toBeGreaterThanOrEqual(0);
-      // dateRange may or may not be populated depending on whether sessions were found
-      expect(typeof stats).toBe('object');
+      expect(stats.dateRange?.oldest).toBeDefined();
+      expect(stats.dateRange!.oldest! <= stats.dateRange!.newest!).toBe(true);
     });
   });
 
@@ -1132,11 +821,6 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
 
   describe("Edge Cases and Complex Search Scenarios", () => {
     it("should handle queries with multiple filters", async () => {
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
       const mockQuery: SearchQuery = {
         text: "test",
         command: "daily",
@@ -1147,37 +831,16 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
         endDate: new Date("2025-12-31").toISOString(),
       };
 
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
-
       const results = await searcher.searchAll(mockQuery);
 
       expect(results).toBeDefined();
     });
 
     it("should handle empty search results", async () => {
-      // Mock memoryIndex.search to avoid undefined error
-      searcher["memoryIndex"] = {
-        search: vi.fn().mockResolvedValue({ entries: [] }),
-      } as any;
-
       const mockQuery: SearchQuery = {
         text: "nonexistent-search-term-xyz",
       };
 
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getGlobalCommands").mockResolvedValueOnce([]);
-      vi.spyOn(commandsModule, "getAllCommands").mockResolvedValueOnce([]);
-      vi.spyOn(registryModule, "getRegistry").mockResolvedValueOnce({
-        version: "1.0",
-        nodes: [],
-      } as any);
-
       const results = await searcher.searchAll(mockQuery);
 
       expect(results.counts.total).toBe(0);
@@ -1213,73 +876,30 @@ describe("CrossNodeSearcher - Comprehensive Coverage", () => {
     });
 
     it("should handle case-insensitive text search", async () => {
-      const mockSessions = [
-        {
-          id: "s1",
-          command: "DAILY-Report",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-      ];
-
-      const mockQuery1: SearchQuery = {
-        text: "daily",
-      };
+      await recordSessions({ command: "DAILY-Report" });
 
-      const mockQuery2: SearchQuery = {
-        text: "DAILY",
-      };
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
-      );
-      const results1 = await searcher.searchSessions(mockQuery1);
+      const results1 = await searcher.searchSessions({ text: "daily" });
+      const results2 = await searcher.searchSessions({ text: "DAILY" });
 
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
-      );
-      const results2 = await searcher.searchSessions(mockQuery2);
-
-      expect(Array.isArray(results1)).toBe(true);
-      expect(Array.isArray(results2)).toBe(true);
+      expect(results1).toHaveLength(1);
+      expect(results2).toHaveLength(1);
+      expect(results1[0].session.id).toBe(results2[0].session.id);
     });
 
     it("should maintain consistent relevance scoring", async () => {
-      const mockSessions = [
-        {
-          id: "s1",
-          command: "daily",
-          provider: "claude",
-          status: "completed",
-          timestamp: new Date().toISOString(),
-          nodeId: "node1",
-          nodeName: "Node 1",
-          nodePath: "/path",
-          executionTimeMs: 1000,
-        },
-      ];
+      await recordSessions({ command: "daily" }, { command: "daily-report" });
 
-      const mockQuery: SearchQuery = {
+      const results = await searcher.searchSessions({
         command: "daily",
         provider: "claude",
         status: "completed",
         text: "daily",
-      };
-
-      vi.spyOn(sessionsModule, "querySessionsGlobal").mockResolvedValueOnce(
-        mockSessions as any
-      );
-
-      const results = await searcher.searchSessions(mockQuery);
+      });
 
-      if (results.length > 0) {
-        expect(results[0].relevanceScore).toBeGreaterThan(0);
-        expect(results[0].relevanceScore).toBeLessThanOrEqual(1);
+      expect(results.length).toBeGreaterThan(0);
+      for (const result of results) {
+        expect(result.relevanceScore).toBeGreaterThan(0);
+        expect(result.relevanceScore).toBeLessThanOrEqual(1);
       }
     });
   });
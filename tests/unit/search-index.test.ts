@@ -0,0 +1,203 @@
+/**
+ * Unit tests for the persistent search index
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "path";
+import fs from "fs/promises";
+import {
+  SearchIndex,
+  SearchDocumentInput,
+  SEARCH_INDEX_FILE,
+  openSearchIndex,
+} from "../../src/core/search-index.js";
+import { parseSearchQuery } from "../../src/core/text-search.js";
+import { recordSession, archiveSessionsByDate } from "../../src/core/sessions.js";
+import { cleanupNode } from "../../src/core/cleanup.js";
+import { exportSessionBundle, importSessionBundle } from "../../src/core/session-bundle.js";
+import { CrossNodeSearcher } from "../../src/core/search.js";
+import { createTempDir, getTempDir } from "../conftest";
+
+function memory(id: string, body: string, tags: string[] = []): SearchDocumentInput {
+  return {
+    id: `memory:${id}`,
+    type: "memory",
+    filePath: `/sessions/${id}/memory.md`,
+    nodeId: "music",
+    nodeName: "Music Vault",
+    command: "review",
+    tags,
+    text: { title: `Session ${id}`, tags: tags.join(" "), body },
+  };
+}
+
+describe("SearchIndex", () => {
+  let index: SearchIndex;
+
+  beforeEach(async () => {
+    await createTempDir();
+    index = new SearchIndex(getTempDir());
+    index.addDocument(memory("a", "Reviewed the album. The album has great bass.", ["music"]));
+    index.addDocument(memory("b", "Reviewed a podcast episode about an album launch."));
+    index.addDocument(memory("c", "Planned the week.", ["planning"]));
+  });
+
+  const ids = (query: string): string[] =>
+    index.search(parseSearchQuery(query)).map((hit) => hit.document.id);
+
+  it("ranks documents with BM25 and matches stems", () => {
+    expect(ids("albums")).toEqual(["memory:a", "memory:b"]);
+    expect(ids("reviewing album")).toEqual(["memory:a", "memory:b"]);
+    expect(ids("album missing")).toEqual([]);
+  });
+
+  it("matches phrases in order", () => {
+    expect(ids('"the album has"')).toEqual(["memory:a"]);
+    expect(ids('"bass album"')).toEqual([]);
+  });
+
+  it("filters on tag:, command: and vault: prefixes", () => {
+    expect(ids("tag:music")).toEqual(["memory:a"]);
+    expect(ids("album tag:planning")).toEqual([]);
+    expect(ids('vault:"music vault" planned')).toEqual(["memory:c"]);
+    expect(ids("command:daily")).toEqual([]);
+  });
+
+  it("reports the matched fields", () => {
+    const [hit] = index.search(parseSearchQuery("session bass"));
+
+    expect(hit.matchedFields).toEqual(expect.arrayContaining(["title", "body"]));
+  });
+
+  it("replaces and removes documents", () => {
+    index.addDocument(memory("a", "Now about drums."));
+    expect(ids("album")).toEqual(["memory:b"]);
+
+    expect(index.removeDocument("memory:b")).toBe(true);
+    expect(ids("album")).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+
+  it("saves and loads", async () => {
+    await index.save();
+    const loaded = new SearchIndex(getTempDir());
+
+    expect(await loaded.load()).toBe(true);
+    expect(loaded.size).toBe(3);
+    expect(loaded.search(parseSearchQuery('"great bass"'))[0].document.id).toBe("memory:a");
+  });
+
+  it("doesn't load a missing index", async () => {
+    expect(await new SearchIndex(path.join(getTempDir(), "missing")).load()).toBe(false);
+  });
+});
+
+describe("search index updates", () => {
+  let vaultPath: string;
+  let bozlyPath: string;
+
+  const record = (command: string, output: string) =>
+    recordSession(
+      vaultPath,
+      "music",
+      "Music Vault",
+      command,
+      "claude",
+      { contextText: "Context", commandText: `Run ${command}` },
+      { text: output, duration: 100 }
+    );
+
+  beforeEach(async () => {
+    await createTempDir();
+    vaultPath = getTempDir();
+    bozlyPath = path.join(vaultPath, ".bozly");
+    await record("rate-album", "Kid A deserves a 9 for its electronic textures.");
+  });
+
+  it("builds the index from existing sessions and adds recorded ones", async () => {
+    const index = await openSearchIndex(bozlyPath, { id: "music", name: "Music Vault" });
+    expect(index.search(parseSearchQuery("textures"), { types: ["session"] })).toHaveLength(1);
+    await expect(fs.access(path.join(bozlyPath, SEARCH_INDEX_FILE))).resolves.toBeUndefined();
+
+    await record("plan-week", "Textures for the next mix: tape hiss and vinyl crackle.");
+
+    const reloaded = new SearchIndex(bozlyPath);
+    await reloaded.load();
+    const hits = reloaded.search(parseSearchQuery("textures"), { types: ["session"] });
+    expect(hits.map((hit) => hit.document.command).sort()).toEqual(["plan-week", "rate-album"]);
+  });
+
+  const searchTextures = async (): Promise<string[]> => {
+    const index = new SearchIndex(bozlyPath);
+    await index.load();
+    return index.search(parseSearchQuery("textures")).map((hit) => hit.document.command ?? "");
+  };
+
+  it("removes archived sessions", async () => {
+    await openSearchIndex(bozlyPath);
+
+    await archiveSessionsByDate(path.join(bozlyPath, "sessions"), new Date(Date.now() + 60000));
+
+    expect(await searchTextures()).toEqual([]);
+  });
+
+  it("removes sessions deleted by cleanup", async () => {
+    await openSearchIndex(bozlyPath);
+    // cleanup reads the sessions/YYYY/MM/DD/<id> layout
+    const sessionsDir = path.join(bozlyPath, "sessions");
+    const [year] = await fs.readdir(path.join(sessionsDir, "music"));
+    await fs.rename(path.join(sessionsDir, "music", year), path.join(sessionsDir, year));
+
+    const result = await cleanupNode(vaultPath, { olderThan: -1, keepMinSessions: 0 });
+
+    expect(result.sessionsDeleted).toBe(1);
+    expect(await searchTextures()).toEqual([]);
+  });
+
+  it("adds imported sessions", async () => {
+    const source = {
+      id: "music",
+      name: "Music Vault",
+      path: vaultPath,
+      type: "music",
+      active: true,
+    };
+    const targetPath = path.join(getTempDir(), "target");
+    const target = { ...source, id: "target", name: "Target", path: targetPath };
+    const bundlePath = path.join(getTempDir(), "sessions.tar.gz");
+    await exportSessionBundle([source], bundlePath);
+    await fs.mkdir(path.join(targetPath, ".bozly"), { recursive: true });
+    await openSearchIndex(path.join(targetPath, ".bozly"));
+
+    await importSessionBundle(bundlePath, { nodes: [target], defaultNode: target });
+
+    const index = new SearchIndex(path.join(targetPath, ".bozly"));
+    await index.load();
+    expect(index.search(parseSearchQuery("textures"), { types: ["session"] })).toHaveLength(1);
+  });
+
+  it("returns highlighted snippets from CrossNodeSearcher", async () => {
+    const searcher = new CrossNodeSearcher(bozlyPath);
+
+    const results = await searcher.searchSessions({ text: '"electronic textures"' });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].session.command).toBe("rate-album");
+    expect(results[0].snippet).toContain("**electronic** **textures**");
+  });
+
+  it("skips deleted sessions before paginating", async () => {
+    await record("plan-week", "Textures for the next mix: tape hiss and vinyl crackle.");
+    const index = await openSearchIndex(bozlyPath);
+    const [top] = index.search(parseSearchQuery("textures"), { types: ["session"] });
+    await fs.rm(top.document.sessionPath!, { recursive: true });
+
+    const results = await new CrossNodeSearcher(bozlyPath).searchSessions({
+      text: "textures",
+      limit: 1,
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].session.command).not.toBe(top.document.command);
+  });
+});
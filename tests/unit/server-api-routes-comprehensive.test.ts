@@ -314,6 +314,28 @@ describe("API Routes - Comprehensive Coverage", { timeout: 30000 }, () => {
       expect(data.data).toEqual(mockSession);
     });
 
+    it("should include the session's recorded file changes", async () => {
+      const mockVault = { id: "vault1", path: "/path/to/vault1" };
+      const mockSession = { id: "session1", status: "completed" };
+      const mockChanges = {
+        filesModified: [{ path: "notes/a.md", action: "created", afterSize: 3 }],
+        summary: { totalFilesModified: 0, totalFilesCreated: 1, totalFilesDeleted: 0 },
+        recommendations: [],
+      };
+
+      vi.spyOn(registry, "getNode").mockResolvedValueOnce(mockVault);
+      vi.spyOn(sessions, "loadSession").mockResolvedValueOnce(mockSession as any);
+      vi.spyOn(sessions, "loadSessionChanges").mockResolvedValueOnce(mockChanges as any);
+
+      const response = await fastifyApp.inject({
+        method: "GET",
+        url: "/api/vaults/vault1/sessions/session1",
+      });
+
+      const data = JSON.parse(response.body);
+      expect(data.data).toEqual({ ...mockSession, changes: mockChanges });
+    });
+
     it("should return error when session does not exist", async () => {
       const mockVault = { id: "vault1", path: "/path/to/vault1" };
       vi.spyOn(registry, "getNode").mockResolvedValueOnce(mockVault);
@@ -343,6 +365,70 @@ describe("API Routes - Comprehensive Coverage", { timeout: 30000 }, () => {
     });
   });
 
+  // ============================================================================
+  // GET /api/vaults/:id/sessions/:sessionId/diff - Session Diff
+  // ============================================================================
+
+  describe("GET /api/vaults/:id/sessions/:sessionId/diff", () => {
+    const mockVault = { id: "vault1", path: "/path/to/vault1" };
+    const current = { id: "s2", command: "daily", timestamp: "2026-01-02T00:00:00.000Z" };
+    const previous = { id: "s1", command: "daily", timestamp: "2026-01-01T00:00:00.000Z" };
+
+    it("should diff against the previous run of the same command", async () => {
+      const mockDiff = { left: previous, right: current, files: [] };
+      vi.spyOn(registry, "getNode").mockResolvedValueOnce(mockVault);
+      vi.spyOn(sessions, "loadSession").mockResolvedValueOnce(current as any);
+      const query = vi
+        .spyOn(sessions, "querySessions")
+        .mockResolvedValueOnce([current, previous] as any);
+      const diff = vi.spyOn(sessions, "diffSessionFiles").mockResolvedValueOnce(mockDiff as any);
+
+      const response = await fastifyApp.inject({
+        method: "GET",
+        url: "/api/vaults/vault1/sessions/s2/diff",
+      });
+
+      const data = JSON.parse(response.body);
+      expect(data).toEqual({ success: true, data: mockDiff });
+      expect(query).toHaveBeenCalledWith("/path/to/vault1", {
+        command: "daily",
+        endDate: current.timestamp,
+        limit: 2,
+      });
+      expect(diff).toHaveBeenCalledWith(previous, current);
+    });
+
+    it("should diff against the session given in ?against", async () => {
+      vi.spyOn(registry, "getNode").mockResolvedValueOnce(mockVault);
+      vi.spyOn(sessions, "loadSession")
+        .mockResolvedValueOnce(current as any)
+        .mockResolvedValueOnce(previous as any);
+      const diff = vi.spyOn(sessions, "diffSessionFiles").mockResolvedValueOnce({} as any);
+
+      await fastifyApp.inject({
+        method: "GET",
+        url: "/api/vaults/vault1/sessions/s2/diff?against=s1",
+      });
+
+      expect(diff).toHaveBeenCalledWith(previous, current);
+    });
+
+    it("should return error when there is no earlier run", async () => {
+      vi.spyOn(registry, "getNode").mockResolvedValueOnce(mockVault);
+      vi.spyOn(sessions, "loadSession").mockResolvedValueOnce(current as any);
+      vi.spyOn(sessions, "querySessions").mockResolvedValueOnce([current] as any);
+
+      const response = await fastifyApp.inject({
+        method: "GET",
+        url: "/api/vaults/vault1/sessions/s2/diff",
+      });
+
+      const data = JSON.parse(response.body);
+      expect(data.success).toBe(false);
+      expect(data.error).toBe('No earlier run of "daily" to compare with');
+    });
+  });
+
   // ============================================================================
   // GET /api/vaults/:id/sessions/stats - Session Statistics
   // ============================================================================
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for session export/import bundles
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "path";
+import fs from "fs/promises";
+import {
+  exportSessionBundle,
+  importSessionBundle,
+  readSessionBundle,
+} from "../../src/core/session-bundle.js";
+import { recordSession, loadSession } from "../../src/core/sessions.js";
+import { createTarGz } from "../../src/core/tar.js";
+import { MemoryIndex } from "../../src/memory/index.js";
+import { createTempDir, getTempDir } from "../conftest";
+import type { NodeInfo } from "../../src/core/types.js";
+
+async function createNode(id: string): Promise<NodeInfo> {
+  const nodePath = path.join(getTempDir(), id);
+  await fs.mkdir(path.join(nodePath, ".bozly"), { recursive: true });
+  return {
+    id,
+    name: id,
+    path: nodePath,
+    type: "default",
+    active: true,
+    created: new Date().toISOString(),
+  };
+}
+
+async function record(node: NodeInfo, command: string): Promise<string> {
+  const session = await recordSession(
+    node.path,
+    node.id,
+    node.name,
+    command,
+    "claude",
+    { contextText: "Context", commandText: `Run ${command}` },
+    { text: `Output of ${command}`, duration: 100 }
+  );
+  return session.id;
+}
+
+describe("Session bundles", () => {
+  let source: NodeInfo;
+  let target: NodeInfo;
+  let bundlePath: string;
+
+  beforeEach(async () => {
+    await createTempDir();
+    source = await createNode("laptop-vault");
+    target = await createNode("desktop-vault");
+    bundlePath = path.join(getTempDir(), "bundle.tar.gz");
+  });
+
+  it("exports session files and memories matching the filters", async () => {
+    const dailyId = await record(source, "daily");
+    await record(source, "weekly");
+
+    const result = await exportSessionBundle([source], bundlePath, { command: "daily" });
+
+    expect(result).toMatchObject({ sessions: 1, memories: 1 });
+    const { manifest, files } = await readSessionBundle(bundlePath);
+    expect(manifest.sessions.map((s) => s.id)).toEqual([dailyId]);
+    expect(manifest.sessions[0].files).toEqual(
+      expect.arrayContaining(["session.json", "prompt.txt", "results.md", "memory.md"])
+    );
+    expect(files.get(`sessions/${dailyId}/results.md`)?.toString()).toContain("Output of daily");
+  });
+
+  it("imports into the default node when the bundled node isn't registered", async () => {
+    const id = await record(source, "daily");
+    await exportSessionBundle([source], bundlePath);
+
+    const result = await importSessionBundle(bundlePath, { nodes: [], defaultNode: target });
+
+    expect(result.imported).toEqual([{ id, nodeId: "desktop-vault", fromNodeId: "laptop-vault" }]);
+    const session = await loadSession(target.path, id);
+    expect(session).toMatchObject({ nodeId: "desktop-vault", nodePath: target.path });
+
+    const memoryIndex = new MemoryIndex(path.join(target.path, ".bozly", "memory-index.json"));
+    const memories = await memoryIndex.queryByNode("desktop-vault");
+    expect(memories.map((m) => m.sessionId)).toEqual([id]);
+    expect(result.memoriesIndexed).toBe(1);
+  });
+
+  it("maps sessions to the registered node with the same name", async () => {
+    await record(source, "daily");
+    await exportSessionBundle([source], bundlePath);
+    const renamed = { ...target, name: "laptop-vault" };
+
+    const result = await importSessionBundle(bundlePath, { nodes: [renamed] });
+
+    expect(result.imported[0].nodeId).toBe("desktop-vault");
+  });
+
+  it("skips sessions that are already recorded", async () => {
+    await record(source, "daily");
+    await exportSessionBundle([source], bundlePath);
+
+    await importSessionBundle(bundlePath, { nodes: [], defaultNode: target });
+    const again = await importSessionBundle(bundlePath, { nodes: [], defaultNode: target });
+
+    expect(again.imported).toHaveLength(0);
+    expect(again.skipped[0].reason).toBe("Already recorded");
+  });
+
+  it("doesn't write anything on a dry run", async () => {
+    const id = await record(source, "daily");
+    await exportSessionBundle([source], bundlePath);
+
+    const result = await importSessionBundle(bundlePath, {
+      nodes: [],
+      defaultNode: target,
+      dryRun: true,
+    });
+
+    expect(result.imported).toHaveLength(1);
+    expect(await loadSession(target.path, id)).toBeNull();
+  });
+
+  it("skips sessions with an unsupported schema version or no target node", async () => {
+    const session = { schema_version: "9.0", id: "s1", nodeId: "n", nodeName: "n" };
+    const manifest = {
+      format: "bozly-sessions",
+      version: 1,
+      sessions: [
+        { id: "s1", nodeId: "n", nodeName: "n" },
+        { id: "s2", nodeId: "n", nodeName: "n" },
+      ],
+    };
+    await fs.writeFile(
+      bundlePath,
+      await createTarGz([
+        { path: "manifest.json", content: Buffer.from(JSON.stringify(manifest)) },
+        { path: "sessions/s1/session.json", content: Buffer.from(JSON.stringify(session)) },
+        {
+          path: "sessions/s2/session.json",
+          content: Buffer.from(JSON.stringify({ ...session, id: "s2", schema_version: "1.0" })),
+        },
+      ])
+    );
+
+    const result = await importSessionBundle(bundlePath, { nodes: [] });
+
+    expect(result.skipped).toEqual([
+      { id: "s1", reason: "Unsupported schema_version 9.0" },
+      { id: "s2", reason: "No local node for 'n'" },
+    ]);
+  });
+
+  it("skips sessions whose ID isn't a session UUID", async () => {
+    // Archive paths can't contain "..", but the ID still names a directory
+    const id = "escaped/nested";
+    const session = {
+      schema_version: "1.0",
+      id,
+      nodeId: target.id,
+      nodeName: target.name,
+      timestamp: new Date().toISOString(),
+    };
+    const manifest = { format: "bozly-sessions", version: 1, sessions: [{ id }] };
+    await fs.writeFile(
+      bundlePath,
+      await createTarGz([
+        { path: "manifest.json", content: Buffer.from(JSON.stringify(manifest)) },
+        { path: `sessions/${id}/session.json`, content: Buffer.from(JSON.stringify(session)) },
+        { path: `sessions/${id}/results.md`, content: Buffer.from("pwned") },
+      ])
+    );
+
+    const result = await importSessionBundle(bundlePath, { nodes: [target] });
+
+    expect(result.imported).toHaveLength(0);
+    expect(result.skipped).toEqual([{ id, reason: "Invalid session ID" }]);
+    const written = await fs.readdir(getTempDir(), { recursive: true });
+    expect(written.filter((file) => file.includes("escaped"))).toEqual([]);
+  });
+
+  it("rejects archives without a bundle manifest", async () => {
+    await fs.writeFile(
+      bundlePath,
+      await createTarGz([{ path: "notes.md", content: Buffer.from("hi") }])
+    );
+
+    await expect(importSessionBundle(bundlePath, { nodes: [] })).rejects.toThrow(
+      "Not a BOZLY session bundle"
+    );
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for the append-only session index
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import path from "path";
+import fs from "fs/promises";
+import {
+  getSessionIndexPath,
+  readSessionIndex,
+  loadSessionIndex,
+  rebuildSessionIndex,
+  addToSessionIndex,
+  removeFromSessionIndex,
+  filterSessionIndex,
+} from "../../src/core/session-index.js";
+import {
+  querySessionsGlobal,
+  loadSession,
+  archiveSessionsByNode,
+  getNodesWithSessions,
+} from "../../src/core/sessions.js";
+import { SessionIndexEntry } from "../../src/core/types.js";
+import { logger } from "../../src/core/logger.js";
+import { createTempDir, getTempDir, cleanupTempDir } from "../conftest";
+
+describe("Session index", () => {
+  let sessionsRoot: string;
+
+  const writeSession = async (
+    relativeDir: string,
+    session: Record<string, unknown>
+  ): Promise<void> => {
+    const dir = path.join(sessionsRoot, relativeDir);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, "session.json"),
+      JSON.stringify({ schema_version: "1.0", status: "completed", ...session })
+    );
+  };
+
+  const entry = (overrides: Partial<SessionIndexEntry>): SessionIndexEntry => ({
+    id: "s",
+    nodeId: "vault",
+    timestamp: "2026-01-01T00:00:00.000Z",
+    command: "daily",
+    provider: "claude",
+    status: "completed",
+    path: "vault/2026/01/01/s",
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    await createTempDir();
+    sessionsRoot = path.join(getTempDir(), ".bozly", "sessions");
+  });
+
+  afterEach(async () => {
+    await cleanupTempDir();
+  });
+
+  it("builds the index from disk when it doesn't exist", async () => {
+    await writeSession("vault/2026/01/02/b", {
+      id: "b",
+      nodeId: "vault",
+      timestamp: "2026-01-02T00:00:00.000Z",
+      command: "weekly",
+      provider: "gpt",
+      executionTimeMs: 20,
+      prompt: { metadata: { total: 300 } },
+      metadata: { model: "gpt-4o" },
+    });
+    await writeSession("vault/2026/01/01/a", {
+      id: "a",
+      nodeId: "vault",
+      timestamp: "2026-01-01T00:00:00.000Z",
+      command: "daily",
+      provider: "claude",
+    });
+    await fs.writeFile(path.join(sessionsRoot, "vault", "broken.json"), "{");
+
+    expect(await readSessionIndex(sessionsRoot)).toBeNull();
+    const entries = await loadSessionIndex(sessionsRoot);
+
+    expect(entries.map((e) => e.id)).toEqual(["a", "b"]);
+    expect(entries[1]).toEqual({
+      id: "b",
+      nodeId: "vault",
+      timestamp: "2026-01-02T00:00:00.000Z",
+      command: "weekly",
+      provider: "gpt",
+      status: "completed",
+      executionTimeMs: 20,
+      promptSize: 300,
+      model: "gpt-4o",
+      path: "vault/2026/01/02/b",
+    });
+    expect(await readSessionIndex(sessionsRoot)).toHaveLength(2);
+  });
+
+  it("returns nothing when the sessions root doesn't exist", async () => {
+    expect(await loadSessionIndex(sessionsRoot)).toEqual([]);
+    expect(await readSessionIndex(sessionsRoot)).toBeNull();
+  });
+
+  it("appends updates and removals, latest line winning", async () => {
+    await fs.mkdir(sessionsRoot, { recursive: true });
+    await rebuildSessionIndex(sessionsRoot);
+
+    await addToSessionIndex(sessionsRoot, [entry({ id: "a" }), entry({ id: "b" })]);
+    await addToSessionIndex(sessionsRoot, [entry({ id: "a", path: "archive/vault/a" })]);
+    await removeFromSessionIndex(sessionsRoot, ["b"]);
+
+    const content = await fs.readFile(getSessionIndexPath(sessionsRoot), "utf-8");
+    expect(content.trim().split("\n")).toHaveLength(4);
+    expect(await readSessionIndex(sessionsRoot)).toEqual([
+      entry({ id: "a", path: "archive/vault/a" }),
+    ]);
+  });
+
+  it("survives concurrent rebuilds", async () => {
+    await writeSession("vault/2026/01/01/a", { id: "a", nodeId: "vault" });
+
+    const warn = vi.spyOn(logger, "warn");
+
+    await Promise.all([rebuildSessionIndex(sessionsRoot), rebuildSessionIndex(sessionsRoot)]);
+
+    expect(warn).not.toHaveBeenCalledWith("Failed to write session index", expect.anything());
+    expect((await readSessionIndex(sessionsRoot))?.map((e) => e.id)).toEqual(["a"]);
+    warn.mockRestore();
+  });
+
+  it("skips partially written lines", async () => {
+    await fs.mkdir(sessionsRoot, { recursive: true });
+    await fs.writeFile(
+      getSessionIndexPath(sessionsRoot),
+      `${JSON.stringify(entry({ id: "a" }))}\n{"id": "b", "nod`
+    );
+
+    expect((await readSessionIndex(sessionsRoot))?.map((e) => e.id)).toEqual(["a"]);
+  });
+
+  it("filters entries and sorts newest first", () => {
+    const entries = [
+      entry({ id: "old", timestamp: "2026-01-01T00:00:00.000Z" }),
+      entry({ id: "new", timestamp: "2026-03-01T00:00:00.000Z" }),
+      entry({ id: "gpt", timestamp: "2026-02-01T00:00:00.000Z", provider: "gpt" }),
+      entry({ id: "failed", timestamp: "2026-02-02T00:00:00.000Z", status: "failed" }),
+    ];
+
+    expect(filterSessionIndex(entries).map((e) => e.id)).toEqual(["new", "failed", "gpt", "old"]);
+    expect(
+      filterSessionIndex(entries, {
+        provider: "claude",
+        status: "completed",
+        startDate: "2026-01-15T00:00:00.000Z",
+      }).map((e) => e.id)
+    ).toEqual(["new"]);
+  });
+
+  describe("session queries", () => {
+    beforeEach(async () => {
+      for (const [id, day] of [
+        ["s1", "01"],
+        ["s2", "02"],
+        ["s3", "03"],
+      ]) {
+        await writeSession(`music/2026/01/${day}/${id}`, {
+          id,
+          nodeId: "music",
+          timestamp: `2026-01-${day}T00:00:00.000Z`,
+          command: "rate",
+          provider: "claude",
+        });
+      }
+    });
+
+    it("only loads the requested page of sessions", async () => {
+      await loadSessionIndex(sessionsRoot);
+      // A session the index knows about but whose folder is unreadable is skipped
+      await fs.rm(path.join(sessionsRoot, "music/2026/01/01/s1"), { recursive: true });
+
+      const sessions = await querySessionsGlobal(sessionsRoot, { limit: 1, offset: 1 });
+      expect(sessions.map((s) => s.id)).toEqual(["s2"]);
+      expect((await querySessionsGlobal(sessionsRoot)).map((s) => s.id)).toEqual(["s3", "s2"]);
+    });
+
+    it("keeps the index up to date when archiving", async () => {
+      await loadSessionIndex(sessionsRoot);
+
+      expect(await archiveSessionsByNode(sessionsRoot, "music")).toBe(3);
+
+      const entries = await readSessionIndex(sessionsRoot);
+      expect(entries?.map((e) => e.path).sort()).toEqual([
+        "archive/music/2026/01/01/s1",
+        "archive/music/2026/01/02/s2",
+        "archive/music/2026/01/03/s3",
+      ]);
+      expect(await getNodesWithSessions(sessionsRoot)).toEqual([]);
+      expect((await querySessionsGlobal(sessionsRoot)).map((s) => s.id)).toEqual([
+        "s3",
+        "s2",
+        "s1",
+      ]);
+      expect(await archiveSessionsByNode(sessionsRoot, "music")).toBe(0);
+    });
+
+    it("loads a session by ID through the vault index", async () => {
+      const session = await loadSession(getTempDir(), "s2");
+      expect(session?.timestamp).toBe("2026-01-02T00:00:00.000Z");
+      expect(await loadSession(getTempDir(), "missing")).toBeNull();
+    });
+  });
+});
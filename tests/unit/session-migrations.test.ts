@@ -0,0 +1,137 @@
+/**
+ * Unit tests for session schema migrations
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import path from "path";
+import fs from "fs/promises";
+import {
+  CURRENT_SESSION_SCHEMA_VERSION,
+  migrateSessionFiles,
+  migrateSessionsOnDisk,
+} from "../../src/core/session-migrations.js";
+import { recordSession, loadSession } from "../../src/core/sessions.js";
+import { loadSessionIndex } from "../../src/core/session-index.js";
+import { createTempDir, getTempDir } from "../conftest";
+import type { ExecutionDetails, Session } from "../../src/core/types.js";
+
+const legacySession = {
+  schema_version: "1.0",
+  id: "s1",
+  nodeId: "vault",
+  timestamp: "2026-01-05T10:00:00.000Z",
+  command: "daily",
+  provider: "claude",
+  status: "completed",
+  executionTimeMs: 100,
+  response: { text: "Output", metadata: {} },
+} as unknown as Session;
+
+const execution = {
+  aiRequest: { model: "claude-sonnet" },
+  aiResponse: { usage: { totalTokens: 420 } },
+} as unknown as ExecutionDetails;
+
+describe("Session migrations", () => {
+  it("copies model and token usage from execution.json", () => {
+    const result = migrateSessionFiles({ session: legacySession, execution });
+
+    expect(result).toMatchObject({ from: "1.0", to: CURRENT_SESSION_SCHEMA_VERSION });
+    expect(result.files.session.schema_version).toBe(CURRENT_SESSION_SCHEMA_VERSION);
+    expect(result.files.session.metadata?.model).toBe("claude-sonnet");
+    expect(result.files.session.response?.metadata?.tokenEstimate).toBe(420);
+    expect(legacySession.schema_version).toBe("1.0");
+  });
+
+  it("treats sessions without schema_version as 1.0", () => {
+    const { schema_version: _, ...unversioned } = legacySession;
+
+    const result = migrateSessionFiles({ session: unversioned as Session });
+
+    expect(result.from).toBe("1.0");
+    expect(result.applied).toHaveLength(1);
+  });
+
+  it("refuses sessions from a newer schema", () => {
+    expect(() =>
+      migrateSessionFiles({ session: { ...legacySession, schema_version: "9.0" } })
+    ).toThrow(`Session schema 9.0 is newer than supported (${CURRENT_SESSION_SCHEMA_VERSION})`);
+  });
+
+  describe("on disk", () => {
+    let vaultPath: string;
+    let sessionsRoot: string;
+    let sessionDir: string;
+    let sessionId: string;
+
+    beforeEach(async () => {
+      await createTempDir();
+      vaultPath = getTempDir();
+      sessionsRoot = path.join(vaultPath, ".bozly", "sessions");
+
+      const session = await recordSession(
+        vaultPath,
+        "vault",
+        "Vault",
+        "daily",
+        "claude",
+        { contextText: "Context", commandText: "Run daily" },
+        { text: "Output", duration: 100, model: "claude-sonnet" }
+      );
+      sessionId = session.id;
+      const [entry] = await loadSessionIndex(sessionsRoot);
+      sessionDir = path.join(sessionsRoot, entry.path);
+
+      // Rewrite as a session recorded before 1.1
+      const { metadata: _, ...legacy } = session;
+      await fs.writeFile(
+        path.join(sessionDir, "session.json"),
+        JSON.stringify({ ...legacy, schema_version: "1.0" })
+      );
+    });
+
+    it("migrates sessions when loading them", async () => {
+      const session = await loadSession(vaultPath, sessionId);
+
+      expect(session?.schema_version).toBe(CURRENT_SESSION_SCHEMA_VERSION);
+      expect(session?.metadata?.model).toBe("claude-sonnet");
+    });
+
+    it("reports without writing on a dry run", async () => {
+      const report = await migrateSessionsOnDisk(sessionsRoot, { dryRun: true });
+
+      expect(report.migrated).toEqual([
+        expect.objectContaining({ id: sessionId, from: "1.0", to: CURRENT_SESSION_SCHEMA_VERSION }),
+      ]);
+      const stored = JSON.parse(await fs.readFile(path.join(sessionDir, "session.json"), "utf-8"));
+      expect(stored.schema_version).toBe("1.0");
+    });
+
+    it("writes migrated sessions and skips them the next time", async () => {
+      await migrateSessionsOnDisk(sessionsRoot);
+      const again = await migrateSessionsOnDisk(sessionsRoot);
+
+      const stored = JSON.parse(await fs.readFile(path.join(sessionDir, "session.json"), "utf-8"));
+      expect(stored.schema_version).toBe(CURRENT_SESSION_SCHEMA_VERSION);
+      expect(again).toMatchObject({ scanned: 1, upToDate: 1, migrated: [] });
+    });
+
+    it("reports unreadable sessions and sessions from a newer schema", async () => {
+      const brokenDir = path.join(sessionsRoot, "broken");
+      const futureDir = path.join(sessionsRoot, "future");
+      await fs.mkdir(brokenDir, { recursive: true });
+      await fs.mkdir(futureDir, { recursive: true });
+      await fs.writeFile(path.join(brokenDir, "session.json"), "{not json");
+      await fs.writeFile(
+        path.join(futureDir, "session.json"),
+        JSON.stringify({ ...legacySession, schema_version: "9.0" })
+      );
+
+      const report = await migrateSessionsOnDisk(sessionsRoot, { dryRun: true });
+
+      expect(report.failed).toEqual([{ path: "broken", error: "session.json is not valid JSON" }]);
+      expect(report.newer).toEqual([{ path: "future", version: "9.0" }]);
+      expect(report.scanned).toBe(3);
+    });
+  });
+});
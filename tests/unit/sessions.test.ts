@@ -21,6 +21,9 @@ import {
   getSessionStats,
   formatSessionForLogs,
   getNodeSessions,
+  loadSessionChanges,
+  diffSessionFiles,
+  archiveSessionsByDate,
 } from "../../dist/core/sessions.js";
 import { Session, ExecutionLogEntry, FileChange } from "../../dist/core/types.js";
 import {
@@ -152,6 +155,64 @@ describe("Sessions Module", () => {
       expect(session.executionTimeMs).toBe(2500);
     });
 
+    it("should record the AI model in metadata and execution details", async () => {
+      const session = await recordSession(
+        nodePath,
+        "music-vault",
+        "Music Vault",
+        "daily",
+        "ollama",
+        { commandText: "Run daily analysis" },
+        { text: "Done", duration: 100, model: "llama3" }
+      );
+
+      const sessionDir = path.join(
+        nodePath,
+        ".bozly",
+        "sessions",
+        "music-vault",
+        session.timestamp.split("T")[0].replace(/-/g, "/"),
+        session.id
+      );
+      const execution = JSON.parse(
+        await fs.readFile(path.join(sessionDir, "execution.json"), "utf-8")
+      );
+
+      expect(session.metadata?.model).toBe("llama3");
+      expect(execution.aiRequest.model).toBe("llama3");
+      expect(await fs.readFile(path.join(sessionDir, "context.md"), "utf-8")).toContain(
+        "Model: llama3"
+      );
+    });
+
+    it("should store reported token usage as the token estimate", async () => {
+      const usage = { promptTokens: 40, completionTokens: 10, totalTokens: 50 };
+      const session = await recordSession(
+        nodePath,
+        "music-vault",
+        "Music Vault",
+        "daily",
+        "local-llm",
+        { commandText: "Run daily analysis" },
+        { text: "Done", duration: 100, usage }
+      );
+
+      const sessionDir = path.join(
+        nodePath,
+        ".bozly",
+        "sessions",
+        "music-vault",
+        session.timestamp.split("T")[0].replace(/-/g, "/"),
+        session.id
+      );
+      const execution = JSON.parse(
+        await fs.readFile(path.join(sessionDir, "execution.json"), "utf-8")
+      );
+
+      expect(session.response.metadata.tokenEstimate).toBe(50);
+      expect(execution.aiResponse.usage).toEqual(usage);
+    });
+
     it("should mark failed sessions with error status", async () => {
       const session = await recordSession(
         nodePath,
@@ -220,6 +281,89 @@ describe("Sessions Module", () => {
 
       expect(session).toBeDefined();
     });
+
+    it("should load recorded file changes for a session", async () => {
+      const filesChanged: FileChange[] = [
+        { path: "notes/new.md", action: "created", afterSize: 6, diffPreview: "+ hello" },
+        { path: "ratings.json", action: "modified", beforeSize: 10, afterSize: 12 },
+      ];
+
+      const session = await recordSession(
+        nodePath,
+        "music-vault",
+        "Music Vault",
+        "test",
+        "claude",
+        { contextText: "", commandText: "test" },
+        { text: "output", duration: 100 },
+        [],
+        filesChanged
+      );
+
+      const changes = await loadSessionChanges(session);
+      expect(changes?.filesModified).toEqual(filesChanged);
+      expect(changes?.summary).toEqual({
+        totalFilesModified: 1,
+        totalFilesCreated: 1,
+        totalFilesDeleted: 0,
+      });
+      expect(await loadSessionChanges({ ...session, id: "missing" })).toBeNull();
+    });
+
+    it("should load file changes of archived sessions", async () => {
+      const filesChanged: FileChange[] = [
+        { path: "notes/new.md", action: "created", afterSize: 6 },
+      ];
+      const session = await recordSession(
+        nodePath,
+        "music-vault",
+        "Music Vault",
+        "test",
+        "claude",
+        { contextText: "", commandText: "test" },
+        { text: "output", duration: 100 },
+        [],
+        filesChanged
+      );
+      await archiveSessionsByDate(
+        path.join(nodePath, ".bozly", "sessions"),
+        new Date(Date.now() + 60000)
+      );
+
+      const changes = await loadSessionChanges(session);
+      expect(changes?.filesModified).toEqual(filesChanged);
+    });
+
+    it("should add recorded sessions to the vault's session index", async () => {
+      const first = await recordSession(
+        nodePath,
+        "music-vault",
+        "Music Vault",
+        "daily",
+        "claude",
+        { commandText: "first" },
+        { text: "output", duration: 100, model: "opus" }
+      );
+      const second = await recordSession(
+        nodePath,
+        "music-vault",
+        "Music Vault",
+        "weekly",
+        "gpt",
+        { commandText: "second" },
+        { text: "output", duration: 200 }
+      );
+
+      const lines = (
+        await fs.readFile(path.join(nodePath, ".bozly", "sessions", "index.jsonl"), "utf-8")
+      )
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+      expect(lines.map((entry) => entry.id)).toEqual([first.id, second.id]);
+      expect(lines[0]).toMatchObject({ command: "daily", model: "opus", executionTimeMs: 100 });
+      expect(lines[0].path).toMatch(/^music-vault\/\d{4}\/\d{2}\/\d{2}\//);
+    });
   });
 
   describe("loadSessionFiles", () => {
@@ -462,6 +606,52 @@ describe("Sessions Module", () => {
       expect(diff.right.id).toBe(session2.id);
       expect(diff.differences).toBeDefined();
     });
+
+    it("should diff prompt, context and results line by line", async () => {
+      const session1 = await recordSession(nodePath, "music-vault", "Music Vault", "daily", "claude", {
+        contextText: "# Context",
+        commandText: "Rate the album",
+      }, { text: "Rating: 4/5", duration: 1000 });
+
+      const session2 = await recordSession(nodePath, "music-vault", "Music Vault", "daily", "claude", {
+        contextText: "# Context",
+        commandText: "Rate the album in detail",
+      }, { text: "Rating: 5/5", duration: 1000 });
+
+      const diff = await diffSessionFiles(session1, session2, { context: 0 });
+
+      expect(diff.files?.map((f) => f.file)).toEqual(["prompt.txt", "context.md", "results.md"]);
+      expect(diff.promptDiff).toBe(
+        `--- ${session1.id}/prompt.txt\n+++ ${session2.id}/prompt.txt\n@@ -3 +3 @@\n-Rate the album\n+Rate the album in detail`
+      );
+      const results = diff.files?.find((f) => f.file === "results.md");
+      expect(results?.hunks[0].lines.map((l) => l.text)).toContain("Rating: 5/5");
+      expect(results?.hunks[0].lines.find((l) => l.type === "added")?.segments).toEqual([
+        { text: "Rating: ", changed: false },
+        { text: "5", changed: true },
+        { text: "/5", changed: false },
+      ]);
+    });
+
+    it("should diff archived sessions", async () => {
+      const session1 = await recordSession(nodePath, "music-vault", "Music Vault", "daily", "claude", {
+        contextText: "# Context",
+        commandText: "Rate the album",
+      }, { text: "Rating: 4/5", duration: 1000 });
+      await archiveSessionsByDate(
+        path.join(nodePath, ".bozly", "sessions"),
+        new Date(Date.now() + 60000)
+      );
+      const session2 = await recordSession(nodePath, "music-vault", "Music Vault", "daily", "claude", {
+        contextText: "# Context",
+        commandText: "Rate the album",
+      }, { text: "Rating: 5/5", duration: 1000 });
+
+      const diff = await diffSessionFiles(session1, session2, { context: 0 });
+
+      const results = diff.files?.find((f) => f.file === "results.md");
+      expect(results?.hunks[0].lines.map((l) => l.text)).toEqual(["Rating: 4/5", "Rating: 5/5"]);
+    });
   });
 
   describe("getSessionStats", () => {
@@ -800,6 +990,92 @@ describe("Sessions Module", () => {
       expect(stats.sessionsByProvider["gpt"]).toBe(1);
     });
 
+    it("should break down global statistics by model", async () => {
+      const globalSessionsPath = path.join(tempDir, ".bozly", "sessions");
+      const sessionsToCreate = [
+        { id: "m1", provider: "claude", model: "opus" },
+        { id: "m2", provider: "claude", model: "opus" },
+        { id: "m3", provider: "claude" },
+        { id: "m4", provider: "ollama", model: "llama3" },
+      ];
+
+      for (const sess of sessionsToCreate) {
+        const sessDir = path.join(globalSessionsPath, "music", "2025", "12", "20", sess.id);
+        await fs.mkdir(sessDir, { recursive: true });
+        await fs.writeFile(
+          path.join(sessDir, "session.json"),
+          JSON.stringify({
+            schema_version: "1.0",
+            id: sess.id,
+            nodeId: "music",
+            timestamp: new Date().toISOString(),
+            command: "rate",
+            provider: sess.provider,
+            status: "completed",
+            ...(sess.model && { metadata: { model: sess.model } }),
+          })
+        );
+      }
+
+      const { getSessionStatsGlobal } = await import("../../src/core/sessions.js");
+      const stats = await getSessionStatsGlobal(globalSessionsPath);
+
+      expect(stats.sessionsByModel).toEqual({
+        "claude/default": 1,
+        "claude/opus": 2,
+        "ollama/llama3": 1,
+      });
+    });
+
+    it("should total tokens and cost by vault, command, provider and month", async () => {
+      const globalSessionsPath = path.join(tempDir, ".bozly", "sessions");
+      const sessionsToCreate = [
+        { id: "u1", vault: "music", command: "rate", timestamp: "2026-09-30T10:00:00.000Z", cost: 0.25 },
+        { id: "u2", vault: "music", command: "list", timestamp: "2026-10-01T10:00:00.000Z", cost: 0.5 },
+        { id: "u3", vault: "journal", command: "rate", timestamp: "2026-10-02T10:00:00.000Z" },
+      ];
+
+      for (const sess of sessionsToCreate) {
+        const sessDir = path.join(globalSessionsPath, sess.vault, "2026", "10", "01", sess.id);
+        await fs.mkdir(sessDir, { recursive: true });
+        await fs.writeFile(
+          path.join(sessDir, "session.json"),
+          JSON.stringify({
+            schema_version: "1.1",
+            id: sess.id,
+            nodeId: sess.vault,
+            timestamp: sess.timestamp,
+            command: sess.command,
+            provider: "claude",
+            status: "completed",
+            usage: {
+              promptTokens: 800,
+              outputTokens: 200,
+              totalTokens: 1000,
+              source: "provider",
+              ...(sess.cost && { cost: sess.cost, currency: "USD" }),
+            },
+          })
+        );
+      }
+
+      const { getSessionStatsGlobal } = await import("../../src/core/sessions.js");
+      const stats = await getSessionStatsGlobal(globalSessionsPath);
+
+      expect(stats.totalTokens).toBe(3000);
+      expect(stats.totalCost).toBe(0.75);
+      expect(stats.usageByNode).toEqual({
+        journal: { sessions: 1, tokens: 1000, cost: 0 },
+        music: { sessions: 2, tokens: 2000, cost: 0.75 },
+      });
+      expect(stats.usageByCommand.rate).toEqual({ sessions: 2, tokens: 2000, cost: 0.25 });
+      expect(stats.usageByProvider.claude).toEqual({ sessions: 3, tokens: 3000, cost: 0.75 });
+      expect(stats.usageByMonth).toEqual({
+        "2026-09": { sessions: 1, tokens: 1000, cost: 0.25 },
+        "2026-10": { sessions: 2, tokens: 2000, cost: 0.5 },
+      });
+    });
+
     it("should archive sessions by date", async () => {
       const globalSessionsPath = path.join(tempDir, ".bozly", "sessions");
       const { archiveSessionsByDate } = await import("../../src/core/sessions.js");
@@ -781,6 +781,70 @@ describe("Suggestions Engine - Comprehensive Coverage", () => {
         expect(Array.isArray(providerSuggestion.analysis.data.providers)).toBe(true);
       }
     });
+
+    it("should recommend the provider that wins most comparison runs", async () => {
+      const gptTimes = [800, 900, 1400];
+      const mockSessions = gptTimes.flatMap((gptTime, i) => [
+        {
+          id: `claude-${i}`,
+          command: "test",
+          provider: "claude",
+          status: "completed",
+          executionTimeMs: 1000,
+          metadata: { comparisonId: `cmp-${i}` },
+        },
+        {
+          id: `gpt-${i}`,
+          command: "test",
+          provider: "gpt",
+          status: "completed",
+          executionTimeMs: gptTime,
+          metadata: { comparisonId: `cmp-${i}` },
+        },
+      ]);
+
+      vi.spyOn(sessionsModule, "querySessions").mockResolvedValueOnce(mockSessions);
+      vi.spyOn(sessionsModule, "loadSession").mockImplementation((np, id) => {
+        const session = mockSessions.find((s) => s.id === id);
+        return Promise.resolve(session as any);
+      });
+
+      const suggestions = await engine.analyzeSessions("test");
+
+      const providerSuggestion = suggestions.find((s) => s.type === "provider");
+      expect(providerSuggestion?.description).toBe("Provider 'gpt' won 2 of 3 comparison runs");
+      expect(providerSuggestion?.analysis.data.wins).toEqual({ gpt: 2, claude: 1 });
+    });
+
+    it("should not count comparison groups with a single provider", async () => {
+      const mockSessions = [0, 1, 2].flatMap((i) => [
+        {
+          id: `gpt-${i}`,
+          command: "test",
+          provider: "gpt",
+          status: "completed",
+          executionTimeMs: 500,
+          metadata: { comparisonId: `cmp-${i}` },
+        },
+        {
+          id: `claude-${i}`,
+          command: "test",
+          provider: "claude",
+          status: "completed",
+          executionTimeMs: 1000,
+        },
+      ]);
+
+      vi.spyOn(sessionsModule, "querySessions").mockResolvedValueOnce(mockSessions);
+      vi.spyOn(sessionsModule, "loadSession").mockImplementation((np, id) => {
+        const session = mockSessions.find((s) => s.id === id);
+        return Promise.resolve(session as any);
+      });
+
+      const suggestions = await engine.analyzeSessions("test");
+
+      expect(suggestions.find((s) => s.type === "provider")).toBeUndefined();
+    });
   });
 
   // ============================================================================
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for tar.gz packing
+ */
+
+import { describe, it, expect } from "vitest";
+import { gzipSync } from "zlib";
+import { createTarGz, extractTarGz } from "../../src/core/tar.js";
+
+describe("Tar archives", () => {
+  it("round-trips files", async () => {
+    const entries = [
+      { path: "manifest.json", content: Buffer.from('{"a":1}') },
+      { path: "sessions/abc/results.md", content: Buffer.from("## AI Output\nhéllo\n") },
+      { path: "empty.txt", content: Buffer.alloc(0) },
+    ];
+
+    const archive = await createTarGz(entries);
+
+    expect(await extractTarGz(archive)).toEqual(entries);
+  });
+
+  it("stores long paths in the ustar prefix", async () => {
+    const longPath = `${"nested/".repeat(20)}file.json`;
+
+    const [entry] = await extractTarGz(
+      await createTarGz([{ path: longPath, content: Buffer.from("x") }])
+    );
+
+    expect(entry.path).toBe(longPath);
+  });
+
+  it("rejects unsafe paths", async () => {
+    await expect(
+      createTarGz([{ path: "../outside.txt", content: Buffer.from("x") }])
+    ).rejects.toThrow("Unsafe path in archive: ../outside.txt");
+  });
+
+  it("rejects data that isn't a tar.gz archive", async () => {
+    await expect(extractTarGz(Buffer.from("plain text"))).rejects.toThrow(
+      "Not a gzip-compressed archive"
+    );
+    await expect(extractTarGz(gzipSync(Buffer.alloc(512, 1)))).rejects.toThrow(
+      "Corrupt tar header at offset 0"
+    );
+  });
+});
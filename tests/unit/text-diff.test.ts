@@ -0,0 +1,120 @@
+/**
+ * Unit tests for line and word diffing
+ */
+
+import { describe, it, expect } from "vitest";
+import { diffText, diffWords, formatHunkHeader } from "../../src/core/text-diff.js";
+
+describe("Text diff", () => {
+  describe("diffText", () => {
+    it("produces a unified diff with context", () => {
+      const oldText = "one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\n";
+      const newText = "one\n2\nthree\nfour\nfive\nsix\nseven\neight\nnine\nten\neleven\n";
+
+      const diff = diffText(oldText, newText, { oldLabel: "old", newLabel: "new" });
+
+      expect(diff.added).toBe(2);
+      expect(diff.removed).toBe(1);
+      expect(diff.unified).toBe(
+        [
+          "--- old",
+          "+++ new",
+          "@@ -1,5 +1,5 @@",
+          " one",
+          "-two",
+          "+2",
+          " three",
+          " four",
+          " five",
+          "@@ -8,3 +8,4 @@",
+          " eight",
+          " nine",
+          " ten",
+          "+eleven",
+        ].join("\n")
+      );
+    });
+
+    it("merges changes whose context overlaps into one hunk", () => {
+      const diff = diffText("a\nb\nc\nd\ne", "A\nb\nc\nd\nE", { context: 2 });
+
+      expect(diff.hunks).toHaveLength(1);
+      expect(formatHunkHeader(diff.hunks[0])).toBe("@@ -1,5 +1,5 @@");
+    });
+
+    it("numbers lines on each side", () => {
+      const diff = diffText("a\nb\nc", "a\nx\nb\nc", { context: 0 });
+
+      expect(diff.hunks[0]).toEqual({
+        oldStart: 1,
+        oldLines: 0,
+        newStart: 2,
+        newLines: 1,
+        lines: [{ type: "added", text: "x", newLine: 2 }],
+      });
+      expect(formatHunkHeader(diff.hunks[0])).toBe("@@ -1,0 +2 @@");
+    });
+
+    it("handles empty and identical texts", () => {
+      expect(diffText("same\n", "same\n")).toEqual({
+        hunks: [],
+        added: 0,
+        removed: 0,
+        unified: "",
+      });
+      expect(diffText("", "a\nb").unified).toBe("--- a\n+++ b\n@@ -0,0 +1,2 @@\n+a\n+b");
+    });
+
+    it("finds a minimal diff inside a changed block", () => {
+      const diff = diffText("a\nb\nc\nd", "x\nb\ny\nz\nd");
+
+      expect(diff.hunks[0].lines.map((l) => `${l.type[0]}${l.text}`)).toEqual([
+        "ra",
+        "ax",
+        "cb",
+        "rc",
+        "ay",
+        "az",
+        "cd",
+      ]);
+    });
+
+    it("adds word segments to changed lines that pair up", () => {
+      const [removed, added] = diffText("the quick brown fox", "the slow brown fox").hunks[0].lines;
+
+      expect(removed.segments).toEqual([
+        { text: "the ", changed: false },
+        { text: "quick", changed: true },
+        { text: " brown fox", changed: false },
+      ]);
+      expect(added.segments).toEqual([
+        { text: "the ", changed: false },
+        { text: "slow", changed: true },
+        { text: " brown fox", changed: false },
+      ]);
+    });
+
+    it("doesn't add word segments when paired lines share nothing", () => {
+      const lines = diffText("alpha", "beta").hunks[0].lines;
+
+      expect(lines.every((line) => line.segments === undefined)).toBe(true);
+    });
+  });
+
+  describe("diffWords", () => {
+    it("splits punctuation from words", () => {
+      expect(diffWords("Rate: 4/5", "Rate: 5/5")).toEqual({
+        old: [
+          { text: "Rate: ", changed: false },
+          { text: "4", changed: true },
+          { text: "/5", changed: false },
+        ],
+        new: [
+          { text: "Rate: ", changed: false },
+          { text: "5", changed: true },
+          { text: "/5", changed: false },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for text analysis: stemming, query parsing and snippets
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  analyze,
+  buildSnippet,
+  isEmptySearchQuery,
+  parseSearchQuery,
+  stem,
+  tokenize,
+} from "../../src/core/text-search.js";
+
+describe("stem", () => {
+  it("reduces inflections to a common stem", () => {
+    expect(stem("reviews")).toBe("review");
+    expect(stem("reviewing")).toBe("review");
+    expect(stem("reviewed")).toBe("review");
+    expect(stem("ponies")).toBe("poni");
+    expect(stem("relational")).toBe("relat");
+    expect(stem("generalization")).toBe("gener");
+  });
+
+  it("leaves short words and non a-z words alone", () => {
+    expect(stem("is")).toBe("is");
+    expect(stem("2025")).toBe("2025");
+    expect(stem("café")).toBe("café");
+  });
+});
+
+describe("tokenize", () => {
+  it("lowercases, stems and keeps offsets", () => {
+    expect(tokenize("Daily-Reports ran")).toEqual([
+      { term: "daili", start: 0, end: 5 },
+      { term: "report", start: 6, end: 13 },
+      { term: "ran", start: 14, end: 17 },
+    ]);
+    expect(analyze("Mixing, mixed; MIXES!")).toEqual(["mix", "mix", "mix"]);
+  });
+});
+
+describe("parseSearchQuery", () => {
+  it("separates terms, phrases and field prefixes", () => {
+    const parsed = parseSearchQuery(
+      'album "kid a reviews" tag:Music vault:"Music Vault" daily-log'
+    );
+
+    expect(parsed.terms).toEqual(["album"]);
+    expect(parsed.phrases).toEqual([
+      ["kid", "a", "review"],
+      ["daili", "log"],
+    ]);
+    expect(parsed.filters).toEqual({ tag: ["music"], command: [], vault: ["music vault"] });
+  });
+
+  it("searches unknown prefixes as text", () => {
+    const parsed = parseSearchQuery("provider:claude");
+
+    expect(parsed.phrases).toEqual([["provid", "claud"]]);
+    expect(isEmptySearchQuery(parsed)).toBe(false);
+  });
+
+  it("recognizes empty queries", () => {
+    expect(isEmptySearchQuery(parseSearchQuery('  "" '))).toBe(true);
+    expect(isEmptySearchQuery(parseSearchQuery("command:daily"))).toBe(false);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("highlights matches", () => {
+    expect(buildSnippet("Reviewed the\nalbum today", ["review", "album"])).toBe(
+      "**Reviewed** the **album** today"
+    );
+  });
+
+  it("picks the passage with the most matches", () => {
+    const text = `${"filler ".repeat(40)}the mix needs more bass, the mix is muddy ${"filler ".repeat(40)}`;
+
+    const snippet = buildSnippet(text, ["mix"], 60);
+
+    expect(snippet).toMatch(/^….*\*\*mix\*\*.*\*\*mix\*\*.*…$/);
+    expect(snippet!.length).toBeLessThan(70);
+  });
+
+  it("returns undefined without matches", () => {
+    expect(buildSnippet("Nothing here", ["album"])).toBeUndefined();
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Unit tests for token counting
+ */
+
+import { describe, it, expect } from "vitest";
+import { countTokens, estimateTokenUsage, getTokenizerFamily } from "../../src/core/tokens.js";
+
+describe("Token counting", () => {
+  it("picks the tokenizer family from provider and model", () => {
+    expect(getTokenizerFamily("claude")).toBe("claude");
+    expect(getTokenizerFamily("gpt", "gpt-4o")).toBe("gpt");
+    expect(getTokenizerFamily("openrouter", "anthropic/claude-3.5-sonnet")).toBe("claude");
+    expect(getTokenizerFamily("gemini")).toBe("gemini");
+    expect(getTokenizerFamily("ollama", "llama3")).toBe("llama");
+    expect(getTokenizerFamily("custom")).toBe("generic");
+  });
+
+  it("counts common words as one token each", () => {
+    expect(countTokens("")).toBe(0);
+    expect(countTokens("the quick brown fox")).toBe(4);
+    expect(countTokens("Hello, world!")).toBe(4);
+  });
+
+  it("splits long words, numbers and non-Latin text", () => {
+    expect(countTokens("internationalization", "gpt")).toBe(3);
+    expect(countTokens("1234567", "gpt")).toBe(3);
+    expect(countTokens("1234567", "llama")).toBe(7);
+    expect(countTokens("日本語", "gpt")).toBe(3);
+  });
+
+  it("estimates prompt and output tokens", () => {
+    const usage = estimateTokenUsage("claude", undefined, "Summarize my day", "You had a good day");
+
+    expect(usage).toEqual({ promptTokens: 4, completionTokens: 5, totalTokens: 9 });
+  });
+});
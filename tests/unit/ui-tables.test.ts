@@ -9,6 +9,7 @@ import {
   formatStatsTable,
   formatSearchResultsTable,
   formatKeyValue,
+  createTable,
 } from "../../dist/cli/ui/tables.js";
 
 describe("Table Formatting", () => {
@@ -269,4 +270,39 @@ describe("Table Formatting", () => {
       expect(table).toContain("└");
     });
   });
+
+  describe("createTable", () => {
+    it("renders headers and rows without column widths", () => {
+      // As `bozly logs --by` and the `run --compare` summary use it
+      const table = createTable({ headers: ["Provider", "Status", "Duration"] });
+      table.push(["claude", "completed", "1200ms"], ["gpt", "failed", "300ms"]);
+
+      const output = table.toString();
+      expect(output).toContain("Provider");
+      expect(output).toContain("claude");
+      expect(output).toContain("300ms");
+      expect(output).toContain("┌");
+      expect(output).toContain("┼");
+    });
+
+    it("uses the border characters of the chosen style", () => {
+      const table = createTable({ headers: ["Key"], style: "markdown" });
+      table.push(["value"]);
+
+      const output = table.toString();
+      expect(output).toContain("| value |");
+      expect(output).not.toContain("┌");
+    });
+
+    it("applies column widths when given", () => {
+      const table = createTable({ headers: ["Name"], colWidths: [8] });
+      table.push(["a-very-long-vault-name"]);
+
+      const widths = table
+        .toString()
+        .split("\n")
+        .map((line: string) => line.replace(/\u001b\[[0-9;]*m/g, "").length);
+      expect(Math.max(...widths)).toBe(10);
+    });
+  });
 });
@@ -55,7 +55,7 @@ describe("VaultValidator", () => {
       expect(report.vaultName).toBeDefined();
       expect(report.timestamp).toBeDefined();
       expect(report.checks).toBeInstanceOf(Array);
-      expect(report.checks.length).toBe(10);
+      expect(report.checks.length).toBe(11);
       expect(report.passCount).toBeGreaterThanOrEqual(0);
       expect(report.failCount).toBeGreaterThanOrEqual(0);
       expect(report.warnCount).toBeGreaterThanOrEqual(0);
@@ -70,7 +70,7 @@ describe("VaultValidator", () => {
     it("should count checks correctly", async () => {
       const report = await validator.validateVault(testVaultPath);
       const checkCount = report.passCount + report.failCount + report.warnCount;
-      expect(checkCount).toBe(10);
+      expect(checkCount).toBe(11);
     });
   });
 
@@ -409,6 +409,44 @@ describe("VaultValidator", () => {
     });
   });
 
+  describe("Check 11: Session Files", () => {
+    const writeSession = async (id: string, content: string): Promise<void> => {
+      const sessionDir = path.join(testVaultPath, ".bozly", "sessions", "test-vault", "2025", "12", "20", id);
+      await fs.mkdir(sessionDir, { recursive: true });
+      await fs.writeFile(path.join(sessionDir, "session.json"), content);
+    };
+
+    it("should pass when there are no sessions", async () => {
+      const report = await validator.validateVault(testVaultPath);
+      const check = report.checks[10];
+
+      expect(check.name).toBe("Session Files");
+      expect(check.level).toBe("pass");
+    });
+
+    it("should fail for unreadable sessions and sessions from a newer schema", async () => {
+      await writeSession("broken", "{ not json");
+      await writeSession("future", JSON.stringify({ id: "future", schema_version: "9.0" }));
+
+      const report = await validator.validateVault(testVaultPath);
+      const check = report.checks[10];
+
+      expect(check.level).toBe("fail");
+      expect(check.message).toBe("1 unreadable, 1 newer than schema 1.1 (of 2 sessions)");
+      expect(check.details).toContain("schema 9.0");
+    });
+
+    it("should warn when sessions use an older schema", async () => {
+      await writeSession("old", JSON.stringify({ id: "old", schema_version: "1.0" }));
+
+      const report = await validator.validateVault(testVaultPath);
+      const check = report.checks[10];
+
+      expect(check.level).toBe("warn");
+      expect(check.details).toContain("bozly sessions migrate");
+    });
+  });
+
   describe("Edge cases", () => {
     it("should handle vault with no config gracefully", async () => {
       const bozlyPath = path.join(testVaultPath, ".bozly");
@@ -417,7 +455,7 @@ describe("VaultValidator", () => {
       const report = await validator.validateVault(testVaultPath);
 
       expect(report).toBeDefined();
-      expect(report.checks.length).toBe(10);
+      expect(report.checks.length).toBe(11);
       // Should have at least one failure
       expect(report.failCount).toBeGreaterThan(0);
     });
@@ -429,7 +467,7 @@ describe("VaultValidator", () => {
       const report = await validator.validateVault(testVaultPath);
 
       expect(report).toBeDefined();
-      expect(report.checks.length).toBe(10);
+      expect(report.checks.length).toBe(11);
       // Should have at least one failure
       expect(report.failCount).toBeGreaterThan(0);
     });
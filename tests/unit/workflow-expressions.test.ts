@@ -0,0 +1,198 @@
+/**
+ * Workflow Expression Language Tests
+ *
+ * Tests for parsing, validation, filters, date formatting and conditions
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ExpressionScope,
+  parseExpression,
+  checkExpression,
+  findStepReferences,
+  evaluateExpression,
+  renderTemplate,
+  evaluateCondition,
+  extractTemplateExpressions,
+  formatDate,
+  isTruthy,
+} from "../../src/core/workflow-expressions.js";
+
+const scope = (overrides: Partial<ExpressionScope> = {}): ExpressionScope => ({
+  now: new Date("2026-10-19T14:05:09.007Z"),
+  steps: {
+    fetch: { output: "line one\nline two\nline three", status: "completed", duration: 1200 },
+    empty: { output: "  \n", status: "completed", duration: 10 },
+    broken: { output: "", status: "failed", error: "boom", duration: 5 },
+    "journal-entry": { output: "Journal written", session: { id: "abc-123" } },
+  },
+  env: { BOZLY_USER: "sam" },
+  vault: { id: "music", name: "Music Vault", path: "/music", type: "music" },
+  ...overrides,
+});
+
+const evaluate = (source: string, s: ExpressionScope = scope()): unknown =>
+  evaluateExpression(parseExpression(source), s);
+
+describe("Workflow Expressions", () => {
+  describe("parseExpression", () => {
+    it("parses paths with hyphenated step IDs", () => {
+      expect(parseExpression("steps.journal-entry.output")).toEqual({
+        kind: "path",
+        segments: ["steps", "journal-entry", "output"],
+      });
+    });
+
+    it("rejects unknown filters", () => {
+      expect(() => parseExpression("now | nope")).toThrow("Unknown filter 'nope'");
+    });
+
+    it("rejects wrong filter arity", () => {
+      expect(() => parseExpression("steps.a.output | truncate")).toThrow(
+        "Filter 'truncate' expects 1 argument(s), got 0"
+      );
+    });
+
+    it("rejects unterminated strings", () => {
+      expect(() => parseExpression("now | date:'YYYY")).toThrow("Unterminated string");
+    });
+
+    it("rejects trailing tokens", () => {
+      expect(() => parseExpression("steps.a.output steps.b.output")).toThrow("Unexpected 'steps'");
+    });
+  });
+
+  describe("checkExpression", () => {
+    const stepIds = new Set(["fetch"]);
+
+    it("accepts known variables", () => {
+      expect(checkExpression(parseExpression("steps.fetch.output"), stepIds)).toEqual([]);
+      expect(checkExpression(parseExpression("env.HOME && vault.name"), stepIds)).toEqual([]);
+    });
+
+    it("reports unknown variables and steps", () => {
+      expect(checkExpression(parseExpression("foo.bar"), stepIds)).toEqual([
+        "Unknown variable 'foo'",
+      ]);
+      expect(checkExpression(parseExpression("steps.missing.output"), stepIds)).toEqual([
+        "Unknown step 'missing'",
+      ]);
+    });
+  });
+
+  it("finds referenced steps", () => {
+    const expr = parseExpression("steps.a.output | default: steps.b.output || !steps.c.status");
+    expect(findStepReferences(expr).sort()).toEqual(["a", "b", "c"]);
+  });
+
+  describe("dates", () => {
+    it("formats with common tokens", () => {
+      expect(evaluate("now | date:'YYYY-MM-DD'")).toBe("2026-10-19");
+      expect(evaluate("now | date:'HH:mm:ss.SSS'")).toBe("14:05:09.007");
+      expect(evaluate("now | date:'ddd D MMM YY'")).toBe("Mon 19 Oct 26");
+      expect(evaluate("now | date:'ISO'")).toBe("2026-10-19T14:05:09.007Z");
+    });
+
+    it("supports ISO weeks and bracketed literals", () => {
+      expect(evaluate("now | date:'YYYY-[W]WW'")).toBe("2026-W43");
+      expect(formatDate(new Date("2027-01-01T00:00:00Z"), "GGGG-[W]WW")).toBe("2026-W53");
+    });
+
+    it("applies offsets before formatting", () => {
+      expect(evaluate("now | addDays:-7 | date:'YYYY-[W]WW'")).toBe("2026-W42");
+      expect(evaluate("now | addMonths:3 | date:'YYYY-MM'")).toBe("2027-01");
+      expect(evaluate("now | addHours:12 | date:'YYYY-MM-DD'")).toBe("2026-10-20");
+      expect(evaluate("now | addWeeks:1 | date:'DD'")).toBe("26");
+    });
+
+    it("renders bare now as ISO", () => {
+      expect(renderTemplate("{{ now }}", scope())).toBe("2026-10-19T14:05:09.007Z");
+    });
+
+    it("fails on non-date input", () => {
+      expect(() => evaluate("env.BOZLY_USER | date:'YYYY'")).toThrow(
+        "Filter 'date' expects a date, got 'sam'"
+      );
+    });
+  });
+
+  describe("string filters", () => {
+    it("truncates, changes case and trims", () => {
+      expect(evaluate("steps.journal-entry.output | truncate:7")).toBe("Journal…");
+      expect(evaluate("vault.name | upper")).toBe("MUSIC VAULT");
+      expect(evaluate("vault.name | lower")).toBe("music vault");
+      expect(evaluate("steps.empty.output | trim")).toBe("");
+    });
+
+    it("takes the first lines", () => {
+      expect(evaluate("steps.fetch.output | first-lines:2")).toBe("line one\nline two");
+    });
+
+    it("encodes json and measures length", () => {
+      expect(evaluate("steps.journal-entry.session | json")).toBe('{"id":"abc-123"}');
+      expect(evaluate("vault.id | length")).toBe(5);
+    });
+
+    it("falls back with default", () => {
+      expect(evaluate("steps.empty.output | default:'none'")).toBe("none");
+      expect(evaluate("env.MISSING | default: vault.id")).toBe("music");
+    });
+  });
+
+  describe("renderTemplate", () => {
+    it("replaces every expression and keeps surrounding text", () => {
+      expect(
+        renderTemplate(
+          "{{ vault.name }} for {{ env.BOZLY_USER }}: {{ steps.journal-entry.session.id }}",
+          scope()
+        )
+      ).toBe("Music Vault for sam: abc-123");
+    });
+
+    it("renders missing values as empty strings", () => {
+      expect(renderTemplate("[{{ steps.unknown.output }}]", scope())).toBe("[]");
+    });
+
+    it("extracts template expressions", () => {
+      expect(extractTemplateExpressions("a {{ now }} b {{steps.x.output|upper}}")).toEqual([
+        "now",
+        "steps.x.output|upper",
+      ]);
+    });
+  });
+
+  describe("evaluateCondition", () => {
+    it("compares strings and numbers", () => {
+      expect(evaluateCondition("steps.fetch.status == 'completed'", scope())).toBe(true);
+      expect(evaluateCondition("steps.broken.status != 'failed'", scope())).toBe(false);
+      expect(evaluateCondition("steps.fetch.duration > 1000", scope())).toBe(true);
+      expect(evaluateCondition("steps.fetch.duration <= 100", scope())).toBe(false);
+    });
+
+    it("treats blank output as false", () => {
+      expect(evaluateCondition("steps.empty.output", scope())).toBe(false);
+      expect(evaluateCondition("!steps.empty.output", scope())).toBe(true);
+      expect(evaluateCondition("steps.fetch.output", scope())).toBe(true);
+    });
+
+    it("combines with && / || and parentheses", () => {
+      expect(
+        evaluateCondition(
+          "(steps.broken.status == 'failed' || steps.empty.output) && vault.type == 'music'",
+          scope()
+        )
+      ).toBe(true);
+    });
+
+    it("accepts conditions wrapped in braces", () => {
+      expect(evaluateCondition("{{ steps.fetch.output | first-lines:1 }}", scope())).toBe(true);
+    });
+  });
+
+  it("isTruthy handles arrays and blanks", () => {
+    expect(isTruthy([])).toBe(false);
+    expect(isTruthy(["a"])).toBe(true);
+    expect(isTruthy("   ")).toBe(false);
+    expect(isTruthy(0)).toBe(false);
+  });
+});
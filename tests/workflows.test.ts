@@ -4,7 +4,7 @@
  * Tests for workflow discovery, loading, validation, execution, and context interpolation
  */
 
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import fs from "fs/promises";
 import path from "path";
 import os from "os";
@@ -15,15 +15,46 @@ import {
   interpolateStepContext,
   executeWorkflow,
   executeWorkflowStep,
+  formatStepParams,
+  buildWorkflowGraph,
+  findWorkflowCycle,
+  computeCriticalPath,
+  getRetryDelay,
+  listWorkflowRuns,
+  loadWorkflowRun,
+  saveWorkflowRun,
 } from "../src/core/workflows.js";
 import {
   Workflow,
   WorkflowStep,
   WorkflowStepResult,
+  WorkflowRun,
   Registry,
   NodeInfo,
 } from "../src/core/types.js";
 
+const mocks = vi.hoisted(() => ({
+  getNode: vi.fn(),
+  getCommand: vi.fn(),
+  runNodeCommand: vi.fn(),
+  recordSession: vi.fn(),
+  loadPastMemories: vi.fn(),
+  loadSession: vi.fn(),
+  getGlobalConfig: vi.fn(),
+}));
+
+vi.mock("../src/core/registry.js", () => ({ getNode: mocks.getNode }));
+vi.mock("../src/core/commands.js", () => ({
+  getCommand: mocks.getCommand,
+  runNodeCommand: mocks.runNodeCommand,
+}));
+vi.mock("../src/core/sessions.js", () => ({
+  recordSession: mocks.recordSession,
+  loadPastMemories: mocks.loadPastMemories,
+  loadSession: mocks.loadSession,
+}));
+vi.mock("../src/core/config.js", () => ({ getGlobalConfig: mocks.getGlobalConfig }));
+
 let testDir: string;
 let nodeDir: string;
 let workflowsDir: string;
@@ -90,6 +121,35 @@ beforeEach(async () => {
   workflowsDir = path.join(nodeDir, ".bozly", "workflows");
 
   await fs.mkdir(workflowsDir, { recursive: true });
+
+  // Every registry node resolves to a test node; commands echo their params
+  mocks.getNode.mockImplementation(async (id: string) =>
+    mockRegistry.nodes.find((n) => n.id === id) ?? undefined
+  );
+  mocks.getCommand.mockResolvedValue(null);
+  mocks.loadPastMemories.mockResolvedValue([]);
+  mocks.getGlobalConfig.mockResolvedValue({ version: "0.3.0", defaultAI: "claude" });
+  mocks.runNodeCommand.mockImplementation(
+    async (node: NodeInfo, command: string, options: { provider?: string; params?: string }) => ({
+      provider: options.provider ?? "claude",
+      prompt: `prompt for ${command}`,
+      contextSize: 0,
+      output: `${command}@${node.id}${options.params ? `\n${options.params}` : ""}`,
+      contextText: "",
+      commandText: command,
+      commandName: command,
+      modelsUsed: [],
+      duration: 5,
+    })
+  );
+  mocks.recordSession.mockImplementation(
+    async (_path: string, nodeId: string, _name: string, command: string, provider: string) => ({
+      id: `session-${command}`,
+      nodeId,
+      command,
+      provider,
+    })
+  );
 });
 
 afterEach(async () => {
@@ -278,6 +338,21 @@ describe("Workflows Module", () => {
 
       expect(errors.some((e) => e.field === "timeout")).toBe(true);
     });
+
+    it("validates the schedule", () => {
+      const errors = validateWorkflow(
+        { ...validWorkflow, schedule: { cron: "0 9 * *", timezone: "Nowhere/City" } },
+        mockRegistry
+      );
+
+      expect(errors.map((e) => e.field)).toEqual(["schedule.cron", "schedule.timezone"]);
+      expect(
+        validateWorkflow(
+          { ...validWorkflow, schedule: { cron: "0 9 * * mon", timezone: "Europe/Paris" } },
+          mockRegistry
+        )
+      ).toEqual([]);
+    });
   });
 
   describe("interpolateStepContext", () => {
@@ -444,6 +519,27 @@ describe("Workflows Module", () => {
       expect(result.duration).toBeGreaterThanOrEqual(0);
     });
 
+    it("runs the command on the step's node", async () => {
+      const step = validWorkflow.steps[0];
+      const result = await executeWorkflowStep(validWorkflow, step, new Map());
+
+      expect(mocks.runNodeCommand).toHaveBeenCalledTimes(1);
+      const [node, command] = mocks.runNodeCommand.mock.calls[0];
+      expect(node.id).toBe("journal");
+      expect(command).toBe("morning");
+      expect(result.output).toBe("morning@journal");
+    });
+
+    it("records a session and attaches it to the result", async () => {
+      const step = validWorkflow.steps[0];
+      const result = await executeWorkflowStep(validWorkflow, step, new Map());
+
+      expect(mocks.recordSession).toHaveBeenCalledTimes(1);
+      expect(mocks.recordSession.mock.calls[0][1]).toBe("journal");
+      expect(mocks.recordSession.mock.calls[0][3]).toBe("morning");
+      expect(result.session?.id).toBe("session-morning");
+    });
+
     it("interpolates step context before execution", async () => {
       const step = validWorkflow.steps[1];
       const completedSteps = new Map<string, WorkflowStepResult>();
@@ -462,6 +558,771 @@ describe("Workflows Module", () => {
 
       expect(result.stepId).toBe("music-prep");
       expect(result.status).toBe("completed");
+
+      const options = mocks.runNodeCommand.mock.calls[0][2];
+      expect(options.params).toMatch(/^date: \d{4}-\d{2}-\d{2}$/);
+    });
+
+    it("uses step provider override", async () => {
+      const step: WorkflowStep = { ...validWorkflow.steps[0], provider: "ollama" };
+      await executeWorkflowStep(validWorkflow, step, new Map());
+
+      expect(mocks.runNodeCommand.mock.calls[0][2].provider).toBe("ollama");
+    });
+
+    it("passes the model configured for the step's command", async () => {
+      await fs.writeFile(
+        path.join(nodeDir, ".bozly", "config.json"),
+        JSON.stringify({ commands: { morning: { provider: "gpt", model: "gpt-4o" } } })
+      );
+      mocks.getNode.mockResolvedValue({ ...mockRegistry.nodes[0], path: nodeDir });
+      mocks.runNodeCommand.mockImplementation(async (_node, command, options) => ({
+        provider: options.provider,
+        prompt: command,
+        contextSize: 0,
+        output: "done",
+        model: options.model,
+      }));
+
+      await executeWorkflowStep(validWorkflow, validWorkflow.steps[0], new Map());
+
+      expect(mocks.runNodeCommand.mock.calls[0][2]).toMatchObject({
+        provider: "gpt",
+        model: "gpt-4o",
+      });
+      expect(mocks.recordSession.mock.calls[0][6].model).toBe("gpt-4o");
+    });
+
+    it("doesn't pass the model to fallback providers", async () => {
+      await fs.writeFile(
+        path.join(nodeDir, ".bozly", "config.json"),
+        JSON.stringify({ provider: "claude", model: "opus" })
+      );
+      mocks.getNode.mockResolvedValue({ ...mockRegistry.nodes[0], path: nodeDir });
+      mocks.runNodeCommand.mockRejectedValueOnce(new Error("Claude exited with code 1"));
+
+      const step: WorkflowStep = { ...validWorkflow.steps[0], fallbackProviders: ["ollama"] };
+      const result = await executeWorkflowStep(validWorkflow, step, new Map());
+
+      expect(result.status).toBe("completed");
+      expect(mocks.runNodeCommand.mock.calls[0][2].model).toBe("opus");
+      expect(mocks.runNodeCommand.mock.calls[1][2]).toMatchObject({
+        provider: "ollama",
+        model: undefined,
+      });
+    });
+
+    it("falls back to command frontmatter provider", async () => {
+      mocks.getCommand.mockResolvedValue({ name: "morning", file: "x", provider: "gpt" });
+      await executeWorkflowStep(validWorkflow, validWorkflow.steps[0], new Map());
+
+      expect(mocks.runNodeCommand.mock.calls[0][2].provider).toBe("gpt");
+    });
+
+    it("fails when the node is not in the registry", async () => {
+      const step: WorkflowStep = { ...validWorkflow.steps[0], node: "missing" };
+      const result = await executeWorkflowStep(validWorkflow, step, new Map());
+
+      expect(result.status).toBe("failed");
+      expect(result.error).toContain("not found in registry");
+      expect(mocks.runNodeCommand).not.toHaveBeenCalled();
+      expect(mocks.recordSession).not.toHaveBeenCalled();
+    });
+
+    it("fails and records a failed session when the command throws", async () => {
+      mocks.runNodeCommand.mockRejectedValue(new Error("Claude exited with code 1"));
+      const result = await executeWorkflowStep(validWorkflow, validWorkflow.steps[0], new Map());
+
+      expect(result.status).toBe("failed");
+      expect(result.error).toBe("Claude exited with code 1");
+      expect(mocks.recordSession).toHaveBeenCalledTimes(1);
+      expect(mocks.recordSession.mock.calls[0][6].error).toBe("Claude exited with code 1");
+    });
+
+    it("honors the step timeout", async () => {
+      mocks.runNodeCommand.mockImplementation(() => new Promise(() => {}));
+      const step: WorkflowStep = { ...validWorkflow.steps[0], timeout: 20 };
+      const result = await executeWorkflowStep(validWorkflow, step, new Map());
+
+      expect(result.status).toBe("failed");
+      expect(result.error).toContain("timed out after 20ms");
+    });
+
+    it("passes the step timeout to the provider call", async () => {
+      const step: WorkflowStep = { ...validWorkflow.steps[0], timeout: 1500 };
+      await executeWorkflowStep(validWorkflow, step, new Map());
+
+      expect(mocks.runNodeCommand.mock.calls[0][2].timeout).toBe(1500);
+    });
+  });
+
+  describe("output chaining", () => {
+    it("passes previous step output to the next step", async () => {
+      const workflow: Workflow = {
+        ...validWorkflow,
+        steps: [
+          validWorkflow.steps[0],
+          {
+            id: "summary",
+            node: "music",
+            command: "summarize",
+            onError: "stop",
+            context: {
+              previous: "{{ steps.journal-entry.output }}",
+              sessionId: "{{ steps.journal-entry.session.id }}",
+            },
+          },
+        ],
+      };
+
+      const result = await executeWorkflow(workflow);
+      const summary = result.steps.find((s) => s.stepId === "summary");
+
+      expect(summary?.output).toContain("previous: morning@journal");
+      expect(summary?.output).toContain("sessionId: session-morning");
+    });
+  });
+
+  describe("formatStepParams", () => {
+    it("returns undefined for empty context", () => {
+      expect(formatStepParams({})).toBeUndefined();
+    });
+
+    it("formats keys as lines and encodes non-strings", () => {
+      expect(formatStepParams({ date: "2026-01-01", tags: ["a"], count: 2 })).toBe(
+        'date: 2026-01-01\ntags: ["a"]\ncount: 2'
+      );
+    });
+  });
+
+  describe("expressions and conditions", () => {
+    const step = (id: string, extra: Partial<WorkflowStep> = {}): WorkflowStep => ({
+      id,
+      node: "music",
+      command: id,
+      onError: "continue",
+      ...extra,
+    });
+
+    it("interpolates vault, env and filtered values", () => {
+      process.env.BOZLY_TEST_USER = "sam";
+      const completedSteps = new Map<string, WorkflowStepResult>([
+        ["fetch", { stepId: "fetch", status: "completed", duration: 10, output: "one\ntwo" }],
+      ]);
+
+      const context = interpolateStepContext(
+        step("summary", {
+          context: {
+            title: "{{ vault.name | upper }} for {{ env.BOZLY_TEST_USER }}",
+            head: "{{ steps.fetch.output | first-lines:1 }}",
+          },
+        }),
+        completedSteps,
+        mockRegistry.nodes[0]
+      );
+      delete process.env.BOZLY_TEST_USER;
+
+      expect(context.title).toBe("MUSIC NODE for sam");
+      expect(context.head).toBe("one");
+    });
+
+    it("reports context evaluation errors with the field name", () => {
+      const completedSteps = new Map<string, WorkflowStepResult>([
+        ["fetch", { stepId: "fetch", status: "completed", duration: 10, output: "text" }],
+      ]);
+
+      expect(() =>
+        interpolateStepContext(
+          step("bad", { context: { date: "{{ steps.fetch.output | date:'YYYY' }}" } }),
+          completedSteps
+        )
+      ).toThrow("Invalid expression in context.date");
+    });
+
+    it("validateWorkflow reports expression errors", () => {
+      const workflow: Workflow = {
+        ...validWorkflow,
+        steps: [
+          step("a", { context: { date: "{{ now | nope }}" } }),
+          step("b", { when: "steps.missing.output" }),
+          step("c", { context: { list: ["{{ steps.a.output | truncate }}"] } }),
+        ],
+      };
+
+      const errors = validateWorkflow(workflow, mockRegistry);
+
+      expect(errors).toContainEqual(expect.objectContaining({ step: "a", field: "context.date" }));
+      expect(errors).toContainEqual(
+        expect.objectContaining({
+          step: "b",
+          field: "when",
+          message: "Unknown step 'missing' in 'steps.missing.output'",
+        })
+      );
+      expect(errors).toContainEqual(
+        expect.objectContaining({ step: "c", field: "context.list[0]" })
+      );
+    });
+
+    it("treats steps referenced in conditions as dependencies", () => {
+      const workflow: Workflow = {
+        ...validWorkflow,
+        steps: [step("a"), step("b", { when: "steps.a.status == 'completed'" })],
+      };
+
+      expect(Array.from(buildWorkflowGraph(workflow).get("b")!)).toEqual(["a"]);
+    });
+
+    it("skips steps whose when condition is false", async () => {
+      mocks.runNodeCommand.mockImplementation(async (_node: NodeInfo, command: string) => ({
+        provider: "claude",
+        prompt: command,
+        contextSize: 0,
+        output: command === "check" ? "   " : `${command} done`,
+        commandText: command,
+        duration: 5,
+      }));
+      const workflow: Workflow = {
+        ...validWorkflow,
+        steps: [
+          step("check"),
+          step("publish", { when: "steps.check.output" }),
+          step("notify", { when: "!steps.check.output" }),
+        ],
+      };
+
+      const result = await executeWorkflow(workflow);
+
+      expect(result.steps.find((s) => s.stepId === "publish")).toMatchObject({
+        status: "skipped",
+      });
+      expect(result.steps.find((s) => s.stepId === "publish")?.error).toBeUndefined();
+      expect(result.steps.find((s) => s.stepId === "notify")).toMatchObject({
+        status: "completed",
+        output: "notify done",
+      });
+      expect(mocks.runNodeCommand).toHaveBeenCalledTimes(2);
+    });
+
+    it("skips steps whose conditional.skip is true", async () => {
+      const workflow: Workflow = {
+        ...validWorkflow,
+        steps: [
+          step("a"),
+          step("b", { conditional: { skip: "{{ steps.a.status == 'completed' }}" } }),
+        ],
+      };
+
+      const result = await executeWorkflow(workflow);
+
+      expect(result.steps.map((s) => s.status)).toEqual(["completed", "skipped"]);
+    });
+
+    it("honors conditions in dry runs", async () => {
+      const workflow: Workflow = {
+        ...validWorkflow,
+        steps: [step("a", { when: "vault.type == 'journal'" }), step("b")],
+      };
+
+      const result = await executeWorkflow(workflow, { dryRun: true });
+
+      expect(result.steps.map((s) => s.status)).toEqual(["skipped", "completed"]);
+    });
+
+    it("fails the step when a condition cannot be evaluated", async () => {
+      const workflow: Workflow = {
+        ...validWorkflow,
+        steps: [step("a"), step("b", { when: "steps.a.output | date:'YYYY'" })],
+      };
+
+      const result = await executeWorkflow(workflow);
+      const b = result.steps.find((s) => s.stepId === "b");
+
+      expect(b?.status).toBe("failed");
+      expect(b?.error).toContain("Invalid expression in when");
+    });
+  });
+
+  describe("retry and provider fallback", () => {
+    const step = (extra: Partial<WorkflowStep> = {}): WorkflowStep => ({
+      id: "flaky",
+      node: "music",
+      command: "flaky",
+      provider: "claude",
+      onError: "retry",
+      retry: { maxAttempts: 2, initialDelayMs: 1 },
+      ...extra,
+    });
+    const workflow = (...steps: WorkflowStep[]): Workflow => ({ ...validWorkflow, steps });
+
+    // Providers listed here exit non-zero; everything else succeeds
+    const failing = new Map<string, number>();
+    beforeEach(() => {
+      failing.clear();
+      mocks.runNodeCommand.mockImplementation(
+        async (_node: NodeInfo, command: string, options: { provider: string }) => {
+          const remaining = failing.get(options.provider) ?? 0;
+          if (remaining > 0) {
+            failing.set(options.provider, remaining - 1);
+            throw new Error(`${options.provider} exited with code 1`);
+          }
+          return {
+            provider: options.provider,
+            prompt: command,
+            contextSize: 0,
+            output: `${command} via ${options.provider}`,
+            commandText: command,
+            duration: 1,
+          };
+        }
+      );
+    });
+
+    it("retries a failing provider until it succeeds", async () => {
+      failing.set("claude", 1);
+
+      const result = await executeWorkflowStep(workflow(step()), step(), new Map());
+
+      expect(result.status).toBe("completed");
+      expect(result.provider).toBe("claude");
+      expect(result.attempts?.map((a) => [a.attempt, a.provider, a.status])).toEqual([
+        [1, "claude", "failed"],
+        [2, "claude", "completed"],
+      ]);
+      expect(result.attempts?.[0].error).toBe("claude exited with code 1");
+    });
+
+    it("walks fallback providers after exhausting retries", async () => {
+      failing.set("claude", 5);
+      failing.set("gpt", 5);
+      const flaky = step({ fallbackProviders: ["gpt", "ollama"] });
+
+      const result = await executeWorkflowStep(workflow(flaky), flaky, new Map());
+
+      expect(result.status).toBe("completed");
+      expect(result.output).toBe("flaky via ollama");
+      expect(result.provider).toBe("ollama");
+      expect(result.attempts?.map((a) => `${a.provider}:${a.status}`)).toEqual([
+        "claude:failed",
+        "claude:failed",
+        "gpt:failed",
+        "gpt:failed",
+        "ollama:completed",
+      ]);
+      expect(mocks.recordSession.mock.calls[0][4]).toBe("ollama");
+    });
+
+    it("tries each fallback once without the retry strategy", async () => {
+      failing.set("claude", 5);
+      const flaky = step({ onError: "continue", fallbackProviders: ["gpt"] });
+
+      const result = await executeWorkflowStep(workflow(flaky), flaky, new Map());
+
+      expect(result.provider).toBe("gpt");
+      expect(result.attempts).toHaveLength(2);
+    });
+
+    it("fails with every attempt recorded and stops the workflow", async () => {
+      failing.set("claude", 5);
+      failing.set("gpt", 5);
+      const flaky = step({ fallbackProviders: ["gpt"] });
+      const later: WorkflowStep = {
+        id: "later",
+        node: "journal",
+        command: "later",
+        onError: "stop",
+        conditional: { requires: ["flaky"] },
+      };
+
+      const result = await executeWorkflow(workflow(flaky, later));
+      const failed = result.steps[0];
+
+      expect(failed.status).toBe("failed");
+      expect(failed.error).toBe("Failed after 4 attempts: gpt exited with code 1");
+      expect(failed.provider).toBe("gpt");
+      expect(failed.attempts).toHaveLength(4);
+      expect(result.steps[1].status).toBe("skipped");
+    });
+
+    it("skips to the next provider when one isn't set up", async () => {
+      mocks.runNodeCommand.mockRejectedValueOnce(
+        new Error("All providers failed (claude: Provider 'claude' is not installed.)")
+      );
+      const flaky = step({ fallbackProviders: ["gpt"] });
+
+      const result = await executeWorkflowStep(workflow(flaky), flaky, new Map());
+
+      expect(result.provider).toBe("gpt");
+      expect(result.attempts?.map((a) => `${a.provider}:${a.status}`)).toEqual([
+        "claude:failed",
+        "gpt:completed",
+      ]);
+    });
+
+    it("does not retry or fall back when the command is missing", async () => {
+      mocks.runNodeCommand.mockRejectedValue(
+        new Error("Command 'flaky' not found in vault 'music-vault'")
+      );
+      const flaky = step({ fallbackProviders: ["gpt"] });
+
+      const result = await executeWorkflowStep(workflow(flaky), flaky, new Map());
+
+      expect(result.status).toBe("failed");
+      expect(result.attempts).toHaveLength(1);
+      expect(mocks.runNodeCommand).toHaveBeenCalledTimes(1);
+    });
+
+    it("does not retry when the node cannot be resolved", async () => {
+      const flaky = step({ node: "missing" });
+
+      const result = await executeWorkflowStep(workflow(flaky), flaky, new Map());
+
+      expect(result.status).toBe("failed");
+      expect(result.attempts).toBeUndefined();
+      expect(mocks.runNodeCommand).not.toHaveBeenCalled();
+    });
+
+    it("backs off exponentially up to the cap", () => {
+      const policy = { initialDelayMs: 100, backoffFactor: 2, maxDelayMs: 350 };
+      expect([1, 2, 3, 4].map((n) => getRetryDelay(policy, n))).toEqual([100, 200, 350, 350]);
+      expect(getRetryDelay({}, 2)).toBe(2000);
+    });
+
+    it("persists attempts with the run", async () => {
+      failing.set("claude", 1);
+      const runsPath = path.join(nodeDir, ".bozly", "workflows", "runs");
+
+      const result = await executeWorkflow(workflow(step()), { runsPath });
+      const run = await loadWorkflowRun(runsPath, result.runId!);
+
+      expect(run?.steps[0].provider).toBe("claude");
+      expect(run?.steps[0].attempts).toHaveLength(2);
+    });
+
+    it("validates retry settings", () => {
+      const errors = validateWorkflow(
+        workflow(
+          step({
+            retry: { maxAttempts: 0, initialDelayMs: -1, backoffFactor: 0.5 },
+            fallbackProviders: [""],
+          })
+        ),
+        mockRegistry
+      );
+
+      expect(errors.map((e) => e.field).sort()).toEqual([
+        "fallbackProviders",
+        "retry.backoffFactor",
+        "retry.initialDelayMs",
+        "retry.maxAttempts",
+      ]);
+      expect(validateWorkflow(workflow(step()), mockRegistry)).toEqual([]);
+    });
+  });
+
+  describe("dependency graph", () => {
+    const graphWorkflow = (steps: WorkflowStep[]): Workflow => ({
+      ...validWorkflow,
+      steps,
+    });
+    const step = (id: string, node: string, requires?: string[]): WorkflowStep => ({
+      id,
+      node,
+      command: id,
+      onError: "continue",
+      ...(requires && { conditional: { requires } }),
+    });
+
+    // Track how many commands run at once
+    let active = 0;
+    let maxActive = 0;
+    const order: string[] = [];
+    beforeEach(() => {
+      active = 0;
+      maxActive = 0;
+      order.length = 0;
+      mocks.runNodeCommand.mockImplementation(
+        async (node: NodeInfo, command: string, options: { provider?: string }) => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          order.push(`start:${command}`);
+          await new Promise((resolve) => setTimeout(resolve, 15));
+          active--;
+          order.push(`end:${command}`);
+          return {
+            provider: options.provider ?? "claude",
+            prompt: command,
+            contextSize: 0,
+            output: `${command}@${node.id}`,
+            commandText: command,
+            duration: 15,
+          };
+        }
+      );
+    });
+
+    it("builds edges from requires and step output references", () => {
+      const workflow = graphWorkflow([
+        step("a", "music"),
+        step("b", "journal", ["a"]),
+        { ...step("c", "music"), context: { prev: "{{ steps.b.output }}" } },
+      ]);
+
+      const graph = buildWorkflowGraph(workflow);
+      expect(Array.from(graph.get("a")!)).toEqual([]);
+      expect(Array.from(graph.get("b")!)).toEqual(["a"]);
+      expect(Array.from(graph.get("c")!)).toEqual(["b"]);
+    });
+
+    it("finds dependency cycles", () => {
+      const workflow = graphWorkflow([
+        step("a", "music", ["c"]),
+        step("b", "journal", ["a"]),
+        step("c", "music", ["b"]),
+      ]);
+
+      expect(findWorkflowCycle(workflow)).toEqual(["a", "c", "b", "a"]);
+    });
+
+    it("validateWorkflow rejects cycles", () => {
+      const workflow = graphWorkflow([step("a", "music", ["b"]), step("b", "journal", ["a"])]);
+
+      const errors = validateWorkflow(workflow, mockRegistry);
+      expect(errors.some((e) => e.message.includes("Dependency cycle detected"))).toBe(true);
+    });
+
+    it("validateWorkflow allows requiring a step defined later", () => {
+      const workflow = graphWorkflow([step("a", "music", ["b"]), step("b", "journal")]);
+
+      expect(validateWorkflow(workflow, mockRegistry)).toEqual([]);
+    });
+
+    it("validateWorkflow rejects invalid maxParallel", () => {
+      const errors = validateWorkflow({ ...validWorkflow, maxParallel: 0 }, mockRegistry);
+      expect(errors.some((e) => e.field === "maxParallel")).toBe(true);
+    });
+
+    it("runs independent steps on different nodes concurrently", async () => {
+      const workflow = graphWorkflow([step("a", "music"), step("b", "journal")]);
+
+      const result = await executeWorkflow(workflow);
+      expect(result.stepsCompleted).toBe(2);
+      expect(maxActive).toBe(2);
+    });
+
+    it("never overlaps steps on the same node", async () => {
+      const workflow = graphWorkflow([step("a", "music"), step("b", "music")]);
+
+      await executeWorkflow(workflow);
+      expect(maxActive).toBe(1);
+      expect(order).toEqual(["start:a", "end:a", "start:b", "end:b"]);
+    });
+
+    it("respects maxParallel", async () => {
+      const workflow = graphWorkflow([step("a", "music"), step("b", "journal")]);
+
+      await executeWorkflow(workflow, { maxParallel: 1 });
+      expect(maxActive).toBe(1);
+    });
+
+    it("falls back to the default limit for an invalid maxParallel", async () => {
+      const workflow = graphWorkflow([step("a", "music"), step("b", "journal")]);
+
+      const result = await executeWorkflow(workflow, { maxParallel: NaN });
+      expect(result.stepsCompleted).toBe(2);
+      expect(maxActive).toBe(2);
+    });
+
+    it("runs parallel steps quietly and hands over their output", async () => {
+      const workflow = graphWorkflow([step("a", "music"), step("b", "journal")]);
+      const outputs: string[] = [];
+
+      await executeWorkflow(workflow, { onStepOutput: (r) => outputs.push(r.stepId) });
+      expect(mocks.runNodeCommand.mock.calls.map((call) => call[2].quiet)).toEqual([true, true]);
+      expect(outputs.sort()).toEqual(["a", "b"]);
+
+      mocks.runNodeCommand.mockClear();
+      outputs.length = 0;
+      await executeWorkflow(workflow, {
+        maxParallel: 1,
+        onStepOutput: (r) => outputs.push(r.stepId),
+      });
+      expect(mocks.runNodeCommand.mock.calls.map((call) => call[2].quiet)).toEqual([false, false]);
+      expect(outputs).toEqual([]);
+    });
+
+    it("waits for required steps", async () => {
+      const workflow = graphWorkflow([step("b", "journal", ["a"]), step("a", "music")]);
+
+      await executeWorkflow(workflow);
+      expect(order).toEqual(["start:a", "end:a", "start:b", "end:b"]);
+    });
+
+    it("skips dependents of a failed required step", async () => {
+      mocks.runNodeCommand.mockRejectedValueOnce(new Error("boom"));
+      const workflow = graphWorkflow([step("a", "music"), step("b", "journal", ["a"])]);
+
+      const result = await executeWorkflow(workflow);
+      const dependent = result.steps.find((s) => s.stepId === "b");
+      expect(dependent?.status).toBe("skipped");
+      expect(dependent?.error).toContain("Required step 'a' did not complete");
+    });
+
+    it("reports per-step timing and the critical path", async () => {
+      const workflow = graphWorkflow([
+        step("a", "music"),
+        step("b", "journal"),
+        step("c", "journal", ["a", "b"]),
+      ]);
+
+      const result = await executeWorkflow(workflow);
+      for (const stepResult of result.steps) {
+        expect(stepResult.startTime).toBeDefined();
+        expect(stepResult.endTime).toBeDefined();
+      }
+      expect(result.criticalPath).toHaveLength(2);
+      expect(result.criticalPath?.[1]).toBe("c");
+    });
+
+    it("computes the longest chain by duration", () => {
+      const workflow = graphWorkflow([
+        step("a", "music"),
+        step("b", "journal"),
+        step("c", "journal", ["a", "b"]),
+      ]);
+
+      const critical = computeCriticalPath(workflow, [
+        { stepId: "a", status: "completed", duration: 100 },
+        { stepId: "b", status: "completed", duration: 300 },
+        { stepId: "c", status: "completed", duration: 50 },
+      ]);
+      expect(critical).toEqual({ path: ["b", "c"], duration: 350 });
+    });
+  });
+
+  describe("workflow runs", () => {
+    let runsPath: string;
+    beforeEach(() => {
+      runsPath = path.join(workflowsDir, "runs");
+    });
+
+    it("persists run state when runsPath is set", async () => {
+      const result = await executeWorkflow(validWorkflow, { runsPath });
+
+      expect(result.runId).toBeDefined();
+      const run = await loadWorkflowRun(runsPath, result.runId!);
+      expect(run?.workflowId).toBe("daily");
+      expect(run?.status).toBe("completed");
+      expect(run?.endTime).toBeDefined();
+      expect(run?.steps.map((s) => s.stepId)).toEqual(["journal-entry", "music-prep"]);
+      expect(run?.steps[0].sessionId).toBe("session-morning");
+      expect(run?.steps[0].nodeId).toBe("journal");
+      expect(run?.steps[0].output).toBe("morning@journal");
+    });
+
+    it("does not persist without runsPath", async () => {
+      const result = await executeWorkflow(validWorkflow);
+
+      expect(result.runId).toBeUndefined();
+      expect(await listWorkflowRuns(runsPath)).toEqual([]);
+    });
+
+    it("lists runs for a workflow, newest first", async () => {
+      const base = { workflowVersion: "1.0.0", status: "completed" as const, steps: [] };
+      await saveWorkflowRun(runsPath, {
+        ...base,
+        runId: "00000000-0000-4000-8000-000000000001",
+        workflowId: "daily",
+        startTime: "2026-01-01T00:00:00Z",
+      });
+      await saveWorkflowRun(runsPath, {
+        ...base,
+        runId: "00000000-0000-4000-8000-000000000002",
+        workflowId: "daily",
+        startTime: "2026-02-01T00:00:00Z",
+      });
+      await saveWorkflowRun(runsPath, {
+        ...base,
+        runId: "00000000-0000-4000-8000-000000000003",
+        workflowId: "weekly",
+        startTime: "2026-03-01T00:00:00Z",
+      });
+
+      const runs = await listWorkflowRuns(runsPath, "daily");
+      expect(runs.map((r) => r.runId)).toEqual([
+        "00000000-0000-4000-8000-000000000002",
+        "00000000-0000-4000-8000-000000000001",
+      ]);
+    });
+
+    it("returns null for a missing run", async () => {
+      expect(await loadWorkflowRun(runsPath, "00000000-0000-4000-8000-00000000000f")).toBeNull();
+    });
+
+    it("rejects run IDs that aren't UUIDs", async () => {
+      await expect(loadWorkflowRun(runsPath, "../../../config")).rejects.toThrow(
+        "Invalid workflow run ID: ../../../config"
+      );
+      await expect(
+        saveWorkflowRun(runsPath, {
+          runId: "../escaped",
+          workflowId: "daily",
+          workflowVersion: "1.0.0",
+          status: "completed",
+          startTime: "2026-01-01T00:00:00Z",
+          steps: [],
+        })
+      ).rejects.toThrow("Invalid workflow run ID");
+    });
+
+    it("resumes a run, skipping completed steps and rehydrating outputs", async () => {
+      const workflow: Workflow = {
+        ...validWorkflow,
+        steps: [
+          validWorkflow.steps[0],
+          {
+            id: "summary",
+            node: "music",
+            command: "summarize",
+            onError: "stop",
+            context: { previous: "{{ steps.journal-entry.output }}" },
+          },
+        ],
+      };
+      const priorRun: WorkflowRun = {
+        runId: "00000000-0000-4000-8000-000000000004",
+        workflowId: "daily",
+        workflowVersion: "1.0.0",
+        status: "partially_completed",
+        startTime: "2026-01-01T00:00:00Z",
+        steps: [
+          {
+            stepId: "journal-entry",
+            status: "completed",
+            duration: 10,
+            output: "Journal written",
+            nodeId: "journal",
+            sessionId: "old-session",
+          },
+          { stepId: "summary", status: "failed", duration: 5, error: "boom" },
+        ],
+      };
+      await saveWorkflowRun(runsPath, priorRun);
+
+      const result = await executeWorkflow(workflow, { runsPath, resumeRun: priorRun });
+
+      expect(mocks.runNodeCommand).toHaveBeenCalledTimes(1);
+      expect(mocks.runNodeCommand.mock.calls[0][1]).toBe("summarize");
+      expect(mocks.runNodeCommand.mock.calls[0][2].params).toBe("previous: Journal written");
+      expect(mocks.loadSession).toHaveBeenCalledWith("/journal", "old-session");
+      expect(result.status).toBe("completed");
+      expect(result.stepsCompleted).toBe(2);
+      expect(result.runId).toBe("00000000-0000-4000-8000-000000000004");
+
+      const run = await loadWorkflowRun(runsPath, "00000000-0000-4000-8000-000000000004");
+      expect(run?.status).toBe("completed");
+      expect(run?.resumedAt).toHaveLength(1);
+      expect(run?.steps.every((s) => s.status === "completed")).toBe(true);
     });
   });
 